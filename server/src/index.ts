@@ -1,11 +1,25 @@
 import { createApp } from './app.js'
 import { env } from './config/env.js'
+import { generateRecurringExpenses } from './lib/expenses.js'
+
+const RECURRING_EXPENSES_INTERVAL_MS = 60 * 60 * 1000
+
+// Lança as saídas recorrentes vencidas ao subir a API e depois a cada hora.
+const scheduleRecurringExpenses = () => {
+  const run = () =>
+    generateRecurringExpenses().catch((error) => {
+      console.error('Falha ao gerar saídas recorrentes:', error)
+    })
+  void run()
+  setInterval(run, RECURRING_EXPENSES_INTERVAL_MS)
+}
 
 const start = async () => {
   const app = createApp()
   app.listen(env.port, () => {
     console.log(`API rodando em http://localhost:${env.port}`)
   })
+  scheduleRecurringExpenses()
 }
 
 start().catch((error) => {
@@ -0,0 +1,162 @@
+// Taxas da adquirente por forma de pagamento e número de parcelas, usadas para o valor líquido e a previsão de repasses.
+import { z } from 'zod'
+import type { PaymentMethod } from '../types.js'
+import { supabase } from './supabase.js'
+
+export const cardFeeSchema = z.object({
+  method: z.enum(['Cartão de crédito', 'Cartão de débito']),
+  installments: z.number().int().min(1, 'Parcelas inválidas.').max(24, 'Parcelas inválidas.'),
+  feePercent: z.number().min(0, 'Taxa inválida.').max(100, 'Taxa inválida.'),
+  settlementDays: z.number().int().min(0, 'Prazo inválido.').max(365, 'Prazo inválido.'),
+})
+
+export type CardMethod = Extract<PaymentMethod, 'CARTAO_CREDITO' | 'CARTAO_DEBITO'>
+
+export type CardFee = {
+  id: string
+  method: CardMethod
+  installments: number
+  feePercent: number
+  settlementDays: number
+}
+
+export type SettlementPayment = {
+  id: string
+  method: string
+  amount: number
+  installments: number | null
+}
+
+// Sem taxa cadastrada o repasse segue o prazo usual: débito em D+1 e crédito em D+30 por parcela.
+const DEFAULT_SETTLEMENT_DAYS: Record<CardMethod, number> = {
+  CARTAO_CREDITO: 30,
+  CARTAO_DEBITO: 1,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const INSTALLMENT_INTERVAL_DAYS = 30
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+export const isCardMethod = (method: string): method is CardMethod => method === 'CARTAO_CREDITO' || method === 'CARTAO_DEBITO'
+
+export const loadCardFees = async () => {
+  const { data, error } = await supabase
+    .from('card_fees')
+    .select('*')
+    .order('method', { ascending: true })
+    .order('installments', { ascending: true })
+  if (error) {
+    throw new Error(error.message)
+  }
+  return (data ?? []).map((fee) => ({
+    id: fee.id,
+    method: fee.method,
+    installments: Number(fee.installments),
+    feePercent: Number(fee.feePercent ?? 0),
+    settlementDays: Number(fee.settlementDays ?? 0),
+  })) as CardFee[]
+}
+
+// Usa a faixa exata de parcelas ou, na falta dela, a maior faixa cadastrada abaixo do número de parcelas.
+const findCardFee = (fees: CardFee[], method: CardMethod, installments: number) =>
+  fees
+    .filter((fee) => fee.method === method && fee.installments <= installments)
+    .sort((a, b) => b.installments - a.installments)[0]
+
+export const computeSettlement = (payment: SettlementPayment, saleDate: Date, fees: CardFee[]) => {
+  const gross = Number(payment.amount)
+  if (!isCardMethod(payment.method)) {
+    return { gross, fee: 0, net: gross, feePercent: 0, schedule: [{ date: saleDate.toISOString(), amount: gross }] }
+  }
+  const installments = payment.method === 'CARTAO_CREDITO' ? Math.max(1, payment.installments ?? 1) : 1
+  const rule = findCardFee(fees, payment.method, installments)
+  const feePercent = rule?.feePercent ?? 0
+  const settlementDays = rule?.settlementDays ?? DEFAULT_SETTLEMENT_DAYS[payment.method]
+  const fee = roundMoney((gross * feePercent) / 100)
+  const net = roundMoney(gross - fee)
+
+  // O crédito parcelado cai uma parcela por mês; a última absorve a diferença de arredondamento.
+  const parcel = roundMoney(net / installments)
+  const schedule = Array.from({ length: installments }, (_, index) => ({
+    date: new Date(saleDate.getTime() + (settlementDays + index * INSTALLMENT_INTERVAL_DAYS) * DAY_MS).toISOString(),
+    amount: index === installments - 1 ? roundMoney(net - parcel * (installments - 1)) : parcel,
+  }))
+  return { gross, fee, net, feePercent, schedule }
+}
+
+// Janela de busca das vendas: o repasse mais distante possível a partir da data da venda.
+const getSettlementLookbackDays = (fees: CardFee[]) =>
+  Math.max(DEFAULT_SETTLEMENT_DAYS.CARTAO_CREDITO, ...fees.map((fee) => fee.settlementDays)) +
+  INSTALLMENT_INTERVAL_DAYS * 24
+
+type SettlementSale = {
+  id: string
+  publicId: string | null
+  createdAt: string
+  client: { name: string } | null
+  payments: (SettlementPayment & { id: string })[]
+}
+
+// Repasses previstos entre as datas: cada pagamento em cartão vira parcelas líquidas com data prevista de crédito.
+export const buildSettlementForecast = async (rangeStart: Date, rangeEnd: Date) => {
+  const fees = await loadCardFees()
+  const lookbackStart = new Date(rangeStart.getTime() - getSettlementLookbackDays(fees) * DAY_MS)
+  const { data, error } = await supabase
+    .from('sales')
+    .select('id, publicId, createdAt, client:clientId(name), payments:sale_payments(id, method, amount, installments)')
+    .neq('status', 'cancelada')
+    .gte('createdAt', lookbackStart.toISOString())
+    .lte('createdAt', rangeEnd.toISOString())
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const days = new Map<string, { date: string; gross: number; net: number; count: number }>()
+  const payments = ((data ?? []) as unknown as SettlementSale[]).flatMap((sale) =>
+    (sale.payments ?? [])
+      .filter((payment) => isCardMethod(payment.method))
+      .map((payment) => {
+        const settlement = computeSettlement(payment, new Date(sale.createdAt), fees)
+        const upcoming = settlement.schedule.filter((entry) => {
+          const date = new Date(entry.date)
+          return date >= rangeStart && date <= rangeEnd
+        })
+        const parcelShare = settlement.schedule.length ? settlement.gross / settlement.schedule.length : 0
+        upcoming.forEach((entry) => {
+          const key = entry.date.slice(0, 10)
+          const day = days.get(key) ?? { date: key, gross: 0, net: 0, count: 0 }
+          day.gross = roundMoney(day.gross + parcelShare)
+          day.net = roundMoney(day.net + entry.amount)
+          day.count += 1
+          days.set(key, day)
+        })
+        return {
+          paymentId: payment.id,
+          saleId: sale.id,
+          publicId: sale.publicId ?? sale.id,
+          clientName: sale.client?.name ?? '',
+          method: payment.method,
+          installments: payment.installments ?? 1,
+          saleDate: sale.createdAt,
+          gross: settlement.gross,
+          fee: settlement.fee,
+          net: settlement.net,
+          feePercent: settlement.feePercent,
+          schedule: settlement.schedule,
+          upcoming: roundMoney(upcoming.reduce((sum, entry) => sum + entry.amount, 0)),
+        }
+      })
+      .filter((payment) => payment.upcoming > 0),
+  )
+
+  const dayList = [...days.values()].sort((a, b) => a.date.localeCompare(b.date))
+  return {
+    start: rangeStart.toISOString(),
+    end: rangeEnd.toISOString(),
+    totalGross: roundMoney(dayList.reduce((sum, day) => sum + day.gross, 0)),
+    totalNet: roundMoney(dayList.reduce((sum, day) => sum + day.net, 0)),
+    days: dayList,
+    payments: payments.sort((a, b) => a.saleDate.localeCompare(b.saleDate)),
+  }
+}
@@ -0,0 +1,124 @@
+// Projeção de caixa: repasses de cartão, parcelas a receber, saídas agendadas e recorrentes somados por dia ou semana.
+import { buildSettlementForecast } from './card-fees.js'
+import { listOccurrences, loadExpenseRecurrences, toExpenseDate } from './expenses.js'
+import { DAY_MS, RECEIVABLE_METHODS, getOpenDues, loadReceivableSales } from './receivables.js'
+import { supabase } from './supabase.js'
+
+export type CashFlowGranularity = 'dia' | 'semana'
+
+export type CashFlowPeriod = {
+  start: string
+  end: string
+  settlements: number
+  receivables: number
+  expenses: number
+  net: number
+  balance: number
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+// Recebíveis já vencidos ficam fora da projeção e são informados à parte, pois não há data confiável de entrada.
+export const buildCashFlowProjection = async (
+  start: Date,
+  days: number,
+  openingBalance: number,
+  granularity: CashFlowGranularity,
+) => {
+  const end = new Date(start.getTime() + days * DAY_MS)
+  const [settlements, receivableSales, recurrences, expensesResult] = await Promise.all([
+    buildSettlementForecast(start, end),
+    loadReceivableSales(),
+    loadExpenseRecurrences(true),
+    supabase
+      .from('finance_expenses')
+      .select('amount, date')
+      .gte('date', start.toISOString())
+      .lt('date', end.toISOString()),
+  ])
+  if (expensesResult.error) {
+    throw new Error(expensesResult.error.message)
+  }
+
+  const periodDays = granularity === 'semana' ? 7 : 1
+  const periods: CashFlowPeriod[] = Array.from({ length: Math.ceil(days / periodDays) }, (_, index) => ({
+    start: new Date(start.getTime() + index * periodDays * DAY_MS).toISOString(),
+    end: new Date(Math.min(end.getTime(), start.getTime() + (index + 1) * periodDays * DAY_MS)).toISOString(),
+    settlements: 0,
+    receivables: 0,
+    expenses: 0,
+    net: 0,
+    balance: 0,
+  }))
+  const findPeriod = (date: Date) => {
+    const index = Math.floor((date.getTime() - start.getTime()) / (periodDays * DAY_MS))
+    return index >= 0 && index < periods.length ? periods[index] : undefined
+  }
+
+  settlements.payments.forEach((payment) =>
+    payment.schedule.forEach((entry) => {
+      const period = findPeriod(new Date(entry.date))
+      if (period) period.settlements += entry.amount
+    }),
+  )
+
+  let overdueReceivables = 0
+  receivableSales.forEach((sale) =>
+    (sale.payments ?? [])
+      .filter((payment) => RECEIVABLE_METHODS.includes(payment.method))
+      .forEach((payment) =>
+        getOpenDues(sale, payment).forEach((due) => {
+          if (due.dueDate < start) {
+            overdueReceivables += due.open
+            return
+          }
+          const period = findPeriod(due.dueDate)
+          if (period) period.receivables += due.open
+        }),
+      ),
+  )
+
+  ;(expensesResult.data ?? []).forEach((expense) => {
+    const period = findPeriod(new Date(expense.date))
+    if (period) period.expenses += Number(expense.amount ?? 0)
+  })
+
+  // Recorrências ainda não lançadas entram pelas próximas datas de vencimento dentro do horizonte.
+  recurrences.forEach((recurrence) =>
+    listOccurrences(recurrence, new Date(end.getTime() - 1)).dates.forEach((day) => {
+      const period = findPeriod(new Date(toExpenseDate(day)))
+      if (period) period.expenses += recurrence.amount
+    }),
+  )
+
+  let balance = openingBalance
+  let firstNegative: string | null = null
+  let minBalance = openingBalance
+  periods.forEach((period) => {
+    period.settlements = roundMoney(period.settlements)
+    period.receivables = roundMoney(period.receivables)
+    period.expenses = roundMoney(period.expenses)
+    period.net = roundMoney(period.settlements + period.receivables - period.expenses)
+    balance = roundMoney(balance + period.net)
+    period.balance = balance
+    minBalance = Math.min(minBalance, balance)
+    if (balance < 0 && !firstNegative) firstNegative = period.start
+  })
+
+  return {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    granularity,
+    openingBalance,
+    totals: {
+      settlements: roundMoney(periods.reduce((sum, period) => sum + period.settlements, 0)),
+      receivables: roundMoney(periods.reduce((sum, period) => sum + period.receivables, 0)),
+      expenses: roundMoney(periods.reduce((sum, period) => sum + period.expenses, 0)),
+    },
+    overdueReceivables: roundMoney(overdueReceivables),
+    closingBalance: balance,
+    minBalance,
+    firstNegative,
+    periods,
+  }
+}
@@ -0,0 +1,154 @@
+// Caixa físico: pagamentos e saídas em dinheiro ficam ligados à sessão aberta no momento do lançamento.
+import { z } from 'zod'
+import type { CashMovementType } from '../types.js'
+import { supabase } from './supabase.js'
+
+export const openCashSessionSchema = z.object({
+  openingAmount: z.number().nonnegative('Informe o troco inicial.'),
+  note: z.string().trim().optional(),
+})
+
+export const cashMovementSchema = z.object({
+  type: z.enum(['sangria', 'suprimento']),
+  amount: z.number().positive('Valor deve ser positivo.'),
+  reason: z.string().trim().min(3, 'Informe o motivo.'),
+})
+
+export const closeCashSessionSchema = z.object({
+  countedAmount: z.number().nonnegative('Informe o valor contado.'),
+  note: z.string().trim().optional(),
+})
+
+export type CashSessionRow = {
+  id: string
+  status: 'aberto' | 'fechado'
+  openingAmount: number
+  openedAt: string
+  closedAt: string | null
+  countedAmount: number | null
+  expectedAmount: number | null
+  difference: number | null
+  note: string | null
+  details: CashSessionDetails | null
+  openedBy: { id: string; name: string } | null
+  closedBy: { id: string; name: string } | null
+}
+
+export type CashSessionDetails = {
+  payments: { id: string; saleId: string; publicId: string; clientName: string; amount: number; createdAt: string }[]
+  expenses: { id: string; description: string; amount: number; date: string }[]
+  movements: { id: string; type: CashMovementType; amount: number; reason: string; createdAt: string }[]
+  totals: {
+    opening: number
+    sales: number
+    expenses: number
+    withdrawals: number
+    deposits: number
+    expected: number
+  }
+}
+
+// Recebimentos posteriores à venda trazem a data em que foram registrados.
+type CashPaymentRow = {
+  id: string
+  amount: number
+  receivedAt?: string
+  sale: { id: string; publicId: string | null; status: string; createdAt: string; client: { name: string } | null } | null
+}
+
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+const sumAmounts = (rows: { amount: number }[]) => roundMoney(rows.reduce((sum, row) => sum + row.amount, 0))
+
+export const fetchCashSession = async (id: string) => {
+  const { data, error } = await supabase
+    .from('cash_sessions')
+    .select('*, openedBy:openedById(id, name), closedBy:closedById(id, name)')
+    .eq('id', id)
+    .single()
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Sessão de caixa não encontrada.')
+  }
+  return data as CashSessionRow
+}
+
+// Vendas canceladas ficam de fora: o dinheiro volta ao cliente no cancelamento.
+export const buildCashSessionDetails = async (session: Pick<CashSessionRow, 'id' | 'openingAmount'>) => {
+  const [paymentsResult, receiptsResult, expensesResult, movementsResult] = await Promise.all([
+    supabase
+      .from('sale_payments')
+      .select('id, amount, sale:saleId(id, publicId, status, createdAt, client:clientId(name))')
+      .eq('cashSessionId', session.id),
+    supabase
+      .from('sale_payment_receipts')
+      .select('id, amount, receivedAt, sale:saleId(id, publicId, status, createdAt, client:clientId(name))')
+      .eq('cashSessionId', session.id),
+    supabase.from('finance_expenses').select('id, description, amount, date').eq('cashSessionId', session.id),
+    supabase
+      .from('cash_movements')
+      .select('id, type, amount, reason, createdAt')
+      .eq('sessionId', session.id)
+      .order('createdAt', { ascending: true }),
+  ])
+  const failure = paymentsResult.error ?? receiptsResult.error ?? expensesResult.error ?? movementsResult.error
+  if (failure) {
+    throw new Error(failure.message)
+  }
+
+  const payments = [
+    ...((paymentsResult.data ?? []) as unknown as CashPaymentRow[]),
+    ...((receiptsResult.data ?? []) as unknown as CashPaymentRow[]),
+  ]
+    .filter((payment) => payment.sale && payment.sale.status !== 'cancelada')
+    .map((payment) => ({
+      id: payment.id,
+      saleId: payment.sale?.id ?? '',
+      publicId: payment.sale?.publicId ?? payment.sale?.id ?? '',
+      clientName: payment.sale?.client?.name ?? 'Cliente removido',
+      amount: Number(payment.amount),
+      createdAt: payment.receivedAt ?? payment.sale?.createdAt ?? '',
+    }))
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+  const expenses = (expensesResult.data ?? [])
+    .map((expense) => ({
+      id: expense.id,
+      description: expense.description,
+      amount: Number(expense.amount),
+      date: expense.date,
+    }))
+    .sort((a, b) => String(a.date).localeCompare(String(b.date)))
+  const movements = (movementsResult.data ?? []).map((movement) => ({
+    id: movement.id,
+    type: movement.type as CashMovementType,
+    amount: Number(movement.amount),
+    reason: movement.reason,
+    createdAt: movement.createdAt,
+  }))
+
+  const opening = Number(session.openingAmount)
+  const sales = sumAmounts(payments)
+  const expensesTotal = sumAmounts(expenses)
+  const withdrawals = sumAmounts(movements.filter((movement) => movement.type === 'sangria'))
+  const deposits = sumAmounts(movements.filter((movement) => movement.type === 'suprimento'))
+  const details: CashSessionDetails = {
+    payments,
+    expenses,
+    movements,
+    totals: {
+      opening,
+      sales,
+      expenses: expensesTotal,
+      withdrawals,
+      deposits,
+      expected: roundMoney(opening + sales + deposits - expensesTotal - withdrawals),
+    },
+  }
+  return details
+}
+
+// Sessões fechadas devolvem o retrato gravado no fechamento; a aberta é calculada na hora.
+export const buildCashSessionReport = async (session: CashSessionRow) => {
+  const details = session.status === 'fechado' && session.details ? session.details : await buildCashSessionDetails(session)
+  return { ...session, details }
+}
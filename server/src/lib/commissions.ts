@@ -0,0 +1,226 @@
+// Cálculo de comissões: só vendas entregues e não canceladas, sobre o valor líquido de descontos e devoluções.
+import { z } from 'zod'
+import type { CommissionRuleType } from '../types.js'
+import { supabase } from './supabase.js'
+
+export const commissionRuleSchema = z
+  .object({
+    type: z.enum(['vendedor', 'produto', 'faixa']),
+    userId: z.string().min(5).optional(),
+    productId: z.string().min(5).optional(),
+    percent: z.number().min(0, 'Percentual inválido.').max(100, 'Percentual inválido.'),
+    minVolume: z.number().nonnegative().optional(),
+  })
+  .refine((rule) => rule.type !== 'vendedor' || rule.userId, 'Escolha o vendedor da regra.')
+  .refine((rule) => rule.type !== 'produto' || rule.productId, 'Escolha o produto da regra.')
+  .refine((rule) => rule.type !== 'faixa' || rule.minVolume !== undefined, 'Informe o volume mínimo da faixa.')
+
+export type CommissionRule = {
+  id: string
+  type: CommissionRuleType
+  userId: string | null
+  productId: string | null
+  percent: number
+  minVolume: number | null
+}
+
+type CommissionSaleRow = {
+  id: string
+  publicId: string | null
+  createdById: string
+  discount: number | null
+  createdBy: { id: string; name: string } | null
+  items: {
+    productId: string | null
+    customName: string | null
+    quantity: number
+    returnedQuantity: number | null
+    unitPrice: number
+    discount: number | null
+    deliveredAt: string | null
+    product: { name: string } | null
+  }[]
+}
+
+export type CommissionLine = {
+  productId: string | null
+  name: string
+  net: number
+  percent: number
+  commission: number
+  rule: CommissionRuleType | null
+}
+
+export type CommissionSale = {
+  saleId: string
+  publicId: string
+  deliveredAt: string
+  net: number
+  commission: number
+  lines: CommissionLine[]
+}
+
+export type CommissionSeller = {
+  userId: string
+  name: string
+  volume: number
+  commission: number
+  sales: CommissionSale[]
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${date.getMonth() + 1}`
+
+const getDeliveredAt = (sale: CommissionSaleRow) =>
+  sale.items.reduce<string | null>(
+    (latest, item) => (item.deliveredAt && (!latest || item.deliveredAt > latest) ? item.deliveredAt : latest),
+    null,
+  )
+
+type NetLineItem = {
+  quantity: number
+  returnedQuantity: number | null
+  unitPrice: number
+  discount: number | null
+}
+
+// Valor líquido por item: desconta devoluções, o desconto do item e a parte proporcional do desconto do pedido.
+export const getNetLines = <T extends NetLineItem>(sale: { discount: number | null; items: T[] }) => {
+  const lines = sale.items.map((item) => {
+    const keptQuantity = Math.max(0, item.quantity - (item.returnedQuantity ?? 0))
+    const share = item.quantity > 0 ? keptQuantity / item.quantity : 0
+    return { item, gross: (item.quantity * item.unitPrice - (item.discount ?? 0)) * share }
+  })
+  const grossTotal = lines.reduce((sum, line) => sum + line.gross, 0)
+  const orderShare = grossTotal > 0 ? Math.min(sale.discount ?? 0, grossTotal) / grossTotal : 0
+  return lines.map(({ item, gross }) => ({ item, net: Math.max(0, gross * (1 - orderShare)) }))
+}
+
+// Ordem de prioridade: regra do produto, depois a do vendedor, depois a faixa de volume mensal.
+const resolvePercent = (
+  rules: CommissionRule[],
+  sellerId: string,
+  productId: string | null,
+  monthlyVolume: number,
+): { percent: number; rule: CommissionRuleType | null } => {
+  const productRule = productId ? rules.find((rule) => rule.type === 'produto' && rule.productId === productId) : undefined
+  if (productRule) return { percent: productRule.percent, rule: 'produto' }
+  const sellerRule = rules.find((rule) => rule.type === 'vendedor' && rule.userId === sellerId)
+  if (sellerRule) return { percent: sellerRule.percent, rule: 'vendedor' }
+  const tiers = rules
+    .filter((rule) => rule.type === 'faixa' && (!rule.userId || rule.userId === sellerId))
+    .filter((rule) => monthlyVolume >= (rule.minVolume ?? 0))
+    .sort((a, b) => (b.minVolume ?? 0) - (a.minVolume ?? 0))
+  const sellerTier = tiers.find((rule) => rule.userId === sellerId)
+  const tier = sellerTier ?? tiers[0]
+  if (tier) return { percent: tier.percent, rule: 'faixa' }
+  return { percent: 0, rule: null }
+}
+
+export const loadCommissionRules = async () => {
+  const { data, error } = await supabase.from('commission_rules').select('*').order('createdAt', { ascending: true })
+  if (error) {
+    throw new Error(error.message)
+  }
+  return (data ?? []).map((rule) => ({
+    id: rule.id,
+    type: rule.type,
+    userId: rule.userId ?? null,
+    productId: rule.productId ?? null,
+    percent: Number(rule.percent ?? 0),
+    minVolume: rule.minVolume === null || rule.minVolume === undefined ? null : Number(rule.minVolume),
+  })) as CommissionRule[]
+}
+
+export const buildCommissionReport = async (start: Date, end: Date, sellerId?: string) => {
+  const rules = await loadCommissionRules()
+  // As faixas usam o volume do mês inteiro, então a busca cobre os meses completos do período.
+  const windowStart = new Date(start.getFullYear(), start.getMonth(), 1)
+  const windowEnd = new Date(end.getFullYear(), end.getMonth() + 1, 1)
+
+  let query = supabase
+    .from('sales')
+    .select(
+      `
+      id, publicId, createdById, discount,
+      createdBy:createdById(id, name),
+      items:sale_items(productId, customName, quantity, returnedQuantity, unitPrice, discount, deliveredAt, product:productId(name))
+    `,
+    )
+    .eq('status', 'entregue')
+    .not('createdById', 'is', null)
+    .lt('createdAt', windowEnd.toISOString())
+  if (sellerId) {
+    query = query.eq('createdById', sellerId)
+  }
+  const { data, error } = await query
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const delivered = ((data ?? []) as unknown as CommissionSaleRow[])
+    .map((sale) => ({ sale, deliveredAt: getDeliveredAt(sale), lines: getNetLines(sale) }))
+    .filter((entry): entry is typeof entry & { deliveredAt: string } => {
+      if (!entry.deliveredAt) return false
+      const deliveredAt = new Date(entry.deliveredAt)
+      return deliveredAt >= windowStart && deliveredAt < windowEnd
+    })
+
+  const monthlyVolumes = new Map<string, number>()
+  delivered.forEach(({ sale, deliveredAt, lines }) => {
+    const key = `${sale.createdById}|${monthKey(new Date(deliveredAt))}`
+    monthlyVolumes.set(key, (monthlyVolumes.get(key) ?? 0) + lines.reduce((sum, line) => sum + line.net, 0))
+  })
+
+  const sellers = new Map<string, CommissionSeller>()
+  delivered
+    .filter(({ deliveredAt }) => {
+      const date = new Date(deliveredAt)
+      return date >= start && date <= end
+    })
+    .forEach(({ sale, deliveredAt, lines }) => {
+      const volume = monthlyVolumes.get(`${sale.createdById}|${monthKey(new Date(deliveredAt))}`) ?? 0
+      const commissionLines = lines.map(({ item, net }) => {
+        const { percent, rule } = resolvePercent(rules, sale.createdById, item.productId, volume)
+        return {
+          productId: item.productId,
+          name: item.product?.name ?? item.customName ?? 'Item personalizado',
+          net: roundMoney(net),
+          percent,
+          commission: roundMoney((net * percent) / 100),
+          rule,
+        }
+      })
+      const saleNet = roundMoney(commissionLines.reduce((sum, line) => sum + line.net, 0))
+      const saleCommission = roundMoney(commissionLines.reduce((sum, line) => sum + line.commission, 0))
+      const seller = sellers.get(sale.createdById) ?? {
+        userId: sale.createdById,
+        name: sale.createdBy?.name ?? 'Usuário removido',
+        volume: 0,
+        commission: 0,
+        sales: [],
+      }
+      seller.volume = roundMoney(seller.volume + saleNet)
+      seller.commission = roundMoney(seller.commission + saleCommission)
+      seller.sales.push({
+        saleId: sale.id,
+        publicId: sale.publicId ?? sale.id,
+        deliveredAt,
+        net: saleNet,
+        commission: saleCommission,
+        lines: commissionLines,
+      })
+      sellers.set(sale.createdById, seller)
+    })
+
+  const sellerList = [...sellers.values()]
+    .map((seller) => ({ ...seller, sales: seller.sales.sort((a, b) => a.deliveredAt.localeCompare(b.deliveredAt)) }))
+    .sort((a, b) => b.commission - a.commission)
+  return {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    total: roundMoney(sellerList.reduce((sum, seller) => sum + seller.commission, 0)),
+    sellers: sellerList,
+  }
+}
@@ -0,0 +1,94 @@
+// Política de descontos por perfil: vendas fora dos limites seguem para aprovação do administrador.
+import { z } from 'zod'
+import type { UserRole } from '../types.js'
+import type { SaleItemInput } from './sales.js'
+import { supabase } from './supabase.js'
+
+export const discountPolicySchema = z.object({
+  maxDiscountPercent: z.number().min(0).max(100),
+  minMarginPercent: z.number().min(0).max(1000),
+})
+
+export type DiscountPolicy = z.infer<typeof discountPolicySchema> & { role: UserRole }
+
+const DEFAULT_POLICIES: Record<UserRole, DiscountPolicy> = {
+  admin: { role: 'admin', maxDiscountPercent: 100, minMarginPercent: 0 },
+  seller: { role: 'seller', maxDiscountPercent: 10, minMarginPercent: 0 },
+}
+
+type PricedProduct = {
+  name: string
+  price: number | null
+  factoryCost: number | null
+}
+
+const formatPercent = (value: number) => `${value.toFixed(1).replace('.', ',')}%`
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })
+
+export const listDiscountPolicies = async () => {
+  const { data, error } = await supabase.from('discount_policies').select('*')
+  if (error) {
+    throw new Error(error.message)
+  }
+  return (Object.keys(DEFAULT_POLICIES) as UserRole[]).map((role) => {
+    const stored = (data ?? []).find((row) => row.role === role)
+    return stored
+      ? {
+          role,
+          maxDiscountPercent: Number(stored.maxDiscountPercent),
+          minMarginPercent: Number(stored.minMarginPercent),
+        }
+      : DEFAULT_POLICIES[role]
+  })
+}
+
+export const loadDiscountPolicy = async (role: UserRole | undefined) => {
+  const policies = await listDiscountPolicies()
+  return policies.find((policy) => policy.role === role) ?? DEFAULT_POLICIES.seller
+}
+
+// O desconto do pedido é rateado entre os itens proporcionalmente ao valor de cada linha antes da comparação.
+export const evaluateDiscounts = (
+  items: SaleItemInput[],
+  orderDiscount: number,
+  productsMap: Map<string, PricedProduct>,
+  policy: DiscountPolicy,
+) => {
+  const reasons: string[] = []
+  if (items.some((item) => !item.productId)) {
+    reasons.push('Itens personalizados precisam de aprovação.')
+  }
+
+  const lines = items.map((item) => ({ item, net: item.quantity * item.unitPrice - (item.discount ?? 0) }))
+  const netTotal = lines.reduce((sum, line) => sum + line.net, 0)
+  const orderShare = netTotal > 0 ? Math.min(orderDiscount, netTotal) / netTotal : 0
+
+  let listTotal = 0
+  let catalogTotal = 0
+  for (const { item, net } of lines) {
+    if (!item.productId) continue
+    const product = productsMap.get(item.productId)
+    if (!product) continue
+    const finalUnitPrice = (net * (1 - orderShare)) / item.quantity
+    listTotal += Number(product.price ?? 0) * item.quantity
+    catalogTotal += finalUnitPrice * item.quantity
+
+    const floor = Number(product.factoryCost ?? 0) * (1 + policy.minMarginPercent / 100)
+    if (floor > 0 && finalUnitPrice < floor - 0.005) {
+      reasons.push(`${product.name} sai por ${formatCurrency(finalUnitPrice)}, abaixo do mínimo de ${formatCurrency(floor)}.`)
+    }
+  }
+
+  if (listTotal > 0) {
+    const discountPercent = ((listTotal - catalogTotal) / listTotal) * 100
+    if (discountPercent > policy.maxDiscountPercent + 0.005) {
+      reasons.push(
+        `Desconto de ${formatPercent(discountPercent)} acima do limite de ${formatPercent(policy.maxDiscountPercent)}.`,
+      )
+    }
+  }
+
+  return reasons
+}
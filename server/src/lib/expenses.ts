@@ -0,0 +1,149 @@
+// Saídas financeiras: categorias e modelos recorrentes que geram lançamentos em `finance_expenses`.
+import { z } from 'zod'
+import type { ExpenseFrequency } from '../types.js'
+import { normalizeMethod } from './sales.js'
+import { supabase } from './supabase.js'
+
+const expenseMethodSchema = z.enum(['PIX', 'Cartão de crédito', 'Cartão de débito', 'Dinheiro'])
+
+const dayStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida.')
+
+export const expenseSchema = z.object({
+  description: z.string().trim().min(3, 'Informe o que foi pago.'),
+  amount: z.number().positive('Valor deve ser positivo.'),
+  date: z.string().datetime(),
+  method: expenseMethodSchema,
+  categoryId: z.string().min(5).nullable().optional(),
+  note: z.string().trim().optional(),
+})
+
+export const expenseCategorySchema = z.object({
+  name: z.string().trim().min(2, 'Informe o nome da categoria.'),
+  active: z.boolean().optional(),
+})
+
+export const expenseRecurrenceSchema = z
+  .object({
+    description: z.string().trim().min(3, 'Informe o que é pago.'),
+    amount: z.number().positive('Valor deve ser positivo.'),
+    method: expenseMethodSchema,
+    categoryId: z.string().min(5).nullable().optional(),
+    note: z.string().trim().optional(),
+    frequency: z.enum(['mensal', 'semanal']),
+    startDate: dayStringSchema,
+    endDate: dayStringSchema.nullable().optional(),
+    active: z.boolean().optional(),
+  })
+  .refine((recurrence) => !recurrence.endDate || recurrence.endDate >= recurrence.startDate, 'O fim deve ser depois do início.')
+
+export type ExpenseRecurrence = {
+  id: string
+  description: string
+  amount: number
+  method: string
+  categoryId: string | null
+  note: string | null
+  frequency: ExpenseFrequency
+  startDate: string
+  anchorDay: number
+  nextDate: string
+  endDate: string | null
+  active: boolean
+}
+
+const toDayString = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+const parseDay = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+// Mensal mantém o dia de início (ou o último dia de meses mais curtos); semanal soma sete dias.
+const getNextOccurrence = (current: string, frequency: ExpenseFrequency, anchorDay: number) => {
+  const date = parseDay(current)
+  if (frequency === 'semanal') {
+    date.setDate(date.getDate() + 7)
+    return toDayString(date)
+  }
+  const lastDay = new Date(date.getFullYear(), date.getMonth() + 2, 0).getDate()
+  return toDayString(new Date(date.getFullYear(), date.getMonth() + 1, Math.min(anchorDay, lastDay)))
+}
+
+// Datas de vencimento a partir de `nextDate` até o limite informado, respeitando o fim do modelo.
+export const listOccurrences = (recurrence: ExpenseRecurrence, until: Date) => {
+  const limit = toDayString(until)
+  const dates: string[] = []
+  let current = recurrence.nextDate
+  while (current <= limit && (!recurrence.endDate || current <= recurrence.endDate)) {
+    dates.push(current)
+    current = getNextOccurrence(current, recurrence.frequency, recurrence.anchorDay)
+  }
+  return { dates, nextDate: current }
+}
+
+// Lançamentos ao meio-dia local para a data não mudar de dia ao converter o fuso.
+export const toExpenseDate = (day: string) => new Date(`${day}T12:00:00`).toISOString()
+
+export const toRecurrencePayload = (payload: z.infer<typeof expenseRecurrenceSchema>) => ({
+  description: payload.description.trim(),
+  amount: payload.amount,
+  method: normalizeMethod(payload.method),
+  categoryId: payload.categoryId ?? null,
+  note: payload.note?.trim() || null,
+  frequency: payload.frequency,
+  startDate: payload.startDate,
+  anchorDay: parseDay(payload.startDate).getDate(),
+  endDate: payload.endDate ?? null,
+  active: payload.active ?? true,
+})
+
+export const loadExpenseRecurrences = async (onlyActive = false) => {
+  let query = supabase.from('expense_recurrences').select('*').order('nextDate', { ascending: true })
+  if (onlyActive) {
+    query = query.eq('active', true)
+  }
+  const { data, error } = await query
+  if (error) {
+    throw new Error(error.message)
+  }
+  return (data ?? []).map((row) => ({
+    ...row,
+    amount: Number(row.amount),
+    anchorDay: Number(row.anchorDay),
+  })) as ExpenseRecurrence[]
+}
+
+// Gera os lançamentos vencidos até hoje. A chave única ("recurrenceId", date) torna a geração idempotente.
+export const generateRecurringExpenses = async (until = new Date()) => {
+  const recurrences = await loadExpenseRecurrences(true)
+  let created = 0
+  for (const recurrence of recurrences) {
+    const { dates, nextDate } = listOccurrences(recurrence, until)
+    if (!dates.length) continue
+    const { data, error } = await supabase
+      .from('finance_expenses')
+      .upsert(
+        dates.map((day) => ({
+          description: recurrence.description,
+          amount: recurrence.amount,
+          date: toExpenseDate(day),
+          method: recurrence.method,
+          categoryId: recurrence.categoryId,
+          note: recurrence.note,
+          recurrenceId: recurrence.id,
+        })),
+        { onConflict: 'recurrenceId,date', ignoreDuplicates: true },
+      )
+      .select('id')
+    if (error) {
+      throw new Error(error.message)
+    }
+    created += data?.length ?? 0
+    const { error: updateError } = await supabase.from('expense_recurrences').update({ nextDate }).eq('id', recurrence.id)
+    if (updateError) {
+      throw new Error(updateError.message)
+    }
+  }
+  return created
+}
@@ -0,0 +1,175 @@
+// Margem bruta: valor líquido dos itens menos o custo gravado em cada item, agrupada por venda, produto, categoria,
+// marca, vendedor e mês.
+import { getNetLines } from './commissions.js'
+import { supabase } from './supabase.js'
+
+export type CostedItem = {
+  productId: string | null
+  customName: string | null
+  isCustom: boolean | null
+  quantity: number
+  returnedQuantity: number | null
+  unitPrice: number
+  discount: number | null
+  unitCost: number | null
+  product: {
+    name: string
+    brand: string | null
+    category: { id: string; name: string } | null
+  } | null
+}
+
+type MarginSaleRow = {
+  id: string
+  publicId: string | null
+  createdAt: string
+  createdById: string | null
+  discount: number | null
+  createdBy: { id: string; name: string } | null
+  items: CostedItem[]
+}
+
+export const COSTED_ITEMS_SELECT =
+  'items:sale_items(productId, customName, isCustom, quantity, returnedQuantity, unitPrice, discount, unitCost, product:productId(name, brand, category:categoryId(id, name)))'
+
+export type MarginTotals = {
+  revenue: number
+  cost: number
+  margin: number
+  marginPercent: number
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+const toTotals = (revenue: number, cost: number): MarginTotals => ({
+  revenue: roundMoney(revenue),
+  cost: roundMoney(cost),
+  margin: roundMoney(revenue - cost),
+  marginPercent: revenue > 0 ? Math.round(((revenue - cost) / revenue) * 10000) / 100 : 0,
+})
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`
+
+type Accumulator = { revenue: number; cost: number }
+
+const accumulate = <T extends Accumulator>(map: Map<string, T>, key: string, create: () => T, revenue: number, cost: number) => {
+  const entry = map.get(key) ?? create()
+  entry.revenue += revenue
+  entry.cost += cost
+  map.set(key, entry)
+  return entry
+}
+
+// Vendas aguardando aprovação ficam de fora: itens personalizados só têm custo depois que o administrador aprova.
+export const buildMarginReport = async (start: Date, end: Date, sellerId?: string) => {
+  let query = supabase
+    .from('sales')
+    .select(
+      `
+      id, publicId, createdAt, createdById, discount,
+      createdBy:createdById(id, name),
+      ${COSTED_ITEMS_SELECT}
+    `,
+    )
+    .neq('status', 'cancelada')
+    .eq('requiresApproval', false)
+    .gte('createdAt', start.toISOString())
+    .lte('createdAt', end.toISOString())
+    .order('createdAt', { ascending: true })
+  if (sellerId) {
+    query = query.eq('createdById', sellerId)
+  }
+  const { data, error } = await query
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const products = new Map<string, Accumulator & { productId: string | null; name: string; quantity: number }>()
+  const sellers = new Map<string, Accumulator & { userId: string | null; name: string }>()
+  const months = new Map<string, Accumulator & { month: string }>()
+  const categories = new Map<string, Accumulator & { categoryId: string | null; name: string; quantity: number }>()
+  const brands = new Map<string, Accumulator & { name: string; quantity: number }>()
+  let missingCostItems = 0
+
+  const sales = ((data ?? []) as unknown as MarginSaleRow[]).map((sale) => {
+    let saleRevenue = 0
+    let saleCost = 0
+    getNetLines(sale).forEach(({ item, net }) => {
+      const keptQuantity = Math.max(0, item.quantity - (item.returnedQuantity ?? 0))
+      // Custo gravado no item na venda (catálogo) ou na aprovação (personalizados).
+      const unitCost = item.unitCost
+      if (unitCost === null && keptQuantity > 0) missingCostItems += 1
+      const cost = keptQuantity * Number(unitCost ?? 0)
+      saleRevenue += net
+      saleCost += cost
+      const name = item.product?.name ?? item.customName ?? 'Item personalizado'
+      const product = accumulate(
+        products,
+        item.productId ?? `custom:${name}`,
+        () => ({ productId: item.productId, name, quantity: 0, revenue: 0, cost: 0 }),
+        net,
+        cost,
+      )
+      product.quantity += keptQuantity
+      const category = item.product?.category ?? null
+      accumulate(
+        categories,
+        category?.id ?? 'sem-categoria',
+        () => ({ categoryId: category?.id ?? null, name: category?.name ?? 'Sem categoria', quantity: 0, revenue: 0, cost: 0 }),
+        net,
+        cost,
+      ).quantity += keptQuantity
+      const brand = item.product?.brand?.trim() || 'Sem marca'
+      accumulate(
+        brands,
+        brand.toLowerCase(),
+        () => ({ name: brand, quantity: 0, revenue: 0, cost: 0 }),
+        net,
+        cost,
+      ).quantity += keptQuantity
+    })
+    accumulate(
+      sellers,
+      sale.createdById ?? 'sem-vendedor',
+      () => ({ userId: sale.createdById, name: sale.createdBy?.name ?? 'Sem vendedor', revenue: 0, cost: 0 }),
+      saleRevenue,
+      saleCost,
+    )
+    const month = monthKey(new Date(sale.createdAt))
+    accumulate(months, month, () => ({ month, revenue: 0, cost: 0 }), saleRevenue, saleCost)
+    return {
+      saleId: sale.id,
+      publicId: sale.publicId ?? sale.id,
+      createdAt: sale.createdAt,
+      sellerName: sale.createdBy?.name ?? 'Sem vendedor',
+      ...toTotals(saleRevenue, saleCost),
+    }
+  })
+
+  const totals = toTotals(
+    sales.reduce((sum, sale) => sum + sale.revenue, 0),
+    sales.reduce((sum, sale) => sum + sale.cost, 0),
+  )
+  return {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    ...totals,
+    missingCostItems,
+    sales,
+    products: [...products.values()]
+      .map(({ revenue, cost, ...product }) => ({ ...product, ...toTotals(revenue, cost) }))
+      .sort((a, b) => b.margin - a.margin),
+    categories: [...categories.values()]
+      .map(({ revenue, cost, ...category }) => ({ ...category, ...toTotals(revenue, cost) }))
+      .sort((a, b) => b.revenue - a.revenue),
+    brands: [...brands.values()]
+      .map(({ revenue, cost, ...brand }) => ({ ...brand, ...toTotals(revenue, cost) }))
+      .sort((a, b) => b.revenue - a.revenue),
+    sellers: [...sellers.values()]
+      .map(({ revenue, cost, ...seller }) => ({ ...seller, ...toTotals(revenue, cost) }))
+      .sort((a, b) => b.margin - a.margin),
+    months: [...months.values()]
+      .map(({ revenue, cost, month }) => ({ month, ...toTotals(revenue, cost) }))
+      .sort((a, b) => a.month.localeCompare(b.month)),
+  }
+}
@@ -0,0 +1,122 @@
+// Pedidos de compra às fábricas: itens com custo combinado, recebimento parcial e vendas que aguardam a mercadoria.
+import { z } from 'zod'
+import type { PurchaseOrderStatus } from '../types.js'
+import { supabase } from './supabase.js'
+
+const dayStringSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data inválida.')
+
+export const purchaseOrderSchema = z
+  .object({
+    supplierId: z.string().min(5).nullable().optional(),
+    supplierName: z.string().trim().optional(),
+    expectedAt: dayStringSchema.nullable().optional(),
+    note: z.string().trim().optional(),
+    items: z
+      .array(
+        z.object({
+          productId: z.string().min(5),
+          quantity: z.number().int().positive('Quantidade deve ser positiva.'),
+          unitCost: z.number().nonnegative('Custo inválido.'),
+        }),
+      )
+      .min(1, 'Inclua ao menos um item.'),
+    saleIds: z.array(z.string().min(5)).default([]),
+  })
+  .refine((order) => order.supplierId || (order.supplierName ?? '').length >= 2, 'Informe a fábrica ou fornecedor.')
+
+export const purchaseOrderUpdateSchema = z.object({
+  supplierId: z.string().min(5).nullable().optional(),
+  supplierName: z.string().trim().min(2, 'Informe a fábrica ou fornecedor.').optional(),
+  expectedAt: dayStringSchema.nullable().optional(),
+  note: z.string().trim().optional(),
+})
+
+export const receiveSchema = z.object({
+  items: z
+    .array(z.object({ itemId: z.string().min(5), quantity: z.number().int().positive() }))
+    .min(1, 'Informe as quantidades recebidas.'),
+  note: z.string().trim().optional(),
+})
+
+export const OPEN_PURCHASE_STATUSES: PurchaseOrderStatus[] = ['aberto', 'parcialmente_recebido']
+
+export const PURCHASE_ORDER_SELECT = `
+  *,
+  createdBy:createdById(id, name),
+  supplier:supplierId(id, name, leadTimeDays),
+  items:purchase_order_items(*, product:productId(id, name, sku, quantity, reserved)),
+  links:purchase_order_sales(saleId, sale:saleId(id, publicId, status, deliveryDate, client:clientId(name)))
+`
+
+export type PurchaseOrderRow = {
+  id: string
+  status: PurchaseOrderStatus
+  items: { productId: string; quantity: number; receivedQuantity: number }[]
+  links: { saleId: string }[]
+}
+
+type WaitingSaleRow = {
+  id: string
+  publicId: string | null
+  status: string
+  deliveryDate: string | null
+  createdAt: string
+  client: { name: string } | null
+  items: { productId: string | null; quantity: number; deliveredQuantity: number | null }[]
+}
+
+// Com fornecedor cadastrado, o nome vem do cadastro e a previsão padrão soma o prazo de entrega dele.
+export const resolveSupplier = async (supplierId: string) => {
+  const { data, error } = await supabase.from('suppliers').select('id, name, leadTimeDays').eq('id', supplierId).maybeSingle()
+  if (error) {
+    throw new Error(error.message)
+  }
+  return data as { id: string; name: string; leadTimeDays: number | null } | null
+}
+
+export const addDays = (days: number, from = new Date()) => {
+  const date = new Date(from.getFullYear(), from.getMonth(), from.getDate() + days)
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+}
+
+export const fetchPurchaseOrder = async (id: string) => {
+  const { data, error } = await supabase.from('purchase_orders').select(PURCHASE_ORDER_SELECT).eq('id', id).single()
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Pedido de compra não encontrado.')
+  }
+  return data
+}
+
+// Vendas pendentes com itens ainda não entregues de algum produto do pedido, mais antigas primeiro.
+export const findWaitingSales = async (order: PurchaseOrderRow) => {
+  const productIds = [...new Set(order.items.map((item) => item.productId))]
+  if (!productIds.length) return []
+  const { data, error } = await supabase
+    .from('sales')
+    .select(
+      'id, publicId, status, deliveryDate, createdAt, client:clientId(name), items:sale_items!inner(productId, quantity, deliveredQuantity)',
+    )
+    .in('status', ['pendente', 'parcialmente_entregue'])
+    .in('sale_items.productId', productIds)
+    .order('createdAt', { ascending: true })
+  if (error) {
+    throw new Error(error.message)
+  }
+  const linked = new Set(order.links.map((link) => link.saleId))
+  return ((data ?? []) as unknown as WaitingSaleRow[])
+    .map((sale) => ({
+      saleId: sale.id,
+      publicId: sale.publicId ?? sale.id,
+      clientName: sale.client?.name ?? 'Cliente removido',
+      status: sale.status,
+      deliveryDate: sale.deliveryDate,
+      linked: linked.has(sale.id),
+      items: sale.items
+        .map((item) => ({
+          productId: item.productId as string,
+          pending: Math.max(0, item.quantity - (item.deliveredQuantity ?? 0)),
+        }))
+        .filter((item) => item.pending > 0),
+    }))
+    .filter((sale) => sale.items.length > 0)
+}
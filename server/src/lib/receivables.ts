@@ -0,0 +1,72 @@
+// Pagamentos que ficam a receber depois da venda: "Pagar na entrega" e o plano "Semanal na loja".
+import type { PaymentMethod } from '../types.js'
+import { supabase } from './supabase.js'
+
+export const DAY_MS = 24 * 60 * 60 * 1000
+export const RECEIVABLE_METHODS: PaymentMethod[] = ['PAGAMENTO_ENTREGA', 'SEMANAL_LOJA']
+
+export type ReceivablePayment = {
+  id: string
+  method: PaymentMethod
+  amount: number
+  weeklyWeeks: number | null
+  weeklyAmount: number | null
+  receivedAmount: number | null
+  receivedAt: string | null
+  weeklyInstallments?: { week: number; paidAmount: number }[]
+}
+
+export type ReceivableSale = {
+  id: string
+  publicId: string | null
+  clientId: string
+  status: string
+  createdAt: string
+  deliveryDate: string | null
+  client?: { id: string; name: string } | null
+  payments?: ReceivablePayment[]
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+// Parcelas em aberto de um pagamento a receber. A semana N do plano semanal vence N semanas após a venda;
+// "Pagar na entrega" vence na data de entrega prevista (ou na data da venda, se não houver).
+export const getOpenDues = (sale: ReceivableSale, payment: ReceivablePayment) => {
+  const saleDate = new Date(sale.createdAt).getTime()
+  if (payment.method === 'SEMANAL_LOJA') {
+    const weeks = Number(payment.weeklyWeeks ?? 0)
+    const weeklyAmount = Number(payment.weeklyAmount ?? 0)
+    return Array.from({ length: weeks }, (_, index) => {
+      const week = index + 1
+      const paid = (payment.weeklyInstallments ?? [])
+        .filter((installment) => installment.week === week)
+        .reduce((sum, installment) => sum + Number(installment.paidAmount ?? 0), 0)
+      return {
+        week,
+        dueDate: new Date(saleDate + week * 7 * DAY_MS),
+        open: roundMoney(Math.max(0, weeklyAmount - paid)),
+      }
+    }).filter((due) => due.open > 0)
+  }
+  const open = roundMoney(Math.max(0, Number(payment.amount) - Number(payment.receivedAmount ?? 0)))
+  const dueDate = sale.deliveryDate ? new Date(sale.deliveryDate) : new Date(saleDate)
+  return open > 0 ? [{ week: null, dueDate, open }] : []
+}
+
+export const loadReceivableSales = async () => {
+  const { data, error } = await supabase
+    .from('sales')
+    .select(
+      `
+      id, publicId, clientId, status, createdAt, deliveryDate,
+      client:clientId(id, name),
+      payments:sale_payments(*, weeklyInstallments:sale_payment_installments(*))
+    `,
+    )
+    .neq('status', 'cancelada')
+    .order('createdAt', { ascending: true })
+  if (error) {
+    throw new Error(error.message)
+  }
+  return (data ?? []) as unknown as ReceivableSale[]
+}
@@ -0,0 +1,133 @@
+// Sugestões de reposição: saldo disponível, reservas, pedidos de compra em aberto e giro de vendas por produto.
+import { OPEN_PURCHASE_STATUSES } from './purchases.js'
+import { DAY_MS } from './receivables.js'
+import { supabase } from './supabase.js'
+
+type ReorderProductRow = {
+  id: string
+  name: string
+  sku: string
+  quantity: number
+  reserved: number | null
+  factoryCost: number | null
+  reorderPoint: number | null
+  targetLevel: number | null
+  supplierId: string | null
+  supplier: { id: string; name: string; leadTimeDays: number | null } | null
+}
+
+export type ReorderSuggestion = {
+  productId: string
+  name: string
+  sku: string
+  available: number
+  reserved: number
+  onOrder: number
+  soldUnits: number
+  dailyVelocity: number
+  daysOfCover: number | null
+  reorderPoint: number
+  targetLevel: number
+  suggestedQuantity: number
+  unitCost: number
+  supplierId: string | null
+  supplierName: string | null
+  leadTimeDays: number
+  automatic: boolean
+}
+
+// Sem prazo cadastrado no fornecedor, considera duas semanas até a mercadoria chegar.
+const DEFAULT_LEAD_TIME_DAYS = 15
+// Sem nível alvo, a compra cobre o prazo de entrega mais um mês de vendas.
+const COVERAGE_DAYS = 30
+
+const sumByProduct = (rows: { productId: string | null; quantity: number }[]) => {
+  const totals = new Map<string, number>()
+  rows.forEach((row) => {
+    if (!row.productId) return
+    totals.set(row.productId, (totals.get(row.productId) ?? 0) + row.quantity)
+  })
+  return totals
+}
+
+// Produtos com ponto de reposição usam os níveis cadastrados; os demais entram pelo giro, quando venderam no período.
+export const buildReorderSuggestions = async (days: number) => {
+  const since = new Date(Date.now() - days * DAY_MS)
+  const [productsResult, soldResult, orderedResult] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, name, sku, quantity, reserved, factoryCost, reorderPoint, targetLevel, supplierId, supplier:supplierId(id, name, leadTimeDays)'),
+    supabase
+      .from('sale_items')
+      .select('productId, quantity, returnedQuantity, sale:saleId!inner(createdAt, status)')
+      .not('productId', 'is', null)
+      .neq('sale.status', 'cancelada')
+      .gte('sale.createdAt', since.toISOString()),
+    supabase
+      .from('purchase_order_items')
+      .select('productId, quantity, receivedQuantity, order:purchaseOrderId!inner(status)')
+      .in('order.status', OPEN_PURCHASE_STATUSES),
+  ])
+  const failure = productsResult.error ?? soldResult.error ?? orderedResult.error
+  if (failure) {
+    throw new Error(failure.message)
+  }
+
+  const sold = sumByProduct(
+    ((soldResult.data ?? []) as unknown as { productId: string | null; quantity: number; returnedQuantity: number | null }[]).map(
+      (item) => ({ productId: item.productId, quantity: Math.max(0, item.quantity - (item.returnedQuantity ?? 0)) }),
+    ),
+  )
+  const onOrder = sumByProduct(
+    ((orderedResult.data ?? []) as unknown as { productId: string; quantity: number; receivedQuantity: number }[]).map(
+      (item) => ({ productId: item.productId, quantity: item.quantity - item.receivedQuantity }),
+    ),
+  )
+
+  const suggestions: ReorderSuggestion[] = []
+  ;((productsResult.data ?? []) as unknown as ReorderProductRow[]).forEach((product) => {
+    const soldUnits = sold.get(product.id) ?? 0
+    const dailyVelocity = soldUnits / days
+    const automatic = product.reorderPoint === null
+    if (automatic && dailyVelocity === 0) return
+
+    const leadTimeDays = product.supplier?.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS
+    const reorderPoint = product.reorderPoint ?? Math.ceil(dailyVelocity * leadTimeDays)
+    const targetLevel = Math.max(
+      product.targetLevel ?? Math.ceil(dailyVelocity * (leadTimeDays + COVERAGE_DAYS)),
+      reorderPoint + 1,
+    )
+    const available = product.quantity
+    const incoming = onOrder.get(product.id) ?? 0
+    // Unidades reservadas já pertencem a vendas e não contam como saldo; o que está a caminho conta.
+    if (available + incoming > reorderPoint) return
+
+    suggestions.push({
+      productId: product.id,
+      name: product.name,
+      sku: product.sku,
+      available,
+      reserved: product.reserved ?? 0,
+      onOrder: incoming,
+      soldUnits,
+      dailyVelocity: Math.round(dailyVelocity * 100) / 100,
+      daysOfCover: dailyVelocity > 0 ? Math.floor(available / dailyVelocity) : null,
+      reorderPoint,
+      targetLevel,
+      suggestedQuantity: targetLevel - available - incoming,
+      unitCost: Number(product.factoryCost ?? 0),
+      supplierId: product.supplierId,
+      supplierName: product.supplier?.name ?? null,
+      leadTimeDays,
+      automatic,
+    })
+  })
+
+  return {
+    days,
+    since: since.toISOString(),
+    suggestions: suggestions.sort(
+      (a, b) => a.available - b.available || (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity),
+    ),
+  }
+}
@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { getRecognizedEntries, summarizeRevenue, type RecognitionSale } from './revenue-recognition.js'
+
+// Vendido em março, entregue em abril e pago com entrada no PIX e duas semanas na loja (abril e maio).
+const bookedSale: RecognitionSale = {
+  id: 'venda-1',
+  createdAt: '2025-03-20T12:00:00',
+  status: 'entregue',
+  requiresApproval: false,
+  value: 1200,
+  discount: 0,
+  items: [{ quantity: 2, unitPrice: 600, discount: 0, deliveredQuantity: 2, deliveredAt: '2025-04-05T12:00:00' }],
+  payments: [
+    { id: 'pix', method: 'PIX', amount: 400 },
+    {
+      id: 'semanal',
+      method: 'SEMANAL_LOJA',
+      amount: 800,
+      weeklyInstallments: [
+        { paidAmount: 400, paidAt: '2025-04-10T12:00:00' },
+        { paidAmount: 400, paidAt: '2025-05-10T12:00:00' },
+      ],
+    },
+  ],
+}
+
+const april = { start: new Date(2025, 3, 1), end: new Date(2025, 3, 30, 23, 59, 59) }
+
+describe('summarizeRevenue', () => {
+  it('reconhece a venda no mês da criação, da entrega ou de cada recebimento', () => {
+    assert.deepEqual(summarizeRevenue([bookedSale], { mode: 'criacao' }).monthlySeries, { '2025-3': 1200 })
+    assert.deepEqual(summarizeRevenue([bookedSale], { mode: 'entrega' }).monthlySeries, { '2025-4': 1200 })
+    assert.deepEqual(summarizeRevenue([bookedSale], { mode: 'caixa' }).monthlySeries, {
+      '2025-3': 400,
+      '2025-4': 400,
+      '2025-5': 400,
+    })
+  })
+
+  it('compara vendido, entregue e recebido dentro do mesmo período', () => {
+    const booked = summarizeRevenue([bookedSale], { mode: 'criacao', ...april })
+    const delivered = summarizeRevenue([bookedSale], { mode: 'entrega', ...april })
+    const received = summarizeRevenue([bookedSale], { mode: 'caixa', ...april })
+
+    assert.equal(booked.totalRevenue, 0)
+    assert.equal(delivered.totalRevenue, 1200)
+    assert.deepEqual(delivered.paymentsByMethod, { PIX: 400, SEMANAL_LOJA: 800 })
+    assert.equal(received.totalRevenue, 400)
+    assert.deepEqual(received.paymentsByMethod, { SEMANAL_LOJA: 400 })
+  })
+
+  it('reconhece na entrega só a parte entregue de cada item', () => {
+    const partial: RecognitionSale = {
+      ...bookedSale,
+      status: 'parcialmente_entregue',
+      items: [{ quantity: 2, unitPrice: 600, discount: 0, deliveredQuantity: 1, deliveredAt: '2025-04-05T12:00:00' }],
+    }
+    const summary = summarizeRevenue([partial], { mode: 'entrega' })
+
+    assert.equal(summary.totalRevenue, 600)
+    assert.equal(summary.pending, 1)
+  })
+
+  it('usa a data do recebimento do pagamento na entrega', () => {
+    const onDelivery: RecognitionSale = {
+      ...bookedSale,
+      payments: [
+        {
+          id: 'entrega',
+          method: 'PAGAMENTO_ENTREGA',
+          amount: 1200,
+          receivedAmount: 700,
+          receivedAt: '2025-04-05T12:00:00',
+        },
+      ],
+    }
+
+    assert.deepEqual(getRecognizedEntries(onDelivery, 'caixa'), [
+      { date: '2025-04-05T12:00:00', amount: 700, payment: onDelivery.payments?.[0] },
+    ])
+    assert.equal(summarizeRevenue([onDelivery], { mode: 'caixa', ...april }).totalRevenue, 700)
+  })
+
+  it('deixa canceladas e pedidos aguardando aprovação fora da receita', () => {
+    const cancelled: RecognitionSale = { ...bookedSale, id: 'venda-2', status: 'cancelada' }
+    const awaiting: RecognitionSale = { ...bookedSale, id: 'venda-3', status: 'pendente', requiresApproval: true }
+    const summary = summarizeRevenue([bookedSale, cancelled, awaiting], { mode: 'criacao' })
+
+    assert.equal(summary.totalRevenue, 1200)
+    assert.deepEqual(summary.cancelled, { count: 1, value: 1200 })
+    assert.deepEqual(summary.pendingApproval, { count: 1, value: 1200 })
+  })
+})
@@ -0,0 +1,177 @@
+// Reconhecimento de receita do resumo financeiro. Funções puras: recebem as vendas já carregadas e não acessam o banco.
+
+export type RecognitionMode = 'criacao' | 'entrega' | 'caixa'
+
+export type RecognitionPayment = {
+  id: string
+  method: string
+  amount: number
+  installments?: number | null
+  receivedAmount?: number | null
+  receivedAt?: string | null
+  weeklyInstallments?: { paidAmount: number; paidAt: string }[]
+}
+
+export type RecognitionSale = {
+  id: string
+  createdAt: string
+  status: string
+  requiresApproval: boolean | null
+  value: number
+  discount: number | null
+  items?: {
+    quantity: number
+    unitPrice: number
+    discount: number | null
+    deliveredQuantity: number | null
+    deliveredAt: string | null
+  }[]
+  payments?: RecognitionPayment[]
+}
+
+export type RecognizedEntry = {
+  date: string
+  amount: number
+  payment: RecognitionPayment | null
+}
+
+export type RevenueSummaryOptions = {
+  mode: RecognitionMode
+  start?: Date
+  end?: Date
+  method?: string | null
+  getPaymentFee?: (sale: RecognitionSale, payment: RecognitionPayment) => number
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+export const RECOGNITION_MODES: RecognitionMode[] = ['criacao', 'entrega', 'caixa']
+
+export const isRecognitionMode = (value: unknown): value is RecognitionMode =>
+  typeof value === 'string' && RECOGNITION_MODES.includes(value as RecognitionMode)
+
+// Distribui um valor entre os pagamentos da venda, na proporção de cada um.
+const splitByPayments = (sale: RecognitionSale, date: string, amount: number): RecognizedEntry[] => {
+  const payments = sale.payments ?? []
+  const paymentsTotal = payments.reduce((sum, payment) => sum + Number(payment.amount), 0)
+  if (!payments.length || paymentsTotal <= 0) {
+    return [{ date, amount, payment: null }]
+  }
+  return payments.map((payment) => ({ date, amount: (amount * Number(payment.amount)) / paymentsTotal, payment }))
+}
+
+// Na entrega, cada item reconhece a parte entregue do seu valor na data da última entrega daquele item.
+const getDeliveryEntries = (sale: RecognitionSale) => {
+  const items = sale.items ?? []
+  const itemsTotal = items.reduce((sum, item) => sum + item.quantity * item.unitPrice - (item.discount ?? 0), 0)
+  if (itemsTotal <= 0) return []
+  return items
+    .filter((item) => item.deliveredAt && (item.deliveredQuantity ?? 0) > 0 && item.quantity > 0)
+    .flatMap((item) => {
+      const itemValue = item.quantity * item.unitPrice - (item.discount ?? 0)
+      const deliveredShare = Math.min(1, (item.deliveredQuantity ?? 0) / item.quantity)
+      return splitByPayments(sale, item.deliveredAt as string, (Number(sale.value) * itemValue * deliveredShare) / itemsTotal)
+    })
+}
+
+// No caixa, cada recebimento conta na data em que foi registrado. Recebimentos parciais repetidos na mesma semana
+// ou no mesmo pagamento ficam na data do último registro, pois só ela é gravada.
+const getCashEntries = (sale: RecognitionSale) =>
+  (sale.payments ?? []).flatMap((payment): RecognizedEntry[] => {
+    if (payment.method === 'SEMANAL_LOJA') {
+      return (payment.weeklyInstallments ?? []).map((installment) => ({
+        date: installment.paidAt,
+        amount: Number(installment.paidAmount),
+        payment,
+      }))
+    }
+    if (payment.method === 'PAGAMENTO_ENTREGA') {
+      const received = Number(payment.receivedAmount ?? 0)
+      return received > 0 && payment.receivedAt ? [{ date: payment.receivedAt, amount: received, payment }] : []
+    }
+    return [{ date: sale.createdAt, amount: Number(payment.amount), payment }]
+  })
+
+export const getRecognizedEntries = (sale: RecognitionSale, mode: RecognitionMode): RecognizedEntry[] => {
+  if (mode === 'entrega') return getDeliveryEntries(sale)
+  if (mode === 'caixa') return getCashEntries(sale)
+  return splitByPayments(sale, sale.createdAt, Number(sale.value))
+}
+
+const isWithin = (date: string, start?: Date, end?: Date) => {
+  const time = new Date(date).getTime()
+  return (!start || time >= start.getTime()) && (!end || time <= end.getTime())
+}
+
+// Vendas canceladas nunca entram na receita. Pedidos aguardando aprovação ficam de fora e são somados à parte,
+// pela data da venda, para que o resumo bata com o painel.
+export const summarizeRevenue = (sales: RecognitionSale[], options: RevenueSummaryOptions) => {
+  const { mode, start, end, method } = options
+  const matchesMethod = (entry: RecognizedEntry) => !method || entry.payment?.method === method
+
+  let totalRevenue = 0
+  let discountTotal = 0
+  let cardFees = 0
+  let delivered = 0
+  let pending = 0
+  const pendingApproval = { count: 0, value: 0 }
+  const cancelled = { count: 0, value: 0 }
+  const paymentsByMethod: Record<string, number> = {}
+  const monthlySeries: Record<string, number> = {}
+
+  sales.forEach((sale) => {
+    const createdInRange = isWithin(sale.createdAt, start, end)
+    const hasMethod = !method || (sale.payments ?? []).some((payment) => payment.method === method)
+    if (sale.status === 'cancelada') {
+      if (createdInRange && hasMethod) {
+        cancelled.count += 1
+        cancelled.value += Number(sale.value)
+      }
+      return
+    }
+    if (sale.requiresApproval) {
+      if (createdInRange && hasMethod) {
+        pendingApproval.count += 1
+        pendingApproval.value += Number(sale.value)
+      }
+      return
+    }
+
+    const entries = getRecognizedEntries(sale, mode).filter(
+      (entry) => isWithin(entry.date, start, end) && matchesMethod(entry),
+    )
+    if (!entries.length) return
+
+    entries.forEach((entry) => {
+      totalRevenue += entry.amount
+      const date = new Date(entry.date)
+      const key = `${date.getFullYear()}-${date.getMonth() + 1}`
+      monthlySeries[key] = (monthlySeries[key] ?? 0) + entry.amount
+      if (!entry.payment) return
+      paymentsByMethod[entry.payment.method] = (paymentsByMethod[entry.payment.method] ?? 0) + entry.amount
+      // A taxa do cartão acompanha a fração do pagamento reconhecida no período.
+      const paymentAmount = Number(entry.payment.amount)
+      if (options.getPaymentFee && paymentAmount > 0) {
+        cardFees += (options.getPaymentFee(sale, entry.payment) * entry.amount) / paymentAmount
+      }
+    })
+    discountTotal += Number(sale.discount ?? 0)
+    if (sale.status === 'entregue') delivered += 1
+    if (sale.status === 'pendente' || sale.status === 'parcialmente_entregue') pending += 1
+  })
+
+  return {
+    mode,
+    totalRevenue: roundMoney(totalRevenue),
+    discountTotal: roundMoney(discountTotal),
+    cardFees: roundMoney(cardFees),
+    delivered,
+    pending,
+    pendingApproval: { count: pendingApproval.count, value: roundMoney(pendingApproval.value) },
+    cancelled: { count: cancelled.count, value: roundMoney(cancelled.value) },
+    paymentsByMethod: Object.fromEntries(
+      Object.entries(paymentsByMethod).map(([key, value]) => [key, roundMoney(value)]),
+    ),
+    monthlySeries: Object.fromEntries(Object.entries(monthlySeries).map(([key, value]) => [key, roundMoney(value)])),
+  }
+}
@@ -0,0 +1,181 @@
+// Disputa pela última unidade em estoque. A tradução dos erros das funções do banco roda sempre, com o `rpc`
+// substituído; a disputa real precisa de um banco Supabase de testes com as funções do README:
+// `DB_TESTS=1 npm test` usa as variáveis do `.env` e remove os registros criados ao final.
+import assert from 'node:assert/strict'
+import { after, afterEach, before, describe, it, mock } from 'node:test'
+
+const skip = process.env.DB_TESTS === '1' ? false : 'defina DB_TESTS=1 para rodar contra o banco de testes'
+
+// Sem `.env` (CI), o cliente só precisa ser criado: nenhuma chamada chega ao banco.
+const loadOffline = async () => {
+  process.env.SUPABASE_URL ??= 'http://localhost:54321'
+  process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'teste'
+  process.env.SUPABASE_ANON_KEY ??= 'teste'
+  return { supabase: (await import('./supabase.js')).supabase, sales: await import('./sales.js') }
+}
+
+describe('erros das transações de venda', () => {
+  let supabase: (typeof import('./supabase.js'))['supabase']
+  let sales: typeof import('./sales.js')
+
+  before(async () => {
+    ;({ supabase, sales } = await loadOffline())
+  })
+
+  afterEach(() => mock.restoreAll())
+
+  const failWith = (code: string, message: string) =>
+    mock.method(supabase, 'rpc', () => Promise.resolve({ data: null, error: { code, message } }))
+
+  it('responde 409 quando a função recusa a última unidade', async () => {
+    failWith('PT409', 'Estoque insuficiente para Colchão.')
+    const error = await sales.runSaleTransaction('create_sale', { payload: {} }).catch((reason: unknown) => reason)
+
+    assert.ok(error instanceof sales.SaleTransactionError)
+    assert.equal(error.message, 'Estoque insuficiente para Colchão.')
+    assert.equal(sales.errorStatus(error), 409)
+  })
+
+  it('responde 404 para registros ausentes e 400 para os demais erros', async () => {
+    failWith('PT404', 'Venda não encontrada.')
+    assert.equal(sales.errorStatus(await sales.runSaleTransaction('update_sale', {}).catch((reason) => reason)), 404)
+    failWith('23503', 'violates foreign key constraint')
+    assert.equal(sales.errorStatus(await sales.runSaleTransaction('update_sale', {}).catch((reason) => reason)), 400)
+    assert.equal(sales.errorStatus(new Error('inesperado')), 400)
+  })
+})
+
+describe('valor devolvido', () => {
+  let sales: typeof import('./sales.js')
+
+  before(async () => {
+    ;({ sales } = await loadOffline())
+  })
+
+  // Pedido de R$ 1.900 em itens com R$ 100 de desconto no pedido: o cliente pagou R$ 1.800.
+  const sale = {
+    discount: 100,
+    items: [
+      { id: 'a', quantity: 2, unitPrice: 500, discount: 0, deliveredQuantity: 2, returnedQuantity: 0 },
+      { id: 'b', quantity: 1, unitPrice: 1000, discount: 100, deliveredQuantity: 1, returnedQuantity: 0 },
+    ],
+  }
+  const round = (value: number) => Math.round(value * 100) / 100
+
+  it('desconta a parte do desconto do pedido e do item de cada unidade', () => {
+    assert.equal(round(sales.getReturnedValue(sale, [{ itemId: 'a', quantity: 1 }])), 473.68)
+    assert.equal(round(sales.getReturnedValue(sale, [{ itemId: 'b', quantity: 1 }])), 852.63)
+  })
+
+  it('nunca devolve mais do que o cliente pagou', () => {
+    const everything = [
+      { itemId: 'a', quantity: 2 },
+      { itemId: 'b', quantity: 1 },
+    ]
+    assert.equal(round(sales.getReturnedValue(sale, everything)), 1800)
+  })
+
+  it('mantém o valor da unidade depois de devoluções anteriores', () => {
+    const afterFirstReturn = {
+      ...sale,
+      items: sale.items.map((item) => ({ ...item, returnedQuantity: item.id === 'a' ? 1 : 0 })),
+    }
+    assert.equal(
+      round(sales.getReturnedValue(afterFirstReturn, [{ itemId: 'a', quantity: 1 }])),
+      round(sales.getReturnedValue(sale, [{ itemId: 'a', quantity: 1 }])),
+    )
+  })
+})
+
+describe('reserva da última unidade', { skip }, () => {
+  let supabase: (typeof import('./supabase.js'))['supabase']
+  let sales: typeof import('./sales.js')
+  let productId: string
+  let clientId: string
+  const saleIds: string[] = []
+
+  const loadStock = async () => {
+    const { data, error } = await supabase.from('products').select('quantity, reserved').eq('id', productId).single()
+    if (error) throw new Error(error.message)
+    return data as { quantity: number; reserved: number }
+  }
+
+  const createSale = () =>
+    sales.runSaleTransaction('create_sale', {
+      payload: sales.toSalePayload(
+        sales.saleSchema.parse({
+          clientId,
+          items: [{ productId, quantity: 1, unitPrice: 100 }],
+          payments: [{ method: 'PIX', amount: 100 }],
+        }),
+        100,
+      ),
+    })
+
+  const collect = (results: PromiseSettledResult<string>[]) => {
+    results.forEach((result) => {
+      if (result.status === 'fulfilled') saleIds.push(result.value)
+    })
+    return {
+      fulfilled: results.filter((result) => result.status === 'fulfilled'),
+      rejected: results.flatMap((result) => (result.status === 'rejected' ? [result.reason] : [])),
+    }
+  }
+
+  before(async () => {
+    ;({ supabase } = await import('./supabase.js'))
+    sales = await import('./sales.js')
+    const { data: product, error: productError } = await supabase
+      .from('products')
+      .insert({ name: 'Colchão teste de concorrência', sku: `TESTE-${Date.now()}`, price: 100, quantity: 1, reserved: 0 })
+      .select('id')
+      .single()
+    if (productError) throw new Error(productError.message)
+    productId = product.id
+    const { data: client, error: clientError } = await supabase
+      .from('clients')
+      .insert({ name: 'Cliente teste de concorrência' })
+      .select('id')
+      .single()
+    if (clientError) throw new Error(clientError.message)
+    clientId = client.id
+  })
+
+  after(async () => {
+    if (!supabase) return
+    if (saleIds.length) await supabase.from('sales').delete().in('id', saleIds)
+    if (productId) {
+      await supabase.from('stock_movements').delete().eq('productId', productId)
+      await supabase.from('products').delete().eq('id', productId)
+    }
+    if (clientId) await supabase.from('clients').delete().eq('id', clientId)
+  })
+
+  it('aceita apenas uma de duas vendas simultâneas', async () => {
+    const { fulfilled, rejected } = collect(await Promise.allSettled([createSale(), createSale()]))
+
+    assert.equal(fulfilled.length, 1)
+    assert.equal(rejected.length, 1)
+    assert.ok(rejected[0] instanceof sales.SaleTransactionError)
+    assert.equal(rejected[0].status, 409)
+    assert.deepEqual(await loadStock(), { quantity: 0, reserved: 1 })
+  })
+
+  it('não deixa uma saída manual desfazer a reserva de uma venda simultânea', async () => {
+    await sales.runSaleTransaction('register_stock_movement', {
+      product_id: productId,
+      payload: { type: 'entrada', amount: 1, note: 'Teste de concorrência' },
+    })
+    const withdrawal = sales.runSaleTransaction('register_stock_movement', {
+      product_id: productId,
+      payload: { type: 'saida', amount: 1, note: 'Teste de concorrência' },
+    })
+    const results = await Promise.allSettled([createSale(), withdrawal])
+    collect(results.slice(0, 1))
+
+    assert.equal(results.filter((result) => result.status === 'fulfilled').length, 1)
+    const stock = await loadStock()
+    assert.equal(stock.quantity, 0)
+    assert.equal(stock.reserved, results[0].status === 'fulfilled' ? 2 : 1)
+  })
+})
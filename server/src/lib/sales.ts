@@ -0,0 +1,211 @@
+// Regras de venda compartilhadas pelas rotas de vendas e de orçamentos.
+import { z } from 'zod'
+import type { PaymentMethod, SaleEventType } from '../types.js'
+import { getNetLines } from './commissions.js'
+import { supabase } from './supabase.js'
+
+export const saleItemSchema = z
+  .object({
+    productId: z.string().min(5).optional(),
+    customName: z.string().trim().min(2).optional(),
+    customSku: z.string().trim().min(2).optional(),
+    quantity: z.number().int().positive(),
+    unitPrice: z.number().nonnegative(),
+    discount: z.number().nonnegative().default(0),
+  })
+  .refine(
+    (data) => data.productId || data.customName,
+    'Informe um produto válido ou descreva o item personalizado.',
+  )
+
+export const paymentSchema = z
+  .object({
+    method: z.enum(['PIX', 'Cartão de crédito', 'Cartão de débito', 'Dinheiro', 'Pagar na entrega', 'Semanal na loja']),
+    amount: z.number().nonnegative(),
+    installments: z.number().int().positive().default(1),
+    weeklyWeeks: z.number().int().positive().optional(),
+    weeklyAmount: z.number().positive().optional(),
+  })
+  .refine(
+    (data) => data.method !== 'Semanal na loja' || (data.weeklyWeeks && data.weeklyAmount),
+    'Informe as semanas e o valor semanal do pagamento na loja.',
+  )
+
+export const dateSchema = z
+  .string()
+  .refine((value) => {
+    if (!value) return true
+    const timestamp = Date.parse(value)
+    return !Number.isNaN(timestamp)
+  }, 'Data inválida.')
+  .optional()
+
+export const saleSchema = z.object({
+  clientId: z.string().min(5),
+  items: z.array(saleItemSchema).min(1),
+  payments: z.array(paymentSchema).min(1),
+  note: z.string().optional(),
+  discount: z.number().nonnegative().default(0),
+  deliveryDate: dateSchema,
+})
+
+export type SaleItemInput = z.infer<typeof saleItemSchema>
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Ids vão para filtros do PostgREST; só UUIDs passam.
+export const isValidId = (value: string | null | undefined): value is string =>
+  typeof value === 'string' && UUID_PATTERN.test(value)
+
+export const normalizeMethod = (method: string): PaymentMethod => {
+  switch (method) {
+    case 'Cartão de crédito':
+      return 'CARTAO_CREDITO'
+    case 'Cartão de débito':
+      return 'CARTAO_DEBITO'
+    case 'Dinheiro':
+      return 'DINHEIRO'
+    case 'Pagar na entrega':
+      return 'PAGAMENTO_ENTREGA'
+    case 'Semanal na loja':
+      return 'SEMANAL_LOJA'
+    default:
+      return 'PIX'
+  }
+}
+
+export const loadProducts = async (productIds: string[]) => {
+  const uniqueIds = [...new Set(productIds)]
+  if (!uniqueIds.length) return new Map<string, any>()
+  const { data, error } = await supabase.from('products').select('*').in('id', uniqueIds)
+  if (error) {
+    throw new Error(error.message)
+  }
+  return new Map((data ?? []).map((product) => [product.id, product]))
+}
+
+export const fetchSale = async (id: string) => {
+  const { data, error } = await supabase
+    .from('sales')
+    .select(
+      `
+      *,
+      client:clientId(*),
+      items:sale_items(*, product:productId(*)),
+      payments:sale_payments(*, weeklyInstallments:sale_payment_installments(*)),
+      returns:sale_returns(*, items:sale_return_items(*))
+    `,
+    )
+    .eq('id', id)
+    .single()
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Venda não encontrada.')
+  }
+  return data
+}
+
+// O histórico não deve desfazer uma operação já gravada; falhas aqui só são registradas no log.
+export const recordSaleEvent = async (
+  saleId: string,
+  type: SaleEventType,
+  userId: string | null | undefined,
+  details: Record<string, unknown> = {},
+) => {
+  const { error } = await supabase.from('sale_events').insert({ saleId, type, userId: userId ?? null, details })
+  if (error) {
+    console.error(error)
+  }
+}
+
+export const validateStock = (items: SaleItemInput[], productMap: Map<string, any>) => {
+  for (const item of items) {
+    if (!item.productId) continue
+    const product = productMap.get(item.productId)
+    if (!product || product.quantity < item.quantity) {
+      throw new SaleTransactionError(`Estoque insuficiente para ${product?.name ?? item.productId}.`, 409)
+    }
+  }
+}
+
+export type ReturnableItem = {
+  id: string
+  quantity: number
+  unitPrice: number
+  discount: number | null
+  deliveredQuantity: number | null
+  returnedQuantity: number | null
+}
+
+// Cada unidade devolvida vale o líquido pago por ela: preço menos a sua parte do desconto do item e do desconto do
+// pedido, rateado sobre o pedido original (devoluções anteriores não mudam o valor de cada unidade).
+export const getReturnedValue = (
+  sale: { discount: number | null; items: ReturnableItem[] },
+  lines: { itemId: string; quantity: number }[],
+) => {
+  const unitNet = new Map(
+    getNetLines({ discount: sale.discount, items: sale.items.map((item) => ({ ...item, returnedQuantity: 0 })) }).map(
+      ({ item, net }) => [item.id, item.quantity > 0 ? net / item.quantity : 0],
+    ),
+  )
+  return lines.reduce((sum, line) => sum + line.quantity * (unitNet.get(line.itemId) ?? 0), 0)
+}
+
+export const sumItems = (items: SaleItemInput[]) =>
+  items.reduce((total, item) => total + item.quantity * item.unitPrice - (item.discount ?? 0), 0)
+
+export const toSaleItemsPayload = (items: SaleItemInput[]) =>
+  items.map((item) => ({
+    productId: item.productId ?? null,
+    customName: item.customName ?? null,
+    customSku: item.customSku ?? null,
+    isCustom: !item.productId,
+    requiresApproval: !item.productId,
+    quantity: item.quantity,
+    unitPrice: item.unitPrice,
+    discount: item.discount ?? 0,
+  }))
+
+export const toPaymentPayload = (payments: z.infer<typeof paymentSchema>[]) =>
+  payments.map((payment) => ({
+    method: normalizeMethod(payment.method),
+    amount: payment.amount,
+    installments: payment.installments ?? 1,
+    weeklyWeeks: payment.method === 'Semanal na loja' ? payment.weeklyWeeks ?? null : null,
+    weeklyAmount: payment.method === 'Semanal na loja' ? payment.weeklyAmount ?? null : null,
+  }))
+
+export const toSalePayload = (payload: z.infer<typeof saleSchema>, value: number, approvalReasons: string[] = []) => ({
+  clientId: payload.clientId,
+  discount: payload.discount,
+  note: payload.note ?? null,
+  deliveryDate: payload.deliveryDate ? new Date(payload.deliveryDate).toISOString() : null,
+  value,
+  requiresApproval: approvalReasons.length > 0 || payload.items.some((item) => !item.productId),
+  approvalReason: approvalReasons.length ? approvalReasons.join(' ') : null,
+  items: toSaleItemsPayload(payload.items),
+  payments: toPaymentPayload(payload.payments),
+})
+
+// Códigos próprios das funções do banco: registro não encontrado e decremento condicional de estoque sem saldo.
+const ERROR_STATUS_BY_CODE: Record<string, number> = { PT404: 404, PT409: 409 }
+
+export class SaleTransactionError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.status = status
+  }
+}
+
+export const errorStatus = (error: unknown) => (error instanceof SaleTransactionError ? error.status : 400)
+
+// Vendas são gravadas por funções no banco (create_sale, update_sale, cancel_sale, deliver_sale) para que
+// venda, itens, pagamentos e reservas de estoque sejam confirmados ou desfeitos juntos.
+export const runSaleTransaction = async (fn: string, args: Record<string, unknown>) => {
+  const { data, error } = await supabase.rpc(fn, args)
+  if (error) {
+    throw new SaleTransactionError(error.message, ERROR_STATUS_BY_CODE[error.code] ?? 400)
+  }
+  return data as string
+}
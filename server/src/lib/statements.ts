@@ -0,0 +1,152 @@
+// Demonstrativo de resultado mensal (DRE) com comparação ao mês anterior, no formato pedido pela contabilidade.
+import { computeSettlement, isCardMethod, loadCardFees, type CardFee, type SettlementPayment } from './card-fees.js'
+import { getNetLines } from './commissions.js'
+import { COSTED_ITEMS_SELECT, type CostedItem } from './margins.js'
+import { supabase } from './supabase.js'
+
+type StatementSaleRow = {
+  id: string
+  createdAt: string
+  discount: number | null
+  items: CostedItem[]
+  payments: SettlementPayment[]
+}
+
+export type StatementLine = {
+  key: string
+  label: string
+  kind: 'receita' | 'deducao' | 'custo' | 'despesa' | 'resultado'
+  current: number
+  previous: number
+  change: number
+  changePercent: number | null
+}
+
+// Devoluções com reembolso geram uma saída com esta descrição (função `register_sale_return`). Como a devolução já
+// reduz a receita, o reembolso não entra de novo nas despesas.
+const REFUND_DESCRIPTION_PREFIX = 'Reembolso do pedido '
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+const computeMonth = async (start: Date, end: Date, cardFees: CardFee[]) => {
+  const [salesResult, expensesResult] = await Promise.all([
+    supabase
+      .from('sales')
+      .select(`id, createdAt, discount, ${COSTED_ITEMS_SELECT}, payments:sale_payments(id, method, amount, installments)`)
+      .neq('status', 'cancelada')
+      .eq('requiresApproval', false)
+      .gte('createdAt', start.toISOString())
+      .lt('createdAt', end.toISOString()),
+    supabase
+      .from('finance_expenses')
+      .select('amount, description, category:categoryId(name)')
+      .gte('date', start.toISOString())
+      .lt('date', end.toISOString()),
+  ])
+  const failure = salesResult.error ?? expensesResult.error
+  if (failure) {
+    throw new Error(failure.message)
+  }
+
+  let grossRevenue = 0
+  let beforeReturns = 0
+  let netRevenue = 0
+  let costOfGoods = 0
+  let fees = 0
+  ;((salesResult.data ?? []) as unknown as StatementSaleRow[]).forEach((sale) => {
+    grossRevenue += sale.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0)
+    beforeReturns += getNetLines({
+      discount: sale.discount,
+      items: sale.items.map((item) => ({ ...item, returnedQuantity: 0 })),
+    }).reduce((sum, line) => sum + line.net, 0)
+    getNetLines(sale).forEach(({ item, net }) => {
+      netRevenue += net
+      costOfGoods += Math.max(0, item.quantity - (item.returnedQuantity ?? 0)) * Number(item.unitCost ?? 0)
+    })
+    fees += (sale.payments ?? [])
+      .filter((payment) => isCardMethod(payment.method))
+      .reduce((sum, payment) => sum + computeSettlement(payment, new Date(sale.createdAt), cardFees).fee, 0)
+  })
+
+  const expensesByCategory = new Map<string, number>()
+  ;((expensesResult.data ?? []) as unknown as { amount: number; description: string; category: { name: string } | null }[])
+    .filter((expense) => !expense.description.startsWith(REFUND_DESCRIPTION_PREFIX))
+    .forEach((expense) => {
+      const category = expense.category?.name ?? 'Sem categoria'
+      expensesByCategory.set(category, (expensesByCategory.get(category) ?? 0) + Number(expense.amount))
+    })
+
+  return {
+    grossRevenue,
+    discounts: grossRevenue - beforeReturns,
+    returns: beforeReturns - netRevenue,
+    netRevenue,
+    costOfGoods,
+    cardFees: fees,
+    expensesByCategory,
+  }
+}
+
+type MonthFigures = Awaited<ReturnType<typeof computeMonth>>
+
+const expensesTotal = (figures: MonthFigures) => [...figures.expensesByCategory.values()].reduce((sum, value) => sum + value, 0)
+
+const toLine = (key: string, label: string, kind: StatementLine['kind'], current: number, previous: number): StatementLine => ({
+  key,
+  label,
+  kind,
+  current: roundMoney(current),
+  previous: roundMoney(previous),
+  change: roundMoney(current - previous),
+  changePercent: previous ? Math.round(((current - previous) / Math.abs(previous)) * 10000) / 100 : null,
+})
+
+// O CMV usa o custo gravado em cada item na venda (ou na aprovação), então reabrir um mês antigo não o altera.
+export const buildIncomeStatement = async (year: number, month: number) => {
+  const start = new Date(year, month - 1, 1)
+  const end = new Date(year, month, 1)
+  const previousStart = new Date(year, month - 2, 1)
+  const cardFees = await loadCardFees()
+  const [current, previous] = await Promise.all([
+    computeMonth(start, end, cardFees),
+    computeMonth(previousStart, start, cardFees),
+  ])
+
+  const grossProfit = (figures: MonthFigures) => figures.netRevenue - figures.costOfGoods
+  const netResult = (figures: MonthFigures) => grossProfit(figures) - figures.cardFees - expensesTotal(figures)
+  const categories = [...new Set([...current.expensesByCategory.keys(), ...previous.expensesByCategory.keys()])].sort(
+    (a, b) => a.localeCompare(b, 'pt-BR'),
+  )
+
+  const lines: StatementLine[] = [
+    toLine('grossRevenue', 'Receita bruta de vendas', 'receita', current.grossRevenue, previous.grossRevenue),
+    toLine('discounts', '(-) Descontos concedidos', 'deducao', current.discounts, previous.discounts),
+    toLine('returns', '(-) Devoluções', 'deducao', current.returns, previous.returns),
+    toLine('netRevenue', '(=) Receita líquida', 'resultado', current.netRevenue, previous.netRevenue),
+    toLine('costOfGoods', '(-) Custo das mercadorias vendidas', 'custo', current.costOfGoods, previous.costOfGoods),
+    toLine('grossProfit', '(=) Lucro bruto', 'resultado', grossProfit(current), grossProfit(previous)),
+    toLine('cardFees', '(-) Taxas de cartão', 'despesa', current.cardFees, previous.cardFees),
+    ...categories.map((category) =>
+      toLine(
+        `expense:${category}`,
+        `(-) ${category}`,
+        'despesa',
+        current.expensesByCategory.get(category) ?? 0,
+        previous.expensesByCategory.get(category) ?? 0,
+      ),
+    ),
+    toLine('expenses', '(=) Total de despesas', 'resultado', expensesTotal(current), expensesTotal(previous)),
+    toLine('netResult', '(=) Resultado líquido', 'resultado', netResult(current), netResult(previous)),
+  ]
+
+  return {
+    year,
+    month,
+    previousYear: previousStart.getFullYear(),
+    previousMonth: previousStart.getMonth() + 1,
+    grossMarginPercent: current.netRevenue
+      ? Math.round((grossProfit(current) / current.netRevenue) * 10000) / 100
+      : 0,
+    lines,
+  }
+}
@@ -11,12 +11,19 @@ const assistanceSchema = z.object({
   productId: z.string().min(5),
   defectDescription: z.string().min(5),
   factoryResponse: z.string().optional(),
+  supplierId: z.string().min(5).nullable().optional(),
   expectedDate: z.string().datetime().optional(),
   photos: z.array(z.string()).max(4).optional(),
   notes: z.string().optional(),
 })
 
-const statusSchema = z.object({ status: z.enum(['aberta', 'concluida']), factoryResponse: z.string().optional() })
+const statusSchema = z.object({
+  status: z.enum(['aberta', 'concluida']),
+  factoryResponse: z.string().optional(),
+  supplierId: z.string().min(5).nullable().optional(),
+})
+
+const ASSISTANCE_SELECT = '*, sale:saleId(*), product:productId(*), owner:ownerId(*), supplier:supplierId(id, name)'
 
 const randomCode = () => `AST-${Math.floor(Math.random() * 900 + 100)}`
 
@@ -24,7 +31,7 @@ router.get('/', async (request, response) => {
   const { status, search } = request.query
   let query = supabase
     .from('assistances')
-    .select('*, sale:saleId(*), product:productId(*), owner:ownerId(*)')
+    .select(ASSISTANCE_SELECT)
     .order('createdAt', { ascending: false })
   if (status === 'concluida' || status === 'aberta') {
     query = query.eq('status', status)
@@ -53,6 +60,12 @@ router.post('/', async (request, response) => {
   const payload = assistanceSchema.parse(request.body)
   const { data: sale, error: saleError } = await supabase.from('sales').select('id').eq('id', payload.saleId).single()
   if (saleError || !sale) return response.status(404).json({ message: 'Venda não encontrada.' })
+  // Sem fornecedor informado, a análise de garantia fica com o fornecedor cadastrado no produto.
+  let supplierId = payload.supplierId ?? null
+  if (payload.supplierId === undefined) {
+    const { data: product } = await supabase.from('products').select('supplierId').eq('id', payload.productId).maybeSingle()
+    supplierId = product?.supplierId ?? null
+  }
   const { data, error } = await supabase
     .from('assistances')
     .insert({
@@ -61,12 +74,13 @@ router.post('/', async (request, response) => {
       productId: payload.productId,
       defectDescription: payload.defectDescription,
       factoryResponse: payload.factoryResponse ?? null,
+      supplierId,
       expectedDate: payload.expectedDate ? new Date(payload.expectedDate).toISOString() : null,
       photos: payload.photos ?? [],
       notes: payload.notes ?? null,
       ownerId: request.user?.id ?? null,
     })
-    .select('*, sale:saleId(*), product:productId(*), owner:ownerId(*)')
+    .select(ASSISTANCE_SELECT)
     .single()
   if (error || !data) {
     return response.status(400).json({ message: error?.message ?? 'Não foi possível cadastrar assistência.' })
@@ -79,9 +93,13 @@ router.patch('/:id/status', async (request, response) => {
   const { id } = request.params
   const { data, error } = await supabase
     .from('assistances')
-    .update({ status: payload.status, factoryResponse: payload.factoryResponse ?? null })
+    .update({
+      status: payload.status,
+      factoryResponse: payload.factoryResponse ?? null,
+      ...(payload.supplierId !== undefined ? { supplierId: payload.supplierId } : {}),
+    })
     .eq('id', id)
-    .select('*, sale:saleId(*), product:productId(*), owner:ownerId(*)')
+    .select(ASSISTANCE_SELECT)
     .single()
   if (error || !data) {
     return response.status(404).json({ message: error?.message ?? 'Assistência não encontrada.' })
@@ -93,7 +111,7 @@ router.get('/:id', async (request, response) => {
   const { id } = request.params
   const { data, error } = await supabase
     .from('assistances')
-    .select('*, sale:saleId(*), product:productId(*), owner:ownerId(*)')
+    .select(ASSISTANCE_SELECT)
     .eq('id', id)
     .single()
   if (error || !data) return response.status(404).json({ message: 'Assistência não encontrada.' })
@@ -20,7 +20,8 @@ const clientSchema = z.object({
 router.get('/', async (request, response) => {
   const { search } = request.query
   const normalizedSearch = typeof search === 'string' ? search.trim() : ''
-  let query = supabase.from('clients').select('*').order('createdAt', { ascending: false })
+  // `sales(count)` traz o total de pedidos de cada cliente sem carregar o histórico de vendas.
+  let query = supabase.from('clients').select('*, sales(count)').order('createdAt', { ascending: false })
   if (normalizedSearch) {
     const pattern = `%${normalizedSearch}%`
     query = query.or(`name.ilike.${pattern},phone.ilike.${pattern},cpf.ilike.${pattern}`)
@@ -0,0 +1,50 @@
+import { Router } from 'express'
+import { ZodError, z } from 'zod'
+import { authMiddleware } from '../middleware/auth.js'
+import { roleGuard } from '../middleware/roleGuard.js'
+import { supabase } from '../lib/supabase.js'
+import { discountPolicySchema, listDiscountPolicies } from '../lib/discounts.js'
+
+const router = Router()
+router.use(authMiddleware)
+
+const roleSchema = z.enum(['admin', 'seller'])
+
+router.get('/', async (_request, response) => {
+  try {
+    const policies = await listDiscountPolicies()
+    return response.json(policies)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+router.put('/:role', roleGuard('admin'), async (request, response) => {
+  let role
+  let payload
+  try {
+    role = roleSchema.parse(request.params.role)
+    payload = discountPolicySchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const { data, error } = await supabase
+    .from('discount_policies')
+    .upsert({ role, ...payload, updatedAt: new Date().toISOString() }, { onConflict: 'role' })
+    .select('*')
+    .single()
+  if (error || !data) {
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível salvar a política de descontos.' })
+  }
+  return response.json({
+    role,
+    maxDiscountPercent: Number(data.maxDiscountPercent),
+    minMarginPercent: Number(data.minMarginPercent),
+  })
+})
+
+export const discountPolicyRoutes = router
@@ -4,20 +4,68 @@ import { authMiddleware } from '../middleware/auth.js'
 import { roleGuard } from '../middleware/roleGuard.js'
 import type { PaymentMethod } from '../types.js'
 import { supabase } from '../lib/supabase.js'
+import { buildCommissionReport, commissionRuleSchema, loadCommissionRules } from '../lib/commissions.js'
+import {
+  buildCashSessionDetails,
+  buildCashSessionReport,
+  cashMovementSchema,
+  closeCashSessionSchema,
+  fetchCashSession,
+  openCashSessionSchema,
+} from '../lib/cash-sessions.js'
+import {
+  buildSettlementForecast,
+  cardFeeSchema,
+  computeSettlement,
+  isCardMethod,
+  loadCardFees,
+  type SettlementPayment,
+} from '../lib/card-fees.js'
+import { buildCashFlowProjection } from '../lib/cash-flow.js'
+import { buildMarginReport } from '../lib/margins.js'
+import { buildIncomeStatement } from '../lib/statements.js'
+import { isRecognitionMode, summarizeRevenue, type RecognitionSale } from '../lib/revenue-recognition.js'
+import {
+  expenseCategorySchema,
+  expenseRecurrenceSchema,
+  expenseSchema,
+  generateRecurringExpenses,
+  loadExpenseRecurrences,
+  toRecurrencePayload,
+} from '../lib/expenses.js'
+import {
+  DAY_MS,
+  RECEIVABLE_METHODS,
+  getOpenDues,
+  loadReceivableSales,
+  type ReceivablePayment,
+} from '../lib/receivables.js'
 
 const router = Router()
 router.use(authMiddleware)
 
 const goalSchema = z.object({
   target: z.number().nonnegative(),
+  userId: z.string().min(5).nullable().optional(),
+  year: z.number().int().min(2000).max(2100).optional(),
+  month: z.number().int().min(1).max(12).optional(),
 })
 
-const expenseSchema = z.object({
-  description: z.string().trim().min(3, 'Informe o que foi pago.'),
+const yearlyGoalSchema = z.object({
+  year: z.number().int().min(2000).max(2100),
+  userId: z.string().min(5).nullable().optional(),
+  targets: z.array(z.number().nonnegative()).length(12, 'Informe as metas dos doze meses.'),
+})
+
+const commissionPeriodSchema = z
+  .object({
+    start: z.string().datetime('Informe o início do período.'),
+    end: z.string().datetime('Informe o fim do período.'),
+  })
+  .refine((period) => Date.parse(period.start) < Date.parse(period.end), 'O fim do período deve ser depois do início.')
+
+const receiptSchema = z.object({
   amount: z.number().positive('Valor deve ser positivo.'),
-  date: z.string().datetime(),
-  method: z.enum(['PIX', 'Cartão de crédito', 'Cartão de débito', 'Dinheiro']),
-  note: z.string().trim().optional(),
 })
 
 const normalizeMethod = (method: string): PaymentMethod => {
@@ -28,6 +76,10 @@ const normalizeMethod = (method: string): PaymentMethod => {
       return 'CARTAO_DEBITO'
     case 'Dinheiro':
       return 'DINHEIRO'
+    case 'Pagar na entrega':
+      return 'PAGAMENTO_ENTREGA'
+    case 'Semanal na loja':
+      return 'SEMANAL_LOJA'
     default:
       return 'PIX'
   }
@@ -42,19 +94,221 @@ const getMonthRange = (baseDate = new Date()) => {
   return { year, month, start, end }
 }
 
+// Ano e mês vêm da query ou do corpo; valores ausentes ou inválidos caem no mês corrente.
+const resolveGoalMonth = (year: unknown, month: unknown) => {
+  const parsedYear = Number(year)
+  const parsedMonth = Number(month)
+  if (!Number.isInteger(parsedYear) || parsedYear < 2000 || !Number.isInteger(parsedMonth) || parsedMonth < 1 || parsedMonth > 12) {
+    return getMonthRange()
+  }
+  return getMonthRange(new Date(parsedYear, parsedMonth - 1, 1))
+}
+
 const extractMethodFilter = (value: unknown) => {
   if (!value || typeof value !== 'string' || value === 'all') return null
   return normalizeMethod(value)
 }
 
+// Sem datas, os relatórios de comissão e de margem cobrem o mês corrente.
+const parseReportRange = (start: unknown, end: unknown) => {
+  const month = getMonthRange()
+  const rangeStart = typeof start === 'string' && !Number.isNaN(Date.parse(start)) ? new Date(start) : month.start
+  const rangeEnd =
+    typeof end === 'string' && !Number.isNaN(Date.parse(end)) ? new Date(end) : new Date(month.end.getTime() - 1)
+  return { start: rangeStart, end: rangeEnd }
+}
+
+type AgingBucket = '0-7' | '8-30' | '30+'
+
+const toAgingBucket = (daysOverdue: number): AgingBucket => {
+  if (daysOverdue <= 7) return '0-7'
+  if (daysOverdue <= 30) return '8-30'
+  return '30+'
+}
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100
+
+router.get('/receivables', roleGuard('admin'), async (_request, response) => {
+  let receivableSales
+  try {
+    receivableSales = await loadReceivableSales()
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+
+  const now = Date.now()
+  const buckets: Record<AgingBucket, number> = { '0-7': 0, '8-30': 0, '30+': 0 }
+  let notDue = 0
+  const clients = new Map<string, { clientId: string; clientName: string; open: number; overdue: number }>()
+  const sales = receivableSales
+    .map((sale) => {
+      const payments = (sale.payments ?? [])
+        .filter((payment) => RECEIVABLE_METHODS.includes(payment.method))
+        .map((payment) => {
+          const dues = getOpenDues(sale, payment).map((due) => {
+            const daysOverdue = Math.floor((now - due.dueDate.getTime()) / DAY_MS)
+            return {
+              ...due,
+              dueDate: due.dueDate.toISOString(),
+              daysOverdue: Math.max(0, daysOverdue),
+              overdue: daysOverdue > 0,
+            }
+          })
+          return {
+            paymentId: payment.id,
+            method: payment.method,
+            amount: Number(payment.amount),
+            open: roundMoney(dues.reduce((sum, due) => sum + due.open, 0)),
+            overdueCount: dues.filter((due) => due.overdue).length,
+            nextDueDate: dues.find((due) => !due.overdue)?.dueDate ?? null,
+            dues,
+          }
+        })
+        .filter((payment) => payment.open > 0)
+      const allDues = payments.flatMap((payment) => payment.dues)
+      for (const due of allDues) {
+        if (due.overdue) {
+          buckets[toAgingBucket(due.daysOverdue)] += due.open
+        } else {
+          notDue += due.open
+        }
+      }
+      const open = roundMoney(payments.reduce((sum, payment) => sum + payment.open, 0))
+      const overdue = roundMoney(allDues.filter((due) => due.overdue).reduce((sum, due) => sum + due.open, 0))
+      const daysOverdue = allDues.reduce((max, due) => Math.max(max, due.overdue ? due.daysOverdue : 0), 0)
+      return {
+        saleId: sale.id,
+        publicId: sale.publicId ?? sale.id,
+        clientId: sale.clientId,
+        clientName: sale.client?.name ?? '',
+        open,
+        overdue,
+        daysOverdue,
+        bucket: overdue > 0 ? toAgingBucket(daysOverdue) : null,
+        payments,
+      }
+    })
+    .filter((sale) => sale.open > 0)
+
+  for (const sale of sales) {
+    const entry = clients.get(sale.clientId) ?? { clientId: sale.clientId, clientName: sale.clientName, open: 0, overdue: 0 }
+    entry.open = roundMoney(entry.open + sale.open)
+    entry.overdue = roundMoney(entry.overdue + sale.overdue)
+    clients.set(sale.clientId, entry)
+  }
+
+  return response.json({
+    totalOpen: roundMoney(sales.reduce((sum, sale) => sum + sale.open, 0)),
+    totalOverdue: roundMoney(sales.reduce((sum, sale) => sum + sale.overdue, 0)),
+    notDue: roundMoney(notDue),
+    buckets: {
+      '0-7': roundMoney(buckets['0-7']),
+      '8-30': roundMoney(buckets['8-30']),
+      '30+': roundMoney(buckets['30+']),
+    },
+    sales: sales.sort((a, b) => b.daysOverdue - a.daysOverdue),
+    clients: [...clients.values()].sort((a, b) => b.open - a.open),
+  })
+})
+
+router.post('/receivables/:paymentId/receipts', roleGuard('admin'), async (request, response) => {
+  const { paymentId } = request.params
+  let payload
+  try {
+    payload = receiptSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const { data: payment, error: paymentError } = await supabase
+    .from('sale_payments')
+    .select('*, weeklyInstallments:sale_payment_installments(*)')
+    .eq('id', paymentId)
+    .single()
+  if (paymentError || !payment) {
+    return response.status(404).json({ message: 'Pagamento não encontrado.' })
+  }
+  const receivable = payment as ReceivablePayment & { saleId: string }
+  if (!RECEIVABLE_METHODS.includes(receivable.method)) {
+    return response.status(400).json({ message: 'Este pagamento não fica a receber.' })
+  }
+
+  const receivedAt = new Date().toISOString()
+  if (receivable.method === 'SEMANAL_LOJA') {
+    // O valor recebido quita as semanas mais antigas em aberto, na ordem.
+    let remaining = payload.amount
+    const weeklyAmount = Number(receivable.weeklyAmount ?? 0)
+    const rows = []
+    for (let week = 1; week <= Number(receivable.weeklyWeeks ?? 0) && remaining > 0; week += 1) {
+      const paid = (receivable.weeklyInstallments ?? [])
+        .filter((installment) => installment.week === week)
+        .reduce((sum, installment) => sum + Number(installment.paidAmount ?? 0), 0)
+      const missing = roundMoney(weeklyAmount - paid)
+      if (missing <= 0) continue
+      const applied = Math.min(missing, remaining)
+      remaining = roundMoney(remaining - applied)
+      rows.push({
+        saleId: receivable.saleId,
+        paymentId,
+        week,
+        paidAmount: roundMoney(paid + applied),
+        paidAt: receivedAt,
+        createdById: request.user?.id ?? null,
+      })
+    }
+    if (!rows.length || remaining > 0) {
+      return response.status(400).json({ message: 'Valor maior que o saldo em aberto deste plano.' })
+    }
+    const { error } = await supabase.from('sale_payment_installments').upsert(rows, { onConflict: 'paymentId,week' })
+    if (error) {
+      return response.status(400).json({ message: error.message })
+    }
+  } else {
+    const received = roundMoney(Number(receivable.receivedAmount ?? 0) + payload.amount)
+    if (received > Number(receivable.amount) + 0.01) {
+      return response.status(400).json({ message: 'Valor maior que o saldo em aberto deste pagamento.' })
+    }
+    const { error } = await supabase
+      .from('sale_payments')
+      .update({ receivedAmount: received, receivedAt })
+      .eq('id', paymentId)
+    if (error) {
+      return response.status(400).json({ message: error.message })
+    }
+  }
+  // O registro do recebimento entra na sessão de caixa aberta agora.
+  const { error: receiptError } = await supabase.from('sale_payment_receipts').insert({
+    saleId: receivable.saleId,
+    paymentId,
+    amount: payload.amount,
+    receivedAt,
+    createdById: request.user?.id ?? null,
+  })
+  if (receiptError) {
+    return response.status(500).json({ message: receiptError.message })
+  }
+  return response.status(201).json({ paymentId, amount: payload.amount, receivedAt })
+})
+
 router.get('/summary', roleGuard('admin'), async (request, response) => {
   const { start, end, method } = request.query
   const normalizedMethod = extractMethodFilter(method)
+  const mode = isRecognitionMode(request.query.mode) ? request.query.mode : 'criacao'
+  // Por entrega ou por caixa, vendas criadas antes do período ainda podem ser reconhecidas dentro dele.
   let salesQuery = supabase
     .from('sales')
-    .select('*, payments:sale_payments(*)')
+    .select(
+      `
+      id, createdAt, status, requiresApproval, value, discount,
+      items:sale_items(quantity, unitPrice, discount, deliveredQuantity, deliveredAt),
+      payments:sale_payments(*, weeklyInstallments:sale_payment_installments(paidAmount, paidAt))
+    `,
+    )
     .order('createdAt', { ascending: true })
-  if (typeof start === 'string') {
+  if (typeof start === 'string' && mode === 'criacao') {
     salesQuery = salesQuery.gte('createdAt', start)
   }
   if (typeof end === 'string') {
@@ -64,38 +318,25 @@ router.get('/summary', roleGuard('admin'), async (request, response) => {
   if (salesError) {
     return response.status(500).json({ message: salesError.message })
   }
+  let cardFees
+  try {
+    cardFees = await loadCardFees()
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
 
-  const filteredSales = normalizedMethod
-    ? (sales ?? []).filter((sale) => sale.payments?.some((payment: any) => payment.method === normalizedMethod))
-    : sales ?? []
-
-  const revenueFromSale = (sale: any) =>
-    normalizedMethod
-      ? sale.payments
-          ?.filter((payment: any) => payment.method === normalizedMethod)
-          .reduce((total: number, payment: any) => total + payment.amount, 0) ?? 0
-      : sale.value
-
-  const totalRevenue = filteredSales.reduce((sum, sale) => sum + revenueFromSale(sale), 0)
-  const discountTotal = filteredSales.reduce((sum, sale) => sum + sale.discount, 0)
-  const delivered = filteredSales.filter((sale) => sale.status === 'entregue').length
-  const pending = filteredSales.filter((sale) => sale.status === 'pendente').length
-
-  const paymentsByMethod = (sales ?? [])
-    .flatMap((sale) => sale.payments ?? [])
-    .reduce<Record<string, number>>((acc, payment: any) => {
-      acc[payment.method] = (acc[payment.method] ?? 0) + payment.amount
-      return acc
-    }, {})
-
-  const monthlySeries = filteredSales.reduce<Record<string, number>>((series, sale) => {
-    const createdAt = new Date(sale.createdAt)
-    const key = `${createdAt.getFullYear()}-${createdAt.getMonth() + 1}`
-    series[key] = (series[key] ?? 0) + revenueFromSale(sale)
-    return series
-  }, {})
+  const revenue = summarizeRevenue((sales ?? []) as unknown as RecognitionSale[], {
+    mode,
+    start: typeof start === 'string' ? new Date(start) : undefined,
+    end: typeof end === 'string' ? new Date(end) : undefined,
+    method: normalizedMethod,
+    getPaymentFee: (sale, payment) =>
+      isCardMethod(payment.method)
+        ? computeSettlement(payment as SettlementPayment, new Date(sale.createdAt), cardFees).fee
+        : 0,
+  })
 
-  let expenseQuery = supabase.from('finance_expenses').select('*')
+  let expenseQuery = supabase.from('finance_expenses').select('*, category:categoryId(name)')
   if (typeof start === 'string') {
     expenseQuery = expenseQuery.gte('date', start)
   }
@@ -114,57 +355,232 @@ router.get('/summary', roleGuard('admin'), async (request, response) => {
     acc[expense.method] = (acc[expense.method] ?? 0) + expense.amount
     return acc
   }, {})
+  const expensesByCategory = (expenses ?? []).reduce<Record<string, number>>((acc, expense) => {
+    const category = expense.category?.name ?? 'Sem categoria'
+    acc[category] = roundMoney((acc[category] ?? 0) + Number(expense.amount))
+    return acc
+  }, {})
 
   return response.json({
-    totalRevenue,
-    discountTotal,
-    delivered,
-    pending,
-    paymentsByMethod,
-    monthlySeries,
+    ...revenue,
+    grossRevenue: revenue.totalRevenue,
+    netOfFees: roundMoney(revenue.totalRevenue - revenue.cardFees),
     expensesTotal,
     expensesByMethod,
-    netRevenue: totalRevenue - expensesTotal,
+    expensesByCategory,
+    netRevenue: roundMoney(revenue.totalRevenue - revenue.cardFees - expensesTotal),
   })
 })
 
-router.get('/goal', async (_request, response) => {
-  const { year, month, start, end } = getMonthRange()
-  const { data: existingGoal } = await supabase
-    .from('monthly_goals')
-    .select('*')
-    .eq('year', year)
-    .eq('month', month)
-    .maybeSingle()
-  let goal = existingGoal
-  if (!goal) {
-    const insertResult = await supabase
-      .from('monthly_goals')
-      .insert({ year, month, target: 0 })
-      .select('*')
-      .single()
-    goal = insertResult.data ?? { year, month, target: 0 }
-  }
-  const { data: salesSum } = await supabase
+type GoalRow = {
+  year: number
+  month: number
+  target: number
+  userId: string | null
+}
+
+type GoalSeller = {
+  userId: string
+  name: string
+  target: number
+  progress: number
+  percent: number
+  position: number
+}
+
+// Metas contam apenas vendas válidas: não canceladas e já aprovadas.
+const sumValidSales = async (start: Date, end: Date) => {
+  const { data, error } = await supabase
     .from('sales')
-    .select('value')
+    .select('value, createdById')
+    .neq('status', 'cancelada')
+    .eq('requiresApproval', false)
     .gte('createdAt', start.toISOString())
     .lt('createdAt', end.toISOString())
-  const progress = (salesSum ?? []).reduce((sum, sale) => sum + (sale.value ?? 0), 0)
-  return response.json({
-    year,
-    month,
-    target: goal?.target ?? 0,
-    progress,
+  if (error) {
+    throw new Error(error.message)
+  }
+  const bySeller = new Map<string, number>()
+  let total = 0
+  ;(data ?? []).forEach((sale) => {
+    const value = Number(sale.value ?? 0)
+    total += value
+    if (sale.createdById) {
+      bySeller.set(sale.createdById, (bySeller.get(sale.createdById) ?? 0) + value)
+    }
   })
+  return { total: roundMoney(total), bySeller }
+}
+
+const loadGoals = async (filters: { year: number; month: number }[]) => {
+  const years = [...new Set(filters.map((filter) => filter.year))]
+  const { data, error } = await supabase.from('monthly_goals').select('year, month, target, userId').in('year', years)
+  if (error) {
+    throw new Error(error.message)
+  }
+  return ((data ?? []) as GoalRow[]).filter((goal) =>
+    filters.some((filter) => filter.year === goal.year && filter.month === goal.month),
+  )
+}
+
+type GoalUser = {
+  id: string
+  name: string | null
+  role: string
+  active: boolean
+}
+
+const loadGoalUsers = async () => {
+  const { data, error } = await supabase.from('users').select('id, name, role, active')
+  if (error) {
+    throw new Error(error.message)
+  }
+  return (data ?? []) as GoalUser[]
+}
+
+// Ranking ordenado pelo valor vendido; vendedores ativos aparecem mesmo sem vendas no mês.
+const buildGoalRanking = (users: GoalUser[], goals: GoalRow[], bySeller: Map<string, number>) => {
+  const sellers = users.filter(
+    (user) =>
+      (user.active && user.role === 'seller') ||
+      bySeller.has(user.id) ||
+      goals.some((goal) => goal.userId === user.id),
+  )
+  return sellers
+    .map((user) => {
+      const target = Number(goals.find((goal) => goal.userId === user.id)?.target ?? 0)
+      const progress = roundMoney(bySeller.get(user.id) ?? 0)
+      return {
+        userId: user.id,
+        name: user.name ?? '',
+        target,
+        progress,
+        percent: target > 0 ? Math.round((progress / target) * 100) : 0,
+        position: 0,
+      }
+    })
+    .sort((a, b) => b.progress - a.progress)
+    .map((seller, index): GoalSeller => ({ ...seller, position: index + 1 }))
+}
+
+router.get('/goal', async (request, response) => {
+  const { year, month, start, end } = resolveGoalMonth(request.query.year, request.query.month)
+  try {
+    const goals = await loadGoals([{ year, month }])
+    const storeGoal = goals.find((goal) => !goal.userId)
+    const [{ total, bySeller }, users] = await Promise.all([sumValidSales(start, end), loadGoalUsers()])
+    // Como no histórico, vendedores recebem apenas a própria linha, com a posição e o tamanho do ranking.
+    const ranking = buildGoalRanking(users, goals, bySeller)
+    const sellers = ranking.filter((seller) => request.user?.role === 'admin' || seller.userId === request.user?.id)
+    return response.json({
+      year,
+      month,
+      target: Number(storeGoal?.target ?? 0),
+      progress: total,
+      sellers,
+      sellerCount: ranking.length,
+    })
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+// Histórico de metas dos últimos meses (sem o mês corrente); vendedores recebem apenas a própria linha.
+router.get('/goal/history', async (request, response) => {
+  const months = Math.min(Math.max(Number.parseInt(String(request.query.months ?? '6'), 10) || 6, 1), 24)
+  const now = new Date()
+  const periods = Array.from({ length: months }, (_, index) =>
+    getMonthRange(new Date(now.getFullYear(), now.getMonth() - index - 1, 1)),
+  )
+  try {
+    const [goals, users] = await Promise.all([loadGoals(periods), loadGoalUsers()])
+    const history = await Promise.all(
+      periods.map(async (period) => {
+        const periodGoals = goals.filter((goal) => goal.year === period.year && goal.month === period.month)
+        const { total, bySeller } = await sumValidSales(period.start, period.end)
+        const sellers = buildGoalRanking(users, periodGoals, bySeller).filter(
+          (seller) => request.user?.role === 'admin' || seller.userId === request.user?.id,
+        )
+        return {
+          year: period.year,
+          month: period.month,
+          target: Number(periodGoals.find((goal) => !goal.userId)?.target ?? 0),
+          achieved: total,
+          sellers: sellers.map((seller) => ({
+            userId: seller.userId,
+            name: seller.name,
+            target: seller.target,
+            achieved: seller.progress,
+            position: seller.position,
+          })),
+        }
+      }),
+    )
+    return response.json(history)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+// Planejamento anual: metas da loja (ou de um vendedor) e o realizado de cada mês do ano.
+router.get('/goal/year', async (request, response) => {
+  const year = Number.parseInt(String(request.query.year ?? ''), 10) || new Date().getFullYear()
+  const userId = request.user?.role === 'admin' && typeof request.query.userId === 'string' ? request.query.userId : null
+  const periods = Array.from({ length: 12 }, (_, index) => getMonthRange(new Date(year, index, 1)))
+  try {
+    const goals = await loadGoals(periods)
+    const months = await Promise.all(
+      periods.map(async (period) => {
+        const { total, bySeller } = await sumValidSales(period.start, period.end)
+        const goal = goals.find(
+          (entry) => entry.month === period.month && (entry.userId ?? null) === userId,
+        )
+        return {
+          month: period.month,
+          target: Number(goal?.target ?? 0),
+          achieved: userId ? roundMoney(bySeller.get(userId) ?? 0) : total,
+        }
+      }),
+    )
+    return response.json({ year, userId, months })
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+router.put('/goal/year', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = yearlyGoalSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const rows = payload.targets.map((target, index) => ({
+    year: payload.year,
+    month: index + 1,
+    target,
+    userId: payload.userId ?? null,
+  }))
+  const { data, error } = await supabase
+    .from('monthly_goals')
+    .upsert(rows, { onConflict: 'year,month,userId' })
+    .select('*')
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.json(data ?? [])
 })
 
 router.put('/goal', roleGuard('admin'), async (request, response) => {
   const payload = goalSchema.parse(request.body)
-  const { year, month } = getMonthRange()
+  const { year, month } = resolveGoalMonth(payload.year, payload.month)
   const { data, error } = await supabase
     .from('monthly_goals')
-    .upsert({ year, month, target: payload.target }, { onConflict: 'year,month' })
+    .upsert({ year, month, target: payload.target, userId: payload.userId ?? null }, { onConflict: 'year,month,userId' })
     .select('*')
     .single()
   if (error || !data) {
@@ -174,9 +590,12 @@ router.put('/goal', roleGuard('admin'), async (request, response) => {
 })
 
 router.get('/expenses', roleGuard('admin'), async (request, response) => {
-  const { start, end, method } = request.query
+  const { start, end, method, categoryId } = request.query
   const normalizedMethod = extractMethodFilter(method)
-  let query = supabase.from('finance_expenses').select('*, createdBy:createdById(*)').order('date', { ascending: false })
+  let query = supabase
+    .from('finance_expenses')
+    .select('*, createdBy:createdById(*), category:categoryId(id, name)')
+    .order('date', { ascending: false })
   if (typeof start === 'string') {
     query = query.gte('date', start)
   }
@@ -186,6 +605,11 @@ router.get('/expenses', roleGuard('admin'), async (request, response) => {
   if (normalizedMethod) {
     query = query.eq('method', normalizedMethod)
   }
+  if (categoryId === 'none') {
+    query = query.is('categoryId', null)
+  } else if (typeof categoryId === 'string') {
+    query = query.eq('categoryId', categoryId)
+  }
   const { data, error } = await query
   if (error) {
     return response.status(500).json({ message: error.message })
@@ -211,10 +635,11 @@ router.post('/expenses', roleGuard('admin'), async (request, response) => {
       amount: payload.amount,
       date: new Date(payload.date).toISOString(),
       method: normalizeMethod(payload.method),
+      categoryId: payload.categoryId ?? null,
       note: payload.note?.trim() ?? null,
       createdById: request.user?.id ?? null,
     })
-    .select('*, createdBy:createdById(*)')
+    .select('*, createdBy:createdById(*), category:categoryId(id, name)')
     .single()
   if (error || !data) {
     return response.status(400).json({ message: error?.message ?? 'Não foi possível registrar saída.' })
@@ -222,4 +647,601 @@ router.post('/expenses', roleGuard('admin'), async (request, response) => {
   return response.status(201).json(data)
 })
 
+router.put('/expenses/:id', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = expenseSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const { data, error } = await supabase
+    .from('finance_expenses')
+    .update({
+      description: payload.description.trim(),
+      amount: payload.amount,
+      date: new Date(payload.date).toISOString(),
+      method: normalizeMethod(payload.method),
+      categoryId: payload.categoryId ?? null,
+      note: payload.note?.trim() ?? null,
+    })
+    .eq('id', request.params.id)
+    .select('*, createdBy:createdById(*), category:categoryId(id, name)')
+    .maybeSingle()
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  if (!data) {
+    return response.status(404).json({ message: 'Saída não encontrada.' })
+  }
+  return response.json(data)
+})
+
+router.delete('/expenses/:id', roleGuard('admin'), async (request, response) => {
+  const { error } = await supabase.from('finance_expenses').delete().eq('id', request.params.id)
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.status(204).send()
+})
+
+router.get('/expense-categories', roleGuard('admin'), async (_request, response) => {
+  const { data, error } = await supabase.from('expense_categories').select('*').order('name', { ascending: true })
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  return response.json(data ?? [])
+})
+
+router.post('/expense-categories', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = expenseCategorySchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const { data, error } = await supabase
+    .from('expense_categories')
+    .insert({ name: payload.name, active: payload.active ?? true })
+    .select('*')
+    .single()
+  if (error?.code === '23505') {
+    return response.status(409).json({ message: 'Já existe uma categoria com esse nome.' })
+  }
+  if (error || !data) {
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível criar a categoria.' })
+  }
+  return response.status(201).json(data)
+})
+
+router.put('/expense-categories/:id', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = expenseCategorySchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const { data, error } = await supabase
+    .from('expense_categories')
+    .update({ name: payload.name, ...(payload.active === undefined ? {} : { active: payload.active }) })
+    .eq('id', request.params.id)
+    .select('*')
+    .maybeSingle()
+  if (error?.code === '23505') {
+    return response.status(409).json({ message: 'Já existe uma categoria com esse nome.' })
+  }
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  if (!data) {
+    return response.status(404).json({ message: 'Categoria não encontrada.' })
+  }
+  return response.json(data)
+})
+
+// Saídas da categoria removida ficam sem categoria (`on delete set null`).
+router.delete('/expense-categories/:id', roleGuard('admin'), async (request, response) => {
+  const { error } = await supabase.from('expense_categories').delete().eq('id', request.params.id)
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.status(204).send()
+})
+
+router.get('/expense-recurrences', roleGuard('admin'), async (_request, response) => {
+  try {
+    const recurrences = await loadExpenseRecurrences()
+    return response.json(recurrences)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+router.post('/expense-recurrences', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = expenseRecurrenceSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const { data, error } = await supabase
+    .from('expense_recurrences')
+    .insert({ ...toRecurrencePayload(payload), nextDate: payload.startDate, createdById: request.user?.id ?? null })
+    .select('*')
+    .single()
+  if (error || !data) {
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível criar a recorrência.' })
+  }
+  try {
+    await generateRecurringExpenses()
+  } catch (generateError) {
+    console.error('Falha ao gerar saídas recorrentes:', generateError)
+  }
+  return response.status(201).json(data)
+})
+
+// Editar o modelo não altera lançamentos já gerados; só os próximos usam os novos dados.
+router.put('/expense-recurrences/:id', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = expenseRecurrenceSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const { data: current, error: currentError } = await supabase
+    .from('expense_recurrences')
+    .select('startDate, nextDate')
+    .eq('id', request.params.id)
+    .maybeSingle()
+  if (currentError) {
+    return response.status(400).json({ message: currentError.message })
+  }
+  if (!current) {
+    return response.status(404).json({ message: 'Recorrência não encontrada.' })
+  }
+  // Um novo início só adianta o próximo vencimento; datas já geradas não são refeitas.
+  const nextDate =
+    payload.startDate !== current.startDate && payload.startDate > current.nextDate ? payload.startDate : current.nextDate
+  const { data, error } = await supabase
+    .from('expense_recurrences')
+    .update({ ...toRecurrencePayload(payload), nextDate })
+    .eq('id', request.params.id)
+    .select('*')
+    .single()
+  if (error || !data) {
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível atualizar a recorrência.' })
+  }
+  try {
+    await generateRecurringExpenses()
+  } catch (generateError) {
+    console.error('Falha ao gerar saídas recorrentes:', generateError)
+  }
+  return response.json(data)
+})
+
+router.delete('/expense-recurrences/:id', roleGuard('admin'), async (request, response) => {
+  const { error } = await supabase.from('expense_recurrences').delete().eq('id', request.params.id)
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.status(204).send()
+})
+
+router.post('/expense-recurrences/generate', roleGuard('admin'), async (_request, response) => {
+  try {
+    const created = await generateRecurringExpenses()
+    return response.json({ created })
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+// Vendedores só enxergam a própria comissão; administradores veem todos ou filtram por `userId`.
+router.get('/commissions', async (request, response) => {
+  const { start, end, userId } = request.query
+  const range = parseReportRange(start, end)
+  const sellerId = request.user?.role === 'admin' ? (typeof userId === 'string' ? userId : undefined) : request.user?.id
+  try {
+    const report = await buildCommissionReport(range.start, range.end, sellerId)
+    return response.json(report)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+router.get('/margins', roleGuard('admin'), async (request, response) => {
+  const { start, end, userId } = request.query
+  const range = parseReportRange(start, end)
+  try {
+    const report = await buildMarginReport(range.start, range.end, typeof userId === 'string' ? userId : undefined)
+    return response.json(report)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+router.get('/statements/:year/:month', roleGuard('admin'), async (request, response) => {
+  const year = Number(request.params.year)
+  const month = Number(request.params.month)
+  if (!Number.isInteger(year) || year < 2000 || year > 2100 || !Number.isInteger(month) || month < 1 || month > 12) {
+    return response.status(400).json({ message: 'Mês inválido.' })
+  }
+  try {
+    const statement = await buildIncomeStatement(year, month)
+    return response.json(statement)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+router.get('/commission-rules', roleGuard('admin'), async (_request, response) => {
+  try {
+    const rules = await loadCommissionRules()
+    return response.json(rules)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+router.post('/commission-rules', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = commissionRuleSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const { data, error } = await supabase
+    .from('commission_rules')
+    .insert({
+      type: payload.type,
+      userId: payload.type === 'produto' ? null : payload.userId ?? null,
+      productId: payload.type === 'produto' ? payload.productId : null,
+      percent: payload.percent,
+      minVolume: payload.type === 'faixa' ? payload.minVolume : null,
+    })
+    .select('*')
+    .single()
+  if (error || !data) {
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível salvar a regra.' })
+  }
+  return response.status(201).json(data)
+})
+
+router.delete('/commission-rules/:id', roleGuard('admin'), async (request, response) => {
+  const { error } = await supabase.from('commission_rules').delete().eq('id', request.params.id)
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.status(204).send()
+})
+
+router.get('/commission-periods', roleGuard('admin'), async (_request, response) => {
+  const { data, error } = await supabase
+    .from('commission_periods')
+    .select('*, closedBy:closedById(id, name)')
+    .order('start', { ascending: false })
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  return response.json(data ?? [])
+})
+
+// Fechar um período grava o relatório calculado naquele momento; períodos fechados não podem se sobrepor.
+router.post('/commission-periods', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = commissionPeriodSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const start = new Date(payload.start)
+  const end = new Date(payload.end)
+  const { data: overlapping, error: overlapError } = await supabase
+    .from('commission_periods')
+    .select('id')
+    .lte('start', end.toISOString())
+    .gte('end', start.toISOString())
+    .limit(1)
+  if (overlapError) {
+    return response.status(500).json({ message: overlapError.message })
+  }
+  if (overlapping?.length) {
+    return response.status(409).json({ message: 'Já existe um período de comissão fechado nessas datas.' })
+  }
+
+  let report
+  try {
+    report = await buildCommissionReport(start, end)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+  const { data, error } = await supabase
+    .from('commission_periods')
+    .insert({
+      start: start.toISOString(),
+      end: end.toISOString(),
+      total: report.total,
+      details: report.sellers,
+      closedById: request.user?.id ?? null,
+    })
+    .select('*, closedBy:closedById(id, name)')
+    .single()
+  if (error || !data) {
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível fechar o período.' })
+  }
+  return response.status(201).json(data)
+})
+
+router.get('/card-fees', roleGuard('admin'), async (_request, response) => {
+  try {
+    const fees = await loadCardFees()
+    return response.json(fees)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+router.put('/card-fees', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = cardFeeSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const method = normalizeMethod(payload.method)
+  const { data, error } = await supabase
+    .from('card_fees')
+    .upsert(
+      {
+        method,
+        installments: method === 'CARTAO_DEBITO' ? 1 : payload.installments,
+        feePercent: payload.feePercent,
+        settlementDays: payload.settlementDays,
+      },
+      { onConflict: 'method,installments' },
+    )
+    .select('*')
+    .single()
+  if (error || !data) {
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível salvar a taxa.' })
+  }
+  return response.json(data)
+})
+
+router.delete('/card-fees/:id', roleGuard('admin'), async (request, response) => {
+  const { error } = await supabase.from('card_fees').delete().eq('id', request.params.id)
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.status(204).send()
+})
+
+// Sem datas, a previsão de repasses cobre os próximos 90 dias.
+router.get('/settlements', roleGuard('admin'), async (request, response) => {
+  const { start, end } = request.query
+  const rangeStart = typeof start === 'string' && !Number.isNaN(Date.parse(start)) ? new Date(start) : new Date()
+  if (typeof start !== 'string') {
+    rangeStart.setHours(0, 0, 0, 0)
+  }
+  const rangeEnd =
+    typeof end === 'string' && !Number.isNaN(Date.parse(end)) ? new Date(end) : new Date(rangeStart.getTime() + 90 * DAY_MS)
+
+  try {
+    const forecast = await buildSettlementForecast(rangeStart, rangeEnd)
+    return response.json(forecast)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+// Projeção de caixa para frente; o saldo inicial é informado por quem consulta (saldo atual em conta e gaveta).
+router.get('/cash-flow', roleGuard('admin'), async (request, response) => {
+  const days = Math.min(180, Math.max(7, Number.parseInt(String(request.query.days ?? ''), 10) || 90))
+  const openingBalance = Number(request.query.openingBalance ?? 0) || 0
+  const granularity = request.query.granularity === 'semana' ? 'semana' : 'dia'
+  const start = new Date()
+  start.setHours(0, 0, 0, 0)
+  try {
+    const projection = await buildCashFlowProjection(start, days, openingBalance, granularity)
+    return response.json(projection)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+router.get('/cash-sessions', roleGuard('admin'), async (_request, response) => {
+  const { data, error } = await supabase
+    .from('cash_sessions')
+    .select(
+      'id, status, openingAmount, openedAt, closedAt, countedAmount, expectedAmount, difference, openedBy:openedById(id, name), closedBy:closedById(id, name)',
+    )
+    .order('openedAt', { ascending: false })
+    .limit(30)
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  return response.json(data ?? [])
+})
+
+router.get('/cash-sessions/current', roleGuard('admin'), async (_request, response) => {
+  const { data, error } = await supabase.from('cash_sessions').select('id').eq('status', 'aberto').maybeSingle()
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  if (!data) {
+    return response.json(null)
+  }
+  try {
+    const session = await fetchCashSession(data.id)
+    return response.json(await buildCashSessionReport(session))
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+router.get('/cash-sessions/:id', roleGuard('admin'), async (request, response) => {
+  let session
+  try {
+    session = await fetchCashSession(request.params.id)
+  } catch (error) {
+    return response.status(404).json({ message: (error as Error).message })
+  }
+  try {
+    return response.json(await buildCashSessionReport(session))
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+// Só pode haver um caixa aberto por vez; o índice único parcial garante isso no banco.
+router.post('/cash-sessions', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = openCashSessionSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  const { data, error } = await supabase
+    .from('cash_sessions')
+    .insert({
+      status: 'aberto',
+      openingAmount: payload.openingAmount,
+      note: payload.note?.trim() || null,
+      openedById: request.user?.id ?? null,
+    })
+    .select('id')
+    .single()
+  if (error?.code === '23505') {
+    return response.status(409).json({ message: 'Já existe um caixa aberto. Feche-o antes de abrir outro.' })
+  }
+  if (error || !data) {
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível abrir o caixa.' })
+  }
+  const session = await fetchCashSession(data.id)
+  return response.status(201).json(await buildCashSessionReport(session))
+})
+
+router.post('/cash-sessions/:id/movements', roleGuard('admin'), async (request, response) => {
+  const { id } = request.params
+  let payload
+  try {
+    payload = cashMovementSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  let session
+  try {
+    session = await fetchCashSession(id)
+  } catch (error) {
+    return response.status(404).json({ message: (error as Error).message })
+  }
+  if (session.status !== 'aberto') {
+    return response.status(400).json({ message: 'Este caixa já foi fechado.' })
+  }
+  const { error } = await supabase.from('cash_movements').insert({
+    sessionId: id,
+    type: payload.type,
+    amount: payload.amount,
+    reason: payload.reason.trim(),
+    createdById: request.user?.id ?? null,
+  })
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.status(201).json(await buildCashSessionReport(session))
+})
+
+// O fechamento grava o esperado, o contado e a diferença junto com o detalhamento do caixa naquele momento.
+router.post('/cash-sessions/:id/close', roleGuard('admin'), async (request, response) => {
+  const { id } = request.params
+  let payload
+  try {
+    payload = closeCashSessionSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  let session
+  try {
+    session = await fetchCashSession(id)
+  } catch (error) {
+    return response.status(404).json({ message: (error as Error).message })
+  }
+  if (session.status !== 'aberto') {
+    return response.status(400).json({ message: 'Este caixa já foi fechado.' })
+  }
+  let details
+  try {
+    details = await buildCashSessionDetails(session)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+  const { data, error } = await supabase
+    .from('cash_sessions')
+    .update({
+      status: 'fechado',
+      closedAt: new Date().toISOString(),
+      closedById: request.user?.id ?? null,
+      countedAmount: payload.countedAmount,
+      expectedAmount: details.totals.expected,
+      difference: roundMoney(payload.countedAmount - details.totals.expected),
+      note: payload.note?.trim() || session.note,
+      details,
+    })
+    .eq('id', id)
+    .eq('status', 'aberto')
+    .select('id')
+    .maybeSingle()
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  if (!data) {
+    return response.status(409).json({ message: 'Este caixa já foi fechado.' })
+  }
+  const closed = await fetchCashSession(id)
+  return response.json(await buildCashSessionReport(closed))
+})
+
 export const financeRoutes = router
@@ -4,9 +4,13 @@ import { userRoutes } from './users.routes.js'
 import { clientRoutes } from './clients.routes.js'
 import { stockRoutes } from './stock.routes.js'
 import { salesRoutes } from './sales.routes.js'
+import { quoteRoutes } from './quotes.routes.js'
+import { discountPolicyRoutes } from './discount-policies.routes.js'
 import { assistanceRoutes } from './assistances.routes.js'
 import { financeRoutes } from './finance.routes.js'
 import { configRoutes } from './config.routes.js'
+import { purchaseOrderRoutes } from './purchase-orders.routes.js'
+import { supplierRoutes } from './suppliers.routes.js'
 
 export const router = Router()
 
@@ -15,6 +19,10 @@ router.use('/users', userRoutes)
 router.use('/clients', clientRoutes)
 router.use('/stock', stockRoutes)
 router.use('/sales', salesRoutes)
+router.use('/quotes', quoteRoutes)
+router.use('/discount-policies', discountPolicyRoutes)
 router.use('/assistances', assistanceRoutes)
 router.use('/finance', financeRoutes)
 router.use('/config', configRoutes)
+router.use('/purchase-orders', purchaseOrderRoutes)
+router.use('/suppliers', supplierRoutes)
@@ -0,0 +1,195 @@
+import { Router } from 'express'
+import { ZodError } from 'zod'
+import { authMiddleware } from '../middleware/auth.js'
+import { roleGuard } from '../middleware/roleGuard.js'
+import { supabase } from '../lib/supabase.js'
+import { errorStatus, runSaleTransaction } from '../lib/sales.js'
+import {
+  OPEN_PURCHASE_STATUSES,
+  PURCHASE_ORDER_SELECT,
+  addDays,
+  fetchPurchaseOrder,
+  findWaitingSales,
+  purchaseOrderSchema,
+  purchaseOrderUpdateSchema,
+  receiveSchema,
+  resolveSupplier,
+  type PurchaseOrderRow,
+} from '../lib/purchases.js'
+
+const router = Router()
+router.use(authMiddleware)
+
+const validationMessage = (error: unknown) => {
+  if (error instanceof ZodError) {
+    return error.issues[0]?.message ?? 'Dados inválidos.'
+  }
+  throw error
+}
+
+// `status=abertos` lista só os pedidos com itens a receber.
+router.get('/', roleGuard('admin'), async (request, response) => {
+  const { status } = request.query
+  let query = supabase.from('purchase_orders').select(PURCHASE_ORDER_SELECT).order('createdAt', { ascending: false })
+  if (status === 'abertos') {
+    query = query.in('status', OPEN_PURCHASE_STATUSES)
+  } else if (typeof status === 'string' && status) {
+    query = query.eq('status', status)
+  }
+  const { data, error } = await query
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  return response.json(data ?? [])
+})
+
+router.get('/:id', roleGuard('admin'), async (request, response) => {
+  let order
+  try {
+    order = await fetchPurchaseOrder(request.params.id)
+  } catch (error) {
+    return response.status(404).json({ message: (error as Error).message })
+  }
+  try {
+    const waitingSales = await findWaitingSales(order as unknown as PurchaseOrderRow)
+    return response.json({ ...order, waitingSales })
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
+// A criação roda em `create_purchase_order`: pedido, itens e vendas ligadas na mesma transação.
+router.post('/', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = purchaseOrderSchema.parse(request.body)
+  } catch (error) {
+    return response.status(400).json({ message: validationMessage(error) })
+  }
+  let supplier = null
+  if (payload.supplierId) {
+    try {
+      supplier = await resolveSupplier(payload.supplierId)
+    } catch (error) {
+      return response.status(500).json({ message: (error as Error).message })
+    }
+    if (!supplier) {
+      return response.status(404).json({ message: 'Fornecedor não encontrado.' })
+    }
+  }
+  let orderId
+  try {
+    orderId = await runSaleTransaction('create_purchase_order', {
+      payload: {
+        supplierId: supplier?.id ?? null,
+        supplierName: supplier?.name ?? payload.supplierName,
+        expectedAt:
+          payload.expectedAt ?? (supplier?.leadTimeDays != null ? addDays(supplier.leadTimeDays) : null),
+        note: payload.note || null,
+        userId: request.user?.id ?? null,
+        items: payload.items,
+        saleIds: [...new Set(payload.saleIds)],
+      },
+    })
+  } catch (error) {
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
+  }
+  return response.status(201).json(await fetchPurchaseOrder(orderId))
+})
+
+router.put('/:id', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = purchaseOrderUpdateSchema.parse(request.body)
+  } catch (error) {
+    return response.status(400).json({ message: validationMessage(error) })
+  }
+  const changes: Record<string, unknown> = {
+    ...payload,
+    ...(payload.note !== undefined ? { note: payload.note || null } : {}),
+  }
+  if (payload.supplierId) {
+    let supplier
+    try {
+      supplier = await resolveSupplier(payload.supplierId)
+    } catch (error) {
+      return response.status(500).json({ message: (error as Error).message })
+    }
+    if (!supplier) {
+      return response.status(404).json({ message: 'Fornecedor não encontrado.' })
+    }
+    changes.supplierName = supplier.name
+  }
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .update(changes)
+    .eq('id', request.params.id)
+    .select('id')
+    .maybeSingle()
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  if (!data) {
+    return response.status(404).json({ message: 'Pedido de compra não encontrado.' })
+  }
+  return response.json(await fetchPurchaseOrder(data.id))
+})
+
+// O recebimento roda em `receive_purchase_order`: entrada no estoque, custo médio e saldo do pedido juntos.
+router.post('/:id/receive', roleGuard('admin'), async (request, response) => {
+  let payload
+  try {
+    payload = receiveSchema.parse(request.body)
+  } catch (error) {
+    return response.status(400).json({ message: validationMessage(error) })
+  }
+  try {
+    await runSaleTransaction('receive_purchase_order', {
+      order_id: request.params.id,
+      payload: { items: payload.items, note: payload.note ?? null, userId: request.user?.id ?? null },
+    })
+  } catch (error) {
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
+  }
+  return response.json(await fetchPurchaseOrder(request.params.id))
+})
+
+// Cancela o saldo ainda não recebido; o que já entrou no estoque permanece.
+router.post('/:id/cancel', roleGuard('admin'), async (request, response) => {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .update({ status: 'cancelado' })
+    .eq('id', request.params.id)
+    .in('status', OPEN_PURCHASE_STATUSES)
+    .select('id')
+    .maybeSingle()
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  if (!data) {
+    return response.status(400).json({ message: 'Apenas pedidos em aberto podem ser cancelados.' })
+  }
+  return response.json(await fetchPurchaseOrder(data.id))
+})
+
+router.post('/:id/sales/:saleId', roleGuard('admin'), async (request, response) => {
+  const { id, saleId } = request.params
+  const { error } = await supabase
+    .from('purchase_order_sales')
+    .upsert({ purchaseOrderId: id, saleId }, { onConflict: 'purchaseOrderId,saleId', ignoreDuplicates: true })
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.status(204).send()
+})
+
+router.delete('/:id/sales/:saleId', roleGuard('admin'), async (request, response) => {
+  const { id, saleId } = request.params
+  const { error } = await supabase.from('purchase_order_sales').delete().eq('purchaseOrderId', id).eq('saleId', saleId)
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.status(204).send()
+})
+
+export const purchaseOrderRoutes = router
@@ -0,0 +1,292 @@
+import { Router } from 'express'
+import { ZodError, z } from 'zod'
+import { authMiddleware } from '../middleware/auth.js'
+import type { QuoteStatus } from '../types.js'
+import { supabase } from '../lib/supabase.js'
+import { evaluateDiscounts, loadDiscountPolicy } from '../lib/discounts.js'
+import {
+  dateSchema,
+  errorStatus,
+  fetchSale,
+  isValidId,
+  loadProducts,
+  recordSaleEvent,
+  runSaleTransaction,
+  saleSchema,
+  sumItems,
+  toSaleItemsPayload,
+  toSalePayload,
+  validateStock,
+  type SaleItemInput,
+} from '../lib/sales.js'
+
+const router = Router()
+router.use(authMiddleware)
+
+const quoteSchema = saleSchema.extend({
+  validUntil: z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Informe a validade do orçamento.'),
+})
+
+const convertSchema = z.object({
+  deliveryDate: dateSchema,
+})
+
+const QUOTE_STATUS_ABERTO: QuoteStatus = 'aberto'
+const QUOTE_STATUS_CANCELADO: QuoteStatus = 'cancelado'
+
+type QuoteRow = {
+  id: string
+  publicId: string
+  clientId: string
+  status: QuoteStatus
+  discount: number
+  note: string | null
+  value: number
+  validUntil: string
+  createdById: string | null
+  items: {
+    productId: string | null
+    customName: string | null
+    customSku: string | null
+    quantity: number
+    unitPrice: number
+    discount: number | null
+  }[]
+  payments: {
+    method: string
+    amount: number
+    installments: number | null
+    weeklyWeeks: number | null
+    weeklyAmount: number | null
+  }[]
+}
+
+const fetchQuote = async (id: string) => {
+  const { data, error } = await supabase
+    .from('quotes')
+    .select(
+      `
+      *,
+      client:clientId(*),
+      items:quote_items(*, product:productId(*)),
+      payments:quote_payments(*)
+    `,
+    )
+    .eq('id', id)
+    .single()
+  if (error || !data) {
+    throw new Error(error?.message ?? 'Orçamento não encontrado.')
+  }
+  return data as QuoteRow
+}
+
+const isExpired = (quote: Pick<QuoteRow, 'validUntil'>) => {
+  const endOfValidity = new Date(quote.validUntil)
+  endOfValidity.setHours(23, 59, 59, 999)
+  return endOfValidity.getTime() < Date.now()
+}
+
+const parseQuote = (body: unknown) => {
+  let payload: z.infer<typeof quoteSchema>
+  try {
+    payload = quoteSchema.parse(body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      throw new Error(error.issues[0]?.message ?? 'Dados inválidos.')
+    }
+    throw error
+  }
+  const orderTotal = sumItems(payload.items) - payload.discount
+  const paymentsTotal = payload.payments.reduce((sum, payment) => sum + payment.amount, 0)
+  if (Math.abs(paymentsTotal - orderTotal) > 0.01) {
+    throw new Error('Pagamentos não conferem com o total do orçamento.')
+  }
+  return {
+    ...toSalePayload(payload, orderTotal),
+    validUntil: new Date(payload.validUntil).toISOString(),
+  }
+}
+
+router.get('/', async (request, response) => {
+  const { status, clientId } = request.query
+  let query = supabase
+    .from('quotes')
+    .select(
+      `
+      *,
+      client:clientId(*),
+      items:quote_items(*, product:productId(*)),
+      payments:quote_payments(*)
+    `,
+    )
+    .order('createdAt', { ascending: false })
+  if (typeof status === 'string') {
+    query = query.eq('status', status)
+  }
+  if (typeof clientId === 'string') {
+    query = query.eq('clientId', clientId)
+  }
+  const { data, error } = await query
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  return response.json(data ?? [])
+})
+
+router.get('/:id', async (request, response) => {
+  try {
+    const quote = await fetchQuote(request.params.id)
+    return response.json(quote)
+  } catch (error) {
+    return response.status(404).json({ message: (error as Error).message })
+  }
+})
+
+// Orçamentos não reservam estoque; a disponibilidade só é conferida na conversão em venda.
+router.post('/', async (request, response) => {
+  let payload
+  try {
+    payload = parseQuote(request.body)
+  } catch (error) {
+    return response.status(400).json({ message: (error as Error).message })
+  }
+  const { data: client, error: clientError } = await supabase.from('clients').select('id').eq('id', payload.clientId).single()
+  if (clientError || !client) {
+    return response.status(404).json({ message: 'Cliente não encontrado.' })
+  }
+
+  let quoteId: string
+  try {
+    quoteId = await runSaleTransaction('create_quote', {
+      payload: { ...payload, createdById: request.user?.id ?? null },
+    })
+  } catch (error) {
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
+  }
+  const quote = await fetchQuote(quoteId)
+  return response.status(201).json(quote)
+})
+
+router.put('/:id', async (request, response) => {
+  const { id } = request.params
+  let quote
+  try {
+    quote = await fetchQuote(id)
+  } catch (error) {
+    return response.status(404).json({ message: (error as Error).message })
+  }
+  if (quote.status !== QUOTE_STATUS_ABERTO) {
+    return response.status(400).json({ message: 'Apenas orçamentos em aberto podem ser editados.' })
+  }
+  let payload
+  try {
+    payload = parseQuote(request.body)
+  } catch (error) {
+    return response.status(400).json({ message: (error as Error).message })
+  }
+  try {
+    await runSaleTransaction('update_quote', { quote_id: id, payload })
+  } catch (error) {
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
+  }
+  const updated = await fetchQuote(id)
+  return response.json(updated)
+})
+
+router.post('/:id/cancel', async (request, response) => {
+  const { id } = request.params
+  const { data, error } = await supabase
+    .from('quotes')
+    .update({ status: QUOTE_STATUS_CANCELADO })
+    .eq('id', id)
+    .eq('status', QUOTE_STATUS_ABERTO)
+    .select('id')
+    .maybeSingle()
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  if (!data) {
+    return response.status(400).json({ message: 'Apenas orçamentos em aberto podem ser cancelados.' })
+  }
+  const quote = await fetchQuote(id)
+  return response.json(quote)
+})
+
+router.post('/:id/convert', async (request, response) => {
+  const { id } = request.params
+  const parsed = convertSchema.safeParse(request.body ?? {})
+  if (!parsed.success) {
+    return response.status(400).json({ message: parsed.error.issues[0]?.message ?? 'Dados inválidos.' })
+  }
+  const { deliveryDate } = parsed.data
+  let quote
+  try {
+    quote = await fetchQuote(id)
+  } catch (error) {
+    return response.status(404).json({ message: (error as Error).message })
+  }
+  if (quote.status !== QUOTE_STATUS_ABERTO) {
+    return response.status(400).json({ message: 'Este orçamento não está mais em aberto.' })
+  }
+  if (isExpired(quote)) {
+    return response.status(400).json({ message: 'Orçamento vencido. Atualize a validade antes de converter.' })
+  }
+
+  const items: SaleItemInput[] = quote.items.map((item) => ({
+    productId: item.productId ?? undefined,
+    customName: item.customName ?? undefined,
+    customSku: item.customSku ?? undefined,
+    quantity: item.quantity,
+    unitPrice: Number(item.unitPrice),
+    discount: Number(item.discount ?? 0),
+  }))
+  let approvalReasons: string[]
+  try {
+    const productsMap = await loadProducts(items.map((item) => item.productId).filter(isValidId))
+    validateStock(items, productsMap)
+    const policy = await loadDiscountPolicy(request.user?.role)
+    approvalReasons = evaluateDiscounts(items, Number(quote.discount), productsMap, policy)
+  } catch (error) {
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
+  }
+
+  let saleId: string
+  try {
+    saleId = await runSaleTransaction('convert_quote', {
+      quote_id: id,
+      payload: {
+        clientId: quote.clientId,
+        discount: quote.discount,
+        note: quote.note,
+        deliveryDate: deliveryDate ? new Date(deliveryDate).toISOString() : null,
+        value: quote.value,
+        requiresApproval: approvalReasons.length > 0,
+        approvalReason: approvalReasons.length ? approvalReasons.join(' ') : null,
+        items: toSaleItemsPayload(items),
+        payments: quote.payments.map((payment) => ({
+          method: payment.method,
+          amount: payment.amount,
+          installments: payment.installments ?? 1,
+          weeklyWeeks: payment.weeklyWeeks,
+          weeklyAmount: payment.weeklyAmount,
+        })),
+        // A venda é do vendedor que fez o orçamento, não de quem converteu (comissão, metas e margem por vendedor).
+        createdById: quote.createdById ?? request.user?.id ?? null,
+      },
+    })
+  } catch (error) {
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
+  }
+
+  const sale = await fetchSale(saleId)
+  await recordSaleEvent(saleId, 'criada', request.user?.id, {
+    publicId: sale.publicId,
+    value: sale.value,
+    quoteId: quote.id,
+    quotePublicId: quote.publicId,
+    convertedById: request.user?.id ?? null,
+  })
+  return response.status(201).json(sale)
+})
+
+export const quoteRoutes = router
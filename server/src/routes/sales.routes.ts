@@ -1,201 +1,213 @@
 import { Router } from 'express'
-import { z } from 'zod'
+import { ZodError, z } from 'zod'
 import { authMiddleware } from '../middleware/auth.js'
 import { roleGuard } from '../middleware/roleGuard.js'
-import type { PaymentMethod, SaleStatus } from '../types.js'
+import type { SaleStatus } from '../types.js'
 import { supabase } from '../lib/supabase.js'
+import { evaluateDiscounts, loadDiscountPolicy } from '../lib/discounts.js'
+import {
+  dateSchema,
+  errorStatus,
+  fetchSale,
+  getReturnedValue,
+  isValidId,
+  loadProducts,
+  normalizeMethod,
+  recordSaleEvent,
+  runSaleTransaction,
+  saleSchema,
+  sumItems,
+  toSalePayload,
+  validateStock,
+  type ReturnableItem,
+} from '../lib/sales.js'
 
 const router = Router()
 router.use(authMiddleware)
 
-const saleItemSchema = z
-  .object({
-    productId: z.string().min(5).optional(),
-    customName: z.string().trim().min(2).optional(),
-    customSku: z.string().trim().min(2).optional(),
-    quantity: z.number().int().positive(),
-    unitPrice: z.number().nonnegative(),
-    discount: z.number().nonnegative().default(0),
-  })
-  .refine(
-    (data) => data.productId || data.customName,
-    'Informe um produto válido ou descreva o item personalizado.',
-  )
-
-const paymentSchema = z.object({
-    method: z.enum(['PIX', 'Cartão de crédito', 'Cartão de débito', 'Dinheiro']),
-    amount: z.number().nonnegative(),
-    installments: z.number().int().positive().default(1),
-  })
+const deliverySchema = z.object({
+  items: z
+    .array(
+      z.object({
+        itemId: z.string().min(5),
+        quantity: z.number().int().positive(),
+      }),
+    )
+    .min(1)
+    .optional(),
+  deliveredAt: dateSchema,
+})
 
-const dateSchema = z
-  .string()
-  .refine((value) => {
-    if (!value) return true
-    const timestamp = Date.parse(value)
-    return !Number.isNaN(timestamp)
-  }, 'Data inválida.')
-  .optional()
-
-const saleSchema = z.object({
-  clientId: z.string().min(5),
-  items: z.array(saleItemSchema).min(1),
-  payments: z.array(paymentSchema).min(1),
-  note: z.string().optional(),
-  discount: z.number().nonnegative().default(0),
-  deliveryDate: dateSchema,
+const installmentSchema = z.object({
+  paidAmount: z.number().nonnegative(),
 })
 
-type SaleItemInput = z.infer<typeof saleItemSchema>
+// Formato salvo pelo front antigo em localStorage (sonhar:payment-overrides), indexado pelo código da venda.
+const overridesImportSchema = z.object({
+  overrides: z.record(
+    z.array(
+      z.object({
+        paymentId: z.string().min(5),
+        method: z.string(),
+        weeklyPlan: z
+          .object({
+            weeks: z.number().int().positive(),
+            weeklyAmount: z.number().nonnegative(),
+            payments: z.array(
+              z.object({
+                week: z.number().int().positive(),
+                paidAmount: z.number().nonnegative(),
+                paidAt: z.string().optional(),
+              }),
+            ),
+          })
+          .optional(),
+      }),
+    ),
+  ),
+})
+
+const returnSchema = z
+  .object({
+    type: z.enum(['devolucao', 'troca']),
+    items: z
+      .array(
+        z.object({
+          itemId: z.string().min(5),
+          quantity: z.number().int().positive(),
+        }),
+      )
+      .min(1, 'Informe ao menos um item devolvido.'),
+    replacement: z
+      .object({
+        productId: z.string().min(5),
+        quantity: z.number().int().positive(),
+        unitPrice: z.number().nonnegative(),
+      })
+      .optional(),
+    method: z.enum(['PIX', 'Cartão de crédito', 'Cartão de débito', 'Dinheiro']).default('Dinheiro'),
+    reason: z.string().trim().optional(),
+  })
+  .refine((data) => data.type === 'devolucao' || data.replacement, 'Informe o produto entregue na troca.')
+
+// Itens personalizados não têm custo de fábrica no cadastro: o administrador informa o custo ao aprovar.
+const approvalSchema = z.object({
+  costs: z
+    .array(
+      z.object({
+        itemId: z.string().min(5),
+        unitCost: z.number().nonnegative('Custo inválido.'),
+      }),
+    )
+    .default([]),
+})
 
-const SALE_STATUS_PENDENTE: SaleStatus = 'pendente'
+const SALE_STATUS_PARCIAL: SaleStatus = 'parcialmente_entregue'
 const SALE_STATUS_ENTREGUE: SaleStatus = 'entregue'
 const SALE_STATUS_CANCELADA: SaleStatus = 'cancelada'
 
-const isValidId = (value: string | null | undefined): value is string =>
-  typeof value === 'string' && value.length > 0
 
-const normalizeMethod = (method: string): PaymentMethod => {
-  switch (method) {
-    case 'Cartão de crédito':
-      return 'CARTAO_CREDITO'
-    case 'Cartão de débito':
-      return 'CARTAO_DEBITO'
-    case 'Dinheiro':
-      return 'DINHEIRO'
-    default:
-      return 'PIX'
-  }
+type SaleSnapshot = Record<string, unknown>
+
+type SaleRow = {
+  clientId: string
+  discount: number | null
+  note: string | null
+  deliveryDate: string | null
+  value: number | null
+  items?: {
+    productId: string | null
+    customName: string | null
+    product?: { name?: string } | null
+    quantity: number
+    unitPrice: number | null
+    discount: number | null
+  }[]
+  payments?: { method: string; amount: number | null; installments: number | null }[]
 }
 
-const formatPublicId = (sequence: number) => `VEN-${String(sequence).padStart(4, '0')}`
+// Resumo do pedido usado para registrar o que mudou em cada edição.
+const toSaleSnapshot = (sale: SaleRow): SaleSnapshot => ({
+  clientId: sale.clientId,
+  discount: Number(sale.discount ?? 0),
+  note: sale.note ?? null,
+  deliveryDate: sale.deliveryDate ?? null,
+  value: Number(sale.value ?? 0),
+  items: (sale.items ?? []).map((item) => ({
+    productId: item.productId ?? null,
+    name: item.product?.name ?? item.customName ?? null,
+    quantity: item.quantity,
+    unitPrice: Number(item.unitPrice ?? 0),
+    discount: Number(item.discount ?? 0),
+  })),
+  payments: (sale.payments ?? []).map((payment) => ({
+    method: payment.method,
+    amount: Number(payment.amount ?? 0),
+    installments: payment.installments ?? 1,
+  })),
+})
 
-const getNextSaleIdentifiers = async () => {
-  const { data, error } = await supabase.rpc('increment_sale_sequence')
-  if (error || typeof data !== 'number') {
-    throw new Error(error?.message ?? 'Não foi possível gerar o número da venda.')
-  }
-  return {
-    sequence: data,
-    publicId: formatPublicId(data),
-  }
-}
+const diffSnapshots = (before: SaleSnapshot, after: SaleSnapshot) =>
+  Object.keys(after).reduce<Record<string, { from: unknown; to: unknown }>>((changes, key) => {
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes[key] = { from: before[key], to: after[key] }
+    }
+    return changes
+  }, {})
 
-const loadProducts = async (productIds: string[]) => {
-  const uniqueIds = [...new Set(productIds)]
-  if (!uniqueIds.length) return new Map<string, any>()
-  const { data, error } = await supabase.from('products').select('*').in('id', uniqueIds)
-  if (error) {
-    throw new Error(error.message)
-  }
-  return new Map((data ?? []).map((product) => [product.id, product]))
-}
 
-const fetchSale = async (id: string) => {
-  const { data, error } = await supabase
-    .from('sales')
-    .select(
-      `
-      *,
-      client:clientId(*),
-      items:sale_items(*, product:productId(*)),
-      payments:sale_payments(*)
-    `,
-    )
-    .eq('id', id)
-    .single()
-  if (error || !data) {
-    throw new Error(error?.message ?? 'Venda não encontrada.')
-  }
-  return data
-}
+const SALE_LIST_STATUSES: SaleStatus[] = ['pendente', 'parcialmente_entregue', 'entregue', 'cancelada']
+const MAX_PAGE_SIZE = 100
 
-const validateStock = (items: SaleItemInput[], productMap: Map<string, any>) => {
-  for (const item of items) {
-    if (!item.productId) continue
-    const product = productMap.get(item.productId)
-    if (!product || product.quantity < item.quantity) {
-      throw new Error(`Estoque insuficiente para ${product?.name ?? item.productId}.`)
-    }
-  }
-}
+// O cursor guarda a data de criação e o id da última venda da página anterior (ordem decrescente).
+const encodeCursor = (sale: { createdAt: string; id: string }) =>
+  Buffer.from(`${sale.createdAt}|${sale.id}`).toString('base64url')
 
-const sumItems = (items: SaleItemInput[]) =>
-  items.reduce((total, item) => total + item.quantity * item.unitPrice - (item.discount ?? 0), 0)
+// As duas partes entram no filtro `or` do PostgREST, então só aceitam o formato de um timestamp e de um UUID.
+const CURSOR_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:?\d{2})?$/
 
-const toSaleItemsPayload = (saleId: string, items: SaleItemInput[]) =>
-  items.map((item) => ({
-    saleId,
-    productId: item.productId ?? null,
-    customName: item.customName ?? null,
-    customSku: item.customSku ?? null,
-    isCustom: !item.productId,
-    requiresApproval: !item.productId,
-    quantity: item.quantity,
-    unitPrice: item.unitPrice,
-    discount: item.discount ?? 0,
-  }))
-
-const toPaymentPayload = (saleId: string, payments: z.infer<typeof paymentSchema>[]) =>
-  payments.map((payment) => ({
-    saleId,
-    method: normalizeMethod(payment.method),
-    amount: payment.amount,
-    installments: payment.installments ?? 1,
-  }))
-
-const updateProductQuantities = async (
-  items: SaleItemInput[],
-  productMap: Map<string, any>,
-  direction: 'reserve' | 'release' | 'deliver',
-) => {
-  for (const item of items) {
-    if (!item.productId) continue
-    const product = productMap.get(item.productId)
-    if (!product) continue
-    const updates: Record<string, number> = {}
-    const currentQuantity = Number(product.quantity ?? 0)
-    const currentReserved = Number(product.reserved ?? 0)
-    if (direction === 'reserve') {
-      updates.quantity = currentQuantity - item.quantity
-      updates.reserved = currentReserved + item.quantity
-      product.quantity = updates.quantity
-      product.reserved = updates.reserved
-    } else if (direction === 'release') {
-      updates.quantity = currentQuantity + item.quantity
-      updates.reserved = Math.max(0, currentReserved - item.quantity)
-      product.quantity = updates.quantity
-      product.reserved = updates.reserved
-    } else if (direction === 'deliver') {
-      updates.reserved = Math.max(0, currentReserved - item.quantity)
-      product.reserved = updates.reserved
-    }
-    const { error } = await supabase.from('products').update(updates).eq('id', item.productId)
-    if (error) {
-      throw new Error(error.message)
-    }
+const decodeCursor = (cursor: string) => {
+  const [createdAt, id, ...rest] = Buffer.from(cursor, 'base64url').toString().split('|')
+  if (rest.length || !createdAt || !CURSOR_DATE_PATTERN.test(createdAt) || Number.isNaN(Date.parse(createdAt))) {
+    return null
   }
+  if (!isValidId(id)) return null
+  return { createdAt, id }
 }
 
+// Sem `limit`, devolve tudo o que os filtros selecionam (painéis pedem um período ou os status em aberto);
+// com `limit`, devolve { items, nextCursor }.
 router.get('/', async (request, response) => {
-  const { status, clientId, search, start, end } = request.query
+  const { status, clientId, search, start, end, paymentMethod, minValue, maxValue, limit, cursor } = request.query
+  const normalizedSearch = typeof search === 'string' ? search.trim().replace(/^#/, '') : ''
+  // Busca e forma de pagamento são resolvidas em `search_sales`, no banco, para não montar listas de ids na URL.
   let query = supabase
-    .from('sales')
+    .rpc('search_sales', {
+      search: normalizedSearch || null,
+      payment_method: typeof paymentMethod === 'string' && paymentMethod ? normalizeMethod(paymentMethod) : null,
+    })
     .select(
       `
       *,
       client:clientId(*),
       items:sale_items(*, product:productId(*)),
-      payments:sale_payments(*)
+      payments:sale_payments(*, weeklyInstallments:sale_payment_installments(*)),
+      returns:sale_returns(*, items:sale_return_items(*))
     `,
     )
     .order('createdAt', { ascending: false })
+    .order('id', { ascending: false })
 
   if (typeof clientId === 'string') {
     query = query.eq('clientId', clientId)
   }
-  if (typeof status === 'string' && ['pendente', 'entregue', 'cancelada'].includes(status)) {
-    query = query.eq('status', status)
+  // `status` aceita uma lista separada por vírgulas (ex.: pedidos em aberto: `pendente,parcialmente_entregue`).
+  const statuses =
+    typeof status === 'string'
+      ? status.split(',').filter((value): value is SaleStatus => SALE_LIST_STATUSES.includes(value as SaleStatus))
+      : []
+  if (statuses.length) {
+    query = query.in('status', statuses)
   }
   if (typeof start === 'string') {
     query = query.gte('createdAt', start)
@@ -203,23 +215,44 @@ router.get('/', async (request, response) => {
   if (typeof end === 'string') {
     query = query.lte('createdAt', end)
   }
-
-  const { data, error } = await query
-  if (error) {
-    return response.status(500).json({ message: error.message })
+  const minimum = typeof minValue === 'string' ? Number(minValue) : Number.NaN
+  if (!Number.isNaN(minimum)) {
+    query = query.gte('value', minimum)
+  }
+  const maximum = typeof maxValue === 'string' ? Number(maxValue) : Number.NaN
+  if (!Number.isNaN(maximum)) {
+    query = query.lte('value', maximum)
   }
-  const normalizedSearch = typeof search === 'string' ? search.trim().toLowerCase() : ''
-  if (!normalizedSearch) {
+
+  if (typeof limit !== 'string') {
+    const { data, error } = await query
+    if (error) {
+      return response.status(500).json({ message: error.message })
+    }
     return response.json(data ?? [])
   }
-  const filtered = (data ?? []).filter((sale) => {
-    const clientName = sale.client?.name ?? ''
-    return (
-      String(sale.publicId ?? sale.id).toLowerCase().includes(normalizedSearch) ||
-      clientName.toLowerCase().includes(normalizedSearch)
+
+  const pageSize = Math.min(Math.max(Number.parseInt(limit, 10) || 20, 1), MAX_PAGE_SIZE)
+  if (typeof cursor === 'string' && cursor) {
+    const position = decodeCursor(cursor)
+    if (!position) {
+      return response.status(400).json({ message: 'Cursor inválido.' })
+    }
+    query = query.or(
+      `createdAt.lt."${position.createdAt}",and(createdAt.eq."${position.createdAt}",id.lt.${position.id})`,
     )
+  }
+  const { data, error } = await query.limit(pageSize + 1)
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  const rows = data ?? []
+  const items = rows.slice(0, pageSize)
+  const last = items[items.length - 1]
+  return response.json({
+    items,
+    nextCursor: rows.length > pageSize && last ? encodeCursor(last) : null,
   })
-  return response.json(filtered)
 })
 
 router.post('/', async (request, response) => {
@@ -239,7 +272,14 @@ router.post('/', async (request, response) => {
   try {
     validateStock(payload.items, productsMap)
   } catch (error) {
-    return response.status(400).json({ message: (error as Error).message })
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
+  }
+  let approvalReasons: string[]
+  try {
+    const policy = await loadDiscountPolicy(request.user?.role)
+    approvalReasons = evaluateDiscounts(payload.items, payload.discount, productsMap, policy)
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
   }
 
   const itemsTotal = sumItems(payload.items)
@@ -248,53 +288,82 @@ router.post('/', async (request, response) => {
   if (Math.abs(paymentsTotal - orderTotal) > 0.01) {
     return response.status(400).json({ message: 'Pagamentos não conferem com o total do pedido.' })
   }
-  const requiresApproval = payload.items.some((item) => !item.productId)
-  const deliveryDate = payload.deliveryDate ? new Date(payload.deliveryDate).toISOString() : null
-  let identifiers: { sequence: number; publicId: string }
+  let saleId: string
   try {
-    identifiers = await getNextSaleIdentifiers()
-  } catch (error) {
-    return response.status(500).json({ message: (error as Error).message })
-  }
-
-  const { data: createdSale, error: saleError } = await supabase
-    .from('sales')
-    .insert({
-      clientId: payload.clientId,
-      createdById: request.user?.id ?? null,
-      discount: payload.discount,
-      note: payload.note ?? null,
-      deliveryDate,
-      value: orderTotal,
-      requiresApproval,
-      status: SALE_STATUS_PENDENTE,
-      publicId: identifiers.publicId,
-      sequence: identifiers.sequence,
+    saleId = await runSaleTransaction('create_sale', {
+      payload: { ...toSalePayload(payload, orderTotal, approvalReasons), createdById: request.user?.id ?? null },
     })
-    .select('*')
-    .single()
-  if (saleError || !createdSale) {
-    return response.status(400).json({ message: saleError?.message ?? 'Não foi possível criar a venda.' })
+  } catch (error) {
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
   }
 
-  const saleId = createdSale.id
-  const { error: itemsError } = await supabase.from('sale_items').insert(toSaleItemsPayload(saleId, payload.items))
-  if (itemsError) {
-    return response.status(400).json({ message: itemsError.message })
-  }
-  const { error: paymentsError } = await supabase.from('sale_payments').insert(toPaymentPayload(saleId, payload.payments))
-  if (paymentsError) {
-    return response.status(400).json({ message: paymentsError.message })
-  }
+  const sale = await fetchSale(saleId)
+  await recordSaleEvent(saleId, 'criada', request.user?.id, { publicId: sale.publicId, value: sale.value })
+  return response.status(201).json(sale)
+})
 
+// Só completa pagamentos que ainda não têm plano semanal nem semanas recebidas: o que já está no servidor prevalece
+// sobre o que ficou salvo no navegador.
+// Vendedores importam só as próprias vendas; os demais pagamentos voltam em `skipped` para ficarem no navegador.
+router.post('/payment-plans/import', roleGuard(['admin', 'seller']), async (request, response) => {
+  let payload
   try {
-    await updateProductQuantities(payload.items, productsMap, 'reserve')
+    payload = overridesImportSchema.parse(request.body)
   } catch (error) {
-    return response.status(400).json({ message: (error as Error).message })
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  let imported = 0
+  const skipped: string[] = []
+  for (const override of Object.values(payload.overrides).flat()) {
+    const { data: payment } = await supabase
+      .from('sale_payments')
+      .select('id, saleId, weeklyWeeks, weeklyInstallments:sale_payment_installments(id), sale:saleId(createdById)')
+      .eq('id', override.paymentId)
+      .maybeSingle()
+    if (!payment || payment.weeklyWeeks !== null || payment.weeklyInstallments?.length) continue
+    const sale = payment.sale as unknown as { createdById: string | null } | null
+    if (request.user?.role !== 'admin' && sale?.createdById !== request.user?.id) {
+      skipped.push(payment.id)
+      continue
+    }
+    const method = normalizeMethod(override.method)
+    const plan = method === 'SEMANAL_LOJA' ? override.weeklyPlan : undefined
+    const { data: filled, error: paymentError } = await supabase
+      .from('sale_payments')
+      .update({ method, weeklyWeeks: plan?.weeks ?? null, weeklyAmount: plan?.weeklyAmount ?? null })
+      .eq('id', payment.id)
+      .is('weeklyWeeks', null)
+      .select('id')
+      .maybeSingle()
+    if (paymentError) {
+      return response.status(400).json({ message: paymentError.message })
+    }
+    if (!filled) continue
+    const installments = (plan?.payments ?? [])
+      .filter((item) => item.paidAmount > 0 && item.week <= plan!.weeks)
+      .map((item) => ({
+        saleId: payment.saleId,
+        paymentId: payment.id,
+        week: item.week,
+        paidAmount: item.paidAmount,
+        paidAt: item.paidAt ?? new Date().toISOString(),
+        createdById: request.user?.id ?? null,
+      }))
+    if (installments.length) {
+      const { error: installmentsError } = await supabase
+        .from('sale_payment_installments')
+        .upsert(installments, { onConflict: 'paymentId,week', ignoreDuplicates: true })
+      if (installmentsError) {
+        return response.status(400).json({ message: installmentsError.message })
+      }
+    }
+    imported += 1
   }
-
-  const sale = await fetchSale(saleId)
-  return response.status(201).json(sale)
+  return response.json({ imported, skipped })
 })
 
 router.post('/:id/confirm-delivery', roleGuard(['admin', 'seller']), async (request, response) => {
@@ -315,35 +384,32 @@ router.post('/:id/confirm-delivery', roleGuard(['admin', 'seller']), async (requ
     return response.json(sale)
   }
 
-  const productIds = sale.items.map((item: any) => item.productId).filter(isValidId)
-  let productsMap: Map<string, any>
+  // Sem itens informados, entrega tudo o que ainda falta do pedido.
+  let delivery
   try {
-    productsMap = await loadProducts(productIds)
+    delivery = deliverySchema.parse(request.body ?? {})
   } catch (error) {
-    return response.status(500).json({ message: (error as Error).message })
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
   }
   try {
-    await updateProductQuantities(
-      sale.items.map((item: any) => ({
-        productId: item.productId,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        discount: item.discount,
-        customName: item.customName,
-        customSku: item.customSku,
-      })),
-      productsMap,
-      'deliver',
-    )
+    await runSaleTransaction('deliver_sale', {
+      sale_id: id,
+      items: delivery.items ?? null,
+      delivered_at: delivery.deliveredAt ? new Date(delivery.deliveredAt).toISOString() : new Date().toISOString(),
+    })
   } catch (error) {
-    return response.status(400).json({ message: (error as Error).message })
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
   }
 
-  const { error } = await supabase.from('sales').update({ status: SALE_STATUS_ENTREGUE }).eq('id', id)
-  if (error) {
-    return response.status(400).json({ message: error.message })
-  }
   const updated = await fetchSale(id)
+  await recordSaleEvent(id, updated.status === SALE_STATUS_ENTREGUE ? 'entregue' : 'entrega_parcial', request.user?.id, {
+    items: delivery.items ?? null,
+    deliveredAt: delivery.deliveredAt ?? null,
+  })
   return response.json(updated)
 })
 
@@ -357,6 +423,51 @@ router.get('/:id', async (request, response) => {
   }
 })
 
+router.get('/:id/events', async (request, response) => {
+  const { id } = request.params
+  const { data, error } = await supabase
+    .from('sale_events')
+    .select('*, user:userId(id, name)')
+    .eq('saleId', id)
+    .order('createdAt', { ascending: true })
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  return response.json(data ?? [])
+})
+
+// O valor da semana é gravado em `register_weekly_installment`, que trava o pagamento para que recebimentos
+// simultâneos não sobrescrevam um ao outro.
+router.put('/:id/payments/:paymentId/installments/:week', roleGuard(['admin', 'seller']), async (request, response) => {
+  const { id, paymentId } = request.params
+  const week = Number(request.params.week)
+  let payload
+  try {
+    payload = installmentSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  if (!Number.isInteger(week)) {
+    return response.status(400).json({ message: 'Semana inválida para este plano.' })
+  }
+
+  try {
+    await runSaleTransaction('register_weekly_installment', {
+      payment_id: paymentId,
+      target_week: week,
+      payload: { saleId: id, paidAmount: payload.paidAmount, userId: request.user?.id ?? null },
+    })
+  } catch (error) {
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
+  }
+  const updated = await fetchSale(id)
+  return response.json(updated)
+})
+
 router.put('/:id', roleGuard('admin'), async (request, response) => {
   const payload = saleSchema.parse(request.body)
   const { id } = request.params
@@ -372,6 +483,9 @@ router.put('/:id', roleGuard('admin'), async (request, response) => {
   if (sale.status === SALE_STATUS_CANCELADA) {
     return response.status(400).json({ message: 'Não é possível editar um pedido cancelado.' })
   }
+  if (sale.status === SALE_STATUS_PARCIAL) {
+    return response.status(400).json({ message: 'Não é possível editar um pedido com entrega parcial.' })
+  }
 
   const productIds = [...new Set(payload.items.map((item) => item.productId).filter(isValidId))]
   let productsMap: Map<string, any>
@@ -380,10 +494,13 @@ router.put('/:id', roleGuard('admin'), async (request, response) => {
   } catch (error) {
     return response.status(500).json({ message: (error as Error).message })
   }
+  // O saldo é conferido em update_sale, depois de devolver as unidades que este pedido já reservava.
+  let approvalReasons: string[]
   try {
-    validateStock(payload.items, productsMap)
+    const policy = await loadDiscountPolicy(request.user?.role)
+    approvalReasons = evaluateDiscounts(payload.items, payload.discount, productsMap, policy)
   } catch (error) {
-    return response.status(400).json({ message: (error as Error).message })
+    return response.status(500).json({ message: (error as Error).message })
   }
 
   const itemsTotal = sumItems(payload.items)
@@ -393,51 +510,18 @@ router.put('/:id', roleGuard('admin'), async (request, response) => {
     return response.status(400).json({ message: 'Pagamentos não conferem com o total do pedido.' })
   }
 
-  const releaseItems: SaleItemInput[] = sale.items.map((item: any) => ({
-    productId: item.productId,
-    quantity: item.quantity,
-    unitPrice: item.unitPrice,
-    discount: item.discount,
-    customName: item.customName,
-    customSku: item.customSku,
-  }))
-  const requiresApproval = payload.items.some((item) => !item.productId)
   try {
-    const releaseMap = await loadProducts(releaseItems.map((item) => item.productId).filter(isValidId))
-    await updateProductQuantities(releaseItems, releaseMap, 'release')
-    await updateProductQuantities(payload.items, productsMap, 'reserve')
-  } catch (error) {
-    return response.status(400).json({ message: (error as Error).message })
-  }
-
-  await supabase.from('sale_items').delete().eq('saleId', id)
-  await supabase.from('sale_payments').delete().eq('saleId', id)
-
-  const { error: itemsError } = await supabase.from('sale_items').insert(toSaleItemsPayload(id, payload.items))
-  if (itemsError) {
-    return response.status(400).json({ message: itemsError.message })
-  }
-  const { error: paymentsError } = await supabase.from('sale_payments').insert(toPaymentPayload(id, payload.payments))
-  if (paymentsError) {
-    return response.status(400).json({ message: paymentsError.message })
-  }
-
-  const { error: updateError } = await supabase
-    .from('sales')
-    .update({
-      clientId: payload.clientId,
-      discount: payload.discount,
-      note: payload.note ?? null,
-      deliveryDate: payload.deliveryDate ? new Date(payload.deliveryDate).toISOString() : null,
-      value: orderTotal,
-      status: SALE_STATUS_PENDENTE,
-      requiresApproval,
+    await runSaleTransaction('update_sale', {
+      sale_id: id,
+      payload: toSalePayload(payload, orderTotal, approvalReasons),
     })
-    .eq('id', id)
-  if (updateError) {
-    return response.status(400).json({ message: updateError.message })
+  } catch (error) {
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
   }
   const updatedSale = await fetchSale(id)
+  await recordSaleEvent(id, 'editada', request.user?.id, {
+    changes: diffSnapshots(toSaleSnapshot(sale), toSaleSnapshot(updatedSale)),
+  })
   return response.json(updatedSale)
 })
 
@@ -449,38 +533,100 @@ router.post('/:id/cancel', roleGuard('admin'), async (request, response) => {
   } catch (error) {
     return response.status(404).json({ message: (error as Error).message })
   }
-  if (sale.status === SALE_STATUS_ENTREGUE) {
+  if (sale.status === SALE_STATUS_ENTREGUE || sale.status === SALE_STATUS_PARCIAL) {
     return response.status(400).json({ message: 'Não é possível cancelar um pedido entregue.' })
   }
   if (sale.status === SALE_STATUS_CANCELADA) {
     return response.json(sale)
   }
 
-  const releaseItems: SaleItemInput[] = sale.items.map((item: any) => ({
-    productId: item.productId,
-    quantity: item.quantity,
-    unitPrice: item.unitPrice,
-    discount: item.discount,
-    customName: item.customName,
-    customSku: item.customSku,
-  }))
   try {
-    const releaseMap = await loadProducts(releaseItems.map((item) => item.productId).filter(isValidId))
-    await updateProductQuantities(releaseItems, releaseMap, 'release')
+    await runSaleTransaction('cancel_sale', { sale_id: id })
   } catch (error) {
-    return response.status(400).json({ message: (error as Error).message })
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
   }
 
-  const { error } = await supabase.from('sales').update({ status: SALE_STATUS_CANCELADA }).eq('id', id)
-  if (error) {
-    return response.status(400).json({ message: error.message })
-  }
   const updated = await fetchSale(id)
+  await recordSaleEvent(id, 'cancelada', request.user?.id)
   return response.json(updated)
 })
 
+router.post('/:id/returns', roleGuard('admin'), async (request, response) => {
+  const { id } = request.params
+  let payload
+  try {
+    payload = returnSchema.parse(request.body)
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
+  let sale
+  try {
+    sale = await fetchSale(id)
+  } catch (error) {
+    return response.status(404).json({ message: (error as Error).message })
+  }
+  if (sale.status !== SALE_STATUS_ENTREGUE && sale.status !== SALE_STATUS_PARCIAL) {
+    return response.status(400).json({ message: 'Apenas pedidos entregues aceitam troca ou devolução.' })
+  }
+
+  const saleItems = new Map((sale.items as ReturnableItem[]).map((item) => [item.id, item]))
+  for (const line of payload.items) {
+    const item = saleItems.get(line.itemId)
+    if (!item) {
+      return response.status(400).json({ message: 'Item não pertence a este pedido.' })
+    }
+    const returnable = Number(item.deliveredQuantity ?? 0) - Number(item.returnedQuantity ?? 0)
+    if (line.quantity > returnable) {
+      return response.status(400).json({ message: 'Quantidade devolvida maior que a entregue.' })
+    }
+  }
+  const returnedValue = getReturnedValue({ discount: sale.discount, items: [...saleItems.values()] }, payload.items)
+  const replacementValue = payload.replacement ? payload.replacement.quantity * payload.replacement.unitPrice : 0
+
+  // Diferença positiva é cobrada do cliente como pagamento; negativa vira reembolso em finance_expenses.
+  try {
+    await runSaleTransaction('register_sale_return', {
+      sale_id: id,
+      payload: {
+        type: payload.type,
+        reason: payload.reason ?? null,
+        items: payload.items,
+        replacement: payload.replacement ?? null,
+        difference: Math.round((replacementValue - returnedValue) * 100) / 100,
+        method: normalizeMethod(payload.method),
+        createdById: request.user?.id ?? null,
+      },
+    })
+  } catch (error) {
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
+  }
+
+  const updated = await fetchSale(id)
+  await recordSaleEvent(id, payload.type, request.user?.id, {
+    items: payload.items,
+    replacement: payload.replacement ?? null,
+    difference: Math.round((replacementValue - returnedValue) * 100) / 100,
+    reason: payload.reason ?? null,
+  })
+  return response.status(201).json(updated)
+})
+
 router.post('/:id/approve', roleGuard('admin'), async (request, response) => {
   const { id } = request.params
+  let payload
+  try {
+    payload = approvalSchema.parse(request.body ?? {})
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issue = error.issues[0]
+      return response.status(400).json({ message: issue?.message ?? 'Dados inválidos.' })
+    }
+    throw error
+  }
   let sale
   try {
     sale = await fetchSale(id)
@@ -490,6 +636,21 @@ router.post('/:id/approve', roleGuard('admin'), async (request, response) => {
   if (!sale.requiresApproval) {
     return response.status(400).json({ message: 'Este pedido já foi aprovado.' })
   }
+  const costs = new Map(payload.costs.map((cost) => [cost.itemId, cost.unitCost]))
+  const customItems = ((sale.items ?? []) as { id: string; isCustom: boolean | null }[]).filter((item) => item.isCustom)
+  if (customItems.some((item) => !costs.has(item.id))) {
+    return response.status(400).json({ message: 'Informe o custo de fábrica dos itens personalizados.' })
+  }
+  for (const item of customItems) {
+    const { error: costError } = await supabase
+      .from('sale_items')
+      .update({ unitCost: costs.get(item.id) })
+      .eq('id', item.id)
+      .eq('saleId', id)
+    if (costError) {
+      return response.status(400).json({ message: costError.message })
+    }
+  }
   const { error } = await supabase
     .from('sales')
     .update({ requiresApproval: false })
@@ -499,6 +660,10 @@ router.post('/:id/approve', roleGuard('admin'), async (request, response) => {
   }
   await supabase.from('sale_items').update({ requiresApproval: false }).eq('saleId', id)
   const updated = await fetchSale(id)
+  await recordSaleEvent(id, 'aprovada', request.user?.id, {
+    reason: sale.approvalReason ?? null,
+    costs: payload.costs.length ? payload.costs : undefined,
+  })
   return response.json(updated)
 })
 
@@ -1,7 +1,9 @@
 import { Router } from 'express'
-import { z } from 'zod'
+import { ZodError, z } from 'zod'
 import { authMiddleware } from '../middleware/auth.js'
 import { roleGuard } from '../middleware/roleGuard.js'
+import { buildReorderSuggestions } from '../lib/reorder.js'
+import { errorStatus, runSaleTransaction } from '../lib/sales.js'
 import { supabase } from '../lib/supabase.js'
 
 const router = Router()
@@ -13,7 +15,35 @@ const sanitizeProductFactoryCost = <T extends { factoryCost?: number }>(product:
   return clone
 }
 
+const optionalText = (max: number) =>
+  z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim() || null : value),
+    z.string().max(max).nullable().optional(),
+  )
+
+// Dados de catálogo usados nos filtros do estoque e nos relatórios por categoria e marca.
+const catalogFields = {
+  categoryId: z.string().min(5).nullable().optional(),
+  supplierId: z.string().min(5).nullable().optional(),
+  brand: optionalText(60),
+  dimensions: optionalText(60),
+  warrantyMonths: z.number().int().nonnegative().max(240).nullable().optional(),
+  attributes: z.record(z.string().trim().min(1).max(40), z.string().trim().max(120)).optional(),
+}
+
+// Níveis de reposição: abaixo do ponto o produto entra nas sugestões de compra, que completam até o nível alvo.
+const reorderFields = {
+  reorderPoint: z.number().int().nonnegative().nullable().optional(),
+  targetLevel: z.number().int().positive().nullable().optional(),
+}
+
+const categorySchema = z.object({
+  name: z.string().trim().min(2, 'Informe o nome da categoria.'),
+})
+
 const productSchema = z.object({
+  ...catalogFields,
+  ...reorderFields,
   name: z.string().trim().min(2, 'Informe o nome do produto.'),
   sku: z.preprocess(
     (value) => {
@@ -34,19 +64,93 @@ const updateSchema = z.object({
   price: z.number().nonnegative().optional(),
   factoryCost: z.number().nonnegative().optional(),
   imageUrl: z.string().url().optional(),
+  size: z.string().trim().min(2).optional(),
+  height: z.string().trim().max(40).nullable().optional(),
+  firmness: z.string().trim().max(40).nullable().optional(),
+  ...catalogFields,
+  ...reorderFields,
 })
 
+const PRODUCT_SELECT = '*, family:familyId(id, name), category:categoryId(id, name), supplier:supplierId(id, name)'
+
 const generateSku = () => `SKU-${Math.floor(Math.random() * 90000 + 10000)}`
 
+const optionalAttribute = z.preprocess(
+  (value) => (typeof value === 'string' && value.trim() ? value.trim() : undefined),
+  z.string().max(40).optional(),
+)
+
+const familySchema = z.object({
+  name: z.string().trim().min(2, 'Informe o nome do produto.'),
+  description: z.string().trim().optional(),
+  imageUrl: z.string().url().optional(),
+})
+
+const familyUpdateSchema = familySchema.partial()
+
+// A variação pode ser um SKU novo ou um produto já cadastrado que passa a pertencer ao produto pai.
+const variantSchema = z
+  .object({
+    productId: z.string().min(5).optional(),
+    size: z.string().trim().min(2, 'Informe o tamanho da variação.'),
+    height: optionalAttribute,
+    firmness: optionalAttribute,
+    sku: z.preprocess(
+      (value) => (typeof value === 'string' && value.trim() ? value.trim() : undefined),
+      z.string().min(2).optional(),
+    ),
+    price: z.number().nonnegative().optional(),
+    factoryCost: z.number().nonnegative().optional(),
+    quantity: z.number().int().nonnegative().optional(),
+  })
+  .refine((variant) => variant.productId || variant.price !== undefined, 'Informe o preço da variação.')
+
+type ProductFamily = { id: string; name: string; imageUrl: string | null }
+
+// O nome da variação repete o produto pai e os atributos, para aparecer completo em pedidos, recibos e relatórios.
+const buildVariantName = (familyName: string, variant: { size: string; height?: string | null; firmness?: string | null }) =>
+  [familyName, [variant.size, variant.height, variant.firmness].filter(Boolean).join(' · ')].join(' ')
+
+const parseBody = <S extends z.ZodTypeAny>(schema: S, body: unknown): { data?: z.infer<S>; message?: string } => {
+  try {
+    return { data: schema.parse(body) }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { message: error.issues[0]?.message ?? 'Dados inválidos.' }
+    }
+    throw error
+  }
+}
+
+const fetchFamily = async (id: string) => {
+  const { data, error } = await supabase.from('product_families').select('id, name, imageUrl').eq('id', id).single()
+  if (error || !data) return null
+  return data as ProductFamily
+}
+
 router.get('/', authMiddleware, async (request, response) => {
   const isAdmin = request.user?.role === 'admin'
-  const { search } = request.query
+  const { search, categoryId, brand, supplierId } = request.query
   const normalizedSearch = typeof search === 'string' ? search.trim() : ''
-  let query = supabase.from('products').select('*').order('createdAt', { ascending: false })
+  let query = supabase
+    .from('products')
+    .select(PRODUCT_SELECT)
+    .order('createdAt', { ascending: false })
   if (normalizedSearch) {
     const pattern = `%${normalizedSearch}%`
     query = query.or(`name.ilike.${pattern},sku.ilike.${pattern}`)
   }
+  if (categoryId === 'sem-categoria') {
+    query = query.is('categoryId', null)
+  } else if (typeof categoryId === 'string' && categoryId) {
+    query = query.eq('categoryId', categoryId)
+  }
+  if (typeof supplierId === 'string' && supplierId) {
+    query = query.eq('supplierId', supplierId)
+  }
+  if (typeof brand === 'string' && brand.trim()) {
+    query = query.ilike('brand', brand.trim())
+  }
   const { data: products, error } = await query
   if (error) {
     return response.status(500).json({ message: error.message })
@@ -62,7 +166,7 @@ router.post('/', authMiddleware, roleGuard('admin'), async (request, response) =
   const { data, error } = await supabase
     .from('products')
     .insert({ ...rest, sku: normalizedSku, reserved: 0 })
-    .select('*')
+    .select(PRODUCT_SELECT)
     .single()
   if (error || !data) {
     return response.status(400).json({ message: error?.message ?? 'Não foi possível criar produto.' })
@@ -73,13 +177,222 @@ router.post('/', authMiddleware, roleGuard('admin'), async (request, response) =
 router.put('/:id', authMiddleware, roleGuard('admin'), async (request, response) => {
   const payload = updateSchema.parse(request.body)
   const { id } = request.params
-  const { data, error } = await supabase.from('products').update(payload).eq('id', id).select('*').single()
+  const changes: Record<string, unknown> = { ...payload }
+  // Variações têm o nome derivado do produto pai; mudar atributos refaz o nome.
+  if (payload.size !== undefined || payload.height !== undefined || payload.firmness !== undefined) {
+    const { data: current } = await supabase
+      .from('products')
+      .select('size, height, firmness, family:familyId(name)')
+      .eq('id', id)
+      .single()
+    const family = (current as { family?: { name: string } | null } | null)?.family
+    if (current && family) {
+      changes.name = buildVariantName(family.name, {
+        size: payload.size ?? current.size,
+        height: payload.height !== undefined ? payload.height : current.height,
+        firmness: payload.firmness !== undefined ? payload.firmness : current.firmness,
+      })
+    }
+  }
+  const { data, error } = await supabase.from('products').update(changes).eq('id', id).select(PRODUCT_SELECT).single()
+  if (error || !data) {
+    return response.status(404).json({ message: error?.message ?? 'Produto não encontrado.' })
+  }
+  return response.json(data)
+})
+
+router.get('/categories', authMiddleware, async (_request, response) => {
+  const { data, error } = await supabase.from('product_categories').select('*').order('name', { ascending: true })
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  return response.json(data ?? [])
+})
+
+router.post('/categories', authMiddleware, roleGuard('admin'), async (request, response) => {
+  const parsed = parseBody(categorySchema, request.body)
+  if (!parsed.data) return response.status(400).json({ message: parsed.message })
+  const { data, error } = await supabase.from('product_categories').insert(parsed.data).select('*').single()
+  if (error?.code === '23505') {
+    return response.status(409).json({ message: 'Já existe uma categoria com esse nome.' })
+  }
+  if (error || !data) {
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível criar a categoria.' })
+  }
+  return response.status(201).json(data)
+})
+
+router.put('/categories/:id', authMiddleware, roleGuard('admin'), async (request, response) => {
+  const parsed = parseBody(categorySchema, request.body)
+  if (!parsed.data) return response.status(400).json({ message: parsed.message })
+  const { data, error } = await supabase
+    .from('product_categories')
+    .update(parsed.data)
+    .eq('id', request.params.id)
+    .select('*')
+    .maybeSingle()
+  if (error?.code === '23505') {
+    return response.status(409).json({ message: 'Já existe uma categoria com esse nome.' })
+  }
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  if (!data) {
+    return response.status(404).json({ message: 'Categoria não encontrada.' })
+  }
+  return response.json(data)
+})
+
+// Produtos da categoria removida ficam sem categoria (`on delete set null`).
+router.delete('/categories/:id', authMiddleware, roleGuard('admin'), async (request, response) => {
+  const { error } = await supabase.from('product_categories').delete().eq('id', request.params.id)
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.status(204).send()
+})
+
+router.get('/families', authMiddleware, async (request, response) => {
+  const isAdmin = request.user?.role === 'admin'
+  const { data, error } = await supabase
+    .from('product_families')
+    .select('*, variants:products(*)')
+    .order('name', { ascending: true })
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  const payload = (data ?? []).map((family) => ({
+    ...family,
+    variants: ((family.variants ?? []) as { factoryCost?: number }[]).map((variant) =>
+      sanitizeProductFactoryCost(variant, isAdmin),
+    ),
+  }))
+  return response.json(payload)
+})
+
+router.post('/families', authMiddleware, roleGuard('admin'), async (request, response) => {
+  const parsed = parseBody(familySchema, request.body)
+  if (!parsed.data) return response.status(400).json({ message: parsed.message })
+  const { data, error } = await supabase
+    .from('product_families')
+    .insert({ ...parsed.data, description: parsed.data.description ?? null })
+    .select('*')
+    .single()
+  if (error || !data) {
+    if (error?.code === '23505') {
+      return response.status(409).json({ message: 'Já existe um produto com este nome.' })
+    }
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível criar o produto.' })
+  }
+  return response.status(201).json({ ...data, variants: [] })
+})
+
+router.put('/families/:id', authMiddleware, roleGuard('admin'), async (request, response) => {
+  const parsed = parseBody(familyUpdateSchema, request.body)
+  if (!parsed.data) return response.status(400).json({ message: parsed.message })
+  const { id } = request.params
+  const { data, error } = await supabase.from('product_families').update(parsed.data).eq('id', id).select('*').single()
   if (error || !data) {
     return response.status(404).json({ message: error?.message ?? 'Produto não encontrado.' })
   }
+  if (parsed.data.name) {
+    const { data: variants, error: variantsError } = await supabase
+      .from('products')
+      .select('id, size, height, firmness')
+      .eq('familyId', id)
+    if (variantsError) {
+      return response.status(400).json({ message: variantsError.message })
+    }
+    for (const variant of variants ?? []) {
+      await supabase
+        .from('products')
+        .update({ name: buildVariantName(data.name, variant) })
+        .eq('id', variant.id)
+    }
+  }
   return response.json(data)
 })
 
+// Só remove o produto pai sem variações; os SKUs continuam sendo apagados pela rota de produto.
+router.delete('/families/:id', authMiddleware, roleGuard('admin'), async (request, response) => {
+  const { id } = request.params
+  const { count, error: countError } = await supabase
+    .from('products')
+    .select('id', { count: 'exact', head: true })
+    .eq('familyId', id)
+  if (countError) {
+    return response.status(400).json({ message: countError.message })
+  }
+  if (count) {
+    return response.status(400).json({ message: 'Remova ou desvincule as variações antes de excluir o produto.' })
+  }
+  const { error } = await supabase.from('product_families').delete().eq('id', id)
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.status(204).send()
+})
+
+router.post('/families/:id/variants', authMiddleware, roleGuard('admin'), async (request, response) => {
+  const parsed = parseBody(variantSchema, request.body)
+  if (!parsed.data) return response.status(400).json({ message: parsed.message })
+  const family = await fetchFamily(request.params.id)
+  if (!family) return response.status(404).json({ message: 'Produto não encontrado.' })
+  const { productId, sku, ...variant } = parsed.data
+  const attributes = {
+    familyId: family.id,
+    size: variant.size,
+    height: variant.height ?? null,
+    firmness: variant.firmness ?? null,
+    name: buildVariantName(family.name, variant),
+  }
+  const query = productId
+    ? supabase
+        .from('products')
+        .update({
+          ...attributes,
+          ...(sku ? { sku } : {}),
+          ...(variant.price !== undefined ? { price: variant.price } : {}),
+          ...(variant.factoryCost !== undefined ? { factoryCost: variant.factoryCost } : {}),
+        })
+        .eq('id', productId)
+    : supabase.from('products').insert({
+        ...attributes,
+        sku: sku ?? generateSku(),
+        price: variant.price,
+        factoryCost: variant.factoryCost ?? 0,
+        quantity: variant.quantity ?? 0,
+        reserved: 0,
+        imageUrl: family.imageUrl ?? undefined,
+      })
+  const { data, error } = await query.select('*').single()
+  if (error || !data) {
+    if (error?.code === '23505') {
+      return response.status(409).json({ message: 'Este produto já tem uma variação com esses atributos.' })
+    }
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível salvar a variação.' })
+  }
+  return response.status(productId ? 200 : 201).json(data)
+})
+
+// Desvincula a variação do produto pai sem apagar o SKU, o estoque ou o histórico de vendas.
+router.delete('/families/:id/variants/:productId', authMiddleware, roleGuard('admin'), async (request, response) => {
+  const { id, productId } = request.params
+  const { data, error } = await supabase
+    .from('products')
+    .update({ familyId: null, size: null, height: null, firmness: null })
+    .eq('id', productId)
+    .eq('familyId', id)
+    .select('id')
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  if (!data?.length) {
+    return response.status(404).json({ message: 'Variação não encontrada.' })
+  }
+  return response.status(204).send()
+})
+
 const movementSchema = z.object({
   type: z.enum(['entrada', 'saida']),
   amount: z.number().int().positive(),
@@ -89,39 +402,20 @@ const movementSchema = z.object({
 router.post('/:id/movements', authMiddleware, roleGuard('admin'), async (request, response) => {
   const payload = movementSchema.parse(request.body)
   const { id } = request.params
-  const { data: product, error: productError } = await supabase
-    .from('products')
-    .select('id, quantity')
-    .eq('id', id)
-    .single()
-  if (productError || !product) return response.status(404).json({ message: 'Produto não encontrado.' })
-
-  if (payload.type === 'saida' && product.quantity < payload.amount) {
-    return response.status(400).json({ message: 'Quantidade em estoque insuficiente para saída.' })
+  // Ajuste relativo no banco: gravar um saldo calculado aqui desfaria reservas de vendas feitas ao mesmo tempo.
+  try {
+    await runSaleTransaction('register_stock_movement', {
+      product_id: id,
+      payload: { ...payload, note: payload.note ?? null, userId: request.user!.id },
+    })
+  } catch (error) {
+    return response.status(errorStatus(error)).json({ message: (error as Error).message })
   }
 
-  const delta = payload.type === 'entrada' ? payload.amount : -payload.amount
-  const nextQuantity = product.quantity + delta
-  const { data: updated, error: updateError } = await supabase
-    .from('products')
-    .update({ quantity: nextQuantity })
-    .eq('id', id)
-    .select('*')
-    .single()
-  if (updateError || !updated) {
-    return response.status(400).json({ message: updateError?.message ?? 'Falha ao atualizar estoque.' })
-  }
-  const { error: movementError } = await supabase.from('stock_movements').insert({
-    productId: id,
-    userId: request.user!.id,
-    type: payload.type,
-    amount: payload.amount,
-    note: payload.note ?? null,
-  })
-  if (movementError) {
-    return response.status(400).json({ message: movementError.message })
+  const { data: updated, error } = await supabase.from('products').select('*').eq('id', id).single()
+  if (error || !updated) {
+    return response.status(500).json({ message: error?.message ?? 'Falha ao carregar o produto.' })
   }
-
   return response.json(updated)
 })
 
@@ -148,6 +442,15 @@ router.get('/movements', authMiddleware, async (request, response) => {
   return response.json(payload)
 })
 
+router.get('/reorder-suggestions', authMiddleware, roleGuard('admin'), async (request, response) => {
+  const days = Math.min(365, Math.max(7, Number.parseInt(String(request.query.days ?? ''), 10) || 90))
+  try {
+    return response.json(await buildReorderSuggestions(days))
+  } catch (error) {
+    return response.status(500).json({ message: (error as Error).message })
+  }
+})
+
 router.delete('/:id', authMiddleware, roleGuard('admin'), async (request, response) => {
   const { id } = request.params
   const { data: product, error } = await supabase
@@ -0,0 +1,129 @@
+import { Router } from 'express'
+import { ZodError, z } from 'zod'
+import { authMiddleware } from '../middleware/auth.js'
+import { roleGuard } from '../middleware/roleGuard.js'
+import { supabase } from '../lib/supabase.js'
+import { PURCHASE_ORDER_SELECT } from '../lib/purchases.js'
+
+const router = Router()
+router.use(authMiddleware)
+
+const optionalText = z.preprocess(
+  (value) => (typeof value === 'string' ? value.trim() || null : value),
+  z.string().max(200).nullable().optional(),
+)
+
+const supplierSchema = z.object({
+  name: z.string().trim().min(2, 'Informe o nome da fábrica ou fornecedor.'),
+  contactName: optionalText,
+  phone: optionalText,
+  email: z.preprocess(
+    (value) => (typeof value === 'string' ? value.trim() || null : value),
+    z.string().email('E-mail inválido.').nullable().optional(),
+  ),
+  leadTimeDays: z.number().int().nonnegative().max(365).nullable().optional(),
+  paymentTerms: optionalText,
+  note: optionalText,
+})
+
+const parseSupplier = (body: unknown) => {
+  try {
+    return { data: supplierSchema.parse(body) }
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return { message: error.issues[0]?.message ?? 'Dados inválidos.' }
+    }
+    throw error
+  }
+}
+
+// A lista fica aberta aos vendedores porque o cadastro de assistência aponta a fábrica responsável.
+router.get('/', async (_request, response) => {
+  const { data, error } = await supabase.from('suppliers').select('*').order('name', { ascending: true })
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  return response.json(data ?? [])
+})
+
+router.get('/:id', roleGuard('admin'), async (request, response) => {
+  const { id } = request.params
+  const { data: supplier, error } = await supabase.from('suppliers').select('*').eq('id', id).maybeSingle()
+  if (error) {
+    return response.status(500).json({ message: error.message })
+  }
+  if (!supplier) {
+    return response.status(404).json({ message: 'Fornecedor não encontrado.' })
+  }
+  const [productsResult, assistancesResult, ordersResult] = await Promise.all([
+    supabase
+      .from('products')
+      .select('id, name, sku, quantity, reserved, price, factoryCost')
+      .eq('supplierId', id)
+      .order('name', { ascending: true }),
+    supabase
+      .from('assistances')
+      .select('id, code, status, defectDescription, expectedDate, createdAt, sale:saleId(publicId), product:productId(name)')
+      .eq('supplierId', id)
+      .eq('status', 'aberta')
+      .order('createdAt', { ascending: false }),
+    supabase.from('purchase_orders').select(PURCHASE_ORDER_SELECT).eq('supplierId', id).order('createdAt', { ascending: false }),
+  ])
+  const failure = productsResult.error ?? assistancesResult.error ?? ordersResult.error
+  if (failure) {
+    return response.status(500).json({ message: failure.message })
+  }
+  return response.json({
+    ...supplier,
+    products: productsResult.data ?? [],
+    openAssistances: assistancesResult.data ?? [],
+    purchaseOrders: ordersResult.data ?? [],
+  })
+})
+
+router.post('/', roleGuard('admin'), async (request, response) => {
+  const parsed = parseSupplier(request.body)
+  if (!parsed.data) return response.status(400).json({ message: parsed.message })
+  const { data, error } = await supabase.from('suppliers').insert(parsed.data).select('*').single()
+  if (error?.code === '23505') {
+    return response.status(409).json({ message: 'Já existe um fornecedor com esse nome.' })
+  }
+  if (error || !data) {
+    return response.status(400).json({ message: error?.message ?? 'Não foi possível cadastrar o fornecedor.' })
+  }
+  return response.status(201).json(data)
+})
+
+router.put('/:id', roleGuard('admin'), async (request, response) => {
+  const parsed = parseSupplier(request.body)
+  if (!parsed.data) return response.status(400).json({ message: parsed.message })
+  const { data, error } = await supabase
+    .from('suppliers')
+    .update(parsed.data)
+    .eq('id', request.params.id)
+    .select('*')
+    .maybeSingle()
+  if (error?.code === '23505') {
+    return response.status(409).json({ message: 'Já existe um fornecedor com esse nome.' })
+  }
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  if (!data) {
+    return response.status(404).json({ message: 'Fornecedor não encontrado.' })
+  }
+  // Pedidos de compra guardam o nome para o histórico; renomear o fornecedor atualiza os pedidos dele.
+  await supabase.from('purchase_orders').update({ supplierName: data.name }).eq('supplierId', data.id)
+  return response.json(data)
+})
+
+// Produtos, assistências e pedidos do fornecedor removido ficam sem vínculo (`on delete set null`).
+router.delete('/:id', roleGuard('admin'), async (request, response) => {
+  const { error } = await supabase.from('suppliers').delete().eq('id', request.params.id)
+  if (error) {
+    return response.status(400).json({ message: error.message })
+  }
+  return response.status(204).send()
+})
+
+export const supplierRoutes = router
@@ -1,8 +1,20 @@
 export type UserRole = 'admin' | 'seller'
 
-export type PaymentMethod = 'PIX' | 'CARTAO_CREDITO' | 'CARTAO_DEBITO' | 'DINHEIRO'
+export type PaymentMethod = 'PIX' | 'CARTAO_CREDITO' | 'CARTAO_DEBITO' | 'DINHEIRO' | 'PAGAMENTO_ENTREGA' | 'SEMANAL_LOJA'
 
-export type SaleStatus = 'pendente' | 'entregue' | 'cancelada'
+export type SaleStatus = 'pendente' | 'parcialmente_entregue' | 'entregue' | 'cancelada'
+
+export type QuoteStatus = 'aberto' | 'convertido' | 'cancelado'
+
+export type CommissionRuleType = 'vendedor' | 'produto' | 'faixa'
+
+export type CashMovementType = 'sangria' | 'suprimento'
+
+export type ExpenseFrequency = 'mensal' | 'semanal'
+
+export type PurchaseOrderStatus = 'aberto' | 'parcialmente_recebido' | 'recebido' | 'cancelado'
+
+export type SaleEventType = 'criada' | 'editada' | 'aprovada' | 'entregue' | 'entrega_parcial' | 'cancelada' | 'troca' | 'devolucao'
 
 declare global {
   namespace Express {
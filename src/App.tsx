@@ -9,7 +9,16 @@ import { getSupabaseClient } from './lib/supabase.ts'
 // Base da API sempre relativa ao mesmo domínio; evita localhost no build final.
 const API_BASE_URL = import.meta.env.VITE_API_URL ?? '/api'
 
-type PageId = 'dashboard' | 'clientes' | 'sleepLab' | 'estoque' | 'entregas' | 'assistencias' | 'financeiro'
+type PageId =
+  | 'dashboard'
+  | 'clientes'
+  | 'sleepLab'
+  | 'estoque'
+  | 'entregas'
+  | 'assistencias'
+  | 'fornecedores'
+  | 'financeiro'
+  | 'comissoes'
 
 type NavItem = {
   id: PageId
@@ -28,6 +37,8 @@ type Client = {
   addressCity: string
   addressNote: string
   createdAt: string
+  // Total de pedidos do cliente, contado no servidor (a lista de vendas carregada cobre só os últimos meses).
+  purchases: number
 }
 
 type StockItem = {
@@ -39,6 +50,113 @@ type StockItem = {
   price: number
   factoryCost?: number
   imageUrl: string
+  familyId?: string | null
+  familyName?: string
+  size?: string
+  height?: string
+  firmness?: string
+  categoryId?: string | null
+  categoryName?: string
+  supplierId?: string | null
+  supplierName?: string
+  brand?: string
+  dimensions?: string
+  warrantyMonths?: number | null
+  attributes: Record<string, string>
+  reorderPoint?: number | null
+  targetLevel?: number | null
+}
+
+type Supplier = {
+  id: string
+  name: string
+  contactName: string
+  phone: string
+  email: string
+  leadTimeDays: number | null
+  paymentTerms: string
+  note: string
+}
+
+type SupplierDetail = Supplier & {
+  products: Pick<StockItem, 'id' | 'name' | 'sku' | 'quantity' | 'reserved' | 'price' | 'factoryCost'>[]
+  openAssistances: {
+    id: string
+    code: string
+    defectDescription: string
+    expectedDate: string | null
+    createdAt: string
+    saleCode: string
+    productName: string
+  }[]
+  purchaseOrders: PurchaseOrder[]
+}
+
+type ProductCategory = {
+  id: string
+  name: string
+}
+
+type PurchaseOrderStatus = 'aberto' | 'parcialmente_recebido' | 'recebido' | 'cancelado'
+
+type PurchaseOrderItem = {
+  id: string
+  productId: string
+  productName: string
+  sku: string
+  quantity: number
+  receivedQuantity: number
+  unitCost: number
+}
+
+type PurchaseOrder = {
+  id: string
+  number: number
+  supplierId: string | null
+  supplierName: string
+  status: PurchaseOrderStatus
+  expectedAt: string | null
+  note: string
+  createdAt: string
+  items: PurchaseOrderItem[]
+  sales: { saleId: string; publicId: string; clientName: string; status: string }[]
+}
+
+type WaitingSale = {
+  saleId: string
+  publicId: string
+  clientName: string
+  status: string
+  deliveryDate: string | null
+  linked: boolean
+  items: { productId: string; pending: number }[]
+}
+
+type ReorderSuggestion = {
+  productId: string
+  name: string
+  sku: string
+  available: number
+  reserved: number
+  onOrder: number
+  soldUnits: number
+  dailyVelocity: number
+  daysOfCover: number | null
+  reorderPoint: number
+  targetLevel: number
+  suggestedQuantity: number
+  unitCost: number
+  supplierId: string | null
+  supplierName: string | null
+  leadTimeDays: number
+  automatic: boolean
+}
+
+type ProductFamily = {
+  id: string
+  name: string
+  description: string
+  variants: StockItem[]
 }
 
 type StockMovement = {
@@ -51,6 +169,7 @@ type StockMovement = {
 }
 
 type SaleItem = {
+  id?: string
   productId: string
   productName?: string
   customName?: string
@@ -61,6 +180,9 @@ type SaleItem = {
   unitPrice: number
   discount: number
   searchName?: string
+  deliveredQuantity?: number
+  deliveredAt?: string
+  returnedQuantity?: number
 }
 
 type PaymentMethod =
@@ -81,7 +203,7 @@ type SalePayment = {
   weeklyPlan?: WeeklyPlan
 }
 
-// Controle de pagamentos semanais (front-only).
+// Controle de pagamentos semanais (semanas recebidas ficam em sale_payment_installments).
 type WeeklyInstallment = {
   week: number
   paidAmount: number
@@ -94,12 +216,43 @@ type WeeklyPlan = {
   payments: WeeklyInstallment[]
 }
 
+// Formato antigo salvo no navegador; usado apenas na importação única para o servidor.
 type PaymentOverride = {
   paymentId: string
   method: PaymentMethod
   weeklyPlan?: WeeklyPlan
 }
 
+type SaleReturn = {
+  id: string
+  type: 'devolucao' | 'troca'
+  reason: string
+  difference: number
+  method?: PaymentMethod
+  replacementItemId?: string
+  createdAt: string
+  items: { saleItemId: string; productId: string; quantity: number }[]
+}
+
+type SaleEvent = {
+  id: string
+  type: string
+  userName: string
+  details: Record<string, unknown>
+  createdAt: string
+}
+
+type ReturnFormState = {
+  sale: Sale
+  type: 'devolucao' | 'troca'
+  quantities: Record<string, number>
+  replacementProductId: string
+  replacementQuantity: number
+  replacementUnitPrice: number
+  method: PaymentMethod
+  reason: string
+}
+
 type Sale = {
   id: string
   backendId?: string
@@ -110,10 +263,34 @@ type Sale = {
   discount: number
   payments: SalePayment[]
   note: string
-  status: 'pendente' | 'entregue' | 'cancelada'
+  status: 'pendente' | 'parcialmente_entregue' | 'entregue' | 'cancelada'
   requiresApproval: boolean
+  approvalReason?: string
   createdAt: string
   deliveryDate: string
+  returns: SaleReturn[]
+}
+
+type Quote = {
+  id: string
+  backendId: string
+  clientId: string
+  clientName?: string
+  items: SaleItem[]
+  payments: SalePayment[]
+  value: number
+  discount: number
+  note: string
+  validUntil: string
+  status: 'aberto' | 'convertido' | 'cancelado'
+  saleId?: string
+  createdAt: string
+}
+
+type DiscountPolicy = {
+  role: UserRole
+  maxDiscountPercent: number
+  minMarginPercent: number
 }
 
 type SaleFormState = {
@@ -155,6 +332,8 @@ type Assistance = {
   productName?: string
   defectDescription: string
   factoryResponse: string
+  supplierId: string | null
+  supplierName: string
   expectedDate: string
   status: 'aberta' | 'concluida'
   createdAt: string
@@ -162,7 +341,10 @@ type Assistance = {
   owner: string
 }
 
+type RevenueRecognitionMode = 'criacao' | 'entrega' | 'caixa'
+
 type FinanceSummary = {
+  mode: RevenueRecognitionMode
   totalRevenue: number
   discountTotal: number
   delivered: number
@@ -171,7 +353,147 @@ type FinanceSummary = {
   monthlySeries: Record<string, number>
   expensesTotal: number
   expensesByMethod: Record<string, number>
+  expensesByCategory: Record<string, number>
   netRevenue: number
+  cardFees: number
+  netOfFees: number
+  pendingApproval: { count: number; value: number }
+  cancelled: { count: number; value: number }
+}
+
+const revenueRecognitionLabels: Record<RevenueRecognitionMode, string> = {
+  criacao: 'Data da venda',
+  entrega: 'Data de entrega',
+  caixa: 'Recebimento',
+}
+
+type CashFlowGranularity = 'dia' | 'semana'
+
+type CashFlowProjection = {
+  start: string
+  end: string
+  granularity: CashFlowGranularity
+  openingBalance: number
+  totals: { settlements: number; receivables: number; expenses: number }
+  overdueReceivables: number
+  closingBalance: number
+  minBalance: number
+  firstNegative: string | null
+  periods: {
+    start: string
+    end: string
+    settlements: number
+    receivables: number
+    expenses: number
+    net: number
+    balance: number
+  }[]
+}
+
+type MarginTotals = {
+  revenue: number
+  cost: number
+  margin: number
+  marginPercent: number
+}
+
+type MarginReport = MarginTotals & {
+  start: string
+  end: string
+  missingCostItems: number
+  sales: (MarginTotals & { saleId: string; publicId: string; createdAt: string; sellerName: string })[]
+  products: (MarginTotals & { productId: string | null; name: string; quantity: number })[]
+  sellers: (MarginTotals & { userId: string | null; name: string })[]
+  categories: (MarginTotals & { categoryId: string | null; name: string; quantity: number })[]
+  brands: (MarginTotals & { name: string; quantity: number })[]
+  months: (MarginTotals & { month: string })[]
+}
+
+type IncomeStatementLine = {
+  key: string
+  label: string
+  kind: 'receita' | 'deducao' | 'custo' | 'despesa' | 'resultado'
+  current: number
+  previous: number
+  change: number
+  changePercent: number | null
+}
+
+type IncomeStatement = {
+  year: number
+  month: number
+  previousYear: number
+  previousMonth: number
+  grossMarginPercent: number
+  lines: IncomeStatementLine[]
+}
+
+type CardFee = {
+  id: string
+  method: PaymentMethod
+  installments: number
+  feePercent: number
+  settlementDays: number
+}
+
+type SettlementForecast = {
+  start: string
+  end: string
+  totalGross: number
+  totalNet: number
+  days: { date: string; gross: number; net: number; count: number }[]
+  payments: {
+    paymentId: string
+    saleId: string
+    publicId: string
+    clientName: string
+    method: PaymentMethod
+    installments: number
+    saleDate: string
+    gross: number
+    fee: number
+    net: number
+    upcoming: number
+  }[]
+}
+
+type ReceivableDue = {
+  week: number | null
+  dueDate: string
+  open: number
+  daysOverdue: number
+  overdue: boolean
+}
+
+type ReceivablePayment = {
+  paymentId: string
+  method: PaymentMethod
+  amount: number
+  open: number
+  overdueCount: number
+  nextDueDate: string | null
+  dues: ReceivableDue[]
+}
+
+type ReceivableSale = {
+  saleId: string
+  publicId: string
+  clientId: string
+  clientName: string
+  open: number
+  overdue: number
+  daysOverdue: number
+  bucket: '0-7' | '8-30' | '30+' | null
+  payments: ReceivablePayment[]
+}
+
+type FinanceReceivables = {
+  totalOpen: number
+  totalOverdue: number
+  notDue: number
+  buckets: Record<'0-7' | '8-30' | '30+', number>
+  sales: ReceivableSale[]
+  clients: { clientId: string; clientName: string; open: number; overdue: number }[]
 }
 
 type FinanceExpense = {
@@ -181,14 +503,241 @@ type FinanceExpense = {
   date: string
   method: PaymentMethod
   note: string
+  categoryId: string | null
+  categoryName: string
+  recurrenceId: string | null
   createdBy?: string
 }
 
+type ExpenseCategory = {
+  id: string
+  name: string
+  active: boolean
+}
+
+type ExpenseFrequency = 'mensal' | 'semanal'
+
+type ExpenseRecurrence = {
+  id: string
+  description: string
+  amount: number
+  method: PaymentMethod
+  categoryId: string | null
+  note: string
+  frequency: ExpenseFrequency
+  startDate: string
+  nextDate: string
+  endDate: string | null
+  active: boolean
+}
+
+type CommissionRuleType = 'vendedor' | 'produto' | 'faixa'
+
+type CommissionRule = {
+  id: string
+  type: CommissionRuleType
+  userId: string | null
+  productId: string | null
+  percent: number
+  minVolume: number | null
+}
+
+type CommissionSeller = {
+  userId: string
+  name: string
+  volume: number
+  commission: number
+  sales: {
+    saleId: string
+    publicId: string
+    deliveredAt: string
+    net: number
+    commission: number
+    lines: {
+      productId: string | null
+      name: string
+      net: number
+      percent: number
+      commission: number
+      rule: CommissionRuleType | null
+    }[]
+  }[]
+}
+
+type CommissionReport = {
+  start: string
+  end: string
+  total: number
+  sellers: CommissionSeller[]
+}
+
+type CommissionPeriod = {
+  id: string
+  start: string
+  end: string
+  total: number
+  closedAt: string
+  closedByName: string
+  sellers: CommissionSeller[]
+}
+
+type CashMovementType = 'sangria' | 'suprimento'
+
+type CashSessionDetails = {
+  payments: { id: string; saleId: string; publicId: string; clientName: string; amount: number; createdAt: string }[]
+  expenses: { id: string; description: string; amount: number; date: string }[]
+  movements: { id: string; type: CashMovementType; amount: number; reason: string; createdAt: string }[]
+  totals: {
+    opening: number
+    sales: number
+    expenses: number
+    withdrawals: number
+    deposits: number
+    expected: number
+  }
+}
+
+type CashSession = {
+  id: string
+  status: 'aberto' | 'fechado'
+  openingAmount: number
+  openedAt: string
+  closedAt: string | null
+  countedAmount: number | null
+  expectedAmount: number | null
+  difference: number | null
+  note: string
+  openedByName: string
+  closedByName: string
+  details: CashSessionDetails | null
+}
+
+type GoalSeller = {
+  userId: string
+  name: string
+  target: number
+  progress: number
+  percent: number
+  position: number
+}
+
 type MonthlyGoal = {
   year: number
   month: number
   target: number
   progress: number
+  sellers: GoalSeller[]
+  sellerCount: number
+}
+
+type GoalPlanMonth = {
+  month: number
+  target: number
+  achieved: number
+}
+
+type GoalHistoryEntry = {
+  year: number
+  month: number
+  target: number
+  achieved: number
+  sellers: { userId: string; name: string; target: number; achieved: number; position: number }[]
+}
+
+const normalizeReceivables = (data: any): FinanceReceivables => ({
+  totalOpen: Number(data?.totalOpen ?? 0),
+  totalOverdue: Number(data?.totalOverdue ?? 0),
+  notDue: Number(data?.notDue ?? 0),
+  buckets: {
+    '0-7': Number(data?.buckets?.['0-7'] ?? 0),
+    '8-30': Number(data?.buckets?.['8-30'] ?? 0),
+    '30+': Number(data?.buckets?.['30+'] ?? 0),
+  },
+  sales: Array.isArray(data?.sales)
+    ? data.sales.map((sale: ReceivableSale) => ({
+        ...sale,
+        payments: (sale.payments ?? []).map((payment) => ({
+          ...payment,
+          method: mapPaymentMethodFromApi(payment.method),
+        })),
+      }))
+    : [],
+  clients: Array.isArray(data?.clients) ? data.clients : [],
+})
+
+const normalizeCommissionSellers = (sellers: any): CommissionSeller[] =>
+  Array.isArray(sellers)
+    ? sellers.map((seller: any) => ({
+        userId: seller.userId,
+        name: seller.name ?? '',
+        volume: Number(seller.volume ?? 0),
+        commission: Number(seller.commission ?? 0),
+        sales: Array.isArray(seller.sales) ? seller.sales : [],
+      }))
+    : []
+
+const normalizeCommissionReport = (data: any): CommissionReport => ({
+  start: data?.start ?? '',
+  end: data?.end ?? '',
+  total: Number(data?.total ?? 0),
+  sellers: normalizeCommissionSellers(data?.sellers),
+})
+
+const normalizeCommissionPeriod = (period: any): CommissionPeriod => ({
+  id: period.id,
+  start: period.start,
+  end: period.end,
+  total: Number(period.total ?? 0),
+  closedAt: period.closedAt ?? new Date().toISOString(),
+  closedByName: period.closedBy?.name ?? 'Usuário removido',
+  sellers: normalizeCommissionSellers(period.details),
+})
+
+const toOptionalNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value))
+
+const normalizeCashSession = (session: any): CashSession => ({
+  id: session.id,
+  status: session.status === 'fechado' ? 'fechado' : 'aberto',
+  openingAmount: Number(session.openingAmount ?? 0),
+  openedAt: session.openedAt ?? new Date().toISOString(),
+  closedAt: session.closedAt ?? null,
+  countedAmount: toOptionalNumber(session.countedAmount),
+  expectedAmount: toOptionalNumber(session.expectedAmount),
+  difference: toOptionalNumber(session.difference),
+  note: session.note ?? '',
+  openedByName: session.openedBy?.name ?? 'Usuário removido',
+  closedByName: session.closedBy?.name ?? '',
+  details: session.details
+    ? {
+        payments: Array.isArray(session.details.payments) ? session.details.payments : [],
+        expenses: Array.isArray(session.details.expenses) ? session.details.expenses : [],
+        movements: Array.isArray(session.details.movements) ? session.details.movements : [],
+        totals: {
+          opening: Number(session.details.totals?.opening ?? 0),
+          sales: Number(session.details.totals?.sales ?? 0),
+          expenses: Number(session.details.totals?.expenses ?? 0),
+          withdrawals: Number(session.details.totals?.withdrawals ?? 0),
+          deposits: Number(session.details.totals?.deposits ?? 0),
+          expected: Number(session.details.totals?.expected ?? 0),
+        },
+      }
+    : null,
+})
+
+const COMMISSION_RULE_LABELS: Record<CommissionRuleType, string> = {
+  vendedor: 'Por vendedor',
+  produto: 'Por produto',
+  faixa: 'Faixa de volume mensal',
+}
+
+const getCurrentMonthBounds = () => {
+  const now = new Date()
+  const toDateInput = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+  return {
+    start: toDateInput(new Date(now.getFullYear(), now.getMonth(), 1)),
+    end: toDateInput(new Date(now.getFullYear(), now.getMonth() + 1, 0)),
+  }
 }
 
 const normalizeClient = (client: any): Client => ({
@@ -202,6 +751,7 @@ const normalizeClient = (client: any): Client => ({
   addressCity: client.addressCity ?? '',
   addressNote: client.addressNote ?? '',
   createdAt: client.createdAt ?? new Date().toISOString(),
+  purchases: Number(client.sales?.[0]?.count ?? 0),
 })
 
 const mapPaymentMethodFromApi = (method: string): PaymentMethod => {
@@ -232,6 +782,7 @@ const normalizeSale = (sale: any): Sale => {
         const resolvedProductId = item.productId ?? item.product?.id ?? ''
         const isCustom = !resolvedProductId
         return {
+          id: item.id ?? undefined,
           productId: resolvedProductId,
           productName: item.product?.name ?? item.customName ?? '',
           customName: item.customName ?? undefined,
@@ -242,6 +793,9 @@ const normalizeSale = (sale: any): Sale => {
           unitPrice: item.unitPrice ?? 0,
           discount: item.discount ?? 0,
           searchName: item.product?.name ?? item.productName ?? item.customName ?? '',
+          deliveredQuantity: item.deliveredQuantity ?? 0,
+          deliveredAt: item.deliveredAt ?? undefined,
+          returnedQuantity: item.returnedQuantity ?? 0,
         }
       })
     : [],
@@ -253,6 +807,20 @@ const normalizeSale = (sale: any): Sale => {
         method: mapPaymentMethodFromApi(payment.method),
         amount: payment.amount ?? 0,
         installments: payment.installments ?? 1,
+        weeklyPlan:
+          payment.method === 'SEMANAL_LOJA' && payment.weeklyWeeks
+            ? buildWeeklyPlan(payment.weeklyWeeks, payment.weeklyAmount ?? 0, {
+                weeks: payment.weeklyWeeks,
+                weeklyAmount: payment.weeklyAmount ?? 0,
+                payments: Array.isArray(payment.weeklyInstallments)
+                  ? payment.weeklyInstallments.map((installment: any) => ({
+                      week: installment.week,
+                      paidAmount: Number(installment.paidAmount ?? 0),
+                      paidAt: installment.paidAt ?? undefined,
+                    }))
+                  : [],
+              })
+            : undefined,
       }))
     : [],
   note: sale.note ?? '',
@@ -261,12 +829,149 @@ const normalizeSale = (sale: any): Sale => {
       ? 'cancelada'
       : sale.status === 'entregue'
         ? 'entregue'
-        : 'pendente',
+        : sale.status === 'parcialmente_entregue'
+          ? 'parcialmente_entregue'
+          : 'pendente',
   requiresApproval: Boolean(sale.requiresApproval),
+  approvalReason: sale.approvalReason ?? undefined,
   createdAt: sale.createdAt ?? new Date().toISOString(),
   deliveryDate: sale.deliveryDate ? sale.deliveryDate.slice(0, 10) : '',
+  returns: Array.isArray(sale.returns)
+    ? sale.returns
+        .map((saleReturn: any) => ({
+          id: saleReturn.id,
+          type: saleReturn.type === 'troca' ? 'troca' : 'devolucao',
+          reason: saleReturn.reason ?? '',
+          difference: Number(saleReturn.difference ?? 0),
+          method: saleReturn.method ? mapPaymentMethodFromApi(saleReturn.method) : undefined,
+          replacementItemId: saleReturn.replacementItemId ?? undefined,
+          createdAt: saleReturn.createdAt ?? new Date().toISOString(),
+          items: Array.isArray(saleReturn.items)
+            ? saleReturn.items.map((item: any) => ({
+                saleItemId: item.saleItemId,
+                productId: item.productId ?? '',
+                quantity: item.quantity ?? 0,
+              }))
+            : [],
+        }))
+        .sort((a: SaleReturn, b: SaleReturn) => a.createdAt.localeCompare(b.createdAt))
+    : [],
+  }
+  return normalized
+}
+
+const normalizeQuote = (quote: any): Quote => {
+  const { items, payments } = normalizeSale(quote)
+  return {
+    id: quote.publicId ?? quote.id,
+    backendId: quote.id,
+    clientId: quote.client?.id ?? quote.clientId ?? '',
+    clientName: quote.client?.name ?? '',
+    items,
+    payments,
+    value: quote.value ?? 0,
+    discount: quote.discount ?? 0,
+    note: quote.note ?? '',
+    validUntil: quote.validUntil ? quote.validUntil.slice(0, 10) : '',
+    status: quote.status === 'convertido' ? 'convertido' : quote.status === 'cancelado' ? 'cancelado' : 'aberto',
+    saleId: quote.saleId ?? undefined,
+    createdAt: quote.createdAt ?? new Date().toISOString(),
+  }
+}
+
+// O orçamento é impresso com o mesmo layout do recibo de venda.
+const quoteToSale = (quote: Quote): Sale => ({
+  id: quote.id,
+  backendId: quote.backendId,
+  clientId: quote.clientId,
+  clientName: quote.clientName,
+  items: quote.items,
+  value: quote.value,
+  discount: quote.discount,
+  payments: quote.payments,
+  note: quote.note,
+  status: 'pendente',
+  requiresApproval: false,
+  createdAt: quote.createdAt,
+  deliveryDate: '',
+  returns: [],
+})
+
+const getDefaultQuoteValidity = () => {
+  const date = new Date()
+  date.setDate(date.getDate() + 7)
+  return date.toISOString().slice(0, 10)
+}
+
+const normalizeSaleEvent = (event: any): SaleEvent => ({
+  id: event.id,
+  type: event.type ?? '',
+  userName: event.user?.name ?? 'Sistema',
+  details: event.details ?? {},
+  createdAt: event.createdAt ?? new Date().toISOString(),
+})
+
+const SALE_EVENT_LABELS: Record<string, string> = {
+  criada: 'Pedido criado',
+  editada: 'Pedido editado',
+  aprovada: 'Itens aprovados',
+  entregue: 'Entrega concluída',
+  entrega_parcial: 'Entrega parcial',
+  cancelada: 'Pedido cancelado',
+  troca: 'Troca registrada',
+  devolucao: 'Devolução registrada',
+}
+
+const SALE_CHANGE_LABELS: Record<string, string> = {
+  clientId: 'cliente',
+  discount: 'desconto',
+  note: 'observação',
+  deliveryDate: 'data de entrega',
+  value: 'valor',
+  items: 'itens',
+  payments: 'pagamentos',
+}
+
+const describeSaleEvent = (event: SaleEvent) => {
+  if (event.type === 'editada') {
+    const changes = (event.details.changes ?? {}) as Record<string, { from: unknown; to: unknown }>
+    const keys = Object.keys(changes)
+    if (!keys.length) return 'Sem alterações nos dados do pedido.'
+    const valueChange = changes.value
+    return [
+      `Alterou ${keys.map((key) => SALE_CHANGE_LABELS[key] ?? key).join(', ')}`,
+      valueChange ? `valor de ${formatCurrency(Number(valueChange.from))} para ${formatCurrency(Number(valueChange.to))}` : null,
+    ]
+      .filter(Boolean)
+      .join(' · ')
   }
-  return applyPaymentOverrides(normalized)
+  if (event.type === 'aprovada' && typeof event.details.reason === 'string') {
+    return `Motivo: ${event.details.reason}`
+  }
+  if (event.type === 'troca' || event.type === 'devolucao') {
+    const difference = Number(event.details.difference ?? 0)
+    if (difference > 0) return `Diferença paga pelo cliente: ${formatCurrency(difference)}`
+    if (difference < 0) return `Reembolso: ${formatCurrency(Math.abs(difference))}`
+  }
+  return ''
+}
+
+const getReturnableQuantity = (item: SaleItem) =>
+  Math.max(0, (item.deliveredQuantity ?? 0) - (item.returnedQuantity ?? 0))
+
+const getRemainingQuantity = (item: SaleItem) => Math.max(0, item.quantity - (item.deliveredQuantity ?? 0))
+
+// Pedidos com entrega parcial continuam na fila de entregas até o último item sair.
+const isAwaitingDelivery = (sale: Sale) => sale.status === 'pendente' || sale.status === 'parcialmente_entregue'
+
+const SALE_PAGE_SIZE = 20
+// Painéis e telas de apoio usam as vendas dos últimos meses e os pedidos ainda em aberto; o histórico completo fica na
+// lista paginada do Sleep Lab.
+const SALES_WINDOW_MONTHS = 12
+
+const getSalesWindowStart = () => {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth() - (SALES_WINDOW_MONTHS - 1), 1)
 }
 
 const DEFAULT_PRODUCT_IMAGE =
@@ -293,8 +998,113 @@ const normalizeStockItem = (product: any): StockItem => ({
   price: product.price ?? 0,
   factoryCost: typeof product.factoryCost === 'number' ? product.factoryCost : undefined,
   imageUrl: product.imageUrl ?? DEFAULT_PRODUCT_IMAGE,
+  familyId: product.familyId ?? null,
+  familyName: product.family?.name ?? undefined,
+  size: product.size ?? undefined,
+  height: product.height ?? undefined,
+  firmness: product.firmness ?? undefined,
+  categoryId: product.categoryId ?? null,
+  categoryName: product.category?.name ?? undefined,
+  supplierId: product.supplierId ?? null,
+  supplierName: product.supplier?.name ?? undefined,
+  brand: product.brand ?? undefined,
+  dimensions: product.dimensions ?? undefined,
+  warrantyMonths: product.warrantyMonths ?? null,
+  attributes:
+    product.attributes && typeof product.attributes === 'object' && !Array.isArray(product.attributes)
+      ? product.attributes
+      : {},
+  reorderPoint: product.reorderPoint ?? null,
+  targetLevel: product.targetLevel ?? null,
+})
+
+// Atributos livres do catálogo são editados como linhas "Nome: valor".
+const formatProductAttributes = (attributes: Record<string, string>) =>
+  Object.entries(attributes)
+    .map(([key, value]) => `${key}: ${value}`)
+    .join('\n')
+
+const parseProductAttributes = (text: string) =>
+  Object.fromEntries(
+    text
+      .split('\n')
+      .map((line) => {
+        const separator = line.indexOf(':')
+        return separator > 0 ? [line.slice(0, separator).trim(), line.slice(separator + 1).trim()] : []
+      })
+      .filter((entry) => entry.length === 2 && entry[0] && entry[1]),
+  ) as Record<string, string>
+
+const purchaseOrderStatusLabels: Record<PurchaseOrderStatus, string> = {
+  aberto: 'Em aberto',
+  parcialmente_recebido: 'Recebido em parte',
+  recebido: 'Recebido',
+  cancelado: 'Cancelado',
+}
+
+const normalizeSupplier = (supplier: any): Supplier => ({
+  id: supplier.id,
+  name: supplier.name ?? '',
+  contactName: supplier.contactName ?? '',
+  phone: supplier.phone ?? '',
+  email: supplier.email ?? '',
+  leadTimeDays: supplier.leadTimeDays ?? null,
+  paymentTerms: supplier.paymentTerms ?? '',
+  note: supplier.note ?? '',
+})
+
+const emptySupplierForm = {
+  name: '',
+  contactName: '',
+  phone: '',
+  email: '',
+  leadTimeDays: '',
+  paymentTerms: '',
+  note: '',
+}
+
+const normalizePurchaseOrder = (order: any): PurchaseOrder => ({
+  id: order.id,
+  number: Number(order.number ?? 0),
+  supplierId: order.supplierId ?? null,
+  supplierName: order.supplier?.name ?? order.supplierName ?? '',
+  status: order.status ?? 'aberto',
+  expectedAt: order.expectedAt ?? null,
+  note: order.note ?? '',
+  createdAt: order.createdAt ?? new Date().toISOString(),
+  items: Array.isArray(order.items)
+    ? order.items.map((item: PurchaseOrderItem & { product?: { name: string; sku: string } | null }) => ({
+        id: item.id,
+        productId: item.productId,
+        productName: item.product?.name ?? 'Produto removido',
+        sku: item.product?.sku ?? '',
+        quantity: Number(item.quantity ?? 0),
+        receivedQuantity: Number(item.receivedQuantity ?? 0),
+        unitCost: Number(item.unitCost ?? 0),
+      }))
+    : [],
+  sales: Array.isArray(order.links)
+    ? order.links.map((link: { saleId: string; sale?: { publicId: string; status: string; client?: { name: string } } }) => ({
+        saleId: link.saleId,
+        publicId: link.sale?.publicId ?? link.saleId,
+        clientName: link.sale?.client?.name ?? 'Cliente removido',
+        status: link.sale?.status ?? '',
+      }))
+    : [],
+})
+
+const normalizeProductFamily = (family: any): ProductFamily => ({
+  id: family.id,
+  name: family.name ?? '',
+  description: family.description ?? '',
+  variants: Array.isArray(family.variants)
+    ? family.variants.map((variant: object) => normalizeStockItem({ ...variant, family }))
+    : [],
 })
 
+const getVariantLabel = (item: Pick<StockItem, 'size' | 'height' | 'firmness'>) =>
+  [item.size, item.height, item.firmness].filter(Boolean).join(' · ')
+
 const normalizeMovement = (movement: any): StockMovement => ({
   id: movement.id,
   productId: movement.productId ?? movement.product?.id ?? '',
@@ -311,9 +1121,26 @@ const normalizeExpense = (expense: any): FinanceExpense => ({
   date: expense.date ?? new Date().toISOString(),
   method: mapPaymentMethodFromApi(expense.method) as PaymentMethod,
   note: expense.note ?? '',
+  categoryId: expense.categoryId ?? null,
+  categoryName: expense.category?.name ?? '',
+  recurrenceId: expense.recurrenceId ?? null,
   createdBy: expense.createdBy?.name ?? '',
 })
 
+const normalizeExpenseRecurrence = (recurrence: any): ExpenseRecurrence => ({
+  id: recurrence.id,
+  description: recurrence.description ?? '',
+  amount: Number(recurrence.amount ?? 0),
+  method: mapPaymentMethodFromApi(recurrence.method),
+  categoryId: recurrence.categoryId ?? null,
+  note: recurrence.note ?? '',
+  frequency: recurrence.frequency === 'semanal' ? 'semanal' : 'mensal',
+  startDate: recurrence.startDate ?? '',
+  nextDate: recurrence.nextDate ?? '',
+  endDate: recurrence.endDate ?? null,
+  active: recurrence.active !== false,
+})
+
 const normalizeAssistance = (assistance: any): Assistance => ({
   id: assistance.id,
   code: assistance.code ?? assistance.id,
@@ -323,6 +1150,8 @@ const normalizeAssistance = (assistance: any): Assistance => ({
   productName: assistance.product?.name ?? '',
   defectDescription: assistance.defectDescription ?? '',
   factoryResponse: assistance.factoryResponse ?? '',
+  supplierId: assistance.supplierId ?? null,
+  supplierName: assistance.supplier?.name ?? '',
   expectedDate: assistance.expectedDate ? new Date(assistance.expectedDate).toISOString() : new Date().toISOString(),
   status: assistance.status === 'concluida' ? 'concluida' : 'aberta',
   createdAt: assistance.createdAt ?? new Date().toISOString(),
@@ -370,7 +1199,12 @@ const loadPaymentOverrides = (): Record<string, PaymentOverride[]> => {
   }
 }
 
-const savePaymentOverrides = (overrides: Record<string, PaymentOverride[]>) => {
+const clearPaymentOverrides = () => {
+  if (typeof window === 'undefined') return
+  window.localStorage.removeItem(PAYMENT_OVERRIDE_STORAGE_KEY)
+}
+
+const storePaymentOverrides = (overrides: Record<string, PaymentOverride[]>) => {
   if (typeof window === 'undefined') return
   window.localStorage.setItem(PAYMENT_OVERRIDE_STORAGE_KEY, JSON.stringify(overrides))
 }
@@ -399,21 +1233,6 @@ const computeWeeklyTotal = (weeks?: number, weeklyAmount?: number) => {
   return Math.max(0, weeks) * Math.max(0, weeklyAmount)
 }
 
-const applyPaymentOverrides = (sale: Sale) => {
-  const overrides = loadPaymentOverrides()[sale.id] ?? []
-  if (!overrides.length) return sale
-  const payments = sale.payments.map((payment) => {
-    const override = overrides.find((item) => item.paymentId === payment.id)
-    if (!override) return payment
-    return {
-      ...payment,
-      method: override.method,
-      weeklyPlan: override.weeklyPlan,
-    }
-  })
-  return { ...sale, payments }
-}
-
 const normalizeUserFromApi = (user: any): User => ({
   id: user.id,
   name: user.name ?? '',
@@ -430,9 +1249,13 @@ const navItems: NavItem[] = [
   { id: 'estoque', label: 'Estoque', icon: 'M5 5h14v4H5zm0 6h14v8H5z' },
   { id: 'entregas', label: 'Entregas', icon: 'M4 5h16v2H4zm0 6h16v2H4zm0 6h16v2H4z' },
   { id: 'assistencias', label: 'Assistências', icon: 'M12 2l8 4v6c0 5-3.5 9.5-8 10-4.5-.5-8-5-8-10V6l8-4z' },
+  { id: 'fornecedores', label: 'Fornecedores', icon: 'M3 20V9l5 3V9l5 3V6l8 4v10z' },
   { id: 'financeiro', label: 'Financeiro', icon: 'M4 4h16v16H4z M8 8h2v8H8zm6 2h2v6h-2z' },
+  { id: 'comissoes', label: 'Comissões', icon: 'M12 3l2.5 5 5.5.8-4 3.9.9 5.5L12 15.6 7.1 18.2 8 12.7 4 8.8l5.5-.8z' },
 ]
 
+const ADMIN_ONLY_PAGES: PageId[] = ['fornecedores', 'financeiro', 'comissoes']
+
 const paymentMethods: PaymentMethod[] = [
   'PIX',
   'Cartão de crédito',
@@ -442,6 +1265,8 @@ const paymentMethods: PaymentMethod[] = [
   'Semanal na loja',
 ]
 
+const expenseMethods: PaymentMethod[] = ['PIX', 'Cartão de crédito', 'Cartão de débito', 'Dinheiro']
+
 const paymentMethodLabelFromKey = (method: string): string => {
   const normalized = method.toUpperCase()
   switch (normalized) {
@@ -466,16 +1291,6 @@ const paymentMethodLabelFromKey = (method: string): string => {
   }
 }
 
-const requiresPaymentOverride = (method: PaymentMethod) =>
-  method === 'Pagar na entrega' || method === 'Semanal na loja'
-
-const toApiPaymentMethod = (method: PaymentMethod): 'PIX' | 'Cartão de crédito' | 'Cartão de débito' | 'Dinheiro' => {
-  if (method === 'Pagar na entrega' || method === 'Semanal na loja') {
-    return 'Dinheiro'
-  }
-  return method
-}
-
 const roleLabels: Record<UserRole, string> = {
   admin: 'Administrador',
   seller: 'Consultor de vendas',
@@ -488,6 +1303,20 @@ const initialClients: Client[] = []
 
 const initialStock: StockItem[] = []
 
+const emptyEditProductForm = {
+  price: '',
+  factoryCost: '',
+  image: '',
+  categoryId: '',
+  supplierId: '',
+  brand: '',
+  dimensions: '',
+  warrantyMonths: '',
+  attributes: '',
+  reorderPoint: '',
+  targetLevel: '',
+}
+
 const initialSales: Sale[] = []
 
 const initialAssistances: Assistance[] = []
@@ -518,6 +1347,8 @@ type InventoryFormState = {
   newProductPrice: string
   newProductFactoryCost: string
   newProductImage: string
+  newProductCategoryId: string
+  newProductBrand: string
 }
 
 const createInventoryFormState = (productId: string): InventoryFormState => ({
@@ -531,6 +1362,8 @@ const createInventoryFormState = (productId: string): InventoryFormState => ({
   newProductPrice: '',
   newProductFactoryCost: '',
   newProductImage: '',
+  newProductCategoryId: '',
+  newProductBrand: '',
 })
 
 const createSaleFormState = (clientsList: Client[]): SaleFormState => {
@@ -597,6 +1430,7 @@ const createAssistanceFormState = (salesList: Sale[]): {
   defectDescription: string
   factoryResponse: string
   expectedDate: string
+  supplierId: string
   photos: string[]
 } => {
   const firstSale = salesList[0]
@@ -607,6 +1441,7 @@ const createAssistanceFormState = (salesList: Sale[]): {
     defectDescription: '',
     factoryResponse: '',
     expectedDate: new Date().toISOString().slice(0, 10),
+    supplierId: '',
     photos: [],
   }
 }
@@ -619,9 +1454,56 @@ function App() {
   const viewingStockPage = activePage === 'estoque'
   const viewingDeliveries = activePage === 'entregas'
   const viewingAssistances = activePage === 'assistencias'
+  const viewingSuppliers = activePage === 'fornecedores'
   const viewingFinance = activePage === 'financeiro'
+  const viewingCommissions = activePage === 'comissoes'
   const [clients, setClients] = useState<Client[]>(initialClients)
   const [stockItems, setStockItems] = useState<StockItem[]>(initialStock)
+  const [productFamilies, setProductFamilies] = useState<ProductFamily[]>([])
+  const [productFamilyName, setProductFamilyName] = useState('')
+  const [variantForm, setVariantForm] = useState({
+    familyId: '',
+    productId: '',
+    size: '',
+    height: '',
+    firmness: '',
+    sku: '',
+    price: 0,
+    factoryCost: 0,
+    quantity: 0,
+  })
+  const [productFamilyError, setProductFamilyError] = useState<string | null>(null)
+  const [productFamilySaving, setProductFamilySaving] = useState(false)
+  const [productCategories, setProductCategories] = useState<ProductCategory[]>([])
+  const [productCategoryName, setProductCategoryName] = useState('')
+  const [productCategoryError, setProductCategoryError] = useState<string | null>(null)
+  const [purchaseOrders, setPurchaseOrders] = useState<PurchaseOrder[]>([])
+  const [purchaseOrderFilter, setPurchaseOrderFilter] = useState<'abertos' | 'todos'>('abertos')
+  const [purchaseOrderForm, setPurchaseOrderForm] = useState({
+    supplierId: '',
+    supplierName: '',
+    expectedAt: '',
+    note: '',
+    items: [{ productId: '', quantity: 1, unitCost: 0 }],
+  })
+  const [purchaseOrderError, setPurchaseOrderError] = useState<string | null>(null)
+  const [purchaseOrderSaving, setPurchaseOrderSaving] = useState(false)
+  const [expandedPurchaseOrderId, setExpandedPurchaseOrderId] = useState<string | null>(null)
+  const [waitingSales, setWaitingSales] = useState<WaitingSale[]>([])
+  const [receiveQuantities, setReceiveQuantities] = useState<Record<string, number>>({})
+  const [suppliers, setSuppliers] = useState<Supplier[]>([])
+  const [supplierForm, setSupplierForm] = useState(emptySupplierForm)
+  const [editingSupplierId, setEditingSupplierId] = useState<string | null>(null)
+  const [supplierError, setSupplierError] = useState<string | null>(null)
+  const [supplierSaving, setSupplierSaving] = useState(false)
+  const [selectedSupplierId, setSelectedSupplierId] = useState<string | null>(null)
+  const [supplierDetail, setSupplierDetail] = useState<SupplierDetail | null>(null)
+  const [reorderSuggestions, setReorderSuggestions] = useState<ReorderSuggestion[]>([])
+  const [reorderError, setReorderError] = useState<string | null>(null)
+  // Lista de compra em rascunho: produto → quantidade a pedir, ajustável antes de gerar os pedidos.
+  const [reorderDraft, setReorderDraft] = useState<Record<string, number> | null>(null)
+  const [stockCategoryFilter, setStockCategoryFilter] = useState('')
+  const [stockBrandFilter, setStockBrandFilter] = useState('')
   const [stockLoading, setStockLoading] = useState(false)
   const [stockError, setStockError] = useState<string | null>(null)
   const [sales, setSales] = useState<Sale[]>(initialSales)
@@ -630,22 +1512,35 @@ function App() {
   const [saleForm, setSaleForm] = useState<SaleFormState>(() => createSaleFormState(initialClients))
   const [saleModalOpen, setSaleModalOpen] = useState(false)
   const [saleModalError, setSaleModalError] = useState<string | null>(null)
+  const [returnForm, setReturnForm] = useState<ReturnFormState | null>(null)
+  const [saleEvents, setSaleEvents] = useState<SaleEvent[]>([])
+  const [saleEventsLoading, setSaleEventsLoading] = useState(false)
+  const [saleEventsError, setSaleEventsError] = useState<string | null>(null)
+  const [returnSubmitLoading, setReturnSubmitLoading] = useState(false)
+  const [returnSubmitError, setReturnSubmitError] = useState<string | null>(null)
   const [saleModalLoading, setSaleModalLoading] = useState(false)
   const [saleDraftId, setSaleDraftId] = useState(generateSaleId())
   const [editingSale, setEditingSale] = useState<Sale | null>(null)
   const [receiptSale, setReceiptSale] = useState<Sale | null>(null)
+  const [receiptQuote, setReceiptQuote] = useState<Quote | null>(null)
+  const [quotes, setQuotes] = useState<Quote[]>([])
+  const [quotesLoading, setQuotesLoading] = useState(false)
+  const [quotesError, setQuotesError] = useState<string | null>(null)
+  const [quoteValidUntil, setQuoteValidUntil] = useState(getDefaultQuoteValidity)
   const [receiptModalOpen, setReceiptModalOpen] = useState(false)
   const [lastReceiptId, setLastReceiptId] = useState<string | null>(null)
   const [weeklyPlanModal, setWeeklyPlanModal] = useState<{ saleId: string; paymentId: string } | null>(null)
   const [confirmDeliveryState, setConfirmDeliveryState] = useState<{
     sale: Sale
     redirect?: PageId
+    quantities: Record<string, number>
+    deliveredAt: string
   } | null>(null)
   const [inventoryForm, setInventoryForm] = useState<InventoryFormState>(createInventoryFormState(initialStock[0]?.id ?? ''))
   const [inventoryPanelOpen, setInventoryPanelOpen] = useState(false)
   const [inventorySubmitLoading, setInventorySubmitLoading] = useState(false)
   const [inventorySubmitError, setInventorySubmitError] = useState<string | null>(null)
-  const needsStockItems = viewingSleepLab || viewingStockPage || viewingDeliveries || saleModalOpen
+  const needsStockItems = viewingSleepLab || viewingStockPage || viewingDeliveries || viewingCommissions || saleModalOpen
   const needsStockMovements = viewingStockPage || inventoryPanelOpen
   const emptyClientForm = {
     name: '',
@@ -675,11 +1570,19 @@ function App() {
   const [stockMinValue, setStockMinValue] = useState('')
   const [stockMaxValue, setStockMaxValue] = useState('')
   const [saleSearch, setSaleSearch] = useState('')
-const [saleFilter, setSaleFilter] = useState<'all' | 'pendente' | 'entregue' | 'cancelada'>('all')
+const [saleFilter, setSaleFilter] = useState<'all' | 'pendente' | 'parcialmente_entregue' | 'entregue' | 'cancelada'>('all')
 const [saleDateStart, setSaleDateStart] = useState('')
 const [saleDateEnd, setSaleDateEnd] = useState('')
 const [salePaymentFilter, setSalePaymentFilter] = useState<'all' | PaymentMethod>('all')
 const [saleMinValue, setSaleMinValue] = useState('')
+const [saleMaxValue, setSaleMaxValue] = useState('')
+const [salePage, setSalePage] = useState<Sale[]>([])
+const [salePageCursor, setSalePageCursor] = useState<string | null>(null)
+const [salePageLoading, setSalePageLoading] = useState(false)
+const [salePageError, setSalePageError] = useState<string | null>(null)
+const salePageRequestRef = useRef(0)
+const salesRequestRef = useRef(0)
+const salePageSentinelRef = useRef<HTMLDivElement | null>(null)
 const [saleClientSearch, setSaleClientSearch] = useState('')
 const [clientSearchFocused, setClientSearchFocused] = useState(false)
 const [activeProductSearch, setActiveProductSearch] = useState<number | null>(null)
@@ -693,34 +1596,135 @@ const saleClientOptions = useMemo(() => {
 }, [clients, saleClientSearch])
 const [financeDateStart, setFinanceDateStart] = useState('')
 const [financeDateEnd, setFinanceDateEnd] = useState('')
+const [financeHistorySales, setFinanceHistorySales] = useState<Sale[] | null>(null)
+const [financeRecognitionMode, setFinanceRecognitionMode] = useState<RevenueRecognitionMode>('criacao')
 const [financePaymentFilter, setFinancePaymentFilter] = useState<'all' | PaymentMethod>('all')
 const [financeMinValue, setFinanceMinValue] = useState('')
 const [financeMaxValue, setFinanceMaxValue] = useState('')
 const [financeClientFilter, setFinanceClientFilter] = useState('all')
 const [financeCodeStart, setFinanceCodeStart] = useState('')
 const [financeCodeEnd, setFinanceCodeEnd] = useState('')
-const [paymentOverrides, setPaymentOverrides] = useState<Record<string, PaymentOverride[]>>(() => loadPaymentOverrides())
   const [monthlyGoal, setMonthlyGoal] = useState<MonthlyGoal | null>(null)
   const [monthlyGoalLoading, setMonthlyGoalLoading] = useState(false)
   const [monthlyGoalError, setMonthlyGoalError] = useState<string | null>(null)
   const [monthlyGoalFormValue, setMonthlyGoalFormValue] = useState(0)
 const [monthlyGoalSaving, setMonthlyGoalSaving] = useState(false)
 const [monthlyGoalNotice, setMonthlyGoalNotice] = useState<string | null>(null)
+const [monthlyGoalScope, setMonthlyGoalScope] = useState('')
+const [goalHistory, setGoalHistory] = useState<GoalHistoryEntry[]>([])
+const [goalMonth, setGoalMonth] = useState(() => {
+  const now = new Date()
+  return { year: now.getFullYear(), month: now.getMonth() + 1 }
+})
+const [goalPlanYear, setGoalPlanYear] = useState(() => new Date().getFullYear())
+const [goalPlan, setGoalPlan] = useState<GoalPlanMonth[]>([])
+const [goalPlanTotal, setGoalPlanTotal] = useState(0)
+const [goalPlanWeights, setGoalPlanWeights] = useState<number[]>(() => Array.from({ length: 12 }, () => 1))
+const [goalPlanSaving, setGoalPlanSaving] = useState(false)
+const [goalPlanError, setGoalPlanError] = useState<string | null>(null)
+const [goalPlanNotice, setGoalPlanNotice] = useState<string | null>(null)
 const [financeSummary, setFinanceSummary] = useState<FinanceSummary | null>(null)
 const [financeSummaryLoading, setFinanceSummaryLoading] = useState(false)
 const [financeSummaryError, setFinanceSummaryError] = useState<string | null>(null)
 const [financeExpenses, setFinanceExpenses] = useState<FinanceExpense[]>([])
 const [financeExpensesLoading, setFinanceExpensesLoading] = useState(false)
 const [financeExpensesError, setFinanceExpensesError] = useState<string | null>(null)
+const [financeReceivables, setFinanceReceivables] = useState<FinanceReceivables | null>(null)
+const [financeReceivablesLoading, setFinanceReceivablesLoading] = useState(false)
+const [financeReceivablesError, setFinanceReceivablesError] = useState<string | null>(null)
+const [receivableReceipt, setReceivableReceipt] = useState<{
+  sale: ReceivableSale
+  payment: ReceivablePayment
+  amount: number
+} | null>(null)
+const [receivableReceiptLoading, setReceivableReceiptLoading] = useState(false)
+const [discountPolicies, setDiscountPolicies] = useState<DiscountPolicy[]>([])
+const [commissionRange, setCommissionRange] = useState(getCurrentMonthBounds)
+const [commissionReport, setCommissionReport] = useState<CommissionReport | null>(null)
+const [commissionLoading, setCommissionLoading] = useState(false)
+const [commissionError, setCommissionError] = useState<string | null>(null)
+const [commissionRules, setCommissionRules] = useState<CommissionRule[]>([])
+const [commissionPeriods, setCommissionPeriods] = useState<CommissionPeriod[]>([])
+const [commissionRuleForm, setCommissionRuleForm] = useState({
+  type: 'vendedor' as CommissionRuleType,
+  userId: '',
+  productId: '',
+  percent: '',
+  minVolume: '',
+})
+const [commissionSaving, setCommissionSaving] = useState(false)
+const [expandedCommissionSeller, setExpandedCommissionSeller] = useState<string | null>(null)
+const [myCommission, setMyCommission] = useState<CommissionReport | null>(null)
+const [discountPoliciesError, setDiscountPoliciesError] = useState<string | null>(null)
+const [cashSession, setCashSession] = useState<CashSession | null>(null)
+const [cashSessions, setCashSessions] = useState<CashSession[]>([])
+const [cashSessionLoading, setCashSessionLoading] = useState(false)
+const [cashSessionError, setCashSessionError] = useState<string | null>(null)
+const [cashSessionSaving, setCashSessionSaving] = useState(false)
+const [cashOpeningAmount, setCashOpeningAmount] = useState(0)
+const [cashCountedAmount, setCashCountedAmount] = useState(0)
+const [cashMovementForm, setCashMovementForm] = useState({
+  type: 'sangria' as CashMovementType,
+  amount: 0,
+  reason: '',
+})
+const [cashReport, setCashReport] = useState<CashSession | null>(null)
+const [cardFees, setCardFees] = useState<CardFee[]>([])
+const [cardFeeForm, setCardFeeForm] = useState({
+  method: 'Cartão de crédito' as PaymentMethod,
+  installments: '1',
+  feePercent: '',
+  settlementDays: '30',
+})
+const [cardFeeSaving, setCardFeeSaving] = useState(false)
+const [cardFeesError, setCardFeesError] = useState<string | null>(null)
+const [settlementHorizon, setSettlementHorizon] = useState(30)
+const [settlementForecast, setSettlementForecast] = useState<SettlementForecast | null>(null)
+const [settlementsError, setSettlementsError] = useState<string | null>(null)
+const [cashFlow, setCashFlow] = useState<CashFlowProjection | null>(null)
+const [marginReport, setMarginReport] = useState<MarginReport | null>(null)
+const [statementMonth, setStatementMonth] = useState(() => {
+  const previous = new Date(new Date().getFullYear(), new Date().getMonth() - 1, 1)
+  return { year: previous.getFullYear(), month: previous.getMonth() + 1 }
+})
+const [statement, setStatement] = useState<IncomeStatement | null>(null)
+const [statementLoading, setStatementLoading] = useState(false)
+const [statementError, setStatementError] = useState<string | null>(null)
+const [statementModalOpen, setStatementModalOpen] = useState(false)
+const [marginLoading, setMarginLoading] = useState(false)
+const [marginError, setMarginError] = useState<string | null>(null)
+const [cashFlowLoading, setCashFlowLoading] = useState(false)
+const [cashFlowError, setCashFlowError] = useState<string | null>(null)
+const [cashFlowGranularity, setCashFlowGranularity] = useState<CashFlowGranularity>('semana')
+const [cashFlowOpeningBalance, setCashFlowOpeningBalance] = useState(0)
+const [cashFlowAppliedBalance, setCashFlowAppliedBalance] = useState(0)
+const [discountPolicySaving, setDiscountPolicySaving] = useState<UserRole | null>(null)
+const [receivableReceiptError, setReceivableReceiptError] = useState<string | null>(null)
 const [expenseForm, setExpenseForm] = useState({
   description: '',
   amount: '',
   date: new Date().toISOString().slice(0, 10),
   method: 'PIX' as PaymentMethod,
+  categoryId: '',
   note: '',
 })
+const [editingExpenseId, setEditingExpenseId] = useState<string | null>(null)
 const [expenseSubmitLoading, setExpenseSubmitLoading] = useState(false)
 const [expenseSubmitError, setExpenseSubmitError] = useState<string | null>(null)
+const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>([])
+const [expenseCategoryName, setExpenseCategoryName] = useState('')
+const [expenseRecurrences, setExpenseRecurrences] = useState<ExpenseRecurrence[]>([])
+const [expenseRecurrenceForm, setExpenseRecurrenceForm] = useState({
+  description: '',
+  amount: 0,
+  method: 'PIX' as PaymentMethod,
+  categoryId: '',
+  frequency: 'mensal' as ExpenseFrequency,
+  startDate: new Date().toISOString().slice(0, 10),
+  endDate: '',
+})
+const [expenseSetupError, setExpenseSetupError] = useState<string | null>(null)
+const [expenseSetupSaving, setExpenseSetupSaving] = useState(false)
   const [stockExploreTerm, setStockExploreTerm] = useState('')
   const [globalSearch, setGlobalSearch] = useState('')
   const [deliveryFilter, setDeliveryFilter] = useState<'all' | 'pendente' | 'entregue'>('all')
@@ -731,6 +1735,8 @@ const [expenseSubmitError, setExpenseSubmitError] = useState<string | null>(null
   const [searchFocused, setSearchFocused] = useState(false)
   const [expandedClientId, setExpandedClientId] = useState<string | null>(null)
   const receiptContentRef = useRef<HTMLDivElement | null>(null)
+  const cashReportRef = useRef<HTMLDivElement | null>(null)
+  const statementRef = useRef<HTMLDivElement | null>(null)
   const inventoryPanelRef = useRef<HTMLElement | null>(null)
   const customItemPlaceholder =
     'data:image/svg+xml;utf8,<svg xmlns="http://www.w3.org/2000/svg" width="80" height="80" viewBox="0 0 80 80"><rect width="80" height="80" rx="16" fill="%23eef2ff"/><path d="M40 22v36M22 40h36" stroke="%23315ec8" stroke-width="6" stroke-linecap="round"/></svg>'
@@ -766,7 +1772,7 @@ const [expenseSubmitError, setExpenseSubmitError] = useState<string | null>(null
   const [loginError, setLoginError] = useState<string | null>(null)
   const currentUser = sessionUserId ? users.find((user) => user.id === sessionUserId && user.active) ?? null : null
   const isAdmin = currentUser?.role === 'admin'
-  const needsUsersData = userManagerOpen && isAdmin
+  const needsUsersData = (userManagerOpen || viewingCommissions) && isAdmin
   const needsMonthlyGoal = viewingDashboard || viewingFinance
   const needsFinanceData = viewingFinance
   const canRegisterClients = Boolean(currentUser)
@@ -790,10 +1796,6 @@ const [expenseSubmitError, setExpenseSubmitError] = useState<string | null>(null
     return headers
   }
 
-  useEffect(() => {
-    savePaymentOverrides(paymentOverrides)
-  }, [paymentOverrides])
-
   useEffect(() => {
     let isMounted = true
     let subscription: { unsubscribe: () => void } | null = null
@@ -930,24 +1932,149 @@ useEffect(() => {
     }
   }, [authToken])
 
-  const fetchStockMovementsFromApi = useCallback(async () => {
+  const fetchProductFamiliesFromApi = useCallback(async () => {
     if (!authToken) return
-    setStockMovementsLoading(true)
-    setStockMovementsError(null)
     try {
-      const response = await fetch(`${API_BASE_URL}/stock/movements`, {
+      const response = await fetch(`${API_BASE_URL}/stock/families`, {
         headers: getAuthHeaders(false),
       })
       if (!response.ok) {
-        throw new Error('Não foi possível carregar os movimentos.')
+        throw new Error('Não foi possível carregar os produtos com variações.')
       }
       const data = await response.json()
-      const normalized = Array.isArray(data) ? data.map((movement: any) => normalizeMovement(movement)) : []
-      setStockMovements(normalized)
+      setProductFamilies(Array.isArray(data) ? data.map(normalizeProductFamily) : [])
     } catch (error) {
       console.error(error)
-      setStockMovementsError(error instanceof Error ? error.message : 'Falha ao carregar movimentos.')
-      setStockMovements([])
+      setProductFamilyError(error instanceof Error ? error.message : 'Falha ao carregar variações.')
+    }
+  }, [authToken])
+
+  const fetchProductCategoriesFromApi = useCallback(async () => {
+    if (!authToken) return
+    try {
+      const response = await fetch(`${API_BASE_URL}/stock/categories`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar as categorias de produto.')
+      }
+      const data = await response.json()
+      setProductCategories(
+        Array.isArray(data) ? data.map((category: ProductCategory) => ({ id: category.id, name: category.name })) : [],
+      )
+    } catch (error) {
+      console.error(error)
+      setProductCategoryError(error instanceof Error ? error.message : 'Falha ao carregar categorias.')
+    }
+  }, [authToken])
+
+  const fetchPurchaseOrdersFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    try {
+      const query = purchaseOrderFilter === 'abertos' ? '?status=abertos' : ''
+      const response = await fetch(`${API_BASE_URL}/purchase-orders${query}`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar os pedidos de compra.')
+      }
+      const data = await response.json()
+      setPurchaseOrders(Array.isArray(data) ? data.map(normalizePurchaseOrder) : [])
+    } catch (error) {
+      console.error(error)
+      setPurchaseOrderError(error instanceof Error ? error.message : 'Falha ao carregar pedidos de compra.')
+    }
+  }, [authToken, isAdmin, purchaseOrderFilter])
+
+  const fetchSuppliersFromApi = useCallback(async () => {
+    if (!authToken) return
+    try {
+      const response = await fetch(`${API_BASE_URL}/suppliers`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar os fornecedores.')
+      }
+      const data = await response.json()
+      setSuppliers(Array.isArray(data) ? data.map(normalizeSupplier) : [])
+    } catch (error) {
+      console.error(error)
+      setSupplierError(error instanceof Error ? error.message : 'Falha ao carregar fornecedores.')
+    }
+  }, [authToken])
+
+  const fetchSupplierDetailFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin || !selectedSupplierId) return
+    try {
+      const response = await fetch(`${API_BASE_URL}/suppliers/${selectedSupplierId}`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar o fornecedor.')
+      }
+      const data = await response.json()
+      setSupplierDetail({
+        ...normalizeSupplier(data),
+        products: Array.isArray(data.products) ? data.products.map(normalizeStockItem) : [],
+        openAssistances: Array.isArray(data.openAssistances)
+          ? data.openAssistances.map((assistance: object) => {
+              const normalized = normalizeAssistance(assistance)
+              return {
+                id: normalized.id,
+                code: normalized.code,
+                defectDescription: normalized.defectDescription,
+                expectedDate: normalized.expectedDate,
+                createdAt: normalized.createdAt,
+                saleCode: normalized.saleCode,
+                productName: normalized.productName ?? '',
+              }
+            })
+          : [],
+        purchaseOrders: Array.isArray(data.purchaseOrders) ? data.purchaseOrders.map(normalizePurchaseOrder) : [],
+      })
+    } catch (error) {
+      console.error(error)
+      setSupplierDetail(null)
+      setSupplierError(error instanceof Error ? error.message : 'Falha ao carregar fornecedor.')
+    }
+  }, [authToken, isAdmin, selectedSupplierId])
+
+  const fetchReorderSuggestionsFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    setReorderError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/stock/reorder-suggestions`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar as sugestões de reposição.')
+      }
+      const data = await response.json()
+      setReorderSuggestions(Array.isArray(data.suggestions) ? data.suggestions : [])
+    } catch (error) {
+      console.error(error)
+      setReorderError(error instanceof Error ? error.message : 'Falha ao carregar sugestões de reposição.')
+    }
+  }, [authToken, isAdmin])
+
+  const fetchStockMovementsFromApi = useCallback(async () => {
+    if (!authToken) return
+    setStockMovementsLoading(true)
+    setStockMovementsError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/stock/movements`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar os movimentos.')
+      }
+      const data = await response.json()
+      const normalized = Array.isArray(data) ? data.map((movement: any) => normalizeMovement(movement)) : []
+      setStockMovements(normalized)
+    } catch (error) {
+      console.error(error)
+      setStockMovementsError(error instanceof Error ? error.message : 'Falha ao carregar movimentos.')
+      setStockMovements([])
     } finally {
       setStockMovementsLoading(false)
     }
@@ -963,6 +2090,36 @@ useEffect(() => {
     fetchStockFromApi()
   }, [authToken, needsStockItems, fetchStockFromApi])
 
+  useEffect(() => {
+    if (!authToken || !isAdmin || !viewingStockPage) return
+    fetchProductFamiliesFromApi()
+  }, [authToken, isAdmin, viewingStockPage, fetchProductFamiliesFromApi])
+
+  useEffect(() => {
+    if (!authToken || !isAdmin || !viewingStockPage) return
+    fetchPurchaseOrdersFromApi()
+  }, [authToken, isAdmin, viewingStockPage, fetchPurchaseOrdersFromApi])
+
+  useEffect(() => {
+    if (!authToken || !(viewingSuppliers || viewingStockPage || viewingAssistances)) return
+    fetchSuppliersFromApi()
+  }, [authToken, viewingSuppliers, viewingStockPage, viewingAssistances, fetchSuppliersFromApi])
+
+  useEffect(() => {
+    if (!viewingSuppliers) return
+    fetchSupplierDetailFromApi()
+  }, [viewingSuppliers, fetchSupplierDetailFromApi])
+
+  useEffect(() => {
+    if (!authToken || !isAdmin || !(viewingDashboard || viewingStockPage)) return
+    fetchReorderSuggestionsFromApi()
+  }, [authToken, isAdmin, viewingDashboard, viewingStockPage, fetchReorderSuggestionsFromApi])
+
+  useEffect(() => {
+    if (!authToken || !viewingStockPage) return
+    fetchProductCategoriesFromApi()
+  }, [authToken, viewingStockPage, fetchProductCategoriesFromApi])
+
   useEffect(() => {
     if (!authToken) {
       setStockMovements([])
@@ -973,26 +2130,176 @@ useEffect(() => {
     fetchStockMovementsFromApi()
   }, [authToken, needsStockMovements, fetchStockMovementsFromApi])
 
+  // A primeira página libera o painel; as seguintes chegam em segundo plano pelo cursor, sem travar o login.
   const fetchSalesFromApi = useCallback(async () => {
     if (!authToken) return
+    const requestId = ++salesRequestRef.current
     setSalesLoading(true)
     setSalesError(null)
     try {
-      const response = await fetch(`${API_BASE_URL}/sales`, {
+      const recentParams = new URLSearchParams({ start: getSalesWindowStart().toISOString() })
+      const openParams = new URLSearchParams({ status: 'pendente,parcialmente_entregue' })
+      const responses = await Promise.all(
+        [recentParams, openParams].map((params) =>
+          fetch(`${API_BASE_URL}/sales?${params.toString()}`, { headers: getAuthHeaders(false) }),
+        ),
+      )
+      if (responses.some((response) => !response.ok)) {
+        throw new Error('Não foi possível carregar as vendas.')
+      }
+      const [recent, open] = await Promise.all(responses.map((response) => response.json()))
+      if (requestId !== salesRequestRef.current) return
+      // Pedidos em aberto antigos entram junto dos recentes, sem repetir os que estão nas duas listas.
+      const merged = new Map<string, Sale>()
+      ;[...(Array.isArray(recent) ? recent : []), ...(Array.isArray(open) ? open : [])].forEach((sale: unknown) => {
+        const normalized = normalizeSale(sale)
+        merged.set(normalized.backendId ?? normalized.id, normalized)
+      })
+      setSales([...merged.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt)))
+    } catch (error) {
+      if (requestId !== salesRequestRef.current) return
+      console.error(error)
+      setSalesError(error instanceof Error ? error.message : 'Falha ao carregar vendas.')
+      setSales([])
+    } finally {
+      if (requestId === salesRequestRef.current) setSalesLoading(false)
+    }
+  }, [authToken])
+
+  // Lista paginada do Sleep Lab: filtros e busca são aplicados no servidor e as próximas páginas chegam pelo cursor.
+  const fetchSalePage = useCallback(
+    async (cursor: string | null) => {
+      if (!authToken) return
+      const requestId = ++salePageRequestRef.current
+      setSalePageLoading(true)
+      setSalePageError(null)
+      const params = new URLSearchParams({ limit: String(SALE_PAGE_SIZE) })
+      if (cursor) params.set('cursor', cursor)
+      if (saleSearch.trim()) params.set('search', saleSearch.trim())
+      if (saleFilter !== 'all') params.set('status', saleFilter)
+      if (saleDateStart) params.set('start', getLocalStartOfDayIso(saleDateStart))
+      if (saleDateEnd) params.set('end', getLocalEndOfDayIso(saleDateEnd))
+      if (salePaymentFilter !== 'all') params.set('paymentMethod', salePaymentFilter)
+      if (saleMinValue) params.set('minValue', saleMinValue)
+      if (saleMaxValue) params.set('maxValue', saleMaxValue)
+      try {
+        const response = await fetch(`${API_BASE_URL}/sales?${params.toString()}`, {
+          headers: getAuthHeaders(false),
+        })
+        if (!response.ok) {
+          throw new Error('Não foi possível carregar as vendas.')
+        }
+        const data = await response.json()
+        if (requestId !== salePageRequestRef.current) return
+        const items = Array.isArray(data.items) ? data.items.map((sale: any) => normalizeSale(sale)) : []
+        setSalePage((prev) => (cursor ? [...prev, ...items] : items))
+        setSalePageCursor(data.nextCursor ?? null)
+      } catch (error) {
+        if (requestId !== salePageRequestRef.current) return
+        console.error(error)
+        setSalePageError(error instanceof Error ? error.message : 'Falha ao carregar vendas.')
+      } finally {
+        if (requestId === salePageRequestRef.current) {
+          setSalePageLoading(false)
+        }
+      }
+    },
+    [authToken, saleSearch, saleFilter, saleDateStart, saleDateEnd, salePaymentFilter, saleMinValue, saleMaxValue],
+  )
+
+  // Vendas abertas pela lista paginada podem ser mais antigas que a janela carregada em `sales`.
+  const findSale = (saleId: string) =>
+    sales.find((item) => item.id === saleId) ?? salePage.find((item) => item.id === saleId)
+
+  const replaceSale = (saleId: string, updated: Sale) => {
+    setSales((prev) => prev.map((item) => (item.id === saleId ? updated : item)))
+    setSalePage((prev) => prev.map((item) => (item.id === saleId ? updated : item)))
+  }
+
+  useEffect(() => {
+    if (!authToken || !viewingSleepLab) return
+    const timer = window.setTimeout(() => fetchSalePage(null), 300)
+    return () => window.clearTimeout(timer)
+  }, [authToken, viewingSleepLab, fetchSalePage])
+
+  useEffect(() => {
+    const sentinel = salePageSentinelRef.current
+    if (!sentinel || !salePageCursor || salePageLoading) return
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          fetchSalePage(salePageCursor)
+        }
+      },
+      { rootMargin: '200px' },
+    )
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [salePageCursor, salePageLoading, fetchSalePage])
+
+  const fetchQuotesFromApi = useCallback(async () => {
+    if (!authToken) return
+    setQuotesLoading(true)
+    setQuotesError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/quotes`, {
         headers: getAuthHeaders(false),
       })
       if (!response.ok) {
-        throw new Error('Não foi possível carregar as vendas.')
+        throw new Error('Não foi possível carregar os orçamentos.')
       }
       const data = await response.json()
-      const normalized = Array.isArray(data) ? data.map((sale: any) => normalizeSale(sale)) : []
-      setSales(normalized)
+      setQuotes(Array.isArray(data) ? data.map((quote: any) => normalizeQuote(quote)) : [])
     } catch (error) {
       console.error(error)
-      setSalesError(error instanceof Error ? error.message : 'Falha ao carregar vendas.')
-      setSales([])
+      setQuotesError(error instanceof Error ? error.message : 'Falha ao carregar orçamentos.')
+      setQuotes([])
     } finally {
-      setSalesLoading(false)
+      setQuotesLoading(false)
+    }
+  }, [authToken])
+
+  useEffect(() => {
+    if (!authToken) {
+      setQuotes([])
+      setQuotesError(null)
+      return
+    }
+    if (!viewingSleepLab) return
+    fetchQuotesFromApi()
+  }, [authToken, viewingSleepLab, fetchQuotesFromApi])
+
+  // Vendedores importam só as próprias vendas; o que for de outro vendedor fica no navegador para um administrador.
+  const importLegacyPaymentOverrides = useCallback(async () => {
+    if (!authToken) return
+    const overrides = loadPaymentOverrides()
+    if (!Object.keys(overrides).length) return
+    try {
+      const response = await fetch(`${API_BASE_URL}/sales/payment-plans/import`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ overrides }),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível importar os pagamentos semanais salvos neste navegador.')
+      }
+      const result = await response.json().catch(() => ({}))
+      const skipped = new Set<string>(Array.isArray(result?.skipped) ? result.skipped : [])
+      if (!skipped.size) {
+        clearPaymentOverrides()
+        return
+      }
+      const remaining = Object.fromEntries(
+        Object.entries(overrides)
+          .map(([code, items]) => [code, items.filter((item) => skipped.has(item.paymentId))] as const)
+          .filter(([, items]) => items.length > 0),
+      )
+      storePaymentOverrides(remaining)
+      window.alert(
+        `${skipped.size} pagamento(s) semanal(is) salvo(s) neste navegador são de vendas de outros vendedores e não foram importados. Eles continuam guardados aqui até um administrador entrar neste navegador.`,
+      )
+    } catch (error) {
+      console.error(error)
     }
   }, [authToken])
 
@@ -1002,8 +2309,12 @@ useEffect(() => {
       setSalesError(null)
       return
     }
-    fetchSalesFromApi()
-  }, [authToken, fetchSalesFromApi])
+    const syncSales = async () => {
+      await importLegacyPaymentOverrides()
+      await fetchSalesFromApi()
+    }
+    syncSales()
+  }, [authToken, fetchSalesFromApi, importLegacyPaymentOverrides])
 
   const fetchUsersFromApi = useCallback(async () => {
     if (!authToken || !isAdmin) return
@@ -1048,6 +2359,7 @@ useEffect(() => {
       if (startIso) params.append('start', startIso)
       if (endIso) params.append('end', endIso)
       if (financePaymentFilter !== 'all') params.append('method', financePaymentFilter)
+      params.append('mode', financeRecognitionMode)
       const query = params.toString()
       const response = await fetch(`${API_BASE_URL}/finance/summary${query ? `?${query}` : ''}`, {
         headers: getAuthHeaders(false),
@@ -1056,7 +2368,14 @@ useEffect(() => {
         throw new Error('Não foi possível carregar os indicadores financeiros.')
       }
       const data = await response.json()
-      setFinanceSummary(data)
+      setFinanceSummary({
+        ...data,
+        cardFees: Number(data.cardFees ?? 0),
+        netOfFees: Number(data.netOfFees ?? data.totalRevenue ?? 0),
+        expensesByCategory: data.expensesByCategory ?? {},
+        pendingApproval: data.pendingApproval ?? { count: 0, value: 0 },
+        cancelled: data.cancelled ?? { count: 0, value: 0 },
+      })
     } catch (error) {
       console.error(error)
       setFinanceSummary(null)
@@ -1064,7 +2383,7 @@ useEffect(() => {
     } finally {
       setFinanceSummaryLoading(false)
     }
-  }, [authToken, financeDateStart, financeDateEnd, financePaymentFilter, isAdmin])
+  }, [authToken, financeDateStart, financeDateEnd, financePaymentFilter, financeRecognitionMode, isAdmin])
 
   useEffect(() => {
     if (!authToken || !isAdmin || !needsFinanceData) return
@@ -1076,6 +2395,7 @@ useEffect(() => {
     financeDateStart,
     financeDateEnd,
     financePaymentFilter,
+    financeRecognitionMode,
     fetchFinanceSummaryFromApi,
     sales.length,
   ])
@@ -1123,2652 +2443,5820 @@ useEffect(() => {
     fetchFinanceExpensesFromApi,
   ])
 
-  const fetchMonthlyGoalFromApi = useCallback(async () => {
-    if (!authToken) return
-    setMonthlyGoalLoading(true)
-    setMonthlyGoalError(null)
+  const fetchExpenseSetupFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
     try {
-      const response = await fetch(`${API_BASE_URL}/finance/goal`, {
+      const [categoriesResponse, recurrencesResponse] = await Promise.all([
+        fetch(`${API_BASE_URL}/finance/expense-categories`, { headers: getAuthHeaders(false) }),
+        fetch(`${API_BASE_URL}/finance/expense-recurrences`, { headers: getAuthHeaders(false) }),
+      ])
+      if (!categoriesResponse.ok || !recurrencesResponse.ok) {
+        throw new Error('Não foi possível carregar categorias e despesas recorrentes.')
+      }
+      const [categories, recurrences] = await Promise.all([categoriesResponse.json(), recurrencesResponse.json()])
+      setExpenseCategories(
+        Array.isArray(categories)
+          ? categories.map((category: { id: string; name?: string; active?: boolean }) => ({
+              id: category.id,
+              name: category.name ?? '',
+              active: category.active !== false,
+            }))
+          : [],
+      )
+      setExpenseRecurrences(
+        Array.isArray(recurrences) ? recurrences.map(normalizeExpenseRecurrence) : [],
+      )
+    } catch (error) {
+      console.error(error)
+      setExpenseSetupError(error instanceof Error ? error.message : 'Falha ao carregar categorias.')
+    }
+  }, [authToken, isAdmin])
+
+  useEffect(() => {
+    if (!authToken || !isAdmin || !needsFinanceData) return
+    fetchExpenseSetupFromApi()
+  }, [authToken, isAdmin, needsFinanceData, fetchExpenseSetupFromApi])
+
+  const fetchFinanceReceivablesFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    setFinanceReceivablesLoading(true)
+    setFinanceReceivablesError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/receivables`, {
         headers: getAuthHeaders(false),
       })
       if (!response.ok) {
-        throw new Error('Não foi possível carregar a meta do mês.')
+        throw new Error('Não foi possível carregar o contas a receber.')
       }
-      const data = await response.json()
-      setMonthlyGoal(data)
-      setMonthlyGoalFormValue(data.target ?? 0)
+      setFinanceReceivables(normalizeReceivables(await response.json()))
     } catch (error) {
       console.error(error)
-      setMonthlyGoal(null)
-      setMonthlyGoalError(error instanceof Error ? error.message : 'Falha ao carregar meta do mês.')
+      setFinanceReceivables(null)
+      setFinanceReceivablesError(error instanceof Error ? error.message : 'Falha ao carregar contas a receber.')
     } finally {
-      setMonthlyGoalLoading(false)
+      setFinanceReceivablesLoading(false)
     }
-  }, [authToken])
+  }, [authToken, isAdmin])
 
   useEffect(() => {
-    if (!authToken || !needsMonthlyGoal) {
-      if (!authToken) {
-        setMonthlyGoal(null)
-        setMonthlyGoalError(null)
-        setMonthlyGoalFormValue(0)
+    if (!authToken || !isAdmin || !needsFinanceData) return
+    fetchFinanceReceivablesFromApi()
+  }, [authToken, isAdmin, needsFinanceData, fetchFinanceReceivablesFromApi, sales])
+
+  const fetchDiscountPoliciesFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    setDiscountPoliciesError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/discount-policies`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar a política de descontos.')
       }
-      return
+      const data = await response.json()
+      setDiscountPolicies(Array.isArray(data) ? data : [])
+    } catch (error) {
+      console.error(error)
+      setDiscountPoliciesError(error instanceof Error ? error.message : 'Falha ao carregar a política de descontos.')
     }
-    fetchMonthlyGoalFromApi()
-  }, [authToken, needsMonthlyGoal, sales.length, fetchMonthlyGoalFromApi])
+  }, [authToken, isAdmin])
 
   useEffect(() => {
-    if (!authToken || !needsUsersData) return
-    fetchUsersFromApi()
-  }, [authToken, needsUsersData, fetchUsersFromApi])
+    if (!authToken || !isAdmin || !needsFinanceData) return
+    fetchDiscountPoliciesFromApi()
+  }, [authToken, isAdmin, needsFinanceData, fetchDiscountPoliciesFromApi])
 
-  const fetchAssistancesFromApi = useCallback(async () => {
-    if (!authToken) return
-    setAssistancesLoading(true)
-    setAssistancesError(null)
+  const handleSaveDiscountPolicy = async (policy: DiscountPolicy) => {
+    if (!authToken || !isAdmin) return
+    setDiscountPolicySaving(policy.role)
+    setDiscountPoliciesError(null)
     try {
-      const response = await fetch(`${API_BASE_URL}/assistances`, {
-        headers: getAuthHeaders(false),
+      const response = await fetch(`${API_BASE_URL}/discount-policies/${policy.role}`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          maxDiscountPercent: policy.maxDiscountPercent,
+          minMarginPercent: policy.minMarginPercent,
+        }),
       })
       if (!response.ok) {
-        throw new Error('Não foi possível carregar as assistências.')
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível salvar a política de descontos.')
       }
-      const data = await response.json()
-      const normalized = Array.isArray(data) ? data.map((item: any) => normalizeAssistance(item)) : []
-      setAssistances(normalized)
+      const saved: DiscountPolicy = await response.json()
+      setDiscountPolicies((prev) => prev.map((item) => (item.role === saved.role ? saved : item)))
     } catch (error) {
       console.error(error)
-      setAssistancesError(error instanceof Error ? error.message : 'Falha ao carregar assistências.')
-      setAssistances([])
+      setDiscountPoliciesError(error instanceof Error ? error.message : 'Erro ao salvar a política de descontos.')
     } finally {
-      setAssistancesLoading(false)
+      setDiscountPolicySaving(null)
     }
-  }, [authToken])
+  }
 
-  useEffect(() => {
-    if (!authToken) {
-      setAssistances([])
-      setAssistancesError(null)
-      return
+  const fetchCardFeesFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    setCardFeesError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/card-fees`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar as taxas de cartão.')
+      }
+      const data = await response.json()
+      setCardFees(
+        Array.isArray(data)
+          ? data.map((fee: any) => ({
+              id: fee.id,
+              method: mapPaymentMethodFromApi(fee.method),
+              installments: Number(fee.installments ?? 1),
+              feePercent: Number(fee.feePercent ?? 0),
+              settlementDays: Number(fee.settlementDays ?? 0),
+            }))
+          : [],
+      )
+    } catch (error) {
+      console.error(error)
+      setCardFeesError(error instanceof Error ? error.message : 'Falha ao carregar as taxas de cartão.')
     }
-    if (!needsAssistancesData) return
-    fetchAssistancesFromApi()
-  }, [authToken, needsAssistancesData, fetchAssistancesFromApi])
+  }, [authToken, isAdmin])
 
-  useEffect(() => {
-    if (!authToken) {
-      setSessionUserId(null)
-      setSessionChecking(false)
-      return
-    }
-    let isActive = true
-    setSessionChecking(true)
-    const fetchSession = async () => {
-      try {
-        const response = await fetch(`${API_BASE_URL}/auth/me`, {
-          headers: { Authorization: `Bearer ${authToken}` },
-        })
-        if (!response.ok) {
-          throw new Error('Sessão expirada. Faça login novamente.')
-        }
-        const data = await response.json()
-        if (!isActive) return
-        const normalizedUser = normalizeUserFromApi({ ...data, name: data.name ?? 'Usuário' })
-        setUsers((prev) => {
-          const exists = prev.some((user) => user.id === normalizedUser.id)
-          if (exists) {
-            return prev.map((user) => (user.id === normalizedUser.id ? normalizedUser : user))
-          }
-          return [...prev, normalizedUser]
-        })
-        setSessionUserId(normalizedUser.id)
-      } catch (error) {
-        console.error(error)
-        forceLogout()
-      } finally {
-        if (isActive) {
-          setSessionChecking(false)
-        }
+  const fetchSettlementsFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    setSettlementsError(null)
+    try {
+      const start = new Date()
+      start.setHours(0, 0, 0, 0)
+      const end = new Date(start)
+      end.setDate(end.getDate() + settlementHorizon)
+      end.setHours(23, 59, 59, 999)
+      const params = new URLSearchParams({ start: start.toISOString(), end: end.toISOString() })
+      const response = await fetch(`${API_BASE_URL}/finance/settlements?${params.toString()}`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar a previsão de repasses.')
       }
+      const data = await response.json()
+      setSettlementForecast({
+        start: data.start,
+        end: data.end,
+        totalGross: Number(data.totalGross ?? 0),
+        totalNet: Number(data.totalNet ?? 0),
+        days: Array.isArray(data.days) ? data.days : [],
+        payments: Array.isArray(data.payments)
+          ? data.payments.map((payment: any) => ({ ...payment, method: mapPaymentMethodFromApi(payment.method) }))
+          : [],
+      })
+    } catch (error) {
+      console.error(error)
+      setSettlementForecast(null)
+      setSettlementsError(error instanceof Error ? error.message : 'Falha ao carregar a previsão de repasses.')
     }
-    fetchSession()
-    return () => {
-      isActive = false
+  }, [authToken, isAdmin, settlementHorizon])
+
+  useEffect(() => {
+    if (!authToken || !isAdmin || !needsFinanceData) return
+    fetchCardFeesFromApi()
+  }, [authToken, isAdmin, needsFinanceData, fetchCardFeesFromApi])
+
+  useEffect(() => {
+    if (!authToken || !isAdmin || !needsFinanceData) return
+    fetchSettlementsFromApi()
+  }, [authToken, isAdmin, needsFinanceData, fetchSettlementsFromApi, sales.length])
+
+  const fetchCashFlowFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    setCashFlowLoading(true)
+    setCashFlowError(null)
+    try {
+      const params = new URLSearchParams({
+        days: '90',
+        granularity: cashFlowGranularity,
+        openingBalance: String(cashFlowAppliedBalance),
+      })
+      const response = await fetch(`${API_BASE_URL}/finance/cash-flow?${params.toString()}`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar a projeção de caixa.')
+      }
+      const data = await response.json()
+      setCashFlow({ ...data, periods: Array.isArray(data.periods) ? data.periods : [] })
+    } catch (error) {
+      console.error(error)
+      setCashFlow(null)
+      setCashFlowError(error instanceof Error ? error.message : 'Falha ao carregar a projeção de caixa.')
+    } finally {
+      setCashFlowLoading(false)
     }
-  }, [authToken, forceLogout])
+  }, [authToken, isAdmin, cashFlowGranularity, cashFlowAppliedBalance])
 
+  // O saldo inicial digitado só entra na projeção ao clicar em "Projetar", para não consultar a cada dígito.
   useEffect(() => {
-    if (!isAdmin && activePage === 'financeiro') {
-      setActivePage('dashboard')
+    if (!authToken || !isAdmin || !needsFinanceData) return
+    fetchCashFlowFromApi()
+  }, [authToken, isAdmin, needsFinanceData, fetchCashFlowFromApi, sales.length])
+
+  // Períodos que começam antes da janela de `sales` trazem a lista do servidor, limitada ao período escolhido.
+  const fetchFinanceHistorySalesFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    const startIso = getLocalStartOfDayIso(financeDateStart)
+    if (!startIso || new Date(startIso) >= getSalesWindowStart()) {
+      setFinanceHistorySales(null)
+      return
     }
-  }, [isAdmin, activePage])
+    try {
+      const params = new URLSearchParams({ start: startIso })
+      const endIso = getLocalEndOfDayIso(financeDateEnd)
+      if (endIso) params.set('end', endIso)
+      const response = await fetch(`${API_BASE_URL}/sales?${params.toString()}`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar as vendas do período.')
+      }
+      const data = await response.json()
+      setFinanceHistorySales(Array.isArray(data) ? data.map((sale: unknown) => normalizeSale(sale)) : [])
+    } catch (error) {
+      console.error(error)
+      setFinanceHistorySales(null)
+    }
+  }, [authToken, isAdmin, financeDateStart, financeDateEnd])
 
   useEffect(() => {
-    setAssistanceForm((prev) => {
-      const findByBackend = (sale: Sale) => (sale.backendId ?? sale.id) === prev.saleId
-      const saleExists = sales.some(findByBackend)
-      const fallbackSale = sales[0]
-      const nextSale = saleExists ? sales.find(findByBackend) ?? fallbackSale : fallbackSale
-      const nextSaleId = nextSale ? nextSale.backendId ?? nextSale.id : ''
-      const productExists = nextSale?.items.some(
-        (item, index) => getSaleItemKey(item, index) === prev.productId,
+    if (!authToken || !isAdmin || !needsFinanceData) return
+    fetchFinanceHistorySalesFromApi()
+  }, [authToken, isAdmin, needsFinanceData, fetchFinanceHistorySalesFromApi, sales.length])
+
+  const fetchMarginReportFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    setMarginLoading(true)
+    setMarginError(null)
+    try {
+      const params = new URLSearchParams()
+      const startIso = getLocalStartOfDayIso(financeDateStart)
+      const endIso = getLocalEndOfDayIso(financeDateEnd)
+      if (startIso) params.append('start', startIso)
+      if (endIso) params.append('end', endIso)
+      const query = params.toString()
+      const response = await fetch(`${API_BASE_URL}/finance/margins${query ? `?${query}` : ''}`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível calcular as margens.')
+      }
+      const data = await response.json()
+      setMarginReport({
+        ...data,
+        sales: Array.isArray(data.sales) ? data.sales : [],
+        products: Array.isArray(data.products) ? data.products : [],
+        sellers: Array.isArray(data.sellers) ? data.sellers : [],
+        categories: Array.isArray(data.categories) ? data.categories : [],
+        brands: Array.isArray(data.brands) ? data.brands : [],
+        months: Array.isArray(data.months) ? data.months : [],
+      })
+    } catch (error) {
+      console.error(error)
+      setMarginReport(null)
+      setMarginError(error instanceof Error ? error.message : 'Falha ao calcular margens.')
+    } finally {
+      setMarginLoading(false)
+    }
+  }, [authToken, isAdmin, financeDateStart, financeDateEnd])
+
+  useEffect(() => {
+    if (!authToken || !isAdmin || !needsFinanceData) return
+    fetchMarginReportFromApi()
+  }, [authToken, isAdmin, needsFinanceData, fetchMarginReportFromApi, sales.length])
+
+  const fetchStatementFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    setStatementLoading(true)
+    setStatementError(null)
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/finance/statements/${statementMonth.year}/${statementMonth.month}`,
+        { headers: getAuthHeaders(false) },
       )
-      const nextProductId = productExists ? prev.productId : nextSale?.items[0] ? getSaleItemKey(nextSale.items[0], 0) : ''
-      return {
-        ...prev,
-        saleId: nextSaleId,
-        productId: nextProductId,
+      if (!response.ok) {
+        throw new Error('Não foi possível gerar o demonstrativo.')
       }
-    })
-  }, [sales])
+      const data = await response.json()
+      setStatement({ ...data, lines: Array.isArray(data.lines) ? data.lines : [] })
+    } catch (error) {
+      console.error(error)
+      setStatement(null)
+      setStatementError(error instanceof Error ? error.message : 'Falha ao gerar o demonstrativo.')
+    } finally {
+      setStatementLoading(false)
+    }
+  }, [authToken, isAdmin, statementMonth])
 
-  const todayIso = new Date().toISOString().slice(0, 10)
-  const todayRevenue = sales
-    .filter(
-      (sale) =>
-        !sale.requiresApproval && sale.status === 'entregue' && sale.createdAt.slice(0, 10) === todayIso,
-    )
-    .reduce((sum, sale) => sum + sale.value, 0)
-  const pendingDeliveries = sales.filter((sale) => sale.status === 'pendente' && !sale.requiresApproval).length
-  const awaitingApproval = sales.filter((sale) => sale.requiresApproval).length
-  const confirmDeliveryClient = confirmDeliveryState
-    ? clients.find((clientItem) => clientItem.id === confirmDeliveryState.sale.clientId)
-    : null
+  useEffect(() => {
+    if (!authToken || !isAdmin || !needsFinanceData) return
+    fetchStatementFromApi()
+  }, [authToken, isAdmin, needsFinanceData, fetchStatementFromApi])
 
-  const facts = [
-    { label: 'Clientes ativos', value: clients.length.toString(), detail: 'Cadastros no CRM' },
-    { label: 'Receita de hoje', value: formatCurrency(todayRevenue), detail: 'Faturado até agora' },
-    { label: 'Entregas pendentes', value: `${pendingDeliveries} vendas`, detail: 'Prontas para confirmar' },
-    { label: 'Aguardando aprovação', value: `${awaitingApproval}`, detail: 'Itens personalizados pendentes' },
-  ]
+  const shiftStatementMonth = (offset: number) => {
+    setStatementMonth((prev) => {
+      const date = new Date(prev.year, prev.month - 1 + offset, 1)
+      return { year: date.getFullYear(), month: date.getMonth() + 1 }
+    })
+  }
 
-  const addClient = async (data: typeof emptyClientForm) => {
-    if (!authToken) throw new Error('Sessão expirada. Faça login novamente.')
-    if (!data.name.trim()) throw new Error('Informe o nome do cliente.')
-    const payload = {
-      name: data.name.trim(),
-      phone: data.phone.trim(),
-      cpf: data.cpf.trim(),
-      addressStreet: data.addressStreet.trim(),
-      addressNumber: data.addressNumber.trim(),
-      addressNeighborhood: data.addressNeighborhood.trim(),
-      addressCity: data.addressCity.trim(),
-      addressNote: data.addressNote.trim(),
+  const handleSaveCardFee = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!authToken || !isAdmin) return
+    setCardFeeSaving(true)
+    setCardFeesError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/card-fees`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          method: cardFeeForm.method,
+          installments: cardFeeForm.method === 'Cartão de débito' ? 1 : Number(cardFeeForm.installments),
+          feePercent: Number(cardFeeForm.feePercent),
+          settlementDays: Number(cardFeeForm.settlementDays),
+        }),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível salvar a taxa.')
+      }
+      setCardFeeForm((prev) => ({ ...prev, feePercent: '' }))
+      await Promise.all([fetchCardFeesFromApi(), fetchSettlementsFromApi(), fetchFinanceSummaryFromApi()])
+    } catch (error) {
+      console.error(error)
+      setCardFeesError(error instanceof Error ? error.message : 'Erro ao salvar a taxa.')
+    } finally {
+      setCardFeeSaving(false)
     }
-    const response = await fetch(`${API_BASE_URL}/clients`, {
-      method: 'POST',
-      headers: getAuthHeaders(),
-      body: JSON.stringify(payload),
-    })
-    if (!response.ok) {
-      throw new Error('Não foi possível cadastrar o cliente.')
+  }
+
+  const handleDeleteCardFee = async (feeId: string) => {
+    if (!authToken || !isAdmin) return
+    setCardFeesError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/card-fees/${feeId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível remover a taxa.')
+      }
+      await Promise.all([fetchCardFeesFromApi(), fetchSettlementsFromApi(), fetchFinanceSummaryFromApi()])
+    } catch (error) {
+      console.error(error)
+      setCardFeesError(error instanceof Error ? error.message : 'Erro ao remover a taxa.')
     }
-    const created = normalizeClient(await response.json())
-    setClients((prev) => [created, ...prev])
-    setSaleForm((prev) => (prev.clientId ? prev : { ...prev, clientId: created.id }))
-    return created
   }
 
-  const updateClientRecord = async (clientId: string, data: typeof emptyClientForm) => {
-    if (!authToken) throw new Error('Sessão expirada. Faça login novamente.')
-    const payload = {
-      name: data.name.trim(),
-      phone: data.phone.trim(),
-      cpf: data.cpf.trim(),
-      addressStreet: data.addressStreet.trim(),
-      addressNumber: data.addressNumber.trim(),
-      addressNeighborhood: data.addressNeighborhood.trim(),
-      addressCity: data.addressCity.trim(),
-      addressNote: data.addressNote.trim(),
+  const fetchCashSessionsFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    setCashSessionLoading(true)
+    setCashSessionError(null)
+    try {
+      const [currentResponse, listResponse] = await Promise.all([
+        fetch(`${API_BASE_URL}/finance/cash-sessions/current`, { headers: getAuthHeaders(false) }),
+        fetch(`${API_BASE_URL}/finance/cash-sessions`, { headers: getAuthHeaders(false) }),
+      ])
+      if (!currentResponse.ok || !listResponse.ok) {
+        throw new Error('Não foi possível carregar o caixa.')
+      }
+      const current = await currentResponse.json()
+      const list = await listResponse.json()
+      setCashSession(current ? normalizeCashSession(current) : null)
+      setCashSessions(Array.isArray(list) ? list.map((session: any) => normalizeCashSession(session)) : [])
+    } catch (error) {
+      console.error(error)
+      setCashSessionError(error instanceof Error ? error.message : 'Falha ao carregar o caixa.')
+    } finally {
+      setCashSessionLoading(false)
     }
-    const response = await fetch(`${API_BASE_URL}/clients/${clientId}`, {
-      method: 'PUT',
-      headers: getAuthHeaders(),
-      body: JSON.stringify(payload),
-    })
-    if (!response.ok) {
-      throw new Error('Não foi possível atualizar o cliente.')
+  }, [authToken, isAdmin])
+
+  useEffect(() => {
+    if (!authToken || !isAdmin || !needsFinanceData) return
+    fetchCashSessionsFromApi()
+  }, [authToken, isAdmin, needsFinanceData, fetchCashSessionsFromApi, sales])
+
+  const sendCashSessionRequest = async (path: string, body: Record<string, unknown>, fallbackMessage: string) => {
+    if (!authToken || !isAdmin) return null
+    setCashSessionSaving(true)
+    setCashSessionError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/cash-sessions${path}`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(body),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? fallbackMessage)
+      }
+      const session = normalizeCashSession(await response.json())
+      await fetchCashSessionsFromApi()
+      return session
+    } catch (error) {
+      console.error(error)
+      setCashSessionError(error instanceof Error ? error.message : fallbackMessage)
+      return null
+    } finally {
+      setCashSessionSaving(false)
     }
-    const updated = normalizeClient(await response.json())
-    setClients((prev) => prev.map((client) => (client.id === clientId ? updated : client)))
   }
 
-  const deleteClientRecord = async (clientId: string) => {
-    if (!authToken) throw new Error('Sessão expirada. Faça login novamente.')
-    const response = await fetch(`${API_BASE_URL}/clients/${clientId}`, {
-      method: 'DELETE',
-      headers: getAuthHeaders(false),
-    })
-    if (!response.ok) {
-      throw new Error('Não foi possível remover o cliente.')
+  const handleOpenCashSession = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const session = await sendCashSessionRequest(
+      '',
+      { openingAmount: cashOpeningAmount },
+      'Não foi possível abrir o caixa.',
+    )
+    if (session) {
+      setCashOpeningAmount(0)
     }
-    setClients((prev) => {
-      const updated = prev.filter((client) => client.id !== clientId)
-      setSaleForm((salePrev) => ({ ...salePrev, clientId: updated[0]?.id ?? '' }))
-      return updated
-    })
-    setSales((prev) => prev.filter((sale) => sale.clientId !== clientId))
   }
-const [stockMovements, setStockMovements] = useState<StockMovement[]>([])
-const [stockMovementsLoading, setStockMovementsLoading] = useState(false)
-const [stockMovementsError, setStockMovementsError] = useState<string | null>(null)
-const [editProductModal, setEditProductModal] = useState<StockItem | null>(null)
-const [editProductForm, setEditProductForm] = useState({ price: '', factoryCost: '', image: '' })
-const [editProductPreview, setEditProductPreview] = useState('')
-const [editProductLoading, setEditProductLoading] = useState(false)
-const [editProductError, setEditProductError] = useState<string | null>(null)
-const [expandedStockId, setExpandedStockId] = useState<string | null>(null)
 
-  const resetInventoryForm = (preferredProductId?: string) => {
-    setInventoryForm(createInventoryFormState(preferredProductId ?? (stockItems[0]?.id ?? '')))
+  const handleAddCashMovement = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!cashSession) return
+    if (cashMovementForm.amount <= 0) {
+      setCashSessionError('Informe o valor da movimentação.')
+      return
+    }
+    const session = await sendCashSessionRequest(
+      `/${cashSession.id}/movements`,
+      { type: cashMovementForm.type, amount: cashMovementForm.amount, reason: cashMovementForm.reason.trim() },
+      'Não foi possível registrar a movimentação.',
+    )
+    if (session) {
+      setCashMovementForm((prev) => ({ ...prev, amount: 0, reason: '' }))
+    }
   }
 
-  const openReceiptModal = (sale: Sale) => {
-    setReceiptSale(sale)
-    setReceiptModalOpen(true)
+  const handleCloseCashSession = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!cashSession) return
+    const expected = cashSession.details?.totals.expected ?? 0
+    const difference = cashCountedAmount - expected
+    if (
+      Math.abs(difference) >= 0.01 &&
+      !window.confirm(`O valor contado difere do esperado em ${formatCurrency(difference)}. Fechar o caixa mesmo assim?`)
+    ) {
+      return
+    }
+    const session = await sendCashSessionRequest(
+      `/${cashSession.id}/close`,
+      { countedAmount: cashCountedAmount },
+      'Não foi possível fechar o caixa.',
+    )
+    if (session) {
+      setCashCountedAmount(0)
+      setCashReport(session)
+    }
   }
 
-const focusInventoryPanel = (productId?: string) => {
-  if (!canManageStock) return
-    setInventoryPanelOpen(true)
-    setInventoryForm((prev) => {
-      if (!stockItems.length) {
-        return {
-          ...createInventoryFormState(''),
-          isNewProduct: true,
-          type: 'entrada',
-        }
-      }
-      return {
-        ...prev,
-        productId: productId ?? prev.productId ?? stockItems[0]?.id ?? '',
-        isNewProduct: false,
+  const openCashReport = async (sessionId: string) => {
+    if (!authToken) return
+    setCashSessionError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/cash-sessions/${sessionId}`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar o relatório do caixa.')
       }
-    })
-    requestAnimationFrame(() => {
-      inventoryPanelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' })
-    })
-  }
-
-  const toggleStockCard = (productId: string) => {
-    setExpandedStockId((prev) => (prev === productId ? null : productId))
+      setCashReport(normalizeCashSession(await response.json()))
+    } catch (error) {
+      console.error(error)
+      setCashSessionError(error instanceof Error ? error.message : 'Falha ao carregar o relatório do caixa.')
+    }
   }
 
-  const handleSelectClientOption = (client: Client) => {
-    setSaleForm((prev) => ({ ...prev, clientId: client.id }))
-    setSaleClientSearch(client.name)
-    setClientSearchFocused(false)
-  }
+  const fetchCommissionReportFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    setCommissionLoading(true)
+    setCommissionError(null)
+    try {
+      const params = new URLSearchParams()
+      if (commissionRange.start) params.set('start', getLocalStartOfDayIso(commissionRange.start))
+      if (commissionRange.end) params.set('end', getLocalEndOfDayIso(commissionRange.end))
+      const response = await fetch(`${API_BASE_URL}/finance/commissions?${params.toString()}`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível calcular as comissões.')
+      }
+      setCommissionReport(normalizeCommissionReport(await response.json()))
+    } catch (error) {
+      console.error(error)
+      setCommissionReport(null)
+      setCommissionError(error instanceof Error ? error.message : 'Falha ao calcular comissões.')
+    } finally {
+      setCommissionLoading(false)
+    }
+  }, [authToken, isAdmin, commissionRange])
 
-  const handleClientSearchKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
-    if (event.key !== 'Enter') return
-    const option = saleClientOptions[0]
-    if (!option) return
-    event.preventDefault()
-    handleSelectClientOption(option)
-  }
+  const fetchCommissionSetupFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    try {
+      const [rulesResponse, periodsResponse] = await Promise.all([
+        fetch(`${API_BASE_URL}/finance/commission-rules`, { headers: getAuthHeaders(false) }),
+        fetch(`${API_BASE_URL}/finance/commission-periods`, { headers: getAuthHeaders(false) }),
+      ])
+      if (!rulesResponse.ok || !periodsResponse.ok) {
+        throw new Error('Não foi possível carregar as regras de comissão.')
+      }
+      const rules = await rulesResponse.json()
+      const periods = await periodsResponse.json()
+      setCommissionRules(Array.isArray(rules) ? rules : [])
+      setCommissionPeriods(Array.isArray(periods) ? periods.map((period: any) => normalizeCommissionPeriod(period)) : [])
+    } catch (error) {
+      console.error(error)
+      setCommissionError(error instanceof Error ? error.message : 'Falha ao carregar regras de comissão.')
+    }
+  }, [authToken, isAdmin])
 
-  const openEditProductModal = (product: StockItem) => {
-    if (!isAdmin) return
-    setEditProductModal(product)
-    setEditProductForm({
-      price: String(product.price ?? 0),
-      factoryCost: product.factoryCost !== undefined ? String(product.factoryCost) : '',
-      image: product.imageUrl,
-    })
-    setEditProductPreview(product.imageUrl)
-    setEditProductError(null)
-  }
+  useEffect(() => {
+    if (!authToken || !isAdmin || !viewingCommissions) return
+    fetchCommissionReportFromApi()
+  }, [authToken, isAdmin, viewingCommissions, fetchCommissionReportFromApi])
 
-  const closeEditProductModal = () => {
-    setEditProductModal(null)
-    setEditProductPreview('')
-    setEditProductForm({ price: '', factoryCost: '', image: '' })
-    setEditProductError(null)
-    setEditProductLoading(false)
-  }
+  useEffect(() => {
+    if (!authToken || !isAdmin || !viewingCommissions) return
+    fetchCommissionSetupFromApi()
+  }, [authToken, isAdmin, viewingCommissions, fetchCommissionSetupFromApi])
 
-  const handleEditProductImageUpload = (event: ChangeEvent<HTMLInputElement>) => {
-    if (!isAdmin) return
-    const file = event.target.files?.[0]
-    if (!file) return
-    const reader = new FileReader()
-    reader.onloadend = () => {
-      const result = reader.result
-      if (typeof result === 'string') {
-        setEditProductPreview(result)
-        setEditProductForm((prev) => ({ ...prev, image: result }))
+  // Vendedores acompanham no dashboard a comissão acumulada no mês; o servidor limita o cálculo às vendas do próprio usuário.
+  const fetchMyCommissionFromApi = useCallback(async () => {
+    if (!authToken || isAdmin) return
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/commissions`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar sua comissão.')
       }
+      setMyCommission(normalizeCommissionReport(await response.json()))
+    } catch (error) {
+      console.error(error)
+      setMyCommission(null)
     }
-    reader.readAsDataURL(file)
-  }
+  }, [authToken, isAdmin])
 
-  const handleEditProductSubmit = async (event: FormEvent<HTMLFormElement>) => {
+  useEffect(() => {
+    if (!authToken || isAdmin || !viewingDashboard) return
+    fetchMyCommissionFromApi()
+  }, [authToken, isAdmin, viewingDashboard, fetchMyCommissionFromApi, sales.length])
+
+  const handleCreateCommissionRule = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault()
-    if (!authToken || !editProductModal) {
-      setEditProductError('Sessão expirada. Faça login novamente.')
-      return
-    }
-    const priceNumber = Number(editProductForm.price)
-    if (Number.isNaN(priceNumber) || priceNumber < 0) {
-      setEditProductError('Informe um valor válido para o preço.')
-      return
-    }
-    const factoryCostNumber = editProductForm.factoryCost ? Number(editProductForm.factoryCost) : 0
-    if (Number.isNaN(factoryCostNumber) || factoryCostNumber < 0) {
-      setEditProductError('Informe um valor válido para o custo.')
+    if (!authToken || !isAdmin) return
+    const percent = Number(commissionRuleForm.percent)
+    if (!commissionRuleForm.percent || Number.isNaN(percent)) {
+      setCommissionError('Informe o percentual da comissão.')
       return
     }
-    const payload = {
-      price: priceNumber,
-      factoryCost: factoryCostNumber,
-      imageUrl: editProductForm.image || editProductModal.imageUrl,
-    }
-    setEditProductLoading(true)
-    setEditProductError(null)
+    setCommissionSaving(true)
+    setCommissionError(null)
     try {
-      const response = await fetch(`${API_BASE_URL}/stock/${editProductModal.id}`, {
-        method: 'PUT',
+      const response = await fetch(`${API_BASE_URL}/finance/commission-rules`, {
+        method: 'POST',
         headers: getAuthHeaders(),
-        body: JSON.stringify(payload),
+        body: JSON.stringify({
+          type: commissionRuleForm.type,
+          userId: commissionRuleForm.userId || undefined,
+          productId: commissionRuleForm.type === 'produto' ? commissionRuleForm.productId || undefined : undefined,
+          percent,
+          minVolume:
+            commissionRuleForm.type === 'faixa' && commissionRuleForm.minVolume
+              ? Number(commissionRuleForm.minVolume)
+              : undefined,
+        }),
       })
       if (!response.ok) {
-        throw new Error('Não foi possível atualizar este produto.')
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível salvar a regra.')
       }
-      const updated = normalizeStockItem(await response.json())
-      setStockItems((prev) => prev.map((item) => (item.id === updated.id ? updated : item)))
-      closeEditProductModal()
+      const created: CommissionRule = await response.json()
+      setCommissionRules((prev) => [...prev, created])
+      setCommissionRuleForm((prev) => ({ ...prev, percent: '', minVolume: '' }))
+      await fetchCommissionReportFromApi()
     } catch (error) {
       console.error(error)
-      setEditProductError(error instanceof Error ? error.message : 'Erro ao salvar alterações do produto.')
+      setCommissionError(error instanceof Error ? error.message : 'Erro ao salvar a regra.')
     } finally {
-      setEditProductLoading(false)
+      setCommissionSaving(false)
     }
   }
 
-  const formatDigits = (value: string) => value.replace(/\D/g, '')
-
-  const formatCpf = (value: string) => {
-    const digits = formatDigits(value).slice(0, 11)
-    return digits
-      .replace(/(\d{3})(\d)/, '$1.$2')
-      .replace(/(\d{3})(\d)/, '$1.$2')
-      .replace(/(\d{3})(\d{1,2})$/, '$1-$2')
+  const handleDeleteCommissionRule = async (ruleId: string) => {
+    if (!authToken || !isAdmin) return
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/commission-rules/${ruleId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível remover a regra.')
+      }
+      setCommissionRules((prev) => prev.filter((rule) => rule.id !== ruleId))
+      await fetchCommissionReportFromApi()
+    } catch (error) {
+      console.error(error)
+      window.alert(error instanceof Error ? error.message : 'Erro ao remover a regra.')
+    }
   }
 
-  const formatPhone = (value: string) => {
-    const digits = formatDigits(value).slice(0, 11)
-    if (digits.length <= 10) {
-      return digits
-        .replace(/(\d{2})(\d)/, '($1) $2')
-        .replace(/(\d{4})(\d)/, '$1-$2')
+  const handleCloseCommissionPeriod = async () => {
+    if (!authToken || !isAdmin || !commissionRange.start || !commissionRange.end) return
+    if (!window.confirm('Fechar o período de comissões? O relatório atual ficará salvo e não poderá ser refeito.')) return
+    setCommissionSaving(true)
+    setCommissionError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/commission-periods`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          start: getLocalStartOfDayIso(commissionRange.start),
+          end: getLocalEndOfDayIso(commissionRange.end),
+        }),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível fechar o período.')
+      }
+      const period = normalizeCommissionPeriod(await response.json())
+      setCommissionPeriods((prev) => [period, ...prev])
+    } catch (error) {
+      console.error(error)
+      setCommissionError(error instanceof Error ? error.message : 'Erro ao fechar o período.')
+    } finally {
+      setCommissionSaving(false)
     }
-    return digits.replace(/(\d{2})(\d{5})(\d{4})/, '($1) $2-$3')
   }
 
-  const handleDownloadReceipt = async () => {
-    if (!receiptSale || !receiptContentRef.current) return
-    const sections = Array.from(receiptContentRef.current.querySelectorAll('.receipt-copy')) as HTMLElement[]
-    if (!sections.length) return
-
-    const pdf = new jsPDF('p', 'mm', 'a4')
-    const pageWidth = pdf.internal.pageSize.getWidth()
-    const pageHeight = pdf.internal.pageSize.getHeight()
-    const margin = 12
-    const usableWidth = pageWidth - margin * 2
-    const usableHeight = pageHeight - margin * 2
-
-    for (let index = 0; index < sections.length; index++) {
-      const canvas = await html2canvas(sections[index], {
-        scale: 2,
-        backgroundColor: '#ffffff',
+  const fetchMonthlyGoalFromApi = useCallback(async () => {
+    if (!authToken) return
+    setMonthlyGoalLoading(true)
+    setMonthlyGoalError(null)
+    try {
+      const params = new URLSearchParams({ year: String(goalMonth.year), month: String(goalMonth.month) })
+      const response = await fetch(`${API_BASE_URL}/finance/goal?${params.toString()}`, {
+        headers: getAuthHeaders(false),
       })
-      const imgData = canvas.toDataURL('image/png')
-      const scaledHeight = (canvas.height * usableWidth) / canvas.width
-      const renderHeight = Math.min(scaledHeight, usableHeight)
-      const renderWidth = (canvas.width * renderHeight) / canvas.height
-      if (index !== 0) {
-        pdf.addPage()
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar a meta do mês.')
       }
-      const xPosition = margin + (usableWidth - renderWidth) / 2
-      const yPosition = margin + (usableHeight - renderHeight) / 2
-      pdf.addImage(imgData, 'PNG', xPosition, yPosition, renderWidth, renderHeight, undefined, 'FAST')
+      const data = await response.json()
+      const sellers = Array.isArray(data.sellers) ? data.sellers : []
+      const goal: MonthlyGoal = { ...data, sellers, sellerCount: Number(data.sellerCount ?? sellers.length) }
+      setMonthlyGoal(goal)
+    } catch (error) {
+      console.error(error)
+      setMonthlyGoal(null)
+      setMonthlyGoalError(error instanceof Error ? error.message : 'Falha ao carregar meta do mês.')
+    } finally {
+      setMonthlyGoalLoading(false)
     }
-    pdf.save(`recibo-${receiptSale.id}.pdf`)
-  }
+  }, [authToken, goalMonth])
 
-  const handleProductImageUpload = (event: ChangeEvent<HTMLInputElement>) => {
-    if (!canManageStock) return
-    const file = event.target.files?.[0]
-    if (!file) {
-      setInventoryForm((prev) => ({ ...prev, newProductImage: '' }))
+  useEffect(() => {
+    if (!authToken || !needsMonthlyGoal) {
+      if (!authToken) {
+        setMonthlyGoal(null)
+        setMonthlyGoalError(null)
+        setMonthlyGoalFormValue(0)
+      }
       return
     }
-    const reader = new FileReader()
-    reader.onloadend = () => {
-      const result = reader.result
-      if (typeof result === 'string') {
-        setInventoryForm((prev) => ({ ...prev, newProductImage: result }))
+    fetchMonthlyGoalFromApi()
+  }, [authToken, needsMonthlyGoal, sales.length, fetchMonthlyGoalFromApi])
+
+  // O formulário de meta edita a meta da loja ou a de um vendedor, conforme o escopo escolhido.
+  useEffect(() => {
+    if (!monthlyGoal) return
+    const scopedTarget = monthlyGoalScope
+      ? monthlyGoal.sellers.find((seller) => seller.userId === monthlyGoalScope)?.target ?? 0
+      : monthlyGoal.target
+    setMonthlyGoalFormValue(scopedTarget ?? 0)
+  }, [monthlyGoal, monthlyGoalScope])
+
+  const fetchGoalHistoryFromApi = useCallback(async () => {
+    if (!authToken) return
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/goal/history?months=6`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar o histórico de metas.')
       }
+      const data = await response.json()
+      setGoalHistory(Array.isArray(data) ? data : [])
+    } catch (error) {
+      console.error(error)
+      setGoalHistory([])
     }
-    reader.readAsDataURL(file)
-  }
+  }, [authToken])
 
-  const saleSubtotal = saleForm.items.reduce((sum, item) => {
-    const netUnit = Math.max(0, item.unitPrice - item.discount)
-    return sum + item.quantity * netUnit
-  }, 0)
-  const normalizedDiscount = Math.min(Math.max(saleForm.discount, 0), saleSubtotal)
-  const saleTotal = Math.max(0, saleSubtotal - normalizedDiscount)
-  const paymentsTotal = saleForm.payments.reduce((sum, payment) => sum + Math.max(0, payment.amount), 0)
-  const paymentDiff = saleTotal - paymentsTotal
-  const paymentBalanced = Math.abs(paymentDiff) < 0.05
-  const normalizedSearch = globalSearch.trim().toLowerCase()
-  const calendarRange = Array.from({ length: 31 }, (_, index) => {
-    const date = new Date()
-    date.setDate(1)
-    date.setMonth(date.getMonth() + deliveryMonthOffset)
-    date.setDate(date.getDate() + index)
-    return date.toISOString().slice(0, 10)
-  })
+  useEffect(() => {
+    if (!authToken || !viewingDashboard) return
+    fetchGoalHistoryFromApi()
+  }, [authToken, viewingDashboard, fetchGoalHistoryFromApi])
 
-  const searchResults: SearchResult[] = normalizedSearch
-    ? [
-        ...clients
-          .filter((client) => {
-            const blob = `${client.name ?? ''} ${client.phone ?? ''} ${client.addressCity ?? ''}`.toLowerCase()
-            return blob.includes(normalizedSearch)
-          })
-          .map((client) => ({
-            id: client.id,
-            type: 'Cliente' as const,
-            title: client.name,
-            description: client.phone || client.addressCity || '',
-            page: 'clientes' as PageId,
-            payload: client.name,
-          })),
-        ...stockItems
-          .filter((item) => `${item.name} ${item.sku}`.toLowerCase().includes(normalizedSearch))
-          .map((item) => ({
-            id: item.id,
-            type: 'Estoque' as const,
-            title: item.name,
-            description: `SKU ${item.sku} · ${item.quantity} disponíveis`,
-            page: 'estoque' as PageId,
-            payload: item.name,
-          })),
-        ...sales
-          .filter((sale) => {
-            const client = clients.find((c) => c.id === sale.clientId)
-            const products = sale.items
-        .map(
-          (saleItem) =>
-            stockItems.find((stock) => stock.id === saleItem.productId)?.name ??
-            saleItem.customName ??
-            saleItem.productName ??
-            '',
-        )
-              .join(' ')
-            return `${sale.id} ${client?.name ?? sale.clientName ?? ''} ${products}`.toLowerCase().includes(normalizedSearch)
-          })
-          .map((sale) => {
-            const client = clients.find((clientItem) => clientItem.id === sale.clientId)
-            return {
-              id: sale.id,
-              type: 'Venda' as const,
-              title: `Venda ${sale.id}`,
-              description: `${client?.name ?? sale.clientName ?? 'Cliente removido'} · ${sale.items
-                .map(
-                  (saleItem) =>
-                    stockItems.find((stock) => stock.id === saleItem.productId)?.name ??
-                    saleItem.customName ??
-                    saleItem.productName ??
-                    '',
-                )
-                .join(', ')}`,
-              page: 'sleepLab' as PageId,
-            }
-          }),
-        ...stockMovements
-          .filter((movement) => {
-            const product = stockItems.find((item) => item.id === movement.productId)
-            return `${movement.type} ${movement.note} ${product?.name ?? ''}`.toLowerCase().includes(normalizedSearch)
-          })
-          .map((movement) => {
-            const product = stockItems.find((item) => item.id === movement.productId)
-            return {
-              id: movement.id,
-              type: 'Movimento' as const,
-              title: `${movement.type === 'entrada' ? 'Entrada' : 'Saída'} · ${product?.name ?? 'Produto'}`,
-              description: `${movement.amount} unidades em ${new Date(movement.createdAt).toLocaleDateString('pt-BR')}`,
-              page: 'estoque' as PageId,
-              payload: product?.name,
-            }
-          }),
-      ].slice(0, 10)
-    : []
+  useEffect(() => {
+    if (!authToken || !needsUsersData) return
+    fetchUsersFromApi()
+  }, [authToken, needsUsersData, fetchUsersFromApi])
 
-  const handleSearchNavigate = (result: SearchResult) => {
-    setGlobalSearch('')
-    setSearchFocused(false)
-    setActivePage(result.page)
-    if (result.page === 'clientes' && result.payload) {
-      setClientSearch(result.payload)
-    } else if (result.page === 'estoque' && result.payload) {
-      setStockSearch(result.payload)
+  const fetchAssistancesFromApi = useCallback(async () => {
+    if (!authToken) return
+    setAssistancesLoading(true)
+    setAssistancesError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/assistances`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar as assistências.')
+      }
+      const data = await response.json()
+      const normalized = Array.isArray(data) ? data.map((item: any) => normalizeAssistance(item)) : []
+      setAssistances(normalized)
+    } catch (error) {
+      console.error(error)
+      setAssistancesError(error instanceof Error ? error.message : 'Falha ao carregar assistências.')
+      setAssistances([])
+    } finally {
+      setAssistancesLoading(false)
     }
-  }
-
-  const reservedByEditingSale = (productId: string) => {
-    if (!editingSale) return 0
-    return editingSale.items
-      .filter((saleItem) => saleItem.productId === productId)
-      .reduce((sum, saleItem) => sum + saleItem.quantity, 0)
-  }
-
-  const addSaleItemRow = () => {
-    if (!stockItems.length) return
-    const product = stockItems[0]
-    setSaleForm((prev) => ({
-      ...prev,
-      items: [
-        ...prev.items,
-        {
-          productId: product.id,
-          quantity: 1,
-          unitPrice: product.price,
-          discount: 0,
-          searchName: product.name,
-          isCustom: false,
-        },
-      ],
-    }))
-  }
+  }, [authToken])
 
-  const addCustomSaleItem = () => {
-    setSaleForm((prev) => ({
-      ...prev,
-      items: [
-        ...prev.items,
-        {
-          productId: '',
-          quantity: 1,
-          unitPrice: 0,
-          discount: 0,
-          searchName: '',
-          customName: '',
-          customSku: '',
-          isCustom: true,
-        },
-      ],
-    }))
-  }
+  useEffect(() => {
+    if (!authToken) {
+      setAssistances([])
+      setAssistancesError(null)
+      return
+    }
+    if (!needsAssistancesData) return
+    fetchAssistancesFromApi()
+  }, [authToken, needsAssistancesData, fetchAssistancesFromApi])
 
-  const updateSaleItemRow = (index: number, updates: Partial<SaleItem>) => {
-    setSaleForm((prev) => ({
-      ...prev,
-      items: prev.items.map((item, idx) => {
-        if (idx !== index) return item
-        const next = { ...item, ...updates }
-        if (next.discount > next.unitPrice) {
-          next.discount = next.unitPrice
+  useEffect(() => {
+    if (!authToken) {
+      setSessionUserId(null)
+      setSessionChecking(false)
+      return
+    }
+    let isActive = true
+    setSessionChecking(true)
+    const fetchSession = async () => {
+      try {
+        const response = await fetch(`${API_BASE_URL}/auth/me`, {
+          headers: { Authorization: `Bearer ${authToken}` },
+        })
+        if (!response.ok) {
+          throw new Error('Sessão expirada. Faça login novamente.')
         }
-        if (next.discount < 0) next.discount = 0
-        if (next.unitPrice < 0) next.unitPrice = 0
-        return next
-      }),
-    }))
-  }
+        const data = await response.json()
+        if (!isActive) return
+        const normalizedUser = normalizeUserFromApi({ ...data, name: data.name ?? 'Usuário' })
+        setUsers((prev) => {
+          const exists = prev.some((user) => user.id === normalizedUser.id)
+          if (exists) {
+            return prev.map((user) => (user.id === normalizedUser.id ? normalizedUser : user))
+          }
+          return [...prev, normalizedUser]
+        })
+        setSessionUserId(normalizedUser.id)
+      } catch (error) {
+        console.error(error)
+        forceLogout()
+      } finally {
+        if (isActive) {
+          setSessionChecking(false)
+        }
+      }
+    }
+    fetchSession()
+    return () => {
+      isActive = false
+    }
+  }, [authToken, forceLogout])
 
-  const removeSaleItemRow = (index: number) => {
-    setSaleForm((prev) => {
-      if (prev.items.length <= 1) return prev
-      const nextItems = prev.items.filter((_, idx) => idx !== index)
-      return { ...prev, items: nextItems }
-    })
-  }
+  useEffect(() => {
+    if (!isAdmin && ADMIN_ONLY_PAGES.includes(activePage)) {
+      setActivePage('dashboard')
+    }
+  }, [isAdmin, activePage])
 
-  const addPaymentRow = () => {
-    setSaleForm((prev) => ({
-      ...prev,
-      payments: [
-        ...prev.payments,
-        { id: `pay-${Date.now()}`, method: 'PIX', amount: 0, installments: 1 },
-      ],
-    }))
-  }
+  useEffect(() => {
+    setAssistanceForm((prev) => {
+      const findByBackend = (sale: Sale) => (sale.backendId ?? sale.id) === prev.saleId
+      const saleExists = sales.some(findByBackend)
+      const fallbackSale = sales[0]
+      const nextSale = saleExists ? sales.find(findByBackend) ?? fallbackSale : fallbackSale
+      const nextSaleId = nextSale ? nextSale.backendId ?? nextSale.id : ''
+      const productExists = nextSale?.items.some(
+        (item, index) => getSaleItemKey(item, index) === prev.productId,
+      )
+      const nextProductId = productExists ? prev.productId : nextSale?.items[0] ? getSaleItemKey(nextSale.items[0], 0) : ''
+      return {
+        ...prev,
+        saleId: nextSaleId,
+        productId: nextProductId,
+      }
+    })
+  }, [sales])
 
-  const updatePaymentRow = (index: number, updates: Partial<SalePayment>) => {
-    setSaleForm((prev) => ({
-      ...prev,
-      payments: prev.payments.map((payment, idx) => {
-        if (idx !== index) return payment
-        const next: SalePayment = { ...payment, ...updates }
-        if (next.method === 'Semanal na loja') {
-          const weeks = Math.max(1, Number(next.weeklyWeeks ?? 1))
-          const weeklyAmount = Math.max(0, Number(next.weeklyAmount ?? 0))
-          next.weeklyWeeks = weeks
-          next.weeklyAmount = weeklyAmount
-          next.amount = computeWeeklyTotal(weeks, weeklyAmount)
-          next.installments = 1
-        } else {
-          if (next.weeklyWeeks !== undefined) delete next.weeklyWeeks
-          if (next.weeklyAmount !== undefined) delete next.weeklyAmount
-          if (next.method !== 'Cartão de crédito') {
-            next.installments = 1
-          } else if (next.installments < 1) {
-            next.installments = 1
-          }
-          if (next.amount < 0) next.amount = 0
-        }
-        return next
-      }),
-    }))
-  }
+  const todayIso = new Date().toISOString().slice(0, 10)
+  const todayRevenue = sales
+    .filter(
+      (sale) =>
+        !sale.requiresApproval && sale.status === 'entregue' && sale.createdAt.slice(0, 10) === todayIso,
+    )
+    .reduce((sum, sale) => sum + sale.value, 0)
+  const pendingDeliveries = sales.filter((sale) => isAwaitingDelivery(sale) && !sale.requiresApproval).length
+  const awaitingApproval = sales.filter((sale) => sale.requiresApproval).length
+  const confirmDeliveryClient = confirmDeliveryState
+    ? clients.find((clientItem) => clientItem.id === confirmDeliveryState.sale.clientId)
+    : null
 
-  const removePaymentRow = (index: number) => {
-    setSaleForm((prev) => {
-      if (prev.payments.length <= 1) return prev
-      const filtered = prev.payments.filter((_, idx) => idx !== index)
-      return { ...prev, payments: filtered }
+  const facts = [
+    { label: 'Clientes ativos', value: clients.length.toString(), detail: 'Cadastros no CRM' },
+    { label: 'Receita de hoje', value: formatCurrency(todayRevenue), detail: 'Faturado até agora' },
+    { label: 'Entregas pendentes', value: `${pendingDeliveries} vendas`, detail: 'Prontas para confirmar' },
+    { label: 'Aguardando aprovação', value: `${awaitingApproval}`, detail: 'Descontos e itens personalizados' },
+  ]
+
+  const addClient = async (data: typeof emptyClientForm) => {
+    if (!authToken) throw new Error('Sessão expirada. Faça login novamente.')
+    if (!data.name.trim()) throw new Error('Informe o nome do cliente.')
+    const payload = {
+      name: data.name.trim(),
+      phone: data.phone.trim(),
+      cpf: data.cpf.trim(),
+      addressStreet: data.addressStreet.trim(),
+      addressNumber: data.addressNumber.trim(),
+      addressNeighborhood: data.addressNeighborhood.trim(),
+      addressCity: data.addressCity.trim(),
+      addressNote: data.addressNote.trim(),
+    }
+    const response = await fetch(`${API_BASE_URL}/clients`, {
+      method: 'POST',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(payload),
     })
+    if (!response.ok) {
+      throw new Error('Não foi possível cadastrar o cliente.')
+    }
+    const created = normalizeClient(await response.json())
+    setClients((prev) => [created, ...prev])
+    setSaleForm((prev) => (prev.clientId ? prev : { ...prev, clientId: created.id }))
+    return created
   }
 
-  const updatePaymentOverridesForSale = useCallback(
-    (saleId: string, overrides: PaymentOverride[] | null) => {
-      setPaymentOverrides((prev) => {
-        const next = { ...prev }
-        if (!overrides || overrides.length === 0) {
-          delete next[saleId]
-        } else {
-          next[saleId] = overrides
-        }
-        savePaymentOverrides(next)
-        return next
-      })
-    },
-    [],
-  )
+  const updateClientRecord = async (clientId: string, data: typeof emptyClientForm) => {
+    if (!authToken) throw new Error('Sessão expirada. Faça login novamente.')
+    const payload = {
+      name: data.name.trim(),
+      phone: data.phone.trim(),
+      cpf: data.cpf.trim(),
+      addressStreet: data.addressStreet.trim(),
+      addressNumber: data.addressNumber.trim(),
+      addressNeighborhood: data.addressNeighborhood.trim(),
+      addressCity: data.addressCity.trim(),
+      addressNote: data.addressNote.trim(),
+    }
+    const response = await fetch(`${API_BASE_URL}/clients/${clientId}`, {
+      method: 'PUT',
+      headers: getAuthHeaders(),
+      body: JSON.stringify(payload),
+    })
+    if (!response.ok) {
+      throw new Error('Não foi possível atualizar o cliente.')
+    }
+    const updated = normalizeClient(await response.json())
+    setClients((prev) =>
+      prev.map((client) => (client.id === clientId ? { ...updated, purchases: client.purchases } : client)),
+    )
+  }
 
-  const handleDeleteProduct = async (productId: string) => {
-    if (!canManageStock || !authToken) return
-    if (!productId) return
-    const product = stockItems.find((item) => item.id === productId)
-    if (!product) return
-    if (product.quantity > 0 || product.reserved > 0) {
-      window.alert('Só é possível remover produtos com estoque zerado.')
-      return
+  const deleteClientRecord = async (clientId: string) => {
+    if (!authToken) throw new Error('Sessão expirada. Faça login novamente.')
+    const response = await fetch(`${API_BASE_URL}/clients/${clientId}`, {
+      method: 'DELETE',
+      headers: getAuthHeaders(false),
+    })
+    if (!response.ok) {
+      throw new Error('Não foi possível remover o cliente.')
     }
+    setClients((prev) => {
+      const updated = prev.filter((client) => client.id !== clientId)
+      setSaleForm((salePrev) => ({ ...salePrev, clientId: updated[0]?.id ?? '' }))
+      return updated
+    })
+    setSales((prev) => prev.filter((sale) => sale.clientId !== clientId))
+  }
+const [stockMovements, setStockMovements] = useState<StockMovement[]>([])
+const [stockMovementsLoading, setStockMovementsLoading] = useState(false)
+const [stockMovementsError, setStockMovementsError] = useState<string | null>(null)
+const [editProductModal, setEditProductModal] = useState<StockItem | null>(null)
+const [editProductForm, setEditProductForm] = useState(emptyEditProductForm)
+const [editProductPreview, setEditProductPreview] = useState('')
+const [editProductLoading, setEditProductLoading] = useState(false)
+const [editProductError, setEditProductError] = useState<string | null>(null)
+const [expandedStockId, setExpandedStockId] = useState<string | null>(null)
+
+  const resetInventoryForm = (preferredProductId?: string) => {
+    setInventoryForm(createInventoryFormState(preferredProductId ?? (stockItems[0]?.id ?? '')))
+  }
+
+  const fetchSaleEvents = async (sale: Sale) => {
+    if (!authToken) return
+    setSaleEventsLoading(true)
+    setSaleEventsError(null)
     try {
-      const response = await fetch(`${API_BASE_URL}/stock/${productId}`, {
-        method: 'DELETE',
+      const response = await fetch(`${API_BASE_URL}/sales/${sale.backendId ?? sale.id}/events`, {
         headers: getAuthHeaders(false),
       })
       if (!response.ok) {
-        throw new Error('Não foi possível remover o produto.')
+        throw new Error('Não foi possível carregar o histórico do pedido.')
       }
-      setStockItems((prev) => {
-        const updated = prev.filter((item) => item.id !== productId)
-        const fallbackId = updated[0]?.id ?? ''
-        setSaleForm((salePrev) => {
-          const filteredItems: SaleItem[] = salePrev.items.filter((item) => item.productId !== productId)
-          const fallbackProduct = updated.find((item) => item.id === fallbackId)
-          const newItems = filteredItems.length
-            ? filteredItems
-            : fallbackId && fallbackProduct
-              ? [{ productId: fallbackId, quantity: 1, unitPrice: fallbackProduct.price, discount: 0 }]
-              : []
-          return { ...salePrev, items: newItems }
-        })
-        setInventoryForm((prevForm) => {
-          if (prevForm.isNewProduct) return prevForm
-          if (prevForm.productId === productId) {
-            return { ...prevForm, productId: fallbackId }
-          }
-          return prevForm
-        })
-        return updated
-      })
-      await fetchStockMovementsFromApi()
+      const data = await response.json()
+      setSaleEvents(Array.isArray(data) ? data.map(normalizeSaleEvent) : [])
     } catch (error) {
       console.error(error)
-      window.alert(error instanceof Error ? error.message : 'Erro ao remover produto.')
+      setSaleEvents([])
+      setSaleEventsError(error instanceof Error ? error.message : 'Erro ao carregar histórico.')
+    } finally {
+      setSaleEventsLoading(false)
     }
   }
-  const handleLogin = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault()
-    setLoginError(null)
-    try {
-      const client = await getSupabaseClient()
-      const { error } = await client.auth.signInWithPassword({
-        email: loginEmail.trim(),
-        password: loginPassword,
-      })
-      if (error) {
-        throw new Error('Credenciais inválidas. Confira e tente novamente.')
+
+  const openReceiptModal = (sale: Sale) => {
+    setReceiptSale(sale)
+    setReceiptQuote(null)
+    setReceiptModalOpen(true)
+    setSaleEvents([])
+    fetchSaleEvents(sale)
+  }
+
+  const openQuoteReceipt = (quote: Quote) => {
+    setReceiptSale(quoteToSale(quote))
+    setReceiptQuote(quote)
+    setReceiptModalOpen(true)
+  }
+
+const focusInventoryPanel = (productId?: string) => {
+  if (!canManageStock) return
+    setInventoryPanelOpen(true)
+    setInventoryForm((prev) => {
+      if (!stockItems.length) {
+        return {
+          ...createInventoryFormState(''),
+          isNewProduct: true,
+          type: 'entrada',
+        }
       }
-      setLoginEmail('')
-      setLoginPassword('')
-      setLoginError(null)
-    } catch (error) {
-      console.error(error)
-      setLoginError(error instanceof Error ? error.message : 'Não foi possível entrar. Tente novamente.')
-    }
+      return {
+        ...prev,
+        productId: productId ?? prev.productId ?? stockItems[0]?.id ?? '',
+        isNewProduct: false,
+      }
+    })
+    requestAnimationFrame(() => {
+      inventoryPanelRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+    })
   }
 
-  const handleLogout = () => {
-    setProfileModalOpen(false)
-    forceLogout()
+  const toggleStockCard = (productId: string) => {
+    setExpandedStockId((prev) => (prev === productId ? null : productId))
   }
 
-  const closeClientModal = () => {
-    setClientModalOpen(false)
-    setClientModalClientId(null)
-    setClientModalForm(emptyClientForm)
-    setClientModalError(null)
-    setClientModalLoading(false)
+  const handleSelectClientOption = (client: Client) => {
+    setSaleForm((prev) => ({ ...prev, clientId: client.id }))
+    setSaleClientSearch(client.name)
+    setClientSearchFocused(false)
   }
 
-  const openSaleModal = (saleToEdit?: Sale) => {
-    if (saleToEdit) {
-      if (!isAdmin) return
-      setEditingSale(saleToEdit)
-      setSaleDraftId(saleToEdit.id)
-      setSaleForm(createSaleFormFromSale(saleToEdit, stockItems))
-      const clientMatch = clients.find((clientItem) => clientItem.id === saleToEdit.clientId)
-      setSaleClientSearch(clientMatch?.name ?? saleToEdit.clientName ?? '')
-    } else {
-      if (!canRegisterSales) return
-      setEditingSale(null)
-      setSaleDraftId(generateSaleId())
-      setSaleForm(createSaleFormState(clients))
-      const firstClient = clients[0]
-      setSaleClientSearch(firstClient ? firstClient.name : '')
-    }
-    setSaleModalError(null)
-    setSaleModalLoading(false)
-    setSaleModalOpen(true)
-  }
-  const closeSaleModal = () => {
-    setSaleModalOpen(false)
-    setSaleModalError(null)
-    setSaleModalLoading(false)
-    setSaleClientSearch('')
-    setActiveProductSearch(null)
-    setEditingSale(null)
-  }
-
-  const openCreateClientModal = () => {
-    if (!canRegisterClients) return
-    setClientModalMode('create')
-    setClientModalClientId(null)
-    setClientModalForm(emptyClientForm)
-    setClientModalError(null)
-    setClientModalOpen(true)
+  const handleClientSearchKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'Enter') return
+    const option = saleClientOptions[0]
+    if (!option) return
+    event.preventDefault()
+    handleSelectClientOption(option)
   }
 
-  const openEditClientModal = (client: Client) => {
-    if (!canEditClients) return
-    setClientModalMode('edit')
-    setClientModalClientId(client.id)
-    setClientModalForm({
-      name: client.name,
-      phone: client.phone,
-      cpf: client.cpf,
-      addressStreet: client.addressStreet,
-      addressNumber: client.addressNumber,
-      addressNeighborhood: client.addressNeighborhood,
-      addressCity: client.addressCity,
-      addressNote: client.addressNote,
+  const openEditProductModal = (product: StockItem) => {
+    if (!isAdmin) return
+    setEditProductModal(product)
+    setEditProductForm({
+      price: String(product.price ?? 0),
+      factoryCost: product.factoryCost !== undefined ? String(product.factoryCost) : '',
+      image: product.imageUrl,
+      categoryId: product.categoryId ?? '',
+      supplierId: product.supplierId ?? '',
+      brand: product.brand ?? '',
+      dimensions: product.dimensions ?? '',
+      warrantyMonths: product.warrantyMonths != null ? String(product.warrantyMonths) : '',
+      attributes: formatProductAttributes(product.attributes),
+      reorderPoint: product.reorderPoint != null ? String(product.reorderPoint) : '',
+      targetLevel: product.targetLevel != null ? String(product.targetLevel) : '',
     })
-    setClientModalError(null)
-    setClientModalOpen(true)
+    setEditProductPreview(product.imageUrl)
+    setEditProductError(null)
   }
 
-  const handleClientModalSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault()
-    setClientModalError(null)
-    setClientModalLoading(true)
-    try {
-      if (clientModalMode === 'create') {
-        await addClient(clientModalForm)
-      } else if (clientModalClientId && canEditClients) {
-        await updateClientRecord(clientModalClientId, clientModalForm)
-      }
-      closeClientModal()
-    } catch (error) {
-      console.error(error)
-      setClientModalError(
-        error instanceof Error ? error.message : 'Não foi possível salvar o cliente. Tente novamente.',
-      )
-    } finally {
-      setClientModalLoading(false)
-    }
+  const closeEditProductModal = () => {
+    setEditProductModal(null)
+    setEditProductPreview('')
+    setEditProductForm(emptyEditProductForm)
+    setEditProductError(null)
+    setEditProductLoading(false)
   }
 
-  const handleDeleteClient = async (clientId: string) => {
-    if (!canDeleteClients) return
-    setClientModalError(null)
-    setClientModalLoading(true)
-    try {
-      await deleteClientRecord(clientId)
-      if (clientModalClientId === clientId) {
-        setClientModalOpen(false)
-        setClientModalClientId(null)
-      }
-    } catch (error) {
-      console.error(error)
-      const message = error instanceof Error ? error.message : 'Não foi possível remover o cliente.'
-      if (clientModalOpen) {
-        setClientModalError(message)
-      } else {
-        window.alert(message)
+  const handleEditProductImageUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    if (!isAdmin) return
+    const file = event.target.files?.[0]
+    if (!file) return
+    const reader = new FileReader()
+    reader.onloadend = () => {
+      const result = reader.result
+      if (typeof result === 'string') {
+        setEditProductPreview(result)
+        setEditProductForm((prev) => ({ ...prev, image: result }))
       }
-    } finally {
-      setClientModalLoading(false)
     }
+    reader.readAsDataURL(file)
   }
 
-  const handleRegisterSale = async (event: FormEvent<HTMLFormElement>) => {
+  const handleEditProductSubmit = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault()
-    setSaleModalError(null)
-    if (!authToken) {
-      setSaleModalError('Sessão expirada. Faça login novamente.')
+    if (!authToken || !editProductModal) {
+      setEditProductError('Sessão expirada. Faça login novamente.')
       return
     }
-    if (!saleForm.items.length) {
-      setSaleModalError('Adicione pelo menos um produto ao pedido.')
+    const priceNumber = Number(editProductForm.price)
+    if (Number.isNaN(priceNumber) || priceNumber < 0) {
+      setEditProductError('Informe um valor válido para o preço.')
       return
     }
-    const clientExists = clients.some((client) => client.id === saleForm.clientId)
-    if (!clientExists) {
-      setSaleModalError('Cliente inválido.')
+    const factoryCostNumber = editProductForm.factoryCost ? Number(editProductForm.factoryCost) : 0
+    if (Number.isNaN(factoryCostNumber) || factoryCostNumber < 0) {
+      setEditProductError('Informe um valor válido para o custo.')
       return
     }
-    if (!paymentBalanced) {
-      setSaleModalError('Os pagamentos não conferem com o total do pedido.')
+    const warrantyMonths = editProductForm.warrantyMonths ? Number(editProductForm.warrantyMonths) : null
+    if (warrantyMonths !== null && (!Number.isInteger(warrantyMonths) || warrantyMonths < 0)) {
+      setEditProductError('Informe a garantia em meses.')
       return
     }
-    if (saleForm.payments.some((payment) => payment.amount <= 0)) {
-      setSaleModalError('Informe os valores de cada pagamento.')
+    const reorderPoint = editProductForm.reorderPoint ? Number(editProductForm.reorderPoint) : null
+    const targetLevel = editProductForm.targetLevel ? Number(editProductForm.targetLevel) : null
+    if (targetLevel !== null && targetLevel <= (reorderPoint ?? 0)) {
+      setEditProductError('O nível alvo deve ser maior que o ponto de reposição.')
       return
     }
-
-    const existingOverrides = editingSale ? paymentOverrides[editingSale.id] ?? [] : []
-    const existingWeeklyPlan = existingOverrides.find((override) => override.method === 'Semanal na loja')?.weeklyPlan
-    const weeklyPayments = saleForm.payments.filter((payment) => payment.method === 'Semanal na loja')
-    for (const weeklyPayment of weeklyPayments) {
-      const weeks = Number(weeklyPayment.weeklyWeeks ?? 0)
-      const weeklyAmount = Number(weeklyPayment.weeklyAmount ?? 0)
-      if (!weeks || weeks < 1) {
-        setSaleModalError('Informe o número de semanas do pagamento semanal.')
-        return
-      }
-      if (!weeklyAmount || weeklyAmount <= 0) {
-        setSaleModalError('Informe o valor semanal do pagamento na loja.')
-        return
-      }
-    }
-
-    const quantityCheck: Record<string, number> = {}
-    type SaleItemPayload =
-      | {
-          kind: 'product'
-          productId: string
-          quantity: number
-          unitPrice: number
-          discount: number
-        }
-      | {
-          kind: 'custom'
-          customName: string
-          quantity: number
-          unitPrice: number
-          discount: number
-        }
-    const saleItems: SaleItemPayload[] = []
-    for (const item of saleForm.items) {
-      if (!item.quantity || item.quantity <= 0) {
-        setSaleModalError('Itens inválidos. Verifique as quantidades.')
-        return
-      }
-      if (item.isCustom || !item.productId) {
-        const customLabel = item.customName?.trim() ?? ''
-        if (customLabel.length < 3) {
-          setSaleModalError('Descreva o item personalizado.')
-          return
-        }
-        if (item.unitPrice <= 0) {
-          setSaleModalError('Informe o valor dos itens personalizados.')
-          return
-        }
-        saleItems.push({
-          kind: 'custom',
-          customName: customLabel,
-          quantity: item.quantity,
-          unitPrice: item.unitPrice,
-          discount: item.discount,
-        })
-        continue
-      }
-      const product = stockItems.find((stockItem) => stockItem.id === item.productId)
-      if (!product) {
-        setSaleModalError('Produto inválido. Atualize o estoque antes de vender.')
-        return
-      }
-      saleItems.push({
-        kind: 'product',
-        productId: item.productId,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        discount: item.discount,
-      })
-      quantityCheck[item.productId] = (quantityCheck[item.productId] ?? 0) + item.quantity
-    }
-
-    for (const [productId, qty] of Object.entries(quantityCheck)) {
-      const product = stockItems.find((stockItem) => stockItem.id === productId)
-      if (!product) {
-        setSaleModalError('Produto inválido. Atualize o estoque antes de vender.')
-        return
-      }
-      const reservedBySale =
-        editingSale?.items
-          .filter((saleItem) => saleItem.productId === productId)
-          .reduce((sum, saleItem) => sum + saleItem.quantity, 0) ?? 0
-      const availableQuantity = product.quantity + reservedBySale
-      if (availableQuantity < qty) {
-        setSaleModalError('Estoque insuficiente para concluir o pedido.')
-        return
-      }
-    }
-
-    const paymentOverridesDraft = saleForm.payments
-      .map((payment, index) => {
-        if (!requiresPaymentOverride(payment.method)) return null
-        const weeklyPlan =
-          payment.method === 'Semanal na loja'
-            ? buildWeeklyPlan(payment.weeklyWeeks ?? 1, payment.weeklyAmount ?? 0, existingWeeklyPlan)
-            : undefined
-        return {
-          index,
-          method: payment.method,
-          weeklyPlan,
-        }
-      })
-      .filter(Boolean) as { index: number; method: PaymentMethod; weeklyPlan?: WeeklyPlan }[]
-
     const payload = {
-      clientId: saleForm.clientId,
-      items: saleItems.map((item) => ({
-        productId: item.kind === 'product' ? item.productId : undefined,
-        customName: item.kind === 'custom' ? item.customName : undefined,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        discount: item.discount,
-      })),
-      payments: saleForm.payments.map((payment) => ({
-        method: toApiPaymentMethod(payment.method),
-        amount: payment.amount,
-        installments: payment.installments,
-      })),
-      note: saleForm.note.trim(),
-      discount: normalizedDiscount,
-      deliveryDate: saleForm.deliveryDate ? new Date(saleForm.deliveryDate).toISOString() : undefined,
+      price: priceNumber,
+      factoryCost: factoryCostNumber,
+      imageUrl: editProductForm.image || editProductModal.imageUrl,
+      categoryId: editProductForm.categoryId || null,
+      supplierId: editProductForm.supplierId || null,
+      brand: editProductForm.brand,
+      dimensions: editProductForm.dimensions,
+      warrantyMonths,
+      attributes: parseProductAttributes(editProductForm.attributes),
+      reorderPoint,
+      targetLevel,
     }
-
-    setSaleModalLoading(true)
+    setEditProductLoading(true)
+    setEditProductError(null)
     try {
-      const endpoint = editingSale
-        ? `${API_BASE_URL}/sales/${editingSale.backendId ?? editingSale.id}`
-        : `${API_BASE_URL}/sales`
-      const response = await fetch(endpoint, {
-        method: editingSale ? 'PUT' : 'POST',
+      const response = await fetch(`${API_BASE_URL}/stock/${editProductModal.id}`, {
+        method: 'PUT',
         headers: getAuthHeaders(),
         body: JSON.stringify(payload),
       })
       if (!response.ok) {
-        throw new Error(editingSale ? 'Não foi possível atualizar a venda.' : 'Não foi possível registrar a venda.')
+        throw new Error('Não foi possível atualizar este produto.')
       }
-      const apiSale = await response.json()
-      const createdSale = normalizeSale(apiSale)
-      const overrides = paymentOverridesDraft
-        .map((draft) => {
-          const paymentId = apiSale?.payments?.[draft.index]?.id
-          if (!paymentId) return null
-          return {
-            paymentId,
-            method: draft.method,
-            weeklyPlan: draft.weeklyPlan,
-          }
-        })
-        .filter(Boolean) as PaymentOverride[]
-      updatePaymentOverridesForSale(createdSale.id, overrides.length ? overrides : null)
-      if (editingSale) {
-        setSales((prev) => prev.map((item) => (item.id === editingSale.id ? createdSale : item)))
-        setEditingSale(null)
-      } else {
-        setSales((prev) => [createdSale, ...prev])
-        setStockItems((prev) =>
-          prev.map((item) => {
-            const qty = quantityCheck[item.id]
-            if (!qty) return item
-            return { ...item, quantity: item.quantity - qty, reserved: item.reserved + qty }
-          }),
-        )
-        setLastReceiptId(createdSale.id)
-      }
-      await fetchStockFromApi()
-      await fetchStockMovementsFromApi()
-      await fetchSalesFromApi()
-      setSaleForm(createSaleFormState(clients))
-      setSaleDraftId(generateSaleId())
-      closeSaleModal()
+      const updated = normalizeStockItem(await response.json())
+      setStockItems((prev) => prev.map((item) => (item.id === updated.id ? updated : item)))
+      closeEditProductModal()
     } catch (error) {
       console.error(error)
-      setSaleModalError(error instanceof Error ? error.message : 'Erro ao salvar a venda.')
+      setEditProductError(error instanceof Error ? error.message : 'Erro ao salvar alterações do produto.')
     } finally {
-      setSaleModalLoading(false)
+      setEditProductLoading(false)
     }
   }
 
-  const handleMarkDelivered = async (saleId: string) => {
-    const sale = sales.find((item) => item.id === saleId)
-    if (!sale) return
-    if (!authToken) {
-      window.alert('Sessão expirada. Faça login novamente.')
-      return
-    }
-    const backendId = sale.backendId ?? saleId
-    try {
-      const response = await fetch(`${API_BASE_URL}/sales/${backendId}/confirm-delivery`, {
-        method: 'POST',
-        headers: getAuthHeaders(false),
-      })
-      if (!response.ok) {
-        throw new Error('Não foi possível confirmar a entrega.')
-      }
-      const updatedSale = normalizeSale(await response.json())
-      setSales((prev) => prev.map((item) => (item.id === saleId ? updatedSale : item)))
-      setStockItems((prev) =>
-        prev.map((item) => {
-          const reservedQty = sale.items
-            .filter((saleItem) => saleItem.productId === item.id)
-            .reduce((sum, saleItem) => sum + saleItem.quantity, 0)
-          if (!reservedQty) return item
-          return { ...item, reserved: Math.max(0, item.reserved - reservedQty) }
-        }),
-      )
-      await fetchStockFromApi()
-    } catch (error) {
-      console.error(error)
-      window.alert(error instanceof Error ? error.message : 'Erro ao confirmar entrega.')
-    }
+  const formatDigits = (value: string) => value.replace(/\D/g, '')
+
+  const formatCpf = (value: string) => {
+    const digits = formatDigits(value).slice(0, 11)
+    return digits
+      .replace(/(\d{3})(\d)/, '$1.$2')
+      .replace(/(\d{3})(\d)/, '$1.$2')
+      .replace(/(\d{3})(\d{1,2})$/, '$1-$2')
   }
 
-  const handleCancelSale = async (sale: Sale) => {
-    if (!isAdmin) return
-    if (!authToken) {
-      window.alert('Sessão expirada. Faça login novamente.')
-      return
-    }
-    if (sale.status === 'entregue') {
-      window.alert('Não é possível cancelar um pedido já entregue.')
-      return
-    }
-    if (sale.status === 'cancelada') return
-    const confirm = window.confirm(`Deseja cancelar o pedido ${sale.id}?`)
-    if (!confirm) return
-    const backendId = sale.backendId ?? sale.id
-    try {
-      const response = await fetch(`${API_BASE_URL}/sales/${backendId}/cancel`, {
-        method: 'POST',
-        headers: getAuthHeaders(false),
-      })
-      if (!response.ok) {
-        throw new Error('Não foi possível cancelar o pedido.')
-      }
-      const updatedSale = normalizeSale(await response.json())
-      setSales((prev) => prev.map((item) => (item.id === sale.id ? updatedSale : item)))
-      setConfirmDeliveryState((prev) => (prev && prev.sale.id === sale.id ? null : prev))
-      await fetchStockFromApi()
-      await fetchSalesFromApi()
-    } catch (error) {
-      console.error(error)
-      window.alert(error instanceof Error ? error.message : 'Erro ao cancelar o pedido.')
+  const formatPhone = (value: string) => {
+    const digits = formatDigits(value).slice(0, 11)
+    if (digits.length <= 10) {
+      return digits
+        .replace(/(\d{2})(\d)/, '($1) $2')
+        .replace(/(\d{4})(\d)/, '$1-$2')
     }
+    return digits.replace(/(\d{2})(\d{5})(\d{4})/, '($1) $2-$3')
   }
 
-  const handleApproveSale = async (sale: Sale) => {
-    if (!isAdmin || !sale.requiresApproval) return
-    if (!authToken) {
-      window.alert('Sessão expirada. Faça login novamente.')
-      return
-    }
-    const backendId = sale.backendId ?? sale.id
-    try {
-      const response = await fetch(`${API_BASE_URL}/sales/${backendId}/approve`, {
-        method: 'POST',
-        headers: getAuthHeaders(false),
+  // Cada seção vira uma página A4, centralizada e reduzida para caber na área útil.
+  const exportSectionsToPdf = async (sections: HTMLElement[], fileName: string) => {
+    if (!sections.length) return
+
+    const pdf = new jsPDF('p', 'mm', 'a4')
+    const pageWidth = pdf.internal.pageSize.getWidth()
+    const pageHeight = pdf.internal.pageSize.getHeight()
+    const margin = 12
+    const usableWidth = pageWidth - margin * 2
+    const usableHeight = pageHeight - margin * 2
+
+    for (let index = 0; index < sections.length; index++) {
+      const canvas = await html2canvas(sections[index], {
+        scale: 2,
+        backgroundColor: '#ffffff',
       })
-      if (!response.ok) {
-        throw new Error('Não foi possível aprovar este pedido.')
+      const imgData = canvas.toDataURL('image/png')
+      const scaledHeight = (canvas.height * usableWidth) / canvas.width
+      const renderHeight = Math.min(scaledHeight, usableHeight)
+      const renderWidth = (canvas.width * renderHeight) / canvas.height
+      if (index !== 0) {
+        pdf.addPage()
       }
-      const updatedSale = normalizeSale(await response.json())
-      setSales((prev) => prev.map((item) => (item.id === sale.id ? updatedSale : item)))
-    } catch (error) {
-      console.error(error)
-      window.alert(error instanceof Error ? error.message : 'Erro ao aprovar pedido.')
+      const xPosition = margin + (usableWidth - renderWidth) / 2
+      const yPosition = margin + (usableHeight - renderHeight) / 2
+      pdf.addImage(imgData, 'PNG', xPosition, yPosition, renderWidth, renderHeight, undefined, 'FAST')
     }
+    pdf.save(fileName)
   }
 
-  const updateWeeklyPayment = useCallback(
-    (saleId: string, paymentId: string, week: number, paidAmount: number) => {
-      const overrides = paymentOverrides[saleId] ?? []
-      const nextOverrides = overrides.map((override) => {
-        if (override.paymentId !== paymentId || !override.weeklyPlan) return override
-        const plan = buildWeeklyPlan(override.weeklyPlan.weeks, override.weeklyPlan.weeklyAmount, override.weeklyPlan)
-        const payments = plan.payments.map((item) =>
-          item.week === week
-            ? {
-                ...item,
-                paidAmount,
-                paidAt: paidAmount > 0 ? new Date().toISOString() : undefined,
-              }
-            : item,
-        )
-        return {
-          ...override,
-          weeklyPlan: {
-            ...plan,
-            payments,
-          },
-        }
-      })
-      updatePaymentOverridesForSale(saleId, nextOverrides)
-      setSales((prev) => prev.map((sale) => (sale.id === saleId ? applyPaymentOverrides(sale) : sale)))
-    },
-    [paymentOverrides, updatePaymentOverridesForSale],
-  )
+  const handleDownloadReceipt = async () => {
+    if (!receiptSale || !receiptContentRef.current) return
+    const sections = Array.from(receiptContentRef.current.querySelectorAll('.receipt-copy')) as HTMLElement[]
+    await exportSectionsToPdf(sections, `${receiptQuote ? 'orcamento' : 'recibo'}-${receiptSale.id}.pdf`)
+  }
 
-  const handleCreateExpense = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault()
-    setExpenseSubmitError(null)
-    if (!authToken) {
-      setExpenseSubmitError('Sessão expirada. Faça login novamente.')
-      return
-    }
-    const description = expenseForm.description.trim()
-    const amountNumber = Number(expenseForm.amount)
-    if (!description) {
-      setExpenseSubmitError('Descreva o que foi pago.')
-      return
-    }
-    if (!amountNumber || amountNumber <= 0) {
-      setExpenseSubmitError('Informe o valor da saída.')
-      return
-    }
-    setExpenseSubmitLoading(true)
-    try {
-      const response = await fetch(`${API_BASE_URL}/finance/expenses`, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({
-          description,
-          amount: amountNumber,
-          date: new Date(expenseForm.date).toISOString(),
-          method: expenseForm.method,
-          note: expenseForm.note.trim() || undefined,
-        }),
-      })
-      if (!response.ok) {
-        let message = 'Não foi possível registrar a saída financeira.'
-        try {
-          const payload = await response.json()
-          if (payload?.message) message = payload.message
-        } catch {
-          // ignore parse errors
-        }
-        throw new Error(message)
-      }
-      setExpenseForm({
-        description: '',
-        amount: '',
-        date: new Date().toISOString().slice(0, 10),
-        method: expenseForm.method,
-        note: '',
-      })
-      await Promise.all([fetchFinanceExpensesFromApi(), fetchFinanceSummaryFromApi()])
-    } catch (error) {
-      console.error(error)
-      setExpenseSubmitError(error instanceof Error ? error.message : 'Erro ao cadastrar saída.')
-    } finally {
-      setExpenseSubmitLoading(false)
-    }
+  const handleDownloadCashReport = async () => {
+    if (!cashReport || !cashReportRef.current) return
+    const sections = Array.from(cashReportRef.current.querySelectorAll('.receipt-copy')) as HTMLElement[]
+    await exportSectionsToPdf(sections, `caixa-${cashReport.openedAt.slice(0, 10)}.pdf`)
   }
 
-  const handleInventoryMovement = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault()
+  const handleDownloadStatementPdf = async () => {
+    if (!statement || !statementRef.current) return
+    const sections = Array.from(statementRef.current.querySelectorAll('.receipt-copy')) as HTMLElement[]
+    await exportSectionsToPdf(sections, `dre-${statement.year}-${String(statement.month).padStart(2, '0')}.pdf`)
+  }
+
+  // CSV com ponto e vírgula e vírgula decimal, para abrir direto no Excel em português.
+  const handleDownloadStatementCsv = () => {
+    if (!statement) return
+    const formatNumber = (value: number | null) => (value === null ? '' : value.toFixed(2).replace('.', ','))
+    const escapeCell = (value: string) => (/[";\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+    const rows = [
+      [
+        'Conta',
+        `${String(statement.month).padStart(2, '0')}/${statement.year}`,
+        `${String(statement.previousMonth).padStart(2, '0')}/${statement.previousYear}`,
+        'Variação',
+        'Variação (%)',
+      ],
+      ...statement.lines.map((line) => [
+        line.label,
+        formatNumber(line.current),
+        formatNumber(line.previous),
+        formatNumber(line.change),
+        formatNumber(line.changePercent),
+      ]),
+    ]
+    const csv = rows.map((row) => row.map(escapeCell).join(';')).join('\r\n')
+    const url = URL.createObjectURL(new Blob([`\ufeff${csv}`], { type: 'text/csv;charset=utf-8' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `dre-${statement.year}-${String(statement.month).padStart(2, '0')}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleProductImageUpload = (event: ChangeEvent<HTMLInputElement>) => {
     if (!canManageStock) return
-    if (!authToken) {
-      setInventorySubmitError('Sessão expirada. Faça login novamente.')
+    const file = event.target.files?.[0]
+    if (!file) {
+      setInventoryForm((prev) => ({ ...prev, newProductImage: '' }))
       return
     }
-    const amount = Number(inventoryForm.amount)
-    if (!amount || amount <= 0) {
-      setInventorySubmitError('Informe a quantidade do movimento.')
-      return
+    const reader = new FileReader()
+    reader.onloadend = () => {
+      const result = reader.result
+      if (typeof result === 'string') {
+        setInventoryForm((prev) => ({ ...prev, newProductImage: result }))
+      }
     }
-    setInventorySubmitError(null)
-    setInventorySubmitLoading(true)
-    try {
-      if (inventoryForm.isNewProduct) {
-        if (inventoryForm.type !== 'entrada') {
-          throw new Error('Cadastrar novos produtos está disponível apenas para entradas.')
-        }
-        const name = inventoryForm.newProductName.trim()
-        if (!name) throw new Error('Informe o nome do produto.')
-        const skuFromForm = inventoryForm.newProductSku.trim()
-        const skuFallback = skuFromForm || `SKU-${Math.floor(Math.random() * 90000 + 10000)}`
-        const priceNumber = Number(inventoryForm.newProductPrice)
-        const factoryCostNumber = Number(inventoryForm.newProductFactoryCost)
-        const payload = {
-          name,
-          sku: skuFallback,
-          price: Number.isNaN(priceNumber) ? 0 : Math.max(0, priceNumber),
-          factoryCost: Number.isNaN(factoryCostNumber) ? 0 : Math.max(0, factoryCostNumber),
-          quantity: amount,
-          imageUrl: inventoryForm.newProductImage || undefined,
-        }
-        const response = await fetch(`${API_BASE_URL}/stock`, {
-          method: 'POST',
-          headers: getAuthHeaders(),
-          body: JSON.stringify(payload),
-        })
-        if (!response.ok) {
-          throw new Error('Não foi possível cadastrar o produto.')
-        }
-        const createdProduct = normalizeStockItem(await response.json())
-        setStockItems((prev) => [createdProduct, ...prev])
-        await fetchStockFromApi()
-        await fetchStockMovementsFromApi()
-        resetInventoryForm(createdProduct.id)
-      } else {
-        if (!inventoryForm.productId) {
-          throw new Error('Selecione um produto para movimentar.')
-        }
-        const product = stockItems.find((item) => item.id === inventoryForm.productId)
-        if (!product) {
-          throw new Error('Produto inválido.')
-        }
-        if (inventoryForm.type === 'saida' && product.quantity < amount) {
-          throw new Error('Quantidade insuficiente em estoque para saída.')
-        }
-        const response = await fetch(`${API_BASE_URL}/stock/${inventoryForm.productId}/movements`, {
-          method: 'POST',
-          headers: getAuthHeaders(),
-          body: JSON.stringify({
-            type: inventoryForm.type,
-            amount,
-            note: inventoryForm.note.trim() || undefined,
+    reader.readAsDataURL(file)
+  }
+
+  const saleSubtotal = saleForm.items.reduce((sum, item) => {
+    const netUnit = Math.max(0, item.unitPrice - item.discount)
+    return sum + item.quantity * netUnit
+  }, 0)
+  const normalizedDiscount = Math.min(Math.max(saleForm.discount, 0), saleSubtotal)
+  const saleTotal = Math.max(0, saleSubtotal - normalizedDiscount)
+  const paymentsTotal = saleForm.payments.reduce((sum, payment) => sum + Math.max(0, payment.amount), 0)
+  const paymentDiff = saleTotal - paymentsTotal
+  const paymentBalanced = Math.abs(paymentDiff) < 0.05
+  const normalizedSearch = globalSearch.trim().toLowerCase()
+  const calendarRange = Array.from({ length: 31 }, (_, index) => {
+    const date = new Date()
+    date.setDate(1)
+    date.setMonth(date.getMonth() + deliveryMonthOffset)
+    date.setDate(date.getDate() + index)
+    return date.toISOString().slice(0, 10)
+  })
+
+  const searchResults: SearchResult[] = normalizedSearch
+    ? [
+        ...clients
+          .filter((client) => {
+            const blob = `${client.name ?? ''} ${client.phone ?? ''} ${client.addressCity ?? ''}`.toLowerCase()
+            return blob.includes(normalizedSearch)
+          })
+          .map((client) => ({
+            id: client.id,
+            type: 'Cliente' as const,
+            title: client.name,
+            description: client.phone || client.addressCity || '',
+            page: 'clientes' as PageId,
+            payload: client.name,
+          })),
+        ...stockItems
+          .filter((item) => `${item.name} ${item.sku}`.toLowerCase().includes(normalizedSearch))
+          .map((item) => ({
+            id: item.id,
+            type: 'Estoque' as const,
+            title: item.name,
+            description: `SKU ${item.sku} · ${item.quantity} disponíveis`,
+            page: 'estoque' as PageId,
+            payload: item.name,
+          })),
+        ...sales
+          .filter((sale) => {
+            const client = clients.find((c) => c.id === sale.clientId)
+            const products = sale.items
+        .map(
+          (saleItem) =>
+            stockItems.find((stock) => stock.id === saleItem.productId)?.name ??
+            saleItem.customName ??
+            saleItem.productName ??
+            '',
+        )
+              .join(' ')
+            return `${sale.id} ${client?.name ?? sale.clientName ?? ''} ${products}`.toLowerCase().includes(normalizedSearch)
+          })
+          .map((sale) => {
+            const client = clients.find((clientItem) => clientItem.id === sale.clientId)
+            return {
+              id: sale.id,
+              type: 'Venda' as const,
+              title: `Venda ${sale.id}`,
+              description: `${client?.name ?? sale.clientName ?? 'Cliente removido'} · ${sale.items
+                .map(
+                  (saleItem) =>
+                    stockItems.find((stock) => stock.id === saleItem.productId)?.name ??
+                    saleItem.customName ??
+                    saleItem.productName ??
+                    '',
+                )
+                .join(', ')}`,
+              page: 'sleepLab' as PageId,
+            }
           }),
-        })
-        if (!response.ok) {
-          throw new Error('Não foi possível registrar o movimento.')
-        }
-        await fetchStockFromApi()
-        await fetchStockMovementsFromApi()
-        resetInventoryForm(inventoryForm.productId)
-      }
-      setInventoryPanelOpen(false)
-    } catch (error) {
-      console.error(error)
-      setInventorySubmitError(error instanceof Error ? error.message : 'Erro ao registrar movimento.')
-    } finally {
-      setInventorySubmitLoading(false)
+        ...stockMovements
+          .filter((movement) => {
+            const product = stockItems.find((item) => item.id === movement.productId)
+            return `${movement.type} ${movement.note} ${product?.name ?? ''}`.toLowerCase().includes(normalizedSearch)
+          })
+          .map((movement) => {
+            const product = stockItems.find((item) => item.id === movement.productId)
+            return {
+              id: movement.id,
+              type: 'Movimento' as const,
+              title: `${movement.type === 'entrada' ? 'Entrada' : 'Saída'} · ${product?.name ?? 'Produto'}`,
+              description: `${movement.amount} unidades em ${new Date(movement.createdAt).toLocaleDateString('pt-BR')}`,
+              page: 'estoque' as PageId,
+              payload: product?.name,
+            }
+          }),
+      ].slice(0, 10)
+    : []
+
+  const handleSearchNavigate = (result: SearchResult) => {
+    setGlobalSearch('')
+    setSearchFocused(false)
+    setActivePage(result.page)
+    if (result.page === 'clientes' && result.payload) {
+      setClientSearch(result.payload)
+    } else if (result.page === 'estoque' && result.payload) {
+      setStockSearch(result.payload)
     }
   }
 
-  const handleAssistancePhotoUpload = (event: ChangeEvent<HTMLInputElement>) => {
-    const files = event.target.files
-    if (!files?.length) return
-    const allowed = Math.max(0, MAX_ASSISTANCE_PHOTOS - assistanceForm.photos.length)
-    if (allowed === 0) {
-      event.target.value = ''
-      return
-    }
-    Array.from(files)
-      .slice(0, allowed)
-      .forEach((file) => {
-        const reader = new FileReader()
-        reader.onloadend = () => {
-          if (typeof reader.result === 'string') {
-            setAssistanceForm((prev) => ({ ...prev, photos: [...prev.photos, reader.result as string] }))
-          }
-        }
-        reader.readAsDataURL(file)
-      })
-    event.target.value = ''
+  const reservedByEditingSale = (productId: string) => {
+    if (!editingSale) return 0
+    return editingSale.items
+      .filter((saleItem) => saleItem.productId === productId)
+      .reduce((sum, saleItem) => sum + saleItem.quantity, 0)
   }
 
-  const handleRemoveAssistancePhoto = (index: number) => {
-    setAssistanceForm((prev) => ({
+  const addSaleItemRow = () => {
+    if (!stockItems.length) return
+    const product = stockItems[0]
+    setSaleForm((prev) => ({
       ...prev,
-      photos: prev.photos.filter((_, photoIndex) => photoIndex !== index),
+      items: [
+        ...prev.items,
+        {
+          productId: product.id,
+          quantity: 1,
+          unitPrice: product.price,
+          discount: 0,
+          searchName: product.name,
+          isCustom: false,
+        },
+      ],
     }))
   }
 
-  const handleSaveMonthlyGoal = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault()
-    if (!isAdmin) return
-    setMonthlyGoalSaving(true)
-    setMonthlyGoalNotice(null)
-    setMonthlyGoalError(null)
-    try {
-      const response = await fetch(`${API_BASE_URL}/finance/goal`, {
-        method: 'PUT',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({ target: monthlyGoalFormValue }),
-      })
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => null)
-        throw new Error(errorBody?.message ?? 'Não foi possível atualizar a meta.')
-      }
-      await fetchMonthlyGoalFromApi()
-      setMonthlyGoalNotice('Meta atualizada com sucesso.')
-    } catch (error) {
-      console.error(error)
-      setMonthlyGoalError(error instanceof Error ? error.message : 'Erro ao atualizar meta.')
-    } finally {
-      setMonthlyGoalSaving(false)
-    }
+  const addCustomSaleItem = () => {
+    setSaleForm((prev) => ({
+      ...prev,
+      items: [
+        ...prev.items,
+        {
+          productId: '',
+          quantity: 1,
+          unitPrice: 0,
+          discount: 0,
+          searchName: '',
+          customName: '',
+          customSku: '',
+          isCustom: true,
+        },
+      ],
+    }))
   }
 
-  const handleRegisterAssistance = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault()
-    if (!isAdmin) {
-      setAssistanceSubmitError('Apenas administradores podem registrar assistências.')
-      return
-    }
-    if (!assistanceForm.saleId || !assistanceForm.productId || !assistanceForm.defectDescription.trim()) {
-      setAssistanceSubmitError('Selecione venda, produto e descreva o defeito.')
-      return
-    }
-    if (assistanceForm.defectDescription.trim().length < 5) {
-      setAssistanceSubmitError('Descreva o defeito com pelo menos 5 caracteres.')
-      return
-    }
-    const selectedSale = sales.find((sale) => (sale.backendId ?? sale.id) === assistanceForm.saleId)
-    const selectedItem = selectedSale?.items.find(
-      (item, index) => getSaleItemKey(item, index) === assistanceForm.productId,
-    )
-    if (!selectedSale || !selectedItem) {
-      setAssistanceSubmitError('Selecione uma venda com itens para continuar.')
-      return
-    }
-    setAssistanceSubmitLoading(true)
-    setAssistanceSubmitError(null)
-    try {
-      const payload = {
-        saleId: selectedSale.backendId ?? selectedSale.id,
-        ...(selectedItem.productId ? { productId: selectedItem.productId } : {}),
-        defectDescription: assistanceForm.defectDescription.trim(),
-        factoryResponse: assistanceForm.factoryResponse.trim() || undefined,
-        expectedDate: assistanceForm.expectedDate ? new Date(assistanceForm.expectedDate).toISOString() : undefined,
-        photos: assistanceForm.photos.length > 0 ? assistanceForm.photos : undefined,
-      }
-      const response = await fetch(`${API_BASE_URL}/assistances`, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify(payload),
-      })
-      if (!response.ok) {
-        const errorBody = await response.json().catch(() => null)
-        throw new Error(errorBody?.message ?? 'Não foi possível registrar a assistência.')
-      }
-      const data = await response.json()
-      const normalized = normalizeAssistance(data)
-      setAssistances((prev) => [normalized, ...prev.filter((item) => item.id !== normalized.id)])
-      setAssistanceForm(createAssistanceFormState(sales))
+  const updateSaleItemRow = (index: number, updates: Partial<SaleItem>) => {
+    setSaleForm((prev) => ({
+      ...prev,
+      items: prev.items.map((item, idx) => {
+        if (idx !== index) return item
+        const next = { ...item, ...updates }
+        if (next.discount > next.unitPrice) {
+          next.discount = next.unitPrice
+        }
+        if (next.discount < 0) next.discount = 0
+        if (next.unitPrice < 0) next.unitPrice = 0
+        return next
+      }),
+    }))
+  }
+
+  const removeSaleItemRow = (index: number) => {
+    setSaleForm((prev) => {
+      if (prev.items.length <= 1) return prev
+      const nextItems = prev.items.filter((_, idx) => idx !== index)
+      return { ...prev, items: nextItems }
+    })
+  }
+
+  const addPaymentRow = () => {
+    setSaleForm((prev) => ({
+      ...prev,
+      payments: [
+        ...prev.payments,
+        { id: `pay-${Date.now()}`, method: 'PIX', amount: 0, installments: 1 },
+      ],
+    }))
+  }
+
+  const updatePaymentRow = (index: number, updates: Partial<SalePayment>) => {
+    setSaleForm((prev) => ({
+      ...prev,
+      payments: prev.payments.map((payment, idx) => {
+        if (idx !== index) return payment
+        const next: SalePayment = { ...payment, ...updates }
+        if (next.method === 'Semanal na loja') {
+          const weeks = Math.max(1, Number(next.weeklyWeeks ?? 1))
+          const weeklyAmount = Math.max(0, Number(next.weeklyAmount ?? 0))
+          next.weeklyWeeks = weeks
+          next.weeklyAmount = weeklyAmount
+          next.amount = computeWeeklyTotal(weeks, weeklyAmount)
+          next.installments = 1
+        } else {
+          if (next.weeklyWeeks !== undefined) delete next.weeklyWeeks
+          if (next.weeklyAmount !== undefined) delete next.weeklyAmount
+          if (next.method !== 'Cartão de crédito') {
+            next.installments = 1
+          } else if (next.installments < 1) {
+            next.installments = 1
+          }
+          if (next.amount < 0) next.amount = 0
+        }
+        return next
+      }),
+    }))
+  }
+
+  const removePaymentRow = (index: number) => {
+    setSaleForm((prev) => {
+      if (prev.payments.length <= 1) return prev
+      const filtered = prev.payments.filter((_, idx) => idx !== index)
+      return { ...prev, payments: filtered }
+    })
+  }
+
+  const sendProductFamilyRequest = async (path: string, method: string, body?: unknown) => {
+    setProductFamilyError(null)
+    setProductFamilySaving(true)
+    try {
+      const response = await fetch(`${API_BASE_URL}/stock/${path}`, {
+        method,
+        headers: getAuthHeaders(body !== undefined),
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      })
+      if (!response.ok && response.status !== 204) {
+        const payload = await response.json().catch(() => ({}))
+        throw new Error(payload?.message ?? 'Não foi possível salvar o produto.')
+      }
+      await Promise.all([fetchProductFamiliesFromApi(), fetchStockFromApi()])
+      return true
     } catch (error) {
       console.error(error)
-      setAssistanceSubmitError(error instanceof Error ? error.message : 'Erro ao registrar assistência.')
+      setProductFamilyError(error instanceof Error ? error.message : 'Erro ao salvar o produto.')
+      return false
     } finally {
-      setAssistanceSubmitLoading(false)
+      setProductFamilySaving(false)
     }
   }
 
-  const handleCompleteAssistance = async (assistanceId: string) => {
-    if (!assistanceId || !isAdmin) return
-    setAssistanceStatusLoading(true)
+  const handleCreateProductCategory = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const name = productCategoryName.trim()
+    if (!name) {
+      setProductCategoryError('Informe o nome da categoria.')
+      return
+    }
+    setProductCategoryError(null)
     try {
-      const response = await fetch(`${API_BASE_URL}/assistances/${assistanceId}/status`, {
-        method: 'PATCH',
+      const response = await fetch(`${API_BASE_URL}/stock/categories`, {
+        method: 'POST',
         headers: getAuthHeaders(),
-        body: JSON.stringify({ status: 'concluida' }),
+        body: JSON.stringify({ name }),
       })
       if (!response.ok) {
-        throw new Error('Não foi possível atualizar a assistência.')
+        const payload = await response.json().catch(() => ({}))
+        throw new Error(payload?.message ?? 'Não foi possível criar a categoria.')
       }
-      const data = await response.json()
-      const normalized = normalizeAssistance(data)
-      setAssistances((prev) => prev.map((item) => (item.id === normalized.id ? normalized : item)))
-      setAssistanceConfirm(null)
+      setProductCategoryName('')
+      await fetchProductCategoriesFromApi()
     } catch (error) {
       console.error(error)
-      setAssistancesError(error instanceof Error ? error.message : 'Falha ao atualizar assistência.')
-    } finally {
-      setAssistanceStatusLoading(false)
+      setProductCategoryError(error instanceof Error ? error.message : 'Erro ao criar categoria.')
     }
   }
 
-  const handleAddUser = async (event: FormEvent<HTMLFormElement>) => {
+  const handleDeleteProductCategory = async (category: ProductCategory) => {
+    if (!window.confirm(`Excluir a categoria "${category.name}"? Os produtos dela ficam sem categoria.`)) return
+    setProductCategoryError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/stock/categories/${category.id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok && response.status !== 204) {
+        throw new Error('Não foi possível excluir a categoria.')
+      }
+      if (stockCategoryFilter === category.id) setStockCategoryFilter('')
+      await Promise.all([fetchProductCategoriesFromApi(), fetchStockFromApi()])
+    } catch (error) {
+      console.error(error)
+      setProductCategoryError(error instanceof Error ? error.message : 'Erro ao excluir categoria.')
+    }
+  }
+
+  const handleCreateProductFamily = async (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault()
-    if (!isAdmin) return
-    if (!userForm.name.trim() || !userForm.email.trim()) {
-      setUserActionError('Preencha nome e e-mail do usuário.')
+    const name = productFamilyName.trim()
+    if (!name) {
+      setProductFamilyError('Informe o nome do produto.')
       return
     }
-    setUserActionLoading(true)
-    setUserActionError(null)
-    setUserInviteTempPassword(null)
-    setUserManagerNotice(null)
+    if (await sendProductFamilyRequest('families', 'POST', { name })) {
+      setProductFamilyName('')
+    }
+  }
+
+  const handleSaveVariant = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!variantForm.familyId) {
+      setProductFamilyError('Escolha o produto da variação.')
+      return
+    }
+    const saved = await sendProductFamilyRequest(`families/${variantForm.familyId}/variants`, 'POST', {
+      productId: variantForm.productId || undefined,
+      size: variantForm.size,
+      height: variantForm.height,
+      firmness: variantForm.firmness,
+      sku: variantForm.sku,
+      price: variantForm.productId && !variantForm.price ? undefined : variantForm.price,
+      factoryCost: variantForm.productId && !variantForm.factoryCost ? undefined : variantForm.factoryCost,
+      quantity: variantForm.productId ? undefined : variantForm.quantity,
+    })
+    if (saved) {
+      setVariantForm((prev) => ({ ...prev, productId: '', size: '', sku: '', price: 0, factoryCost: 0, quantity: 0 }))
+    }
+  }
+
+  const handleUnlinkVariant = async (family: ProductFamily, variant: StockItem) => {
+    if (!window.confirm(`Desvincular "${variant.name}" de ${family.name}? O SKU e o estoque continuam cadastrados.`)) return
+    await sendProductFamilyRequest(`families/${family.id}/variants/${variant.id}`, 'DELETE')
+  }
+
+  const handleDeleteProductFamily = async (family: ProductFamily) => {
+    if (!window.confirm(`Excluir o produto "${family.name}"?`)) return
+    await sendProductFamilyRequest(`families/${family.id}`, 'DELETE')
+  }
+
+  const handleSaveSupplier = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (supplierForm.name.trim().length < 2) {
+      setSupplierError('Informe o nome da fábrica ou fornecedor.')
+      return
+    }
+    setSupplierError(null)
+    setSupplierSaving(true)
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/invite`, {
-        method: 'POST',
+      const response = await fetch(`${API_BASE_URL}/suppliers${editingSupplierId ? `/${editingSupplierId}` : ''}`, {
+        method: editingSupplierId ? 'PUT' : 'POST',
         headers: getAuthHeaders(),
         body: JSON.stringify({
-          name: userForm.name.trim(),
-          email: userForm.email.trim(),
-          phone: userForm.phone ? formatDigits(userForm.phone) : undefined,
-          role: userForm.role,
+          ...supplierForm,
+          leadTimeDays: supplierForm.leadTimeDays ? Number(supplierForm.leadTimeDays) : null,
         }),
       })
       if (!response.ok) {
-        const errorBody = await response.json().catch(() => null)
-        throw new Error(errorBody?.message ?? 'Não foi possível criar o usuário.')
+        const payload = await response.json().catch(() => ({}))
+        throw new Error(payload?.message ?? 'Não foi possível salvar o fornecedor.')
       }
-      const data = await response.json()
-      const normalized = normalizeUserFromApi(data.user)
-      setUsers((prev) => [normalized, ...prev.filter((user) => user.id !== normalized.id)])
-      setUserForm({ name: '', email: '', phone: '', role: 'seller' })
-      setUserInviteTempPassword(data.tempPassword)
-      setUserManagerNotice(`Usuário ${normalized.name} criado com sucesso.`)
+      const saved = normalizeSupplier(await response.json())
+      setSupplierForm(emptySupplierForm)
+      setEditingSupplierId(null)
+      setSelectedSupplierId(saved.id)
+      await Promise.all([fetchSuppliersFromApi(), fetchSupplierDetailFromApi()])
     } catch (error) {
       console.error(error)
-      setUserActionError(error instanceof Error ? error.message : 'Erro ao criar usuário.')
+      setSupplierError(error instanceof Error ? error.message : 'Erro ao salvar fornecedor.')
     } finally {
-      setUserActionLoading(false)
+      setSupplierSaving(false)
     }
   }
 
-  const handleDeleteUserAccount = async (userId: string) => {
-    if (!isAdmin) return
-    const target = users.find((user) => user.id === userId)
-    if (!target || target.role === 'admin') return
-    setUserActionLoading(true)
-    setUserActionError(null)
-    setUserManagerNotice(null)
+  const handleEditSupplier = (supplier: Supplier) => {
+    setEditingSupplierId(supplier.id)
+    setSupplierForm({
+      name: supplier.name,
+      contactName: supplier.contactName,
+      phone: supplier.phone,
+      email: supplier.email,
+      leadTimeDays: supplier.leadTimeDays != null ? String(supplier.leadTimeDays) : '',
+      paymentTerms: supplier.paymentTerms,
+      note: supplier.note,
+    })
+  }
+
+  const handleDeleteSupplier = async (supplier: Supplier) => {
+    if (!window.confirm(`Excluir o fornecedor "${supplier.name}"? Produtos e assistências dele ficam sem fornecedor.`)) return
+    setSupplierError(null)
     try {
-      const response = await fetch(`${API_BASE_URL}/users/${userId}`, {
+      const response = await fetch(`${API_BASE_URL}/suppliers/${supplier.id}`, {
         method: 'DELETE',
         headers: getAuthHeaders(false),
       })
-      if (!response.ok) {
-        throw new Error('Não foi possível remover o usuário.')
+      if (!response.ok && response.status !== 204) {
+        throw new Error('Não foi possível excluir o fornecedor.')
       }
-      setUsers((prev) => prev.filter((user) => user.id !== userId))
-      if (sessionUserId === userId) {
-        forceLogout()
+      if (selectedSupplierId === supplier.id) {
+        setSelectedSupplierId(null)
+        setSupplierDetail(null)
       }
-      setUserManagerNotice(`Usuário ${target.name} removido.`)
+      await fetchSuppliersFromApi()
     } catch (error) {
       console.error(error)
-      setUserActionError(error instanceof Error ? error.message : 'Erro ao remover usuário.')
-    } finally {
-      setUserActionLoading(false)
+      setSupplierError(error instanceof Error ? error.message : 'Erro ao excluir fornecedor.')
     }
   }
 
-  const handleResetUserPassword = async (userId: string) => {
-    if (!isAdmin) return
-    setUserActionLoading(true)
-    setUserActionError(null)
-    setUserInviteTempPassword(null)
-    setUserManagerNotice(null)
+  const sendPurchaseOrderRequest = async (path: string, method: string, body?: unknown) => {
+    setPurchaseOrderError(null)
+    setPurchaseOrderSaving(true)
     try {
-      const response = await fetch(`${API_BASE_URL}/users/${userId}/reset-password`, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({}),
+      const response = await fetch(`${API_BASE_URL}/purchase-orders${path}`, {
+        method,
+        headers: getAuthHeaders(body !== undefined),
+        body: body !== undefined ? JSON.stringify(body) : undefined,
       })
-      if (!response.ok) {
-        throw new Error('Não foi possível redefinir a senha.')
+      if (!response.ok && response.status !== 204) {
+        const payload = await response.json().catch(() => ({}))
+        throw new Error(payload?.message ?? 'Não foi possível salvar o pedido de compra.')
       }
-      const data = await response.json()
-      setUserInviteTempPassword(data.temporaryPassword)
-      const target = users.find((user) => user.id === userId)
-      setUserManagerNotice(
-        target
-          ? `Nova senha temporária para ${target.name}: ${data.temporaryPassword}`
-          : 'Senha redefinida.',
-      )
+      await fetchPurchaseOrdersFromApi()
+      return true
     } catch (error) {
       console.error(error)
-      setUserActionError(error instanceof Error ? error.message : 'Erro ao redefinir senha.')
+      setPurchaseOrderError(error instanceof Error ? error.message : 'Erro ao salvar o pedido de compra.')
+      return false
     } finally {
-      setUserActionLoading(false)
+      setPurchaseOrderSaving(false)
     }
   }
 
-  const handleToggleUserActive = async (userId: string) => {
-    if (!isAdmin) return
-    const target = users.find((user) => user.id === userId)
-    if (!target) return
-    setUserActionLoading(true)
-    setUserActionError(null)
-    setUserManagerNotice(null)
+  const updatePurchaseOrderItemRow = (index: number, changes: Partial<{ productId: string; quantity: number; unitCost: number }>) => {
+    setPurchaseOrderForm((prev) => ({
+      ...prev,
+      items: prev.items.map((item, idx) => (idx === index ? { ...item, ...changes } : item)),
+    }))
+  }
+
+  const handleCreatePurchaseOrder = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const items = purchaseOrderForm.items.filter((item) => item.productId && item.quantity > 0)
+    if (!purchaseOrderForm.supplierId && !purchaseOrderForm.supplierName.trim()) {
+      setPurchaseOrderError('Informe a fábrica ou fornecedor.')
+      return
+    }
+    if (!items.length) {
+      setPurchaseOrderError('Inclua ao menos um item.')
+      return
+    }
+    const created = await sendPurchaseOrderRequest('', 'POST', {
+      ...(purchaseOrderForm.supplierId
+        ? { supplierId: purchaseOrderForm.supplierId }
+        : { supplierName: purchaseOrderForm.supplierName }),
+      expectedAt: purchaseOrderForm.expectedAt || null,
+      note: purchaseOrderForm.note,
+      items,
+    })
+    if (created) {
+      setPurchaseOrderForm({
+        supplierId: '',
+        supplierName: '',
+        expectedAt: '',
+        note: '',
+        items: [{ productId: '', quantity: 1, unitCost: 0 }],
+      })
+    }
+  }
+
+  const handleBuildReorderDraft = () => {
+    setReorderDraft(
+      Object.fromEntries(reorderSuggestions.map((suggestion) => [suggestion.productId, suggestion.suggestedQuantity])),
+    )
+    setActivePage('estoque')
+  }
+
+  // Um pedido por fornecedor; itens sem fornecedor vão para o formulário de pedido para escolher a fábrica.
+  const handleCreateDraftPurchaseOrder = async (supplierId: string | null) => {
+    if (!reorderDraft) return
+    const group = reorderSuggestions.filter(
+      (suggestion) => suggestion.supplierId === supplierId && (reorderDraft[suggestion.productId] ?? 0) > 0,
+    )
+    if (!group.length) return
+    const items = group.map((suggestion) => ({
+      productId: suggestion.productId,
+      quantity: reorderDraft[suggestion.productId],
+      unitCost: suggestion.unitCost,
+    }))
+    if (!supplierId) {
+      setPurchaseOrderForm((prev) => ({ ...prev, supplierId: '', items }))
+      return
+    }
+    const created = await sendPurchaseOrderRequest('', 'POST', { supplierId, items })
+    if (!created) return
+    setReorderDraft((prev) => {
+      if (!prev) return prev
+      const next = { ...prev }
+      group.forEach((suggestion) => delete next[suggestion.productId])
+      return Object.keys(next).length ? next : null
+    })
+    await fetchReorderSuggestionsFromApi()
+  }
+
+  const handleExpandPurchaseOrder = async (order: PurchaseOrder) => {
+    if (expandedPurchaseOrderId === order.id) {
+      setExpandedPurchaseOrderId(null)
+      return
+    }
+    setExpandedPurchaseOrderId(order.id)
+    setWaitingSales([])
+    setReceiveQuantities(
+      Object.fromEntries(order.items.map((item) => [item.id, Math.max(0, item.quantity - item.receivedQuantity)])),
+    )
     try {
-      const response = await fetch(`${API_BASE_URL}/users/${userId}`, {
-        method: 'PATCH',
-        headers: getAuthHeaders(),
-        body: JSON.stringify({ active: !target.active }),
+      const response = await fetch(`${API_BASE_URL}/purchase-orders/${order.id}`, {
+        headers: getAuthHeaders(false),
       })
       if (!response.ok) {
-        throw new Error('Não foi possível atualizar o usuário.')
-      }
-      const updated = normalizeUserFromApi(await response.json())
-      setUsers((prev) => prev.map((user) => (user.id === updated.id ? updated : user)))
-      if (updated.id === sessionUserId && !updated.active) {
-        forceLogout()
+        throw new Error('Não foi possível carregar as vendas aguardando este pedido.')
       }
+      const data = await response.json()
+      setWaitingSales(Array.isArray(data.waitingSales) ? data.waitingSales : [])
     } catch (error) {
       console.error(error)
-      setUserActionError(error instanceof Error ? error.message : 'Erro ao atualizar usuário.')
-    } finally {
-      setUserActionLoading(false)
+      setPurchaseOrderError(error instanceof Error ? error.message : 'Falha ao carregar vendas aguardando.')
     }
   }
 
-  const renderDashboard = () => {
-    const spotlightSales = sales.filter((sale) => sale.status !== 'cancelada' && !sale.requiresApproval).slice(0, 3)
-    const nextDeliveries = sales
-      .filter((sale) => sale.status === 'pendente' && !sale.requiresApproval)
-      .sort((a, b) => a.deliveryDate.localeCompare(b.deliveryDate))
-      .slice(0, 3)
-    const nowDate = new Date()
-    const currentMonth = nowDate.getMonth()
-    const currentYear = nowDate.getFullYear()
-    const monthlyOrdersAll = sales.filter((sale) => {
-      if (sale.requiresApproval || sale.status === 'cancelada') return false
-      const saleDate = new Date(sale.createdAt)
-      return saleDate.getMonth() === currentMonth && saleDate.getFullYear() === currentYear
-    })
-    const monthlySales = monthlyOrdersAll.filter((sale) => sale.status === 'entregue')
-    const monthlyRevenue = monthlySales.reduce((sum, sale) => sum + sale.value, 0)
-    const monthlyOrders = monthlySales.length
-    const averageTicket = monthlyOrders ? monthlyRevenue / monthlyOrders : 0
-    const conversionRate = monthlyOrdersAll.length
-      ? Math.round((monthlySales.length / monthlyOrdersAll.length) * 100)
-      : null
-    const pendingOrders = sales.filter((sale) => sale.status === 'pendente' && !sale.requiresApproval).length
-    const deliveredOrders = sales.filter((sale) => sale.status === 'entregue').length
-    const clientsWithSales = new Set(sales.filter((sale) => sale.status !== 'cancelada').map((sale) => sale.clientId)).size
-    const reservedStock = stockItems.reduce((sum, item) => sum + item.reserved, 0)
-    const totalStockUnits = stockItems.reduce((sum, item) => sum + item.quantity + item.reserved, 0)
-    const dashboardMetrics = [
-      {
-        label: 'Receita do mês',
-        value: formatCurrency(monthlyRevenue),
-        note: monthlyOrders ? `${monthlyOrders} pedidos emitidos` : 'Cadastre sua primeira venda',
-      },
-      {
-        label: 'Ticket médio',
-        value: formatCurrency(averageTicket || 0),
-        note: monthlyOrders ? `Base em ${monthlyOrders} pedidos` : 'Sem pedidos no mês atual',
-      },
-      {
-        label: 'Pedidos pendentes',
-        value: pendingOrders.toString(),
-        note: 'Aguardando confirmação de entrega',
-      },
-      {
-        label: 'Clientes com compras',
-        value: clientsWithSales.toString(),
-        note: `${clients.length} clientes ativos no CRM`,
-      },
-    ]
-    const pipelineStages = [
-      {
-        name: 'Pendentes',
-        primary: pendingOrders,
-        detail: 'Vendas aguardando entrega',
-        percent: sales.length ? Math.round((pendingOrders / sales.length) * 100) : 0,
-      },
-      {
-        name: 'Entregues',
-        primary: deliveredOrders,
-        detail: 'Pedidos finalizados',
-        percent: sales.length ? Math.round((deliveredOrders / sales.length) * 100) : 0,
-      },
-      {
-        name: 'Reservas de estoque',
-        primary: reservedStock,
-        detail: 'Itens comprometidos para pedidos',
-        percent: totalStockUnits ? Math.round((reservedStock / totalStockUnits) * 100) : 0,
-      },
-    ]
-    const insightMessages: string[] = []
-    if (!sales.length) {
-      insightMessages.push('Cadastre sua primeira venda para liberar indicadores financeiros.')
+  const handleReceivePurchaseOrder = async (order: PurchaseOrder) => {
+    const items = order.items
+      .map((item) => ({ itemId: item.id, quantity: receiveQuantities[item.id] ?? 0 }))
+      .filter((item) => item.quantity > 0)
+    if (!items.length) {
+      setPurchaseOrderError('Informe as quantidades recebidas.')
+      return
     }
-    if (pendingOrders) {
-      insightMessages.push(`Há ${pendingOrders} pedidos aguardando confirmação de entrega.`)
+    if (await sendPurchaseOrderRequest(`/${order.id}/receive`, 'POST', { items })) {
+      setExpandedPurchaseOrderId(null)
+      await Promise.all([fetchStockFromApi(), fetchStockMovementsFromApi()])
     }
-    const lowStock = stockItems.filter((item) => item.quantity <= 3).length
-    if (lowStock) {
-      insightMessages.push(`${lowStock} produtos estão em nível crítico de estoque.`)
+  }
+
+  const handleCancelPurchaseOrder = async (order: PurchaseOrder) => {
+    if (!window.confirm(`Cancelar o saldo pendente do pedido OC-${order.number}?`)) return
+    await sendPurchaseOrderRequest(`/${order.id}/cancel`, 'POST')
+  }
+
+  const handleTogglePurchaseOrderSale = async (order: PurchaseOrder, sale: WaitingSale) => {
+    const saved = await sendPurchaseOrderRequest(`/${order.id}/sales/${sale.saleId}`, sale.linked ? 'DELETE' : 'POST')
+    if (saved) {
+      setWaitingSales((prev) =>
+        prev.map((item) => (item.saleId === sale.saleId ? { ...item, linked: !sale.linked } : item)),
+      )
     }
-    if (!insightMessages.length) {
-      insightMessages.push('Sem pendências no momento. Continue acompanhando o painel.')
+  }
+
+  const handleDeleteProduct = async (productId: string) => {
+    if (!canManageStock || !authToken) return
+    if (!productId) return
+    const product = stockItems.find((item) => item.id === productId)
+    if (!product) return
+    if (product.quantity > 0 || product.reserved > 0) {
+      window.alert('Só é possível remover produtos com estoque zerado.')
+      return
+    }
+    try {
+      const response = await fetch(`${API_BASE_URL}/stock/${productId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível remover o produto.')
+      }
+      setStockItems((prev) => {
+        const updated = prev.filter((item) => item.id !== productId)
+        const fallbackId = updated[0]?.id ?? ''
+        setSaleForm((salePrev) => {
+          const filteredItems: SaleItem[] = salePrev.items.filter((item) => item.productId !== productId)
+          const fallbackProduct = updated.find((item) => item.id === fallbackId)
+          const newItems = filteredItems.length
+            ? filteredItems
+            : fallbackId && fallbackProduct
+              ? [{ productId: fallbackId, quantity: 1, unitPrice: fallbackProduct.price, discount: 0 }]
+              : []
+          return { ...salePrev, items: newItems }
+        })
+        setInventoryForm((prevForm) => {
+          if (prevForm.isNewProduct) return prevForm
+          if (prevForm.productId === productId) {
+            return { ...prevForm, productId: fallbackId }
+          }
+          return prevForm
+        })
+        return updated
+      })
+      await fetchStockMovementsFromApi()
+    } catch (error) {
+      console.error(error)
+      window.alert(error instanceof Error ? error.message : 'Erro ao remover produto.')
+    }
+  }
+  const handleLogin = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setLoginError(null)
+    try {
+      const client = await getSupabaseClient()
+      const { error } = await client.auth.signInWithPassword({
+        email: loginEmail.trim(),
+        password: loginPassword,
+      })
+      if (error) {
+        throw new Error('Credenciais inválidas. Confira e tente novamente.')
+      }
+      setLoginEmail('')
+      setLoginPassword('')
+      setLoginError(null)
+    } catch (error) {
+      console.error(error)
+      setLoginError(error instanceof Error ? error.message : 'Não foi possível entrar. Tente novamente.')
     }
+  }
 
-    const goalTarget = monthlyGoal?.target ?? 0
-    const goalProgress = monthlyGoal?.progress ?? monthlyRevenue
-    const goalPercent =
-      goalTarget > 0 ? Math.min(100, Math.round((goalProgress / goalTarget) * 100)) : 0
-    const goalMonthLabel = new Date(currentYear, currentMonth).toLocaleDateString('pt-BR', {
-      month: 'long',
+  const handleLogout = () => {
+    setProfileModalOpen(false)
+    forceLogout()
+  }
+
+  const closeClientModal = () => {
+    setClientModalOpen(false)
+    setClientModalClientId(null)
+    setClientModalForm(emptyClientForm)
+    setClientModalError(null)
+    setClientModalLoading(false)
+  }
+
+  const openSaleModal = (saleToEdit?: Sale) => {
+    if (saleToEdit) {
+      if (!isAdmin) return
+      setEditingSale(saleToEdit)
+      setSaleDraftId(saleToEdit.id)
+      setSaleForm(createSaleFormFromSale(saleToEdit, stockItems))
+      const clientMatch = clients.find((clientItem) => clientItem.id === saleToEdit.clientId)
+      setSaleClientSearch(clientMatch?.name ?? saleToEdit.clientName ?? '')
+    } else {
+      if (!canRegisterSales) return
+      setEditingSale(null)
+      setSaleDraftId(generateSaleId())
+      setSaleForm(createSaleFormState(clients))
+      const firstClient = clients[0]
+      setSaleClientSearch(firstClient ? firstClient.name : '')
+    }
+    setQuoteValidUntil(getDefaultQuoteValidity())
+    setSaleModalError(null)
+    setSaleModalLoading(false)
+    setSaleModalOpen(true)
+  }
+  const closeSaleModal = () => {
+    setSaleModalOpen(false)
+    setSaleModalError(null)
+    setSaleModalLoading(false)
+    setSaleClientSearch('')
+    setActiveProductSearch(null)
+    setEditingSale(null)
+  }
+
+  const openCreateClientModal = () => {
+    if (!canRegisterClients) return
+    setClientModalMode('create')
+    setClientModalClientId(null)
+    setClientModalForm(emptyClientForm)
+    setClientModalError(null)
+    setClientModalOpen(true)
+  }
+
+  const openEditClientModal = (client: Client) => {
+    if (!canEditClients) return
+    setClientModalMode('edit')
+    setClientModalClientId(client.id)
+    setClientModalForm({
+      name: client.name,
+      phone: client.phone,
+      cpf: client.cpf,
+      addressStreet: client.addressStreet,
+      addressNumber: client.addressNumber,
+      addressNeighborhood: client.addressNeighborhood,
+      addressCity: client.addressCity,
+      addressNote: client.addressNote,
     })
+    setClientModalError(null)
+    setClientModalOpen(true)
+  }
 
-    return (
-      <div className={`dashboard-grid${searchFocused ? ' search-mode' : ''}`}>
-        <div className={`global-search${searchFocused ? ' active' : ''}`}>
-          <div className="global-search-input">
-            <input
-              placeholder="Pesquisar clientes, produtos, vendas e movimentos"
-              value={globalSearch}
-              onChange={(event) => setGlobalSearch(event.target.value)}
-              onFocus={() => setSearchFocused(true)}
-              onBlur={() => {
-                if (!globalSearch) setSearchFocused(false)
-              }}
-            />
-          </div>
-          {globalSearch && (
-            <div className="global-search-results">
-              {searchResults.length === 0 && <p className="empty-state">Nenhum resultado encontrado.</p>}
-              {searchResults.map((result) => (
-                <button type="button" key={result.id} onClick={() => handleSearchNavigate(result)}>
-                  <span className="result-type">{result.type}</span>
-                  <div>
-                    <p className="result-title">{result.title}</p>
-                    <p className="result-description">{result.description}</p>
-                  </div>
-                </button>
-              ))}
-            </div>
-          )}
-          {searchFocused && (
-            <div className="search-backdrop" onClick={() => { setSearchFocused(false); setGlobalSearch(''); }} />
-          )}
-        </div>
+  const handleClientModalSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setClientModalError(null)
+    setClientModalLoading(true)
+    try {
+      if (clientModalMode === 'create') {
+        await addClient(clientModalForm)
+      } else if (clientModalClientId && canEditClients) {
+        await updateClientRecord(clientModalClientId, clientModalForm)
+      }
+      closeClientModal()
+    } catch (error) {
+      console.error(error)
+      setClientModalError(
+        error instanceof Error ? error.message : 'Não foi possível salvar o cliente. Tente novamente.',
+      )
+    } finally {
+      setClientModalLoading(false)
+    }
+  }
 
-        <section className="panel hero-banner">
-          <div className="hero-banner-left">
-            <p className="eyebrow">Visão estratégica</p>
-            <h1>Experiência de venda guiada e moderna</h1>
-            <p className="hero-sub">
-              Priorize ações e acompanhe indicadores críticos da loja em um único lugar.
-            </p>
-            <div className="hero-actions">
-              <button
-                type="button"
-                className="primary"
-                onClick={() => openSaleModal()}
-                disabled={!canRegisterSales || !clients.length || !stockItems.length}
-              >
-                Abrir nova venda
-              </button>
-              <button type="button" className="ghost" onClick={openCreateClientModal}>
-                Registrar cliente
-              </button>
-            </div>
-            <div className="hero-highlight-row">
-              {facts.map((fact) => (
-                <div className="hero-highlight" key={fact.label}>
-                  <p className="fact-label">{fact.label}</p>
-                  <p className="fact-value">{fact.value}</p>
-                  <p className="fact-detail">{fact.detail}</p>
-                </div>
-              ))}
-            </div>
-          </div>
-          <div className="hero-banner-right">
-            <div className="glass-card">
-              <p className="eyebrow">Entregas pendentes</p>
-              <ul>
-                {nextDeliveries.length === 0 && <li>Sem entregas pendentes.</li>}
-                {nextDeliveries.map((delivery) => {
-                  const client = clients.find((clientItem) => clientItem.id === delivery.clientId)
-                  const itemNames = delivery.items
-                    .map((item) => stockItems.find((stock) => stock.id === item.productId)?.name)
-                    .filter((name): name is string => Boolean(name))
-                  return (
-                    <li key={delivery.id}>
-                      <div className="delivery-head">
-                        <strong>{client?.name ?? 'Cliente'}</strong>
-                        <span className="delivery-date">
-                          {new Date(delivery.deliveryDate).toLocaleDateString('pt-BR')}
-                        </span>
-                      </div>
-                      <p>{itemNames.length ? itemNames.join(' • ') : 'Itens pendentes de vínculo'}</p>
-                    </li>
-                  )
-                })}
-              </ul>
-            </div>
-            <div className="glass-card secondary">
-              <p className="eyebrow">Índice de conversão</p>
-              <h3>{conversionRate !== null ? `${conversionRate}%` : '—'}</h3>
-              <p className="mini-note">
-                {conversionRate !== null
-                  ? 'Percentual de pedidos entregues em relação aos emitidos neste mês.'
-                  : 'Nenhuma venda registrada no período atual.'}
-              </p>
-            </div>
-          </div>
-        </section>
+  const handleDeleteClient = async (clientId: string) => {
+    if (!canDeleteClients) return
+    setClientModalError(null)
+    setClientModalLoading(true)
+    try {
+      await deleteClientRecord(clientId)
+      if (clientModalClientId === clientId) {
+        setClientModalOpen(false)
+        setClientModalClientId(null)
+      }
+    } catch (error) {
+      console.error(error)
+      const message = error instanceof Error ? error.message : 'Não foi possível remover o cliente.'
+      if (clientModalOpen) {
+        setClientModalError(message)
+      } else {
+        window.alert(message)
+      }
+    } finally {
+      setClientModalLoading(false)
+    }
+  }
 
-        <section className="panel goal-panel">
-          <div className="goal-progress">
-            <div className="section-head goal-head">
-              <div>
-                <p className="eyebrow">Meta do mês</p>
-                <h2>
-                  {goalMonthLabel.charAt(0).toUpperCase() + goalMonthLabel.slice(1)} · {currentYear}
-                </h2>
-              </div>
-              {monthlyGoalLoading && <span className="chip ghost">Atualizando…</span>}
-            </div>
-            {monthlyGoalError && <p className="login-error">{monthlyGoalError}</p>}
-            <p className="goal-values">
-              {formatCurrency(goalProgress)} de {goalTarget ? formatCurrency(goalTarget) : 'R$ 0,00'}
-            </p>
-            <div className="goal-bar">
-              <span style={{ width: `${goalPercent}%` }} />
-            </div>
-            <p className="goal-percent">
-              {goalTarget > 0 ? `${goalPercent}% atingido` : 'Defina a meta para este mês.'}
-            </p>
-          </div>
-          {isAdmin && (
-            <form className="goal-form" onSubmit={handleSaveMonthlyGoal}>
-              <label>
-                Meta mensal (R$)
-                <NumericFormat
-                  value={monthlyGoalFormValue === 0 ? '' : monthlyGoalFormValue}
-                  thousandSeparator="."
-                  decimalSeparator=","
-                  decimalScale={2}
-                  fixedDecimalScale
-                  allowNegative={false}
-                  inputMode="decimal"
-                  placeholder="0,00"
-                  onValueChange={({ floatValue }) => setMonthlyGoalFormValue(floatValue ?? 0)}
-                />
-              </label>
-              <div className="goal-form-actions">
-                <button className="primary" type="submit" disabled={monthlyGoalSaving}>
-                  {monthlyGoalSaving ? 'Salvando...' : 'Salvar meta'}
-                </button>
-                {monthlyGoalNotice && <p className="user-notice">{monthlyGoalNotice}</p>}
-              </div>
-            </form>
-          )}
-        </section>
+  const handleRegisterSale = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    submitSaleForm('sale')
+  }
 
-        <section className="panel deep-metrics span-2">
-          <div className="metrics-grid">
-            {dashboardMetrics.map((item) => (
-              <div className="metric-card" key={item.label}>
-                <div className="metric-top">
-                  <p className="metric-label">{item.label}</p>
-                </div>
-                <p className="metric-value">{item.value}</p>
-                <p className="metric-note">{item.note}</p>
-              </div>
-            ))}
-          </div>
-          <div className="pipeline-modern">
-            <header>
-              <div>
-                <p className="eyebrow">Pipeline</p>
-                <h2>Fluxo de oportunidades</h2>
-              </div>
-              <span className="chip ghost">Baseado nas vendas registradas</span>
-            </header>
-            <div className="pipeline-columns">
-              {pipelineStages.map((stage) => (
-                <div className="pipeline-column" key={stage.name}>
-                  <div className="pipeline-column-head">
-                    <p>{stage.name}</p>
-                    <span>{stage.primary}</span>
-                  </div>
-                  <p className="stage-vibe">{stage.detail}</p>
-                  <div className="stage-progress">
-                    <span style={{ width: `${Math.min(100, stage.percent)}%` }} />
-                  </div>
-                  <div className="stage-foot">
-                    <strong>{stage.percent}%</strong>
-                    <span>do total observado</span>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-        </section>
+  // Orçamentos usam o mesmo formulário da venda, mas não conferem nem reservam estoque.
+  const submitSaleForm = async (mode: 'sale' | 'quote') => {
+    const savingQuote = mode === 'quote'
+    setSaleModalError(null)
+    if (!authToken) {
+      setSaleModalError('Sessão expirada. Faça login novamente.')
+      return
+    }
+    if (!saleForm.items.length) {
+      setSaleModalError('Adicione pelo menos um produto ao pedido.')
+      return
+    }
+    const clientExists = clients.some((client) => client.id === saleForm.clientId)
+    if (!clientExists) {
+      setSaleModalError('Cliente inválido.')
+      return
+    }
+    if (!paymentBalanced) {
+      setSaleModalError('Os pagamentos não conferem com o total do pedido.')
+      return
+    }
+    if (saleForm.payments.some((payment) => payment.amount <= 0)) {
+      setSaleModalError('Informe os valores de cada pagamento.')
+      return
+    }
 
-        <section className="panel activity-grid">
-          <div className="activity-column">
-            <header>
-              <p className="eyebrow">Vendas recentes</p>
-              <h3>Spotlight</h3>
-            </header>
-            <ul>
-              {spotlightSales.map((sale) => {
-                const client = clients.find((clientItem) => clientItem.id === sale.clientId)
-                return (
-                  <li key={sale.id}>
-                    <div>
-                      <strong>#{sale.id}</strong>
-                      <p>{client?.name ?? sale.clientName ?? 'Cliente removido'}</p>
-                    </div>
-                    <span>{formatCurrency(sale.value)}</span>
-                  </li>
-                )
-              })}
-            </ul>
-          </div>
-          <div className="activity-column secondary">
-            <header>
-              <p className="eyebrow">Insights rápidos</p>
-              <h3>Próximas ações</h3>
-            </header>
-            <ul>
-              {insightMessages.map((message, index) => (
-                <li key={index}>{message}</li>
-              ))}
-            </ul>
-          </div>
-        </section>
-      </div>
-    )
-  }
+    const weeklyPayments = saleForm.payments.filter((payment) => payment.method === 'Semanal na loja')
+    for (const weeklyPayment of weeklyPayments) {
+      const weeks = Number(weeklyPayment.weeklyWeeks ?? 0)
+      const weeklyAmount = Number(weeklyPayment.weeklyAmount ?? 0)
+      if (!weeks || weeks < 1) {
+        setSaleModalError('Informe o número de semanas do pagamento semanal.')
+        return
+      }
+      if (!weeklyAmount || weeklyAmount <= 0) {
+        setSaleModalError('Informe o valor semanal do pagamento na loja.')
+        return
+      }
+    }
 
-  const renderLogin = () => (
-    <div className="login-page">
-      <div className="login-backdrop">
-        <span className="login-aurora aurora-one" />
-        <span className="login-aurora aurora-two" />
-        <span className="login-aurora aurora-three" />
-      </div>
-      <div className="login-shell">
-        <div className="login-hero-copy">
-          <p className="eyebrow">Sonhar Conforto · Operação integrada</p>
-          <h1>Conecte-se ao painel que move sua equipe.</h1>
-          <p>
-            Dados em tempo real, estoque inteligente e entregas monitoradas com uma identidade mais leve e moderna.
-            Sem temas sazonais — apenas o foco no que importa: produtividade.
-          </p>
-          <div className="login-hero-visual">
-            <span className="login-orbit orbit-one" />
-            <span className="login-orbit orbit-two" />
-            <span className="login-orbit orbit-three" />
-            <div className="login-hero-stat primary">
-              <p className="eyebrow">Disponibilidade</p>
-              <strong>99,96%</strong>
-              <span>Infra monitorada 24/7</span>
-            </div>
-            <div className="login-hero-stat secondary">
-              <p className="eyebrow">Atualizações</p>
-              <strong>+48</strong>
-              <span>Itens sincronizados hoje</span>
-            </div>
-          </div>
-        </div>
-        <div className="login-card">
-          <div className="login-card-inner">
-            <p className="eyebrow">Acesse sua conta</p>
-            <h2>Entre para continuar</h2>
-            <form className="login-form" onSubmit={handleLogin}>
-              <label>
-                E-mail corporativo
-                <input
-                  type="email"
-                  value={loginEmail}
-                  onChange={(event) => setLoginEmail(event.target.value)}
-                  placeholder="nome@empresa.com"
-                  required
-                />
-              </label>
-              <label>
-                Senha
-                <input
-                  type="password"
-                  value={loginPassword}
-                  onChange={(event) => setLoginPassword(event.target.value)}
-                  placeholder="••••••••"
-                  required
-                />
-              </label>
-              {loginError && <p className="login-error">{loginError}</p>}
-              <button className="primary full-width" type="submit">
-                Entrar no CRM
-              </button>
-            </form>
-            <p className="login-hint">Apenas administradores podem criar novos acessos por enquanto.</p>
-          </div>
-        </div>
-      </div>
-    </div>
-  )
-
-  const renderClients = () => {
-    const clientCities = Array.from(
-      new Set(clients.map((client) => client.addressCity || 'Sem cidade')),
-    ).filter(Boolean)
-    const purchasesByClient = sales.reduce<Record<string, number>>((acc, sale) => {
-      acc[sale.clientId] = (acc[sale.clientId] ?? 0) + 1
-      return acc
-    }, {})
-    const filteredClients = clients
-      .filter((client) => {
-        const term = clientSearch.toLowerCase().trim()
-        if (!term) return true
-        const haystack = [
-          client.name ?? '',
-          client.phone ?? '',
-          client.cpf ?? '',
-          client.addressCity ?? '',
-          client.addressNeighborhood ?? '',
-        ]
-        return haystack.some((field) => field.toLowerCase().includes(term))
-      })
-      .filter((client) => {
-        const purchases = purchasesByClient[client.id] ?? 0
-        if (clientFilter === 'withSales') return purchases > 0
-        if (clientFilter === 'withoutSales') return purchases === 0
-        return true
-      })
-      .filter((client) => {
-        const createdDate = client.createdAt.slice(0, 10)
-        if (clientDateStart && createdDate < clientDateStart) return false
-        if (clientDateEnd && createdDate > clientDateEnd) return false
-        if (clientCityFilter !== 'all') {
-          const city = client.addressCity || 'Sem cidade'
-          return city === clientCityFilter
+    const quantityCheck: Record<string, number> = {}
+    type SaleItemPayload =
+      | {
+          kind: 'product'
+          productId: string
+          quantity: number
+          unitPrice: number
+          discount: number
         }
-        return true
+      | {
+          kind: 'custom'
+          customName: string
+          quantity: number
+          unitPrice: number
+          discount: number
+        }
+    const saleItems: SaleItemPayload[] = []
+    for (const item of saleForm.items) {
+      if (!item.quantity || item.quantity <= 0) {
+        setSaleModalError('Itens inválidos. Verifique as quantidades.')
+        return
+      }
+      if (item.isCustom || !item.productId) {
+        const customLabel = item.customName?.trim() ?? ''
+        if (customLabel.length < 3) {
+          setSaleModalError('Descreva o item personalizado.')
+          return
+        }
+        if (item.unitPrice <= 0) {
+          setSaleModalError('Informe o valor dos itens personalizados.')
+          return
+        }
+        saleItems.push({
+          kind: 'custom',
+          customName: customLabel,
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          discount: item.discount,
+        })
+        continue
+      }
+      const product = stockItems.find((stockItem) => stockItem.id === item.productId)
+      if (!product) {
+        setSaleModalError('Produto inválido. Atualize o estoque antes de vender.')
+        return
+      }
+      saleItems.push({
+        kind: 'product',
+        productId: item.productId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discount: item.discount,
       })
+      quantityCheck[item.productId] = (quantityCheck[item.productId] ?? 0) + item.quantity
+    }
 
-    return (
-      <div className="page-stack">
-        <section className="panel client-toolbar">
-          <p className="eyebrow">Clientes</p>
-          <h2>Pesquise e cadastre clientes</h2>
-          <p className="hero-sub">Use a busca para encontrar rapidamente ou cadastre um novo cliente no botão.</p>
-          <div className="client-search-bar">
-            <input
-              placeholder="Pesquisar por nome ou telefone"
-              value={clientSearch}
-              onChange={(event) => setClientSearch(event.target.value)}
-            />
-            <button className="primary" type="button" onClick={openCreateClientModal} disabled={!canRegisterClients}>
-              Cadastrar cliente
-            </button>
-          </div>
-          <div className="filter-pills">
-            {(
-              [
-                { id: 'all', label: 'Todos' },
-                { id: 'withSales', label: 'Com vendas' },
-                { id: 'withoutSales', label: 'Sem vendas' },
-              ] as const
-            ).map((filter) => (
-              <button
-                type="button"
-                key={filter.id}
-                className={clientFilter === filter.id ? 'active' : ''}
-                onClick={() => setClientFilter(filter.id)}
-              >
-                {filter.label}
-              </button>
-            ))}
-          </div>
-          <div className="filter-row">
-            <label>
-              Desde
-              <input type="date" value={clientDateStart} onChange={(event) => setClientDateStart(event.target.value)} />
-            </label>
-            <label>
-              Até
-              <input type="date" value={clientDateEnd} onChange={(event) => setClientDateEnd(event.target.value)} />
-            </label>
-            <label>
-              Cidade
-              <select value={clientCityFilter} onChange={(event) => setClientCityFilter(event.target.value)}>
-                <option value="all">Todas</option>
-                {clientCities.map((city) => (
-                  <option key={city} value={city}>
-                    {city}
-                  </option>
-                ))}
-              </select>
-            </label>
-          </div>
-        </section>
+    if (savingQuote && !quoteValidUntil) {
+      setSaleModalError('Informe a validade do orçamento.')
+      return
+    }
 
-        <section className="panel">
-          <div className="section-head">
-            <div>
-              <p className="eyebrow">Clientes</p>
-              <h2>Lista ativa</h2>
-            </div>
-            <span className="chip ghost">{filteredClients.length} encontrados</span>
-          </div>
-          <div className="client-list">
-            {clientsLoading && <p className="empty-state">Carregando clientes...</p>}
-            {!clientsLoading && clientFetchError && <p className="empty-state">{clientFetchError}</p>}
-            {!clientsLoading && !clientFetchError && filteredClients.length === 0 && (
-              <p className="empty-state">Nenhum cliente encontrado com os filtros atuais.</p>
-            )}
-            {!clientsLoading && !clientFetchError && filteredClients.map((client) => {
-              const purchases = purchasesByClient[client.id] ?? 0
-              const initials = client.name
-                .split(' ')
-                .map((chunk) => chunk[0])
-                .join('')
-                .slice(0, 2)
-                .toUpperCase()
-              const expanded = expandedClientId === client.id
-              return (
-                <div className={`client-card${expanded ? ' expanded' : ''}`} key={client.id}>
-                  <button
-                    type="button"
-                    className="client-summary"
-                    onClick={() => setExpandedClientId((prev) => (prev === client.id ? null : client.id))}
-                  >
-                    <div className="client-avatar">{initials}</div>
-                    <div className="client-summary-text">
-                      <p className="client-name">{client.name}</p>
-                      <p className="client-summary-meta">
-                        {client.phone || 'Sem contato'} · {purchases} vendas
-                      </p>
-                    </div>
-                    <span className="client-summary-highlight">{client.addressCity || 'Cidade'}</span>
-                    <span className={`client-chevron${expanded ? ' open' : ''}`} aria-hidden="true">
-                      <svg viewBox="0 0 20 20" fill="none">
-                        <path d="M5 8l5 5 5-5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
-                      </svg>
-                    </span>
+    for (const [productId, qty] of Object.entries(savingQuote ? {} : quantityCheck)) {
+      const product = stockItems.find((stockItem) => stockItem.id === productId)
+      if (!product) {
+        setSaleModalError('Produto inválido. Atualize o estoque antes de vender.')
+        return
+      }
+      const reservedBySale =
+        editingSale?.items
+          .filter((saleItem) => saleItem.productId === productId)
+          .reduce((sum, saleItem) => sum + saleItem.quantity, 0) ?? 0
+      const availableQuantity = product.quantity + reservedBySale
+      if (availableQuantity < qty) {
+        setSaleModalError('Estoque insuficiente para concluir o pedido.')
+        return
+      }
+    }
+
+    const payload = {
+      clientId: saleForm.clientId,
+      items: saleItems.map((item) => ({
+        productId: item.kind === 'product' ? item.productId : undefined,
+        customName: item.kind === 'custom' ? item.customName : undefined,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discount: item.discount,
+      })),
+      payments: saleForm.payments.map((payment) => ({
+        method: payment.method,
+        amount: payment.amount,
+        installments: payment.installments,
+        weeklyWeeks: payment.method === 'Semanal na loja' ? payment.weeklyWeeks : undefined,
+        weeklyAmount: payment.method === 'Semanal na loja' ? payment.weeklyAmount : undefined,
+      })),
+      note: saleForm.note.trim(),
+      discount: normalizedDiscount,
+      deliveryDate: saleForm.deliveryDate ? new Date(saleForm.deliveryDate).toISOString() : undefined,
+    }
+
+    setSaleModalLoading(true)
+    if (savingQuote) {
+      try {
+        const response = await fetch(`${API_BASE_URL}/quotes`, {
+          method: 'POST',
+          headers: getAuthHeaders(),
+          body: JSON.stringify({ ...payload, validUntil: quoteValidUntil }),
+        })
+        if (!response.ok) {
+          const errorBody = await response.json().catch(() => null)
+          throw new Error(errorBody?.message ?? 'Não foi possível salvar o orçamento.')
+        }
+        const createdQuote = normalizeQuote(await response.json())
+        setQuotes((prev) => [createdQuote, ...prev])
+        setSaleForm(createSaleFormState(clients))
+        closeSaleModal()
+        openQuoteReceipt(createdQuote)
+      } catch (error) {
+        console.error(error)
+        setSaleModalError(error instanceof Error ? error.message : 'Erro ao salvar o orçamento.')
+      } finally {
+        setSaleModalLoading(false)
+      }
+      return
+    }
+    try {
+      const endpoint = editingSale
+        ? `${API_BASE_URL}/sales/${editingSale.backendId ?? editingSale.id}`
+        : `${API_BASE_URL}/sales`
+      const response = await fetch(endpoint, {
+        method: editingSale ? 'PUT' : 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(payload),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(
+          errorBody?.message ??
+            (editingSale ? 'Não foi possível atualizar a venda.' : 'Não foi possível registrar a venda.'),
+        )
+      }
+      const createdSale = normalizeSale(await response.json())
+      if (editingSale) {
+        replaceSale(editingSale.id, createdSale)
+        setEditingSale(null)
+      } else {
+        setSales((prev) => [createdSale, ...prev])
+        setClients((prev) =>
+          prev.map((client) =>
+            client.id === createdSale.clientId ? { ...client, purchases: client.purchases + 1 } : client,
+          ),
+        )
+        setStockItems((prev) =>
+          prev.map((item) => {
+            const qty = quantityCheck[item.id]
+            if (!qty) return item
+            return { ...item, quantity: item.quantity - qty, reserved: item.reserved + qty }
+          }),
+        )
+        setLastReceiptId(createdSale.id)
+      }
+      await fetchStockFromApi()
+      await fetchStockMovementsFromApi()
+      await fetchSalesFromApi()
+      await fetchSalePage(null)
+      setSaleForm(createSaleFormState(clients))
+      setSaleDraftId(generateSaleId())
+      closeSaleModal()
+    } catch (error) {
+      console.error(error)
+      setSaleModalError(error instanceof Error ? error.message : 'Erro ao salvar a venda.')
+    } finally {
+      setSaleModalLoading(false)
+    }
+  }
+
+  const handleConvertQuote = async (quote: Quote) => {
+    if (!authToken) {
+      window.alert('Sessão expirada. Faça login novamente.')
+      return
+    }
+    if (!window.confirm(`Converter o orçamento ${quote.id} em venda? O estoque será reservado agora.`)) return
+    try {
+      const response = await fetch(`${API_BASE_URL}/quotes/${quote.backendId}/convert`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({}),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível converter o orçamento.')
+      }
+      const createdSale = normalizeSale(await response.json())
+      setSales((prev) => [createdSale, ...prev])
+      setClients((prev) =>
+        prev.map((client) =>
+          client.id === createdSale.clientId ? { ...client, purchases: client.purchases + 1 } : client,
+        ),
+      )
+      setLastReceiptId(createdSale.id)
+      await fetchStockFromApi()
+      await fetchQuotesFromApi()
+      await fetchSalePage(null)
+    } catch (error) {
+      console.error(error)
+      window.alert(error instanceof Error ? error.message : 'Erro ao converter o orçamento.')
+    }
+  }
+
+  const handleCancelQuote = async (quote: Quote) => {
+    if (!authToken) {
+      window.alert('Sessão expirada. Faça login novamente.')
+      return
+    }
+    if (!window.confirm(`Cancelar o orçamento ${quote.id}?`)) return
+    try {
+      const response = await fetch(`${API_BASE_URL}/quotes/${quote.backendId}/cancel`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível cancelar o orçamento.')
+      }
+      const updatedQuote = normalizeQuote(await response.json())
+      setQuotes((prev) => prev.map((item) => (item.backendId === quote.backendId ? updatedQuote : item)))
+    } catch (error) {
+      console.error(error)
+      window.alert(error instanceof Error ? error.message : 'Erro ao cancelar o orçamento.')
+    }
+  }
+
+  const openConfirmDelivery = (sale: Sale, redirect?: PageId) => {
+    setConfirmDeliveryState({
+      sale,
+      redirect,
+      quantities: sale.items.reduce<Record<string, number>>((acc, item) => {
+        if (item.id) acc[item.id] = getRemainingQuantity(item)
+        return acc
+      }, {}),
+      deliveredAt: new Date().toISOString().slice(0, 10),
+    })
+  }
+
+  const handleMarkDelivered = async (saleId: string, quantities?: Record<string, number>, deliveredAt?: string) => {
+    const sale = findSale(saleId)
+    if (!sale) return
+    if (!authToken) {
+      window.alert('Sessão expirada. Faça login novamente.')
+      return
+    }
+    const backendId = sale.backendId ?? saleId
+    const deliveredItems = quantities
+      ? Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([itemId, quantity]) => ({ itemId, quantity }))
+      : undefined
+    if (deliveredItems && deliveredItems.length === 0) {
+      window.alert('Informe ao menos um item entregue.')
+      return
+    }
+    try {
+      const response = await fetch(`${API_BASE_URL}/sales/${backendId}/confirm-delivery`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ items: deliveredItems, deliveredAt }),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível confirmar a entrega.')
+      }
+      const updatedSale = normalizeSale(await response.json())
+      replaceSale(saleId, updatedSale)
+      setStockItems((prev) =>
+        prev.map((item) => {
+          const reservedQty = sale.items
+            .filter((saleItem) => saleItem.productId === item.id)
+            .reduce(
+              (sum, saleItem) =>
+                sum +
+                (quantities && saleItem.id ? (quantities[saleItem.id] ?? 0) : getRemainingQuantity(saleItem)),
+              0,
+            )
+          if (!reservedQty) return item
+          return { ...item, reserved: Math.max(0, item.reserved - reservedQty) }
+        }),
+      )
+      await fetchStockFromApi()
+    } catch (error) {
+      console.error(error)
+      window.alert(error instanceof Error ? error.message : 'Erro ao confirmar entrega.')
+    }
+  }
+
+  const handleCancelSale = async (sale: Sale) => {
+    if (!isAdmin) return
+    if (!authToken) {
+      window.alert('Sessão expirada. Faça login novamente.')
+      return
+    }
+    if (sale.status === 'entregue' || sale.status === 'parcialmente_entregue') {
+      window.alert('Não é possível cancelar um pedido já entregue.')
+      return
+    }
+    if (sale.status === 'cancelada') return
+    const confirm = window.confirm(`Deseja cancelar o pedido ${sale.id}?`)
+    if (!confirm) return
+    const backendId = sale.backendId ?? sale.id
+    try {
+      const response = await fetch(`${API_BASE_URL}/sales/${backendId}/cancel`, {
+        method: 'POST',
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível cancelar o pedido.')
+      }
+      const updatedSale = normalizeSale(await response.json())
+      replaceSale(sale.id, updatedSale)
+      setConfirmDeliveryState((prev) => (prev && prev.sale.id === sale.id ? null : prev))
+      await fetchStockFromApi()
+      await fetchSalesFromApi()
+    } catch (error) {
+      console.error(error)
+      window.alert(error instanceof Error ? error.message : 'Erro ao cancelar o pedido.')
+    }
+  }
+
+  const openReturnModal = (sale: Sale) => {
+    setReturnSubmitError(null)
+    setReturnForm({
+      sale,
+      type: 'devolucao',
+      quantities: {},
+      replacementProductId: '',
+      replacementQuantity: 1,
+      replacementUnitPrice: 0,
+      method: 'Dinheiro',
+      reason: '',
+    })
+  }
+
+  const handleRegisterReturn = async () => {
+    if (!returnForm || !isAdmin) return
+    if (!authToken) {
+      window.alert('Sessão expirada. Faça login novamente.')
+      return
+    }
+    const items = Object.entries(returnForm.quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([itemId, quantity]) => ({ itemId, quantity }))
+    if (!items.length) {
+      setReturnSubmitError('Informe ao menos um item devolvido.')
+      return
+    }
+    if (returnForm.type === 'troca' && !returnForm.replacementProductId) {
+      setReturnSubmitError('Selecione o produto entregue na troca.')
+      return
+    }
+    const { sale } = returnForm
+    setReturnSubmitLoading(true)
+    setReturnSubmitError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/sales/${sale.backendId ?? sale.id}/returns`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          type: returnForm.type,
+          items,
+          replacement:
+            returnForm.type === 'troca'
+              ? {
+                  productId: returnForm.replacementProductId,
+                  quantity: returnForm.replacementQuantity,
+                  unitPrice: returnForm.replacementUnitPrice,
+                }
+              : undefined,
+          method: returnForm.method,
+          reason: returnForm.reason.trim() || undefined,
+        }),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível registrar a troca/devolução.')
+      }
+      const updatedSale = normalizeSale(await response.json())
+      replaceSale(sale.id, updatedSale)
+      setReturnForm(null)
+      await fetchStockFromApi()
+    } catch (error) {
+      console.error(error)
+      setReturnSubmitError(error instanceof Error ? error.message : 'Erro ao registrar a troca/devolução.')
+    } finally {
+      setReturnSubmitLoading(false)
+    }
+  }
+
+  const handleApproveSale = async (sale: Sale) => {
+    if (!isAdmin || !sale.requiresApproval) return
+    if (!authToken) {
+      window.alert('Sessão expirada. Faça login novamente.')
+      return
+    }
+    const backendId = sale.backendId ?? sale.id
+    // Itens personalizados precisam do custo de fábrica para entrarem no relatório de margem.
+    const costs: { itemId: string; unitCost: number }[] = []
+    for (const item of sale.items.filter((saleItem) => saleItem.isCustom && saleItem.id)) {
+      const answer = window.prompt(`Custo de fábrica unitário de "${item.productName || 'Item personalizado'}" (R$):`)
+      if (answer === null) return
+      const unitCost = Number(answer.replace(/\./g, '').replace(',', '.'))
+      if (!answer.trim() || Number.isNaN(unitCost) || unitCost < 0) {
+        window.alert('Informe um custo válido para aprovar o pedido.')
+        return
+      }
+      costs.push({ itemId: item.id as string, unitCost })
+    }
+    try {
+      const response = await fetch(`${API_BASE_URL}/sales/${backendId}/approve`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ costs }),
+      })
+      if (!response.ok) {
+        const payload = await response.json().catch(() => ({}))
+        throw new Error(payload?.message ?? 'Não foi possível aprovar este pedido.')
+      }
+      const updatedSale = normalizeSale(await response.json())
+      replaceSale(sale.id, updatedSale)
+    } catch (error) {
+      console.error(error)
+      window.alert(error instanceof Error ? error.message : 'Erro ao aprovar pedido.')
+    }
+  }
+
+  const updateWeeklyPayment = async (saleId: string, paymentId: string, week: number, paidAmount: number) => {
+    const sale = findSale(saleId)
+    if (!sale) return
+    if (!authToken) {
+      window.alert('Sessão expirada. Faça login novamente.')
+      return
+    }
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/sales/${sale.backendId ?? saleId}/payments/${paymentId}/installments/${week}`,
+        {
+          method: 'PUT',
+          headers: getAuthHeaders(),
+          body: JSON.stringify({ paidAmount }),
+        },
+      )
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível registrar o pagamento semanal.')
+      }
+      const updatedSale = normalizeSale(await response.json())
+      replaceSale(saleId, updatedSale)
+    } catch (error) {
+      console.error(error)
+      window.alert(error instanceof Error ? error.message : 'Erro ao registrar pagamento semanal.')
+    }
+  }
+
+  const handleRegisterReceivable = async () => {
+    if (!receivableReceipt || !isAdmin) return
+    if (!authToken) {
+      window.alert('Sessão expirada. Faça login novamente.')
+      return
+    }
+    if (receivableReceipt.amount <= 0) {
+      setReceivableReceiptError('Informe o valor recebido.')
+      return
+    }
+    setReceivableReceiptLoading(true)
+    setReceivableReceiptError(null)
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/finance/receivables/${receivableReceipt.payment.paymentId}/receipts`,
+        {
+          method: 'POST',
+          headers: getAuthHeaders(),
+          body: JSON.stringify({ amount: receivableReceipt.amount }),
+        },
+      )
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível registrar o recebimento.')
+      }
+      setReceivableReceipt(null)
+      await fetchSalesFromApi()
+    } catch (error) {
+      console.error(error)
+      setReceivableReceiptError(error instanceof Error ? error.message : 'Erro ao registrar recebimento.')
+    } finally {
+      setReceivableReceiptLoading(false)
+    }
+  }
+
+  const handleCreateExpense = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    setExpenseSubmitError(null)
+    if (!authToken) {
+      setExpenseSubmitError('Sessão expirada. Faça login novamente.')
+      return
+    }
+    const description = expenseForm.description.trim()
+    const amountNumber = Number(expenseForm.amount)
+    if (!description) {
+      setExpenseSubmitError('Descreva o que foi pago.')
+      return
+    }
+    if (!amountNumber || amountNumber <= 0) {
+      setExpenseSubmitError('Informe o valor da saída.')
+      return
+    }
+    setExpenseSubmitLoading(true)
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/finance/expenses${editingExpenseId ? `/${editingExpenseId}` : ''}`,
+        {
+          method: editingExpenseId ? 'PUT' : 'POST',
+          headers: getAuthHeaders(),
+          body: JSON.stringify({
+            description,
+            amount: amountNumber,
+            date: new Date(expenseForm.date).toISOString(),
+            method: expenseForm.method,
+            categoryId: expenseForm.categoryId || null,
+            note: expenseForm.note.trim() || undefined,
+          }),
+        },
+      )
+      if (!response.ok) {
+        let message = 'Não foi possível registrar a saída financeira.'
+        try {
+          const payload = await response.json()
+          if (payload?.message) message = payload.message
+        } catch {
+          // ignore parse errors
+        }
+        throw new Error(message)
+      }
+      setExpenseForm({
+        description: '',
+        amount: '',
+        date: new Date().toISOString().slice(0, 10),
+        method: expenseForm.method,
+        categoryId: expenseForm.categoryId,
+        note: '',
+      })
+      setEditingExpenseId(null)
+      await Promise.all([fetchFinanceExpensesFromApi(), fetchFinanceSummaryFromApi(), fetchCashSessionsFromApi()])
+    } catch (error) {
+      console.error(error)
+      setExpenseSubmitError(error instanceof Error ? error.message : 'Erro ao cadastrar saída.')
+    } finally {
+      setExpenseSubmitLoading(false)
+    }
+  }
+
+  const handleEditExpense = (expense: FinanceExpense) => {
+    setExpenseSubmitError(null)
+    setEditingExpenseId(expense.id)
+    setExpenseForm({
+      description: expense.description,
+      amount: String(expense.amount),
+      date: expense.date.slice(0, 10),
+      method: expense.method,
+      categoryId: expense.categoryId ?? '',
+      note: expense.note,
+    })
+  }
+
+  const handleCancelExpenseEdit = () => {
+    setEditingExpenseId(null)
+    setExpenseSubmitError(null)
+    setExpenseForm((prev) => ({
+      ...prev,
+      description: '',
+      amount: '',
+      date: new Date().toISOString().slice(0, 10),
+      categoryId: '',
+      note: '',
+    }))
+  }
+
+  const handleDeleteExpense = async (expense: FinanceExpense) => {
+    if (!window.confirm(`Excluir a saída "${expense.description}"?`)) return
+    setExpenseSubmitError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/expenses/${expense.id}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok && response.status !== 204) {
+        const payload = await response.json().catch(() => ({}))
+        throw new Error(payload?.message ?? 'Não foi possível excluir a saída.')
+      }
+      if (editingExpenseId === expense.id) handleCancelExpenseEdit()
+      await Promise.all([fetchFinanceExpensesFromApi(), fetchFinanceSummaryFromApi(), fetchCashSessionsFromApi()])
+    } catch (error) {
+      console.error(error)
+      setExpenseSubmitError(error instanceof Error ? error.message : 'Erro ao excluir saída.')
+    }
+  }
+
+  const sendExpenseSetupRequest = async (path: string, method: string, body?: unknown) => {
+    setExpenseSetupError(null)
+    setExpenseSetupSaving(true)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/${path}`, {
+        method,
+        headers: getAuthHeaders(body !== undefined),
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      })
+      if (!response.ok && response.status !== 204) {
+        const payload = await response.json().catch(() => ({}))
+        throw new Error(payload?.message ?? 'Não foi possível salvar.')
+      }
+      await Promise.all([fetchExpenseSetupFromApi(), fetchFinanceExpensesFromApi(), fetchFinanceSummaryFromApi()])
+      return true
+    } catch (error) {
+      console.error(error)
+      setExpenseSetupError(error instanceof Error ? error.message : 'Erro ao salvar.')
+      return false
+    } finally {
+      setExpenseSetupSaving(false)
+    }
+  }
+
+  const handleCreateExpenseCategory = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const name = expenseCategoryName.trim()
+    if (!name) {
+      setExpenseSetupError('Informe o nome da categoria.')
+      return
+    }
+    if (await sendExpenseSetupRequest('expense-categories', 'POST', { name })) {
+      setExpenseCategoryName('')
+    }
+  }
+
+  const handleDeleteExpenseCategory = async (category: ExpenseCategory) => {
+    if (!window.confirm(`Excluir a categoria "${category.name}"? As saídas ficam sem categoria.`)) return
+    await sendExpenseSetupRequest(`expense-categories/${category.id}`, 'DELETE')
+  }
+
+  const handleCreateExpenseRecurrence = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    const form = expenseRecurrenceForm
+    if (!form.description.trim()) {
+      setExpenseSetupError('Descreva a despesa recorrente.')
+      return
+    }
+    if (!form.amount || form.amount <= 0) {
+      setExpenseSetupError('Informe o valor da despesa recorrente.')
+      return
+    }
+    const saved = await sendExpenseSetupRequest('expense-recurrences', 'POST', {
+      description: form.description.trim(),
+      amount: form.amount,
+      method: form.method,
+      categoryId: form.categoryId || null,
+      frequency: form.frequency,
+      startDate: form.startDate,
+      endDate: form.endDate || null,
+    })
+    if (saved) {
+      setExpenseRecurrenceForm((prev) => ({ ...prev, description: '', amount: 0, endDate: '' }))
+    }
+  }
+
+  const handleToggleExpenseRecurrence = async (recurrence: ExpenseRecurrence) => {
+    await sendExpenseSetupRequest(`expense-recurrences/${recurrence.id}`, 'PUT', {
+      description: recurrence.description,
+      amount: recurrence.amount,
+      method: recurrence.method,
+      categoryId: recurrence.categoryId,
+      note: recurrence.note || undefined,
+      frequency: recurrence.frequency,
+      startDate: recurrence.startDate,
+      endDate: recurrence.endDate,
+      active: !recurrence.active,
+    })
+  }
+
+  const handleDeleteExpenseRecurrence = async (recurrence: ExpenseRecurrence) => {
+    if (!window.confirm(`Excluir a despesa recorrente "${recurrence.description}"? Os lançamentos já gerados ficam.`)) return
+    await sendExpenseSetupRequest(`expense-recurrences/${recurrence.id}`, 'DELETE')
+  }
+
+  const handleInventoryMovement = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!canManageStock) return
+    if (!authToken) {
+      setInventorySubmitError('Sessão expirada. Faça login novamente.')
+      return
+    }
+    const amount = Number(inventoryForm.amount)
+    if (!amount || amount <= 0) {
+      setInventorySubmitError('Informe a quantidade do movimento.')
+      return
+    }
+    setInventorySubmitError(null)
+    setInventorySubmitLoading(true)
+    try {
+      if (inventoryForm.isNewProduct) {
+        if (inventoryForm.type !== 'entrada') {
+          throw new Error('Cadastrar novos produtos está disponível apenas para entradas.')
+        }
+        const name = inventoryForm.newProductName.trim()
+        if (!name) throw new Error('Informe o nome do produto.')
+        const skuFromForm = inventoryForm.newProductSku.trim()
+        const skuFallback = skuFromForm || `SKU-${Math.floor(Math.random() * 90000 + 10000)}`
+        const priceNumber = Number(inventoryForm.newProductPrice)
+        const factoryCostNumber = Number(inventoryForm.newProductFactoryCost)
+        const payload = {
+          name,
+          sku: skuFallback,
+          price: Number.isNaN(priceNumber) ? 0 : Math.max(0, priceNumber),
+          factoryCost: Number.isNaN(factoryCostNumber) ? 0 : Math.max(0, factoryCostNumber),
+          quantity: amount,
+          imageUrl: inventoryForm.newProductImage || undefined,
+          categoryId: inventoryForm.newProductCategoryId || null,
+          brand: inventoryForm.newProductBrand,
+        }
+        const response = await fetch(`${API_BASE_URL}/stock`, {
+          method: 'POST',
+          headers: getAuthHeaders(),
+          body: JSON.stringify(payload),
+        })
+        if (!response.ok) {
+          throw new Error('Não foi possível cadastrar o produto.')
+        }
+        const createdProduct = normalizeStockItem(await response.json())
+        setStockItems((prev) => [createdProduct, ...prev])
+        await fetchStockFromApi()
+        await fetchStockMovementsFromApi()
+        resetInventoryForm(createdProduct.id)
+      } else {
+        if (!inventoryForm.productId) {
+          throw new Error('Selecione um produto para movimentar.')
+        }
+        const product = stockItems.find((item) => item.id === inventoryForm.productId)
+        if (!product) {
+          throw new Error('Produto inválido.')
+        }
+        if (inventoryForm.type === 'saida' && product.quantity < amount) {
+          throw new Error('Quantidade insuficiente em estoque para saída.')
+        }
+        const response = await fetch(`${API_BASE_URL}/stock/${inventoryForm.productId}/movements`, {
+          method: 'POST',
+          headers: getAuthHeaders(),
+          body: JSON.stringify({
+            type: inventoryForm.type,
+            amount,
+            note: inventoryForm.note.trim() || undefined,
+          }),
+        })
+        if (!response.ok) {
+          throw new Error('Não foi possível registrar o movimento.')
+        }
+        await fetchStockFromApi()
+        await fetchStockMovementsFromApi()
+        resetInventoryForm(inventoryForm.productId)
+      }
+      setInventoryPanelOpen(false)
+    } catch (error) {
+      console.error(error)
+      setInventorySubmitError(error instanceof Error ? error.message : 'Erro ao registrar movimento.')
+    } finally {
+      setInventorySubmitLoading(false)
+    }
+  }
+
+  const handleAssistancePhotoUpload = (event: ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files
+    if (!files?.length) return
+    const allowed = Math.max(0, MAX_ASSISTANCE_PHOTOS - assistanceForm.photos.length)
+    if (allowed === 0) {
+      event.target.value = ''
+      return
+    }
+    Array.from(files)
+      .slice(0, allowed)
+      .forEach((file) => {
+        const reader = new FileReader()
+        reader.onloadend = () => {
+          if (typeof reader.result === 'string') {
+            setAssistanceForm((prev) => ({ ...prev, photos: [...prev.photos, reader.result as string] }))
+          }
+        }
+        reader.readAsDataURL(file)
+      })
+    event.target.value = ''
+  }
+
+  const fetchGoalPlanFromApi = useCallback(async () => {
+    if (!authToken || !isAdmin) return
+    setGoalPlanError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/goal/year?year=${goalPlanYear}`, {
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível carregar o planejamento anual.')
+      }
+      const data = await response.json()
+      const months: GoalPlanMonth[] = Array.isArray(data.months)
+        ? data.months.map((entry: any) => ({
+            month: Number(entry.month),
+            target: Number(entry.target ?? 0),
+            achieved: Number(entry.achieved ?? 0),
+          }))
+        : []
+      setGoalPlan(months)
+      setGoalPlanTotal(Math.round(months.reduce((sum, entry) => sum + entry.target, 0) * 100) / 100)
+    } catch (error) {
+      console.error(error)
+      setGoalPlan([])
+      setGoalPlanError(error instanceof Error ? error.message : 'Falha ao carregar o planejamento anual.')
+    }
+  }, [authToken, isAdmin, goalPlanYear])
+
+  useEffect(() => {
+    if (!authToken || !isAdmin || !needsFinanceData) return
+    fetchGoalPlanFromApi()
+  }, [authToken, isAdmin, needsFinanceData, fetchGoalPlanFromApi])
+
+  // Distribui o total anual pelos pesos de sazonalidade; o último mês absorve a diferença de arredondamento.
+  const handleDistributeGoalPlan = () => {
+    const weightSum = goalPlanWeights.reduce((sum, weight) => sum + Math.max(0, weight), 0)
+    if (!weightSum) return
+    let assigned = 0
+    setGoalPlan((prev) =>
+      prev.map((entry, index) => {
+        if (index === prev.length - 1) {
+          return { ...entry, target: Math.max(0, Math.round((goalPlanTotal - assigned) * 100) / 100) }
+        }
+        const target = Math.round(((goalPlanTotal * Math.max(0, goalPlanWeights[index] ?? 0)) / weightSum) * 100) / 100
+        assigned += target
+        return { ...entry, target }
+      }),
+    )
+  }
+
+  const handleSaveGoalPlan = async () => {
+    if (!authToken || !isAdmin || goalPlan.length !== 12) return
+    setGoalPlanSaving(true)
+    setGoalPlanError(null)
+    setGoalPlanNotice(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/goal/year`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ year: goalPlanYear, targets: goalPlan.map((entry) => entry.target) }),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível salvar o planejamento anual.')
+      }
+      await fetchGoalPlanFromApi()
+      if (goalMonth.year === goalPlanYear) {
+        await fetchMonthlyGoalFromApi()
+      }
+      setGoalPlanNotice('Metas do ano salvas.')
+    } catch (error) {
+      console.error(error)
+      setGoalPlanError(error instanceof Error ? error.message : 'Erro ao salvar o planejamento anual.')
+    } finally {
+      setGoalPlanSaving(false)
+    }
+  }
+
+  const shiftGoalMonth = (offset: number) => {
+    setMonthlyGoalNotice(null)
+    setGoalMonth((prev) => {
+      const date = new Date(prev.year, prev.month - 1 + offset, 1)
+      return { year: date.getFullYear(), month: date.getMonth() + 1 }
+    })
+  }
+
+  const handleRemoveAssistancePhoto = (index: number) => {
+    setAssistanceForm((prev) => ({
+      ...prev,
+      photos: prev.photos.filter((_, photoIndex) => photoIndex !== index),
+    }))
+  }
+
+  const handleSaveMonthlyGoal = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!isAdmin) return
+    setMonthlyGoalSaving(true)
+    setMonthlyGoalNotice(null)
+    setMonthlyGoalError(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/finance/goal`, {
+        method: 'PUT',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          target: monthlyGoalFormValue,
+          userId: monthlyGoalScope || null,
+          year: goalMonth.year,
+          month: goalMonth.month,
+        }),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível atualizar a meta.')
+      }
+      await fetchMonthlyGoalFromApi()
+      setMonthlyGoalNotice('Meta atualizada com sucesso.')
+    } catch (error) {
+      console.error(error)
+      setMonthlyGoalError(error instanceof Error ? error.message : 'Erro ao atualizar meta.')
+    } finally {
+      setMonthlyGoalSaving(false)
+    }
+  }
+
+  const handleRegisterAssistance = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!isAdmin) {
+      setAssistanceSubmitError('Apenas administradores podem registrar assistências.')
+      return
+    }
+    if (!assistanceForm.saleId || !assistanceForm.productId || !assistanceForm.defectDescription.trim()) {
+      setAssistanceSubmitError('Selecione venda, produto e descreva o defeito.')
+      return
+    }
+    if (assistanceForm.defectDescription.trim().length < 5) {
+      setAssistanceSubmitError('Descreva o defeito com pelo menos 5 caracteres.')
+      return
+    }
+    const selectedSale = sales.find((sale) => (sale.backendId ?? sale.id) === assistanceForm.saleId)
+    const selectedItem = selectedSale?.items.find(
+      (item, index) => getSaleItemKey(item, index) === assistanceForm.productId,
+    )
+    if (!selectedSale || !selectedItem) {
+      setAssistanceSubmitError('Selecione uma venda com itens para continuar.')
+      return
+    }
+    setAssistanceSubmitLoading(true)
+    setAssistanceSubmitError(null)
+    try {
+      const payload = {
+        saleId: selectedSale.backendId ?? selectedSale.id,
+        ...(selectedItem.productId ? { productId: selectedItem.productId } : {}),
+        defectDescription: assistanceForm.defectDescription.trim(),
+        factoryResponse: assistanceForm.factoryResponse.trim() || undefined,
+        expectedDate: assistanceForm.expectedDate ? new Date(assistanceForm.expectedDate).toISOString() : undefined,
+        ...(assistanceForm.supplierId ? { supplierId: assistanceForm.supplierId } : {}),
+        photos: assistanceForm.photos.length > 0 ? assistanceForm.photos : undefined,
+      }
+      const response = await fetch(`${API_BASE_URL}/assistances`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify(payload),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível registrar a assistência.')
+      }
+      const data = await response.json()
+      const normalized = normalizeAssistance(data)
+      setAssistances((prev) => [normalized, ...prev.filter((item) => item.id !== normalized.id)])
+      setAssistanceForm(createAssistanceFormState(sales))
+    } catch (error) {
+      console.error(error)
+      setAssistanceSubmitError(error instanceof Error ? error.message : 'Erro ao registrar assistência.')
+    } finally {
+      setAssistanceSubmitLoading(false)
+    }
+  }
+
+  const handleCompleteAssistance = async (assistanceId: string) => {
+    if (!assistanceId || !isAdmin) return
+    setAssistanceStatusLoading(true)
+    try {
+      const response = await fetch(`${API_BASE_URL}/assistances/${assistanceId}/status`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ status: 'concluida' }),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível atualizar a assistência.')
+      }
+      const data = await response.json()
+      const normalized = normalizeAssistance(data)
+      setAssistances((prev) => prev.map((item) => (item.id === normalized.id ? normalized : item)))
+      setAssistanceConfirm(null)
+    } catch (error) {
+      console.error(error)
+      setAssistancesError(error instanceof Error ? error.message : 'Falha ao atualizar assistência.')
+    } finally {
+      setAssistanceStatusLoading(false)
+    }
+  }
+
+  const handleAddUser = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!isAdmin) return
+    if (!userForm.name.trim() || !userForm.email.trim()) {
+      setUserActionError('Preencha nome e e-mail do usuário.')
+      return
+    }
+    setUserActionLoading(true)
+    setUserActionError(null)
+    setUserInviteTempPassword(null)
+    setUserManagerNotice(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/auth/invite`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({
+          name: userForm.name.trim(),
+          email: userForm.email.trim(),
+          phone: userForm.phone ? formatDigits(userForm.phone) : undefined,
+          role: userForm.role,
+        }),
+      })
+      if (!response.ok) {
+        const errorBody = await response.json().catch(() => null)
+        throw new Error(errorBody?.message ?? 'Não foi possível criar o usuário.')
+      }
+      const data = await response.json()
+      const normalized = normalizeUserFromApi(data.user)
+      setUsers((prev) => [normalized, ...prev.filter((user) => user.id !== normalized.id)])
+      setUserForm({ name: '', email: '', phone: '', role: 'seller' })
+      setUserInviteTempPassword(data.tempPassword)
+      setUserManagerNotice(`Usuário ${normalized.name} criado com sucesso.`)
+    } catch (error) {
+      console.error(error)
+      setUserActionError(error instanceof Error ? error.message : 'Erro ao criar usuário.')
+    } finally {
+      setUserActionLoading(false)
+    }
+  }
+
+  const handleDeleteUserAccount = async (userId: string) => {
+    if (!isAdmin) return
+    const target = users.find((user) => user.id === userId)
+    if (!target || target.role === 'admin') return
+    setUserActionLoading(true)
+    setUserActionError(null)
+    setUserManagerNotice(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/users/${userId}`, {
+        method: 'DELETE',
+        headers: getAuthHeaders(false),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível remover o usuário.')
+      }
+      setUsers((prev) => prev.filter((user) => user.id !== userId))
+      if (sessionUserId === userId) {
+        forceLogout()
+      }
+      setUserManagerNotice(`Usuário ${target.name} removido.`)
+    } catch (error) {
+      console.error(error)
+      setUserActionError(error instanceof Error ? error.message : 'Erro ao remover usuário.')
+    } finally {
+      setUserActionLoading(false)
+    }
+  }
+
+  const handleResetUserPassword = async (userId: string) => {
+    if (!isAdmin) return
+    setUserActionLoading(true)
+    setUserActionError(null)
+    setUserInviteTempPassword(null)
+    setUserManagerNotice(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/users/${userId}/reset-password`, {
+        method: 'POST',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({}),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível redefinir a senha.')
+      }
+      const data = await response.json()
+      setUserInviteTempPassword(data.temporaryPassword)
+      const target = users.find((user) => user.id === userId)
+      setUserManagerNotice(
+        target
+          ? `Nova senha temporária para ${target.name}: ${data.temporaryPassword}`
+          : 'Senha redefinida.',
+      )
+    } catch (error) {
+      console.error(error)
+      setUserActionError(error instanceof Error ? error.message : 'Erro ao redefinir senha.')
+    } finally {
+      setUserActionLoading(false)
+    }
+  }
+
+  const handleToggleUserActive = async (userId: string) => {
+    if (!isAdmin) return
+    const target = users.find((user) => user.id === userId)
+    if (!target) return
+    setUserActionLoading(true)
+    setUserActionError(null)
+    setUserManagerNotice(null)
+    try {
+      const response = await fetch(`${API_BASE_URL}/users/${userId}`, {
+        method: 'PATCH',
+        headers: getAuthHeaders(),
+        body: JSON.stringify({ active: !target.active }),
+      })
+      if (!response.ok) {
+        throw new Error('Não foi possível atualizar o usuário.')
+      }
+      const updated = normalizeUserFromApi(await response.json())
+      setUsers((prev) => prev.map((user) => (user.id === updated.id ? updated : user)))
+      if (updated.id === sessionUserId && !updated.active) {
+        forceLogout()
+      }
+    } catch (error) {
+      console.error(error)
+      setUserActionError(error instanceof Error ? error.message : 'Erro ao atualizar usuário.')
+    } finally {
+      setUserActionLoading(false)
+    }
+  }
+
+  const renderDashboard = () => {
+    const spotlightSales = sales.filter((sale) => sale.status !== 'cancelada' && !sale.requiresApproval).slice(0, 3)
+    const nextDeliveries = sales
+      .filter((sale) => isAwaitingDelivery(sale) && !sale.requiresApproval)
+      .sort((a, b) => a.deliveryDate.localeCompare(b.deliveryDate))
+      .slice(0, 3)
+    const nowDate = new Date()
+    const currentMonth = nowDate.getMonth()
+    const currentYear = nowDate.getFullYear()
+    const monthlyOrdersAll = sales.filter((sale) => {
+      if (sale.requiresApproval || sale.status === 'cancelada') return false
+      const saleDate = new Date(sale.createdAt)
+      return saleDate.getMonth() === currentMonth && saleDate.getFullYear() === currentYear
+    })
+    const monthlySales = monthlyOrdersAll.filter((sale) => sale.status === 'entregue')
+    const monthlyRevenue = monthlySales.reduce((sum, sale) => sum + sale.value, 0)
+    const monthlyOrders = monthlySales.length
+    const averageTicket = monthlyOrders ? monthlyRevenue / monthlyOrders : 0
+    const conversionRate = monthlyOrdersAll.length
+      ? Math.round((monthlySales.length / monthlyOrdersAll.length) * 100)
+      : null
+    const pendingOrders = sales.filter((sale) => isAwaitingDelivery(sale) && !sale.requiresApproval).length
+    const deliveredOrders = sales.filter((sale) => sale.status === 'entregue').length
+    const clientsWithSales = new Set(sales.filter((sale) => sale.status !== 'cancelada').map((sale) => sale.clientId)).size
+    const reservedStock = stockItems.reduce((sum, item) => sum + item.reserved, 0)
+    const totalStockUnits = stockItems.reduce((sum, item) => sum + item.quantity + item.reserved, 0)
+    const dashboardMetrics = [
+      {
+        label: 'Receita do mês',
+        value: formatCurrency(monthlyRevenue),
+        note: monthlyOrders ? `${monthlyOrders} pedidos emitidos` : 'Cadastre sua primeira venda',
+      },
+      {
+        label: 'Ticket médio',
+        value: formatCurrency(averageTicket || 0),
+        note: monthlyOrders ? `Base em ${monthlyOrders} pedidos` : 'Sem pedidos no mês atual',
+      },
+      {
+        label: 'Pedidos pendentes',
+        value: pendingOrders.toString(),
+        note: 'Aguardando confirmação de entrega',
+      },
+      {
+        label: 'Clientes com compras',
+        value: clientsWithSales.toString(),
+        note: `${clients.length} clientes ativos no CRM`,
+      },
+      ...(!isAdmin && myCommission
+        ? [
+            {
+              label: 'Minha comissão no mês',
+              value: formatCurrency(myCommission.total),
+              note: `${myCommission.sellers[0]?.sales.length ?? 0} vendas entregues`,
+            },
+          ]
+        : []),
+    ]
+    const pipelineStages = [
+      {
+        name: 'Pendentes',
+        primary: pendingOrders,
+        detail: 'Vendas aguardando entrega',
+        percent: sales.length ? Math.round((pendingOrders / sales.length) * 100) : 0,
+      },
+      {
+        name: 'Entregues',
+        primary: deliveredOrders,
+        detail: 'Pedidos finalizados',
+        percent: sales.length ? Math.round((deliveredOrders / sales.length) * 100) : 0,
+      },
+      {
+        name: 'Reservas de estoque',
+        primary: reservedStock,
+        detail: 'Itens comprometidos para pedidos',
+        percent: totalStockUnits ? Math.round((reservedStock / totalStockUnits) * 100) : 0,
+      },
+    ]
+    const insightMessages: string[] = []
+    if (!sales.length) {
+      insightMessages.push('Cadastre sua primeira venda para liberar indicadores financeiros.')
+    }
+    if (pendingOrders) {
+      insightMessages.push(`Há ${pendingOrders} pedidos aguardando confirmação de entrega.`)
+    }
+    const lowStock = stockItems.filter((item) => item.quantity <= 3).length
+    if (lowStock) {
+      insightMessages.push(`${lowStock} produtos estão em nível crítico de estoque.`)
+    }
+    if (!insightMessages.length) {
+      insightMessages.push('Sem pendências no momento. Continue acompanhando o painel.')
+    }
+
+    const goalSellers = monthlyGoal?.sellers ?? []
+    const myGoal = goalSellers.find((seller) => seller.userId === currentUser?.id)
+    const goalTarget = monthlyGoal?.target ?? 0
+    const viewingCurrentGoalMonth = goalMonth.year === currentYear && goalMonth.month === currentMonth + 1
+    const goalProgress = monthlyGoal?.progress ?? (viewingCurrentGoalMonth ? monthlyRevenue : 0)
+    const goalPercent =
+      goalTarget > 0 ? Math.min(100, Math.round((goalProgress / goalTarget) * 100)) : 0
+    const goalMonthLabel = new Date(goalMonth.year, goalMonth.month - 1).toLocaleDateString('pt-BR', {
+      month: 'long',
+    })
+
+    return (
+      <div className={`dashboard-grid${searchFocused ? ' search-mode' : ''}`}>
+        <div className={`global-search${searchFocused ? ' active' : ''}`}>
+          <div className="global-search-input">
+            <input
+              placeholder="Pesquisar clientes, produtos, vendas e movimentos"
+              value={globalSearch}
+              onChange={(event) => setGlobalSearch(event.target.value)}
+              onFocus={() => setSearchFocused(true)}
+              onBlur={() => {
+                if (!globalSearch) setSearchFocused(false)
+              }}
+            />
+          </div>
+          {globalSearch && (
+            <div className="global-search-results">
+              {searchResults.length === 0 && <p className="empty-state">Nenhum resultado encontrado.</p>}
+              {searchResults.map((result) => (
+                <button type="button" key={result.id} onClick={() => handleSearchNavigate(result)}>
+                  <span className="result-type">{result.type}</span>
+                  <div>
+                    <p className="result-title">{result.title}</p>
+                    <p className="result-description">{result.description}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+          {searchFocused && (
+            <div className="search-backdrop" onClick={() => { setSearchFocused(false); setGlobalSearch(''); }} />
+          )}
+        </div>
+
+        <section className="panel hero-banner">
+          <div className="hero-banner-left">
+            <p className="eyebrow">Visão estratégica</p>
+            <h1>Experiência de venda guiada e moderna</h1>
+            <p className="hero-sub">
+              Priorize ações e acompanhe indicadores críticos da loja em um único lugar.
+            </p>
+            <div className="hero-actions">
+              <button
+                type="button"
+                className="primary"
+                onClick={() => openSaleModal()}
+                disabled={!canRegisterSales || !clients.length || !stockItems.length}
+              >
+                Abrir nova venda
+              </button>
+              <button type="button" className="ghost" onClick={openCreateClientModal}>
+                Registrar cliente
+              </button>
+            </div>
+            <div className="hero-highlight-row">
+              {facts.map((fact) => (
+                <div className="hero-highlight" key={fact.label}>
+                  <p className="fact-label">{fact.label}</p>
+                  <p className="fact-value">{fact.value}</p>
+                  <p className="fact-detail">{fact.detail}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div className="hero-banner-right">
+            <div className="glass-card">
+              <p className="eyebrow">Entregas pendentes</p>
+              <ul>
+                {nextDeliveries.length === 0 && <li>Sem entregas pendentes.</li>}
+                {nextDeliveries.map((delivery) => {
+                  const client = clients.find((clientItem) => clientItem.id === delivery.clientId)
+                  const itemNames = delivery.items
+                    .map((item) => stockItems.find((stock) => stock.id === item.productId)?.name)
+                    .filter((name): name is string => Boolean(name))
+                  return (
+                    <li key={delivery.id}>
+                      <div className="delivery-head">
+                        <strong>{client?.name ?? 'Cliente'}</strong>
+                        <span className="delivery-date">
+                          {new Date(delivery.deliveryDate).toLocaleDateString('pt-BR')}
+                        </span>
+                      </div>
+                      <p>{itemNames.length ? itemNames.join(' • ') : 'Itens pendentes de vínculo'}</p>
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+            <div className="glass-card secondary">
+              <p className="eyebrow">Índice de conversão</p>
+              <h3>{conversionRate !== null ? `${conversionRate}%` : '—'}</h3>
+              <p className="mini-note">
+                {conversionRate !== null
+                  ? 'Percentual de pedidos entregues em relação aos emitidos neste mês.'
+                  : 'Nenhuma venda registrada no período atual.'}
+              </p>
+            </div>
+          </div>
+        </section>
+
+        <section className="panel goal-panel">
+          <div className="goal-progress">
+            <div className="section-head goal-head">
+              <div>
+                <p className="eyebrow">Meta do mês</p>
+                <h2>
+                  {goalMonthLabel.charAt(0).toUpperCase() + goalMonthLabel.slice(1)} · {goalMonth.year}
+                </h2>
+              </div>
+              <div className="calendar-nav">
+                {monthlyGoalLoading && <span className="chip ghost">Atualizando…</span>}
+                <button className="ghost" type="button" onClick={() => shiftGoalMonth(-1)}>
+                  Mês anterior
+                </button>
+                <button
+                  className="ghost"
+                  type="button"
+                  onClick={() => shiftGoalMonth(1)}
+                  disabled={viewingCurrentGoalMonth && !isAdmin}
+                >
+                  Próximo mês
+                </button>
+              </div>
+            </div>
+            {monthlyGoalError && <p className="login-error">{monthlyGoalError}</p>}
+            <p className="goal-values">
+              {formatCurrency(goalProgress)} de {goalTarget ? formatCurrency(goalTarget) : 'R$ 0,00'}
+            </p>
+            <div className="goal-bar">
+              <span style={{ width: `${goalPercent}%` }} />
+            </div>
+            <p className="goal-percent">
+              {goalTarget > 0 ? `${goalPercent}% atingido` : 'Defina a meta para este mês.'}
+            </p>
+          </div>
+          {isAdmin && (
+            <form className="goal-form" onSubmit={handleSaveMonthlyGoal}>
+              <label>
+                Meta de
+                <select value={monthlyGoalScope} onChange={(event) => setMonthlyGoalScope(event.target.value)}>
+                  <option value="">Loja</option>
+                  {(monthlyGoal?.sellers ?? []).map((seller) => (
+                    <option key={seller.userId} value={seller.userId}>
+                      {seller.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Meta mensal (R$)
+                <NumericFormat
+                  value={monthlyGoalFormValue === 0 ? '' : monthlyGoalFormValue}
+                  thousandSeparator="."
+                  decimalSeparator=","
+                  decimalScale={2}
+                  fixedDecimalScale
+                  allowNegative={false}
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  onValueChange={({ floatValue }) => setMonthlyGoalFormValue(floatValue ?? 0)}
+                />
+              </label>
+              <div className="goal-form-actions">
+                <button className="primary" type="submit" disabled={monthlyGoalSaving}>
+                  {monthlyGoalSaving ? 'Salvando...' : 'Salvar meta'}
+                </button>
+                {monthlyGoalNotice && <p className="user-notice">{monthlyGoalNotice}</p>}
+              </div>
+            </form>
+          )}
+        </section>
+
+        <section className="panel goal-ranking">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">{viewingCurrentGoalMonth ? 'Ranking do mês' : `Ranking de ${String(goalMonth.month).padStart(2, '0')}/${goalMonth.year}`}</p>
+              <h2>Vendedores</h2>
+            </div>
+            {myGoal && (
+              <span className="chip ghost">
+                Você está em {myGoal.position}º de {monthlyGoal?.sellerCount ?? goalSellers.length}
+              </span>
+            )}
+          </div>
+          <ol className="goal-ranking-list">
+            {goalSellers.map((seller) => (
+              <li key={seller.userId} className={seller.userId === currentUser?.id ? 'current' : ''}>
+                <span className="goal-ranking-position">{seller.position}º</span>
+                <div>
+                  <strong>{seller.name}</strong>
+                  <div className="goal-bar">
+                    <span style={{ width: `${Math.min(100, seller.percent)}%` }} />
+                  </div>
+                </div>
+                <span>
+                  {formatCurrency(seller.progress)}
+                  {seller.target > 0 && ` · ${seller.percent}% de ${formatCurrency(seller.target)}`}
+                </span>
+              </li>
+            ))}
+            {!goalSellers.length && <p className="empty-state mini">Nenhum vendedor com meta ou vendas no mês.</p>}
+          </ol>
+          {goalHistory.length > 0 && (
+            <div className="goal-history">
+              <p className="field-label">Meses anteriores</p>
+              {goalHistory.map((entry) => {
+                const ownEntry = isAdmin ? null : entry.sellers[0]
+                const target = ownEntry ? ownEntry.target : entry.target
+                const achieved = ownEntry ? ownEntry.achieved : entry.achieved
+                return (
+                  <p key={`${entry.year}-${entry.month}`}>
+                    {String(entry.month).padStart(2, '0')}/{entry.year}: {formatCurrency(achieved)}
+                    {target > 0 ? ` de ${formatCurrency(target)} (${Math.round((achieved / target) * 100)}%)` : ' · sem meta'}
+                    {ownEntry && ` · ${ownEntry.position}º lugar`}
+                  </p>
+                )
+              })}
+            </div>
+          )}
+        </section>
+
+        <section className="panel deep-metrics span-2">
+          <div className="metrics-grid">
+            {dashboardMetrics.map((item) => (
+              <div className="metric-card" key={item.label}>
+                <div className="metric-top">
+                  <p className="metric-label">{item.label}</p>
+                </div>
+                <p className="metric-value">{item.value}</p>
+                <p className="metric-note">{item.note}</p>
+              </div>
+            ))}
+          </div>
+          <div className="pipeline-modern">
+            <header>
+              <div>
+                <p className="eyebrow">Pipeline</p>
+                <h2>Fluxo de oportunidades</h2>
+              </div>
+              <span className="chip ghost">Baseado nas vendas registradas</span>
+            </header>
+            <div className="pipeline-columns">
+              {pipelineStages.map((stage) => (
+                <div className="pipeline-column" key={stage.name}>
+                  <div className="pipeline-column-head">
+                    <p>{stage.name}</p>
+                    <span>{stage.primary}</span>
+                  </div>
+                  <p className="stage-vibe">{stage.detail}</p>
+                  <div className="stage-progress">
+                    <span style={{ width: `${Math.min(100, stage.percent)}%` }} />
+                  </div>
+                  <div className="stage-foot">
+                    <strong>{stage.percent}%</strong>
+                    <span>do total observado</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </section>
+
+        {isAdmin && (reorderSuggestions.length > 0 || reorderError) && (
+          <section className="panel span-2">
+            <div className="section-head">
+              <div>
+                <p className="eyebrow">Estoque baixo</p>
+                <h2>Sugestões de reposição</h2>
+              </div>
+              <div className="section-actions">
+                {reorderError && <span className="chip alert">{reorderError}</span>}
+                <span className="chip ghost">
+                  {reorderSuggestions.filter((suggestion) => suggestion.available === 0).length} esgotados
+                </span>
+                <button
+                  className="primary"
+                  type="button"
+                  onClick={handleBuildReorderDraft}
+                  disabled={!reorderSuggestions.length}
+                >
+                  Montar lista de compra
+                </button>
+              </div>
+            </div>
+            <div className="finance-table">
+              {reorderSuggestions.slice(0, 5).map((suggestion) => (
+                <div className="finance-row" key={suggestion.productId}>
+                  <div>
+                    <p className="sale-id">{suggestion.name}</p>
+                    <p className="hero-sub">
+                      {suggestion.supplierName ?? 'Sem fornecedor'} · SKU {suggestion.sku}
+                    </p>
+                  </div>
+                  <div>
+                    <span>Disponível</span>
+                    <strong>
+                      {suggestion.available}
+                      {suggestion.reserved > 0 && ` · ${suggestion.reserved} reservados`}
+                    </strong>
+                  </div>
+                  <div>
+                    <span>Giro</span>
+                    <strong>
+                      {suggestion.dailyVelocity.toLocaleString('pt-BR')}/dia
+                      {suggestion.daysOfCover !== null && ` · ${suggestion.daysOfCover} dias`}
+                    </strong>
+                  </div>
+                  <div>
+                    <span>Comprar</span>
+                    <strong>
+                      {suggestion.suggestedQuantity} un.
+                      {suggestion.onOrder > 0 && ` (+${suggestion.onOrder} a caminho)`}
+                    </strong>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {reorderSuggestions.length > 5 && (
+              <p className="muted">E mais {reorderSuggestions.length - 5} produtos abaixo do ponto de reposição.</p>
+            )}
+          </section>
+        )}
+
+        <section className="panel activity-grid">
+          <div className="activity-column">
+            <header>
+              <p className="eyebrow">Vendas recentes</p>
+              <h3>Spotlight</h3>
+            </header>
+            <ul>
+              {spotlightSales.map((sale) => {
+                const client = clients.find((clientItem) => clientItem.id === sale.clientId)
+                return (
+                  <li key={sale.id}>
+                    <div>
+                      <strong>#{sale.id}</strong>
+                      <p>{client?.name ?? sale.clientName ?? 'Cliente removido'}</p>
+                    </div>
+                    <span>{formatCurrency(sale.value)}</span>
+                  </li>
+                )
+              })}
+            </ul>
+          </div>
+          <div className="activity-column secondary">
+            <header>
+              <p className="eyebrow">Insights rápidos</p>
+              <h3>Próximas ações</h3>
+            </header>
+            <ul>
+              {insightMessages.map((message, index) => (
+                <li key={index}>{message}</li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      </div>
+    )
+  }
+
+  const renderLogin = () => (
+    <div className="login-page">
+      <div className="login-backdrop">
+        <span className="login-aurora aurora-one" />
+        <span className="login-aurora aurora-two" />
+        <span className="login-aurora aurora-three" />
+      </div>
+      <div className="login-shell">
+        <div className="login-hero-copy">
+          <p className="eyebrow">Sonhar Conforto · Operação integrada</p>
+          <h1>Conecte-se ao painel que move sua equipe.</h1>
+          <p>
+            Dados em tempo real, estoque inteligente e entregas monitoradas com uma identidade mais leve e moderna.
+            Sem temas sazonais — apenas o foco no que importa: produtividade.
+          </p>
+          <div className="login-hero-visual">
+            <span className="login-orbit orbit-one" />
+            <span className="login-orbit orbit-two" />
+            <span className="login-orbit orbit-three" />
+            <div className="login-hero-stat primary">
+              <p className="eyebrow">Disponibilidade</p>
+              <strong>99,96%</strong>
+              <span>Infra monitorada 24/7</span>
+            </div>
+            <div className="login-hero-stat secondary">
+              <p className="eyebrow">Atualizações</p>
+              <strong>+48</strong>
+              <span>Itens sincronizados hoje</span>
+            </div>
+          </div>
+        </div>
+        <div className="login-card">
+          <div className="login-card-inner">
+            <p className="eyebrow">Acesse sua conta</p>
+            <h2>Entre para continuar</h2>
+            <form className="login-form" onSubmit={handleLogin}>
+              <label>
+                E-mail corporativo
+                <input
+                  type="email"
+                  value={loginEmail}
+                  onChange={(event) => setLoginEmail(event.target.value)}
+                  placeholder="nome@empresa.com"
+                  required
+                />
+              </label>
+              <label>
+                Senha
+                <input
+                  type="password"
+                  value={loginPassword}
+                  onChange={(event) => setLoginPassword(event.target.value)}
+                  placeholder="••••••••"
+                  required
+                />
+              </label>
+              {loginError && <p className="login-error">{loginError}</p>}
+              <button className="primary full-width" type="submit">
+                Entrar no CRM
+              </button>
+            </form>
+            <p className="login-hint">Apenas administradores podem criar novos acessos por enquanto.</p>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+
+  const renderClients = () => {
+    const clientCities = Array.from(
+      new Set(clients.map((client) => client.addressCity || 'Sem cidade')),
+    ).filter(Boolean)
+    const filteredClients = clients
+      .filter((client) => {
+        const term = clientSearch.toLowerCase().trim()
+        if (!term) return true
+        const haystack = [
+          client.name ?? '',
+          client.phone ?? '',
+          client.cpf ?? '',
+          client.addressCity ?? '',
+          client.addressNeighborhood ?? '',
+        ]
+        return haystack.some((field) => field.toLowerCase().includes(term))
+      })
+      .filter((client) => {
+        const purchases = client.purchases
+        if (clientFilter === 'withSales') return purchases > 0
+        if (clientFilter === 'withoutSales') return purchases === 0
+        return true
+      })
+      .filter((client) => {
+        const createdDate = client.createdAt.slice(0, 10)
+        if (clientDateStart && createdDate < clientDateStart) return false
+        if (clientDateEnd && createdDate > clientDateEnd) return false
+        if (clientCityFilter !== 'all') {
+          const city = client.addressCity || 'Sem cidade'
+          return city === clientCityFilter
+        }
+        return true
+      })
+
+    return (
+      <div className="page-stack">
+        <section className="panel client-toolbar">
+          <p className="eyebrow">Clientes</p>
+          <h2>Pesquise e cadastre clientes</h2>
+          <p className="hero-sub">Use a busca para encontrar rapidamente ou cadastre um novo cliente no botão.</p>
+          <div className="client-search-bar">
+            <input
+              placeholder="Pesquisar por nome ou telefone"
+              value={clientSearch}
+              onChange={(event) => setClientSearch(event.target.value)}
+            />
+            <button className="primary" type="button" onClick={openCreateClientModal} disabled={!canRegisterClients}>
+              Cadastrar cliente
+            </button>
+          </div>
+          <div className="filter-pills">
+            {(
+              [
+                { id: 'all', label: 'Todos' },
+                { id: 'withSales', label: 'Com vendas' },
+                { id: 'withoutSales', label: 'Sem vendas' },
+              ] as const
+            ).map((filter) => (
+              <button
+                type="button"
+                key={filter.id}
+                className={clientFilter === filter.id ? 'active' : ''}
+                onClick={() => setClientFilter(filter.id)}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+          <div className="filter-row">
+            <label>
+              Desde
+              <input type="date" value={clientDateStart} onChange={(event) => setClientDateStart(event.target.value)} />
+            </label>
+            <label>
+              Até
+              <input type="date" value={clientDateEnd} onChange={(event) => setClientDateEnd(event.target.value)} />
+            </label>
+            <label>
+              Cidade
+              <select value={clientCityFilter} onChange={(event) => setClientCityFilter(event.target.value)}>
+                <option value="all">Todas</option>
+                {clientCities.map((city) => (
+                  <option key={city} value={city}>
+                    {city}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Clientes</p>
+              <h2>Lista ativa</h2>
+            </div>
+            <span className="chip ghost">{filteredClients.length} encontrados</span>
+          </div>
+          <div className="client-list">
+            {clientsLoading && <p className="empty-state">Carregando clientes...</p>}
+            {!clientsLoading && clientFetchError && <p className="empty-state">{clientFetchError}</p>}
+            {!clientsLoading && !clientFetchError && filteredClients.length === 0 && (
+              <p className="empty-state">Nenhum cliente encontrado com os filtros atuais.</p>
+            )}
+            {!clientsLoading && !clientFetchError && filteredClients.map((client) => {
+              const purchases = client.purchases
+              const initials = client.name
+                .split(' ')
+                .map((chunk) => chunk[0])
+                .join('')
+                .slice(0, 2)
+                .toUpperCase()
+              const expanded = expandedClientId === client.id
+              return (
+                <div className={`client-card${expanded ? ' expanded' : ''}`} key={client.id}>
+                  <button
+                    type="button"
+                    className="client-summary"
+                    onClick={() => setExpandedClientId((prev) => (prev === client.id ? null : client.id))}
+                  >
+                    <div className="client-avatar">{initials}</div>
+                    <div className="client-summary-text">
+                      <p className="client-name">{client.name}</p>
+                      <p className="client-summary-meta">
+                        {client.phone || 'Sem contato'} · {purchases} vendas
+                      </p>
+                    </div>
+                    <span className="client-summary-highlight">{client.addressCity || 'Cidade'}</span>
+                    <span className={`client-chevron${expanded ? ' open' : ''}`} aria-hidden="true">
+                      <svg viewBox="0 0 20 20" fill="none">
+                        <path d="M5 8l5 5 5-5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+                      </svg>
+                    </span>
+                  </button>
+                  {expanded && (
+                    <div className="client-details">
+                      <div className="client-details-grid">
+                        <div className="client-field">
+                          <span className="field-label">Contato</span>
+                          <p>{client.phone || 'Sem contato informado'}</p>
+                          <p>{client.cpf || 'CPF não informado'}</p>
+                        </div>
+                        <div className="client-field">
+                          <span className="field-label">Endereço</span>
+                          <p>
+                            {client.addressStreet || 'Rua não informada'}, {client.addressNumber || 's/n'}
+                          </p>
+                          <p>
+                            {client.addressNeighborhood || 'Bairro'} · {client.addressCity || 'Cidade'}
+                          </p>
+                          {client.addressNote && <p className="field-note">{client.addressNote}</p>}
+                        </div>
+                      </div>
+                      {canEditClients ? (
+                        <div className="client-actions">
+                          <button type="button" className="ghost" onClick={() => openEditClientModal(client)}>
+                            Editar
+                          </button>
+                          <button type="button" className="ghost danger" onClick={() => handleDeleteClient(client.id)}>
+                            Excluir
+                          </button>
+                        </div>
+                      ) : (
+                        <p className="field-note">Somente administradores podem editar ou excluir clientes.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+            {filteredClients.length === 0 && <p className="empty-state">Nenhum cliente encontrado.</p>}
+          </div>
+        </section>
+      </div>
+    );
+  };
+
+  const renderReceiptSections = (sale: Sale, quote?: Quote | null) => {
+    const receiptClient = clients.find((clientItem) => clientItem.id === sale.clientId)
+    const saleItemsSnapshot = sale.items.map((item) => {
+      const product = stockItems.find((stock) => stock.id === item.productId)
+      const productName =
+        product?.name ?? item.customName ?? item.productName ?? (item.productId ? 'Produto removido' : 'Item personalizado')
+      const sku = product?.sku ?? item.customSku ?? item.productId ?? '—'
+      return {
+        ...item,
+        productName,
+        sku,
+      }
+    })
+    const grossSubtotal = sale.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0)
+    const paymentsTotal = sale.payments.reduce((sum, payment) => sum + payment.amount, 0)
+
+    return ['1ª via • Loja', '2ª via • Cliente'].map((copyLabel, copyIndex) => (
+      <section className="receipt-copy" data-copy={copyLabel} key={copyLabel}>
+        <header className="receipt-copy-head">
+          <div className="receipt-company">
+            <p className="receipt-brand">SONHAR CONFORTO</p>
+            <p>CRM do Sono · CNPJ 07.860.624/0001-28</p>
+            <p>R. Heitor Alves Guimarães, 819 - Centro, Araucária - PR, 83702-130</p>
+            <p>(41) 99899-0952 · contato@sonharconforto.com</p>
+          </div>
+          <div className="receipt-head-meta">
+            <p>
+              {quote ? 'Orçamento' : 'Pedido'}: <strong>{sale.id}</strong>
+            </p>
+            <p>Data: {new Date(sale.createdAt).toLocaleDateString('pt-BR')}</p>
+            {quote ? (
+              <p>Válido até: {new Date(`${quote.validUntil}T00:00:00`).toLocaleDateString('pt-BR')}</p>
+            ) : (
+              <p>
+                Entrega prevista:{' '}
+                {sale.deliveryDate ? new Date(sale.deliveryDate).toLocaleDateString('pt-BR') : '-'}
+              </p>
+            )}
+            <span className="receipt-copy-label">{copyLabel}</span>
+          </div>
+        </header>
+        <div className="receipt-block receipt-client">
+          <div>
+            <span className="field-label">Cliente</span>
+            <p>{receiptClient?.name ?? receiptSale?.clientName ?? 'Cliente removido'}</p>
+            <p>{receiptClient?.cpf ? formatCpf(receiptClient.cpf) : 'CPF não informado'}</p>
+            <p>{receiptClient?.phone ? formatPhone(receiptClient.phone) : 'Telefone não informado'}</p>
+          </div>
+          <div>
+            <span className="field-label">Endereço</span>
+            <p>
+              {receiptClient?.addressStreet ?? 'Rua não informada'}, {receiptClient?.addressNumber ?? 's/n'}
+            </p>
+            <p>
+              {receiptClient?.addressNeighborhood ?? 'Bairro'} · {receiptClient?.addressCity ?? 'Cidade'}
+            </p>
+            {receiptClient?.addressNote && <p className="field-note">{receiptClient.addressNote}</p>}
+          </div>
+        </div>
+        <table className="receipt-table">
+          <thead>
+            <tr>
+              <th style={{ width: '140px' }}>Código</th>
+              <th>Descrição do produto</th>
+              <th style={{ width: '60px' }}>Qtd</th>
+              <th style={{ width: '120px' }}>Unitário</th>
+              <th style={{ width: '120px' }}>Desconto</th>
+              <th style={{ width: '140px' }}>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {saleItemsSnapshot.map((item, index) => (
+              <tr key={`${item.productId}-${index}`}>
+                <td>{item.sku}</td>
+                <td>{item.productName}</td>
+                <td>{item.quantity}</td>
+                <td>{formatCurrency(item.unitPrice)}</td>
+                <td>-{item.discount ? formatCurrency(item.discount) : 'R$ 0,00'}</td>
+                <td>{formatCurrency(item.quantity * (item.unitPrice - item.discount))}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td colSpan={4}></td>
+              <td>Subtotal</td>
+              <td>{formatCurrency(grossSubtotal)}</td>
+            </tr>
+            <tr>
+              <td colSpan={4}></td>
+              <td>Descontos</td>
+              <td>-{formatCurrency(sale.discount)}</td>
+            </tr>
+            <tr>
+              <td colSpan={4}></td>
+              <td>{quote ? 'Total' : 'Total pago'}</td>
+              <td>{formatCurrency(sale.value)}</td>
+            </tr>
+          </tfoot>
+        </table>
+        <div className="receipt-block">
+          <div>
+            <span className="field-label">Pagamentos</span>
+            {sale.payments.map((payment) => (
+              <p key={payment.id}>
+                {formatPaymentLabel(payment)} — {formatCurrency(payment.amount)}
+              </p>
+            ))}
+            <p className="field-note">
+              {quote ? 'Condição proposta' : 'Recebido'}: {formatCurrency(paymentsTotal)}
+            </p>
+          </div>
+          {sale.note && (
+            <div>
+              <span className="field-label">Observações</span>
+              <p>{sale.note}</p>
+            </div>
+          )}
+        </div>
+        {sale.returns.length > 0 && (
+          <div className="receipt-block">
+            <div>
+              <span className="field-label">Trocas e devoluções</span>
+              {sale.returns.map((saleReturn) => {
+                const itemName = (saleItemId?: string) => {
+                  const item = saleItemsSnapshot.find((snapshot) => snapshot.id === saleItemId)
+                  return item?.productName ?? 'Item'
+                }
+                return (
+                  <p key={saleReturn.id}>
+                    {new Date(saleReturn.createdAt).toLocaleDateString('pt-BR')} ·{' '}
+                    {saleReturn.type === 'troca' ? 'Troca' : 'Devolução'}:{' '}
+                    {saleReturn.items.map((item) => `${item.quantity}x ${itemName(item.saleItemId)}`).join(', ')}
+                    {saleReturn.replacementItemId && ` → ${itemName(saleReturn.replacementItemId)}`}
+                    {saleReturn.difference > 0 && ` · diferença paga ${formatCurrency(saleReturn.difference)}`}
+                    {saleReturn.difference < 0 && ` · reembolso ${formatCurrency(Math.abs(saleReturn.difference))}`}
+                    {saleReturn.reason && ` · ${saleReturn.reason}`}
+                  </p>
+                )
+              })}
+            </div>
+          </div>
+        )}
+        <div className="receipt-footer">
+          <div>
+            <p className="field-label">Assinatura da loja</p>
+            <div className="receipt-signature" />
+          </div>
+          <div>
+            <p className="field-label">Assinatura do cliente</p>
+            <div className="receipt-signature" />
+          </div>
+        </div>
+        <div className="receipt-terms">
+          <p className="field-label">Termos</p>
+          <ul>
+            {RECEIPT_TERMS.map((term) => (
+              <li key={term}>{term}</li>
+            ))}
+          </ul>
+        </div>
+        {copyIndex === 0 && <div className="receipt-divider" />}
+      </section>
+    ))
+  }
+
+  const renderSleepLab = () => {
+    const lastReceiptSale = lastReceiptId ? sales.find((sale) => sale.id === lastReceiptId) : null
+    // A página carregada vem filtrada do servidor; vendas recentes alteradas nesta sessão vêm de `sales`.
+    const visibleSales = salePage.map(
+      (pageSale) => sales.find((sale) => sale.backendId === pageSale.backendId) ?? pageSale,
+    )
+    return (
+      <div className="page-stack">
+        {lastReceiptSale && (
+          <div className="panel receipt-toast">
+            <div>
+              <p className="eyebrow">Nota pronta</p>
+              <h3>Venda #{lastReceiptSale.id} registrada</h3>
+              <p className="hero-sub">Clique em visualizar nota para gerar o PDF desta venda.</p>
+            </div>
+            <div className="receipt-toast-actions">
+              <button className="ghost" type="button" onClick={() => setLastReceiptId(null)}>
+                Dispensar
+              </button>
+              <button
+                className="primary"
+                type="button"
+                onClick={() => {
+                  openReceiptModal(lastReceiptSale)
+                  setLastReceiptId(null)
+                }}
+              >
+                Visualizar nota
+              </button>
+            </div>
+          </div>
+        )}
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Sleep Lab</p>
+              <h2>Vendas recentes</h2>
+            </div>
+            <div className="quick-actions">
+              <button
+                className="ghost"
+                type="button"
+                onClick={() => openSaleModal()}
+                disabled={!canRegisterSales}
+              >
+                Registrar venda
+              </button>
+            </div>
+          </div>
+          <div className="sales-search">
+            <input
+              placeholder="Buscar por cliente, venda (#VEN) ou produto"
+              value={saleSearch}
+              onChange={(event) => setSaleSearch(event.target.value)}
+            />
+            <span className="chip ghost">
+              {visibleSales.length}
+              {salePageCursor ? '+' : ''} encontrados
+            </span>
+          </div>
+          <div className="filter-pills">
+            {(
+              [
+                { id: 'all', label: 'Todas' },
+                { id: 'pendente', label: 'Pendentes' },
+                { id: 'parcialmente_entregue', label: 'Parciais' },
+                { id: 'entregue', label: 'Entregues' },
+                { id: 'cancelada', label: 'Canceladas' },
+              ] as const
+            ).map((filter) => (
+              <button
+                type="button"
+                key={filter.id}
+                className={saleFilter === filter.id ? 'active' : ''}
+                onClick={() => setSaleFilter(filter.id)}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+          <div className="filter-row">
+            <label>
+              Desde
+              <input type="date" value={saleDateStart} onChange={(event) => setSaleDateStart(event.target.value)} />
+            </label>
+            <label>
+              Até
+              <input type="date" value={saleDateEnd} onChange={(event) => setSaleDateEnd(event.target.value)} />
+            </label>
+            <label>
+              Pagamento
+              <select value={salePaymentFilter} onChange={(event) => setSalePaymentFilter(event.target.value as typeof salePaymentFilter)}>
+                <option value="all">Todos</option>
+                {paymentMethods.map((method) => (
+                  <option key={method} value={method}>
+                    {method}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Valor mínimo (R$)
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={saleMinValue}
+                onChange={(event) => setSaleMinValue(event.target.value)}
+              />
+            </label>
+            <label>
+              Valor máximo (R$)
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={saleMaxValue}
+                onChange={(event) => setSaleMaxValue(event.target.value)}
+              />
+            </label>
+          </div>
+          <div className="sales-list">
+            {salePageError && <p className="empty-state">{salePageError}</p>}
+            {!salePageLoading && !salePageError && visibleSales.length === 0 && (
+              <p className="empty-state">Nenhuma venda encontrada com os filtros atuais.</p>
+            )}
+            {!salePageError &&
+              visibleSales.map((sale) => {
+                const client = clients.find((clientItem) => clientItem.id === sale.clientId)
+                const totalUnits = sale.items.reduce((sum, item) => sum + item.quantity, 0)
+                const awaitingApproval = sale.requiresApproval
+                const statusLabel = awaitingApproval
+                  ? 'Aguardando aprovação'
+                  : sale.status === 'pendente'
+                    ? 'Aguardando entrega'
+                    : sale.status === 'parcialmente_entregue'
+                      ? 'Entregue parcialmente'
+                      : sale.status === 'entregue'
+                        ? 'Entregue'
+                        : 'Cancelado'
+                const statusTone = awaitingApproval
+                  ? 'warning'
+                  : sale.status === 'entregue'
+                    ? 'success'
+                    : sale.status === 'cancelada'
+                      ? 'danger'
+                      : 'warning'
+                const canManageThisSale = isAdmin && sale.status !== 'cancelada'
+                const weeklyPayment = sale.payments.find((payment) => payment.method === 'Semanal na loja' && payment.weeklyPlan)
+                const weeklyPlan = weeklyPayment?.weeklyPlan
+                const weeklyPaid = weeklyPlan
+                  ? weeklyPlan.payments.reduce((sum, payment) => sum + (payment.paidAmount ?? 0), 0)
+                  : 0
+                const weeklyTotal = weeklyPlan ? weeklyPlan.weeks * weeklyPlan.weeklyAmount : 0
+                const weeklyRemaining = Math.max(0, weeklyTotal - weeklyPaid)
+                return (
+                  <div className={`sale-card ${sale.status}`} key={sale.id}>
+                    <div>
+                      <div className="sale-card-headline">
+                        <p className="sale-id">
+                          #{sale.id} · {client?.name ?? sale.clientName ?? 'Cliente removido'}
+                        </p>
+                        <span className={`chip ${statusTone}`}>{statusLabel}</span>
+                      </div>
+                      <p className="sale-meta">
+                        {totalUnits} itens · {formatCurrency(sale.value)}
+                      </p>
+                      {sale.deliveryDate && (
+                        <p className="sale-meta mini">
+                          Entrega prevista {new Date(sale.deliveryDate).toLocaleDateString('pt-BR')}
+                        </p>
+                      )}
+                      <div className="sale-items-list">
+                        {sale.items.map((item, idx) => {
+                          const productInfo = stockItems.find((stock) => stock.id === item.productId)
+                          return (
+                            <span key={`${item.productId}-${idx}`}>
+                              {item.quantity}x {productInfo?.name ?? item.customName ?? item.productName ?? 'Item personalizado'} —{' '}
+                              {formatCurrency(Math.max(0, item.unitPrice - item.discount))}
+                              {item.discount > 0 && ` (desconto de ${formatCurrency(item.discount)}/u)`}
+                              {sale.status === 'parcialmente_entregue' &&
+                                ` · ${item.deliveredQuantity ?? 0}/${item.quantity} entregue(s)`}
+                            </span>
+                          )
+                        })}
+                      </div>
+                      <div className="sale-payments-list">
+                        {sale.payments.map((payment) => (
+                          <span key={payment.id}>
+                            {formatPaymentLabel(payment)} — {formatCurrency(payment.amount)}
+                          </span>
+                        ))}
+                      </div>
+                      {weeklyPlan && (
+                        <div className="sale-note">
+                          <strong>Semanal na loja:</strong> {weeklyPlan.weeks}x de {formatCurrency(weeklyPlan.weeklyAmount)} · Recebido{' '}
+                          {formatCurrency(weeklyPaid)} · Faltam {formatCurrency(weeklyRemaining)}
+                          <button
+                            type="button"
+                            className="ghost"
+                            onClick={() => setWeeklyPlanModal({ saleId: sale.id, paymentId: weeklyPayment!.id })}
+                          >
+                            Controlar semanas
+                          </button>
+                        </div>
+                      )}
+                      {sale.discount > 0 && (
+                        <span className="chip ghost">Desconto aplicado · {formatCurrency(sale.discount)}</span>
+                      )}
+                      {sale.note && <p className="sale-note">Observação: {sale.note}</p>}
+                      {awaitingApproval && (
+                        <p className="sale-note warn">
+                          {isAdmin && sale.approvalReason
+                            ? `Aguardando aprovação: ${sale.approvalReason}`
+                            : 'Pedido aguardando aprovação do administrador.'}
+                        </p>
+                      )}
+                      <p className="sale-note">
+                        Criado em {new Date(sale.createdAt).toLocaleDateString('pt-BR')} · {statusLabel.toLowerCase()}
+                      </p>
+                    </div>
+                    <div className="sale-card-actions">
+                      <button type="button" className="ghost" onClick={() => openReceiptModal(sale)}>
+                        Visualizar nota
+                      </button>
+                      {canManageThisSale && (
+                        <button type="button" className="ghost" onClick={() => openSaleModal(sale)}>
+                          Editar pedido
+                        </button>
+                      )}
+                      {isAdmin && sale.status === 'pendente' && (
+                        <button type="button" className="ghost danger" onClick={() => handleCancelSale(sale)}>
+                          Cancelar pedido
+                        </button>
+                      )}
+                      {awaitingApproval && isAdmin && (
+                        <button type="button" className="primary" onClick={() => handleApproveSale(sale)}>
+                          Aprovar itens
+                        </button>
+                      )}
+                      {isAdmin && sale.items.some((item) => getReturnableQuantity(item) > 0) && (
+                        <button type="button" className="ghost" onClick={() => openReturnModal(sale)}>
+                          Troca / devolução
+                        </button>
+                      )}
+                      {isAwaitingDelivery(sale) ? (
+                        <button
+                          type="button"
+                          className="primary subtle"
+                          onClick={() => openConfirmDelivery(sale)}
+                          disabled={awaitingApproval}
+                        >
+                          Confirmar entrega
+                        </button>
+                      ) : (
+                        <span className={`chip ${sale.status === 'entregue' ? 'success' : 'danger'}`}>
+                          {sale.status === 'entregue' ? 'Entregue' : 'Cancelado'}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            {salePageLoading && <p className="empty-state">Carregando vendas...</p>}
+            {salePageCursor && !salePageLoading && (
+              <div ref={salePageSentinelRef} className="sales-list-more">
+                <button type="button" className="ghost" onClick={() => fetchSalePage(salePageCursor)}>
+                  Carregar mais vendas
+                </button>
+              </div>
+            )}
+          </div>
+        </section>
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Sleep Lab</p>
+              <h2>Orçamentos</h2>
+            </div>
+            <span className="chip ghost">{quotes.filter((quote) => quote.status === 'aberto').length} em aberto</span>
+          </div>
+          <div className="sales-list">
+            {quotesLoading && <p className="empty-state">Carregando orçamentos...</p>}
+            {!quotesLoading && quotesError && <p className="empty-state">{quotesError}</p>}
+            {!quotesLoading && !quotesError && quotes.length === 0 && (
+              <p className="empty-state">Nenhum orçamento salvo. Use "Salvar como orçamento" ao registrar uma venda.</p>
+            )}
+            {!quotesLoading &&
+              !quotesError &&
+              quotes.map((quote) => {
+                const client = clients.find((clientItem) => clientItem.id === quote.clientId)
+                const expired = quote.status === 'aberto' && quote.validUntil < todayIso
+                const statusLabel =
+                  quote.status === 'convertido'
+                    ? 'Convertido'
+                    : quote.status === 'cancelado'
+                      ? 'Cancelado'
+                      : expired
+                        ? 'Vencido'
+                        : 'Em aberto'
+                const statusTone =
+                  quote.status === 'convertido' ? 'success' : quote.status === 'cancelado' || expired ? 'danger' : 'warning'
+                const convertedSale = quote.saleId ? sales.find((sale) => sale.backendId === quote.saleId) : undefined
+                return (
+                  <div className="sale-card" key={quote.backendId}>
+                    <div>
+                      <div className="sale-card-headline">
+                        <p className="sale-id">
+                          #{quote.id} · {client?.name ?? quote.clientName ?? 'Cliente removido'}
+                        </p>
+                        <span className={`chip ${statusTone}`}>{statusLabel}</span>
+                      </div>
+                      <p className="sale-meta">
+                        {quote.items.reduce((sum, item) => sum + item.quantity, 0)} itens · {formatCurrency(quote.value)}
+                      </p>
+                      <p className="sale-meta mini">
+                        Válido até {new Date(`${quote.validUntil}T00:00:00`).toLocaleDateString('pt-BR')}
+                        {convertedSale && ` · venda #${convertedSale.id}`}
+                      </p>
+                      <div className="sale-items-list">
+                        {quote.items.map((item, idx) => (
+                          <span key={`${item.productId}-${idx}`}>
+                            {item.quantity}x {item.productName || item.customName || 'Item personalizado'} —{' '}
+                            {formatCurrency(Math.max(0, item.unitPrice - item.discount))}
+                          </span>
+                        ))}
+                      </div>
+                      {quote.note && <p className="sale-note">Observação: {quote.note}</p>}
+                    </div>
+                    <div className="sale-card-actions">
+                      <button type="button" className="ghost" onClick={() => openQuoteReceipt(quote)}>
+                        Imprimir orçamento
+                      </button>
+                      {quote.status === 'aberto' && (
+                        <>
+                          <button type="button" className="ghost danger" onClick={() => handleCancelQuote(quote)}>
+                            Cancelar
+                          </button>
+                          <button
+                            type="button"
+                            className="primary subtle"
+                            onClick={() => handleConvertQuote(quote)}
+                            disabled={expired || !canRegisterSales}
+                          >
+                            Converter em venda
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+          </div>
+        </section>
+      </div>
+    )
+  }
+
+  const renderDeliveries = () => {
+    const deliveryMatchesFilter = (sale: Sale) =>
+      sale.status !== 'cancelada' &&
+      (deliveryFilter === 'all' ||
+        (deliveryFilter === 'pendente' ? isAwaitingDelivery(sale) : sale.status === deliveryFilter))
+    const deliveriesByDate = sales
+      .filter((sale) => sale.deliveryDate)
+      .filter((sale) => deliveryMatchesFilter(sale))
+      .sort((a, b) => a.deliveryDate.localeCompare(b.deliveryDate))
+      .reduce<Record<string, Sale[]>>((acc, sale) => {
+        if (!sale.deliveryDate) return acc
+        acc[sale.deliveryDate] = acc[sale.deliveryDate] ? [...acc[sale.deliveryDate], sale] : [sale]
+        return acc
+      }, {})
+
+    return (
+      <div className="page-stack">
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Entregas</p>
+              <h2>Agenda completa</h2>
+            </div>
+            <div className="calendar-nav">
+              <button className="ghost" type="button" onClick={() => setDeliveryMonthOffset((prev) => Math.max(0, prev - 1))} disabled={deliveryMonthOffset === 0}>
+                Mês anterior
+              </button>
+              <button className="ghost" type="button" onClick={() => setDeliveryMonthOffset((prev) => prev + 1)}>
+                Próximo mês
+              </button>
+            </div>
+          </div>
+          <div className="filter-pills">
+            {(
+              [
+                { id: 'all', label: 'Todas' },
+                { id: 'pendente', label: 'Pendentes' },
+                { id: 'entregue', label: 'Entregues' },
+              ] as const
+            ).map((filter) => (
+              <button
+                type="button"
+                key={filter.id}
+                className={deliveryFilter === filter.id ? 'active' : ''}
+                onClick={() => setDeliveryFilter(filter.id)}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+          {salesLoading && <p className="empty-state">Carregando vendas...</p>}
+          {!salesLoading && salesError && <p className="empty-state">{salesError}</p>}
+          <div className="calendar-grid">
+            {calendarRange.map((date) => {
+              const deliveries = deliveriesByDate[date] ?? []
+              return (
+                <div className="calendar-day" key={date}>
+                  <p className="day-label">
+                    {new Date(date).toLocaleDateString('pt-BR', { weekday: 'long', day: '2-digit', month: 'long' })}
+                  </p>
+                  <div className="day-deliveries">
+                    {deliveries.length === 0 && <p className="empty-state mini">Sem entregas.</p>}
+                    {deliveries.map((sale) => {
+                      const client = clients.find((clientItem) => clientItem.id === sale.clientId)
+                      const itemLabel = (saleItem: SaleItem) =>
+                        stockItems.find((stock) => stock.id === saleItem.productId)?.name ??
+                        saleItem.customName ??
+                        saleItem.productName ??
+                        ''
+                      const remainingItems = sale.items.filter((saleItem) => getRemainingQuantity(saleItem) > 0)
+                      return (
+                        <div className={`calendar-card ${sale.status}`} key={sale.id}>
+                          <div>
+                            <strong>{client?.name ?? sale.clientName ?? 'Cliente removido'}</strong>
+                            <p className="sale-meta mini">
+                              {sale.status === 'parcialmente_entregue'
+                                ? `Faltam: ${remainingItems
+                                    .map((saleItem) => `${getRemainingQuantity(saleItem)}x ${itemLabel(saleItem)}`)
+                                    .join(', ')}`
+                                : sale.items.map(itemLabel).filter(Boolean).join(', ')}
+                            </p>
+                          </div>
+                          {isAwaitingDelivery(sale) ? (
+                            <button
+                              type="button"
+                              className="primary subtle"
+                              onClick={() => openConfirmDelivery(sale, 'sleepLab')}
+                            >
+                              Confirmar
+                            </button>
+                          ) : (
+                            <span className={`chip ${sale.status === 'entregue' ? 'success' : 'danger'}`}>
+                              {sale.status === 'entregue' ? 'Entregue' : 'Cancelado'}
+                            </span>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </section>
+      </div>
+    )
+  }
+
+  const renderStock = () => {
+    const stockMinValueNumber = stockMinValue ? Number(stockMinValue) : null
+    const stockMaxValueNumber = stockMaxValue ? Number(stockMaxValue) : null
+    const filteredStock = stockItems
+      .filter((item) => {
+        const term = stockSearch.toLowerCase().trim()
+        if (!term) return true
+        return item.name.toLowerCase().includes(term) || item.sku.toLowerCase().includes(term)
+      })
+      .filter((item) => {
+        if (stockFilter === 'low') return item.quantity <= 3
+        if (stockFilter === 'reserved') return item.reserved > 0
+        return true
+      })
+      .filter((item) => {
+        if (stockMinValueNumber !== null && !Number.isNaN(stockMinValueNumber) && item.price < stockMinValueNumber) {
+          return false
+        }
+        if (stockMaxValueNumber !== null && !Number.isNaN(stockMaxValueNumber) && item.price > stockMaxValueNumber) {
+          return false
+        }
+        return true
+      })
+      .filter((item) => {
+        if (stockCategoryFilter === 'sem-categoria' && item.categoryId) return false
+        if (stockCategoryFilter && stockCategoryFilter !== 'sem-categoria' && item.categoryId !== stockCategoryFilter) {
+          return false
+        }
+        return !stockBrandFilter || (item.brand ?? '').toLowerCase() === stockBrandFilter.toLowerCase()
+      })
+    const stockBrands = [...new Set(stockItems.map((item) => item.brand?.trim()).filter(Boolean) as string[])].sort((a, b) =>
+      a.localeCompare(b, 'pt-BR'),
+    )
+    const reorderDraftSuppliers = [
+      ...new Set(
+        reorderSuggestions
+          .filter((suggestion) => reorderDraft && suggestion.productId in reorderDraft)
+          .map((suggestion) => suggestion.supplierId),
+      ),
+    ]
+    // Cards agrupados por categoria; produtos sem categoria ficam por último.
+    const stockGroups = [...new Set(filteredStock.map((item) => item.categoryName ?? ''))]
+      .sort((a, b) => (!a ? 1 : !b ? -1 : a.localeCompare(b, 'pt-BR')))
+      .map((categoryName) => ({
+        name: categoryName || 'Sem categoria',
+        items: filteredStock.filter((item) => (item.categoryName ?? '') === categoryName),
+      }))
+    const totalAvailable = stockItems.reduce((sum, item) => sum + item.quantity, 0)
+    const totalReserved = stockItems.reduce((sum, item) => sum + item.reserved, 0)
+    const totalStockValue = stockItems.reduce((sum, item) => sum + item.price * item.quantity, 0)
+    const lowStock = stockItems.filter((item) => item.quantity <= 3).length
+    const selectedInventoryProduct = stockItems.find((item) => item.id === inventoryForm.productId)
+    const normalizedExplore = stockExploreTerm.trim().toLowerCase()
+    const stockSearchResults = normalizedExplore
+      ? [
+          ...stockItems
+            .filter((item) => `${item.name} ${item.sku}`.toLowerCase().includes(normalizedExplore))
+            .map((item) => ({
+              id: `prod-${item.id}`,
+              type: 'Produto',
+              title: item.name,
+              subtitle: `SKU ${item.sku} · ${item.quantity} disponíveis`,
+              action: () => focusInventoryPanel(item.id),
+            })),
+          ...stockMovements
+            .filter((movement) => {
+              const product = stockItems.find((item) => item.id === movement.productId)
+              const blob = `${product?.name ?? ''} ${movement.note}`.toLowerCase()
+              return blob.includes(normalizedExplore)
+            })
+            .map((movement) => {
+              const product = stockItems.find((item) => item.id === movement.productId)
+              return {
+                id: movement.id,
+                type: movement.type === 'entrada' ? 'Entrada' : 'Saída',
+                title: product?.name ?? 'Produto removido',
+                subtitle: `${movement.amount} unidades · ${new Date(movement.createdAt).toLocaleDateString('pt-BR')}`,
+                action: () => setStockExploreTerm(''),
+              }
+            }),
+        ]
+      : []
+
+    const filteredMovements = stockMovements
+      .filter((movement) => (movementTypeFilter === 'all' ? true : movement.type === movementTypeFilter))
+      .filter((movement) => {
+        const movementDate = movement.createdAt.slice(0, 10)
+        if (movementDateStart && movementDate < movementDateStart) return false
+        if (movementDateEnd && movementDate > movementDateEnd) return false
+        return true
+      })
+
+    return (
+      <div className="page-stack stock-page">
+        <section className="panel stock-explorer">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Estoque</p>
+              <h2>Pesquisar no estoque</h2>
+            </div>
+          </div>
+          <div className="stock-explorer-search">
+            <input
+              placeholder="Buscar por produto, SKU ou movimento"
+              value={stockExploreTerm}
+              onChange={(event) => setStockExploreTerm(event.target.value)}
+            />
+          </div>
+          {stockExploreTerm.trim() ? (
+            <div className="stock-explorer-results">
+              {stockSearchResults.length === 0 && <p className="empty-state">Nada encontrado com esse termo.</p>}
+              {stockSearchResults.map((result) => (
+                <button type="button" key={result.id} onClick={result.action}>
+                  <span className="result-type">{result.type}</span>
+                  <div>
+                    <p className="result-title">{result.title}</p>
+                    <p className="result-description">{result.subtitle}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="field-note">Pesquise rapidamente por produtos, SKUs e movimentações recentes.</p>
+          )}
+        </section>
+
+        <section className="panel stock-hero">
+          <div className="stock-hero-top">
+            <div>
+              <p className="eyebrow">Estoque</p>
+              <h2>Visão geral</h2>
+              <p className="hero-sub">Capacidade, valor e status dos produtos da loja.</p>
+            </div>
+            <div className="stock-head-actions">
+              <button
+                type="button"
+                className="ghost"
+                onClick={() => focusInventoryPanel()}
+                disabled={!canManageStock}
+                title={canManageStock ? 'Registrar entrada/saída' : 'Disponível apenas para administradores'}
+              >
+                Registrar movimento
+              </button>
+              <button type="button" className="ghost" onClick={openCreateClientModal}>
+                Cadastrar cliente
+              </button>
+              <span className="chip ghost">{stockItems.length} SKUs</span>
+            </div>
+          </div>
+          <div className="stock-highlight-grid">
+            <div className="stock-highlight-card">
+              <p>Itens disponíveis</p>
+              <strong>{totalAvailable}</strong>
+              <span>{totalReserved} reservados</span>
+            </div>
+            <div className="stock-highlight-card">
+              <p>Valor em estoque</p>
+              <strong>{formatCurrency(totalStockValue)}</strong>
+              <span>{lowStock} itens com atenção</span>
+            </div>
+            <div className="stock-highlight-card">
+              <p>Capacidade</p>
+              <strong>{totalAvailable + totalReserved} unidades</strong>
+              <span>{stockMovements.length} movimentos registrados</span>
+            </div>
+          </div>
+          <div className="stock-search-row">
+            <input
+              placeholder="Buscar produto ou SKU"
+              value={stockSearch}
+              onChange={(event) => setStockSearch(event.target.value)}
+            />
+            <span className="chip ghost">{filteredStock.length} encontrados</span>
+          </div>
+          <div className="filter-row">
+            <label>
+              Valor mínimo (R$)
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={stockMinValue}
+                onChange={(event) => setStockMinValue(event.target.value)}
+              />
+            </label>
+            <label>
+              Valor máximo (R$)
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={stockMaxValue}
+                onChange={(event) => setStockMaxValue(event.target.value)}
+              />
+            </label>
+            <label>
+              Categoria
+              <select value={stockCategoryFilter} onChange={(event) => setStockCategoryFilter(event.target.value)}>
+                <option value="">Todas</option>
+                {productCategories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+                <option value="sem-categoria">Sem categoria</option>
+              </select>
+            </label>
+            <label>
+              Marca / fábrica
+              <select value={stockBrandFilter} onChange={(event) => setStockBrandFilter(event.target.value)}>
+                <option value="">Todas</option>
+                {stockBrands.map((brand) => (
+                  <option key={brand} value={brand}>
+                    {brand}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="filter-pills">
+            {(
+              [
+                { id: 'all', label: 'Todos' },
+                { id: 'low', label: 'Baixo estoque' },
+                { id: 'reserved', label: 'Com reserva' },
+              ] as const
+            ).map((filter) => (
+              <button
+                type="button"
+                key={filter.id}
+                className={stockFilter === filter.id ? 'active' : ''}
+                onClick={() => setStockFilter(filter.id)}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+          <div className="stock-grid">
+            {stockLoading && <p className="empty-state">Carregando produtos...</p>}
+            {!stockLoading && stockError && <p className="empty-state">{stockError}</p>}
+            {!stockLoading && !stockError && filteredStock.length === 0 && (
+              <p className="empty-state">Nenhum produto encontrado.</p>
+            )}
+            {!stockLoading &&
+              !stockError &&
+              stockGroups.flatMap((group) => [
+                <p className="stock-group-title" key={`group-${group.name}`}>
+                  {group.name} · {group.items.length}
+                </p>,
+                ...group.items.map((item) => {
+                  const isExpanded = expandedStockId === item.id
+                  return (
+                    <div className={`stock-card ${isExpanded ? 'expanded' : ''}`} key={item.id}>
+                      <button type="button" className="stock-card-summary" onClick={() => toggleStockCard(item.id)}>
+                        <div>
+                          <p>{item.name}</p>
+                          <span>
+                            {item.sku}
+                            {item.brand ? ` · ${item.brand}` : ''}
+                          </span>
+                        </div>
+                        <div className="summary-badges">
+                          <span className="chip ghost">Disp. {item.quantity}</span>
+                          <span className="chip ghost">Res. {item.reserved}</span>
+                          <span className="chip highlight">{formatCurrency(item.price)}</span>
+                        </div>
+                      </button>
+                    </div>
+                  )
+                }),
+              ])}
+          </div>
+          {expandedStockId && (
+            <div className="stock-detail-panel">
+              {(() => {
+                const product =
+                  stockItems.find((item) => item.id === expandedStockId) ?? stockItems[0]
+                if (!product) return null
+                const totalUnits = product.quantity + product.reserved
+                const reservedPercent = totalUnits ? Math.round((product.reserved / totalUnits) * 100) : 0
+                const hasHistory = stockMovements.some((movement) => movement.productId === product.id)
+                return (
+                  <>
+                    <div className="stock-detail-head">
+                      <div className="stock-detail-thumb">
+                        <img src={product.imageUrl || customItemPlaceholder} alt={product.name} />
+                        {isAdmin && (
+                          <button type="button" className="ghost tiny" onClick={() => openEditProductModal(product)}>
+                            Editar produto
+                          </button>
+                        )}
+                      </div>
+                      <div className="stock-detail-meta">
+                        <h4>{product.name}</h4>
+                        <p>SKU {product.sku}</p>
+                        <div className="stock-detail-tags">
+                          <span className="chip ghost">Disponível {product.quantity}</span>
+                          <span className="chip ghost">Reservado {product.reserved}</span>
+                          <span className="chip highlight">{formatCurrency(product.price)}</span>
+                        </div>
+                        <div className="stock-detail-actions">
+                          <button
+                            type="button"
+                            className="ghost"
+                            onClick={() => focusInventoryPanel(product.id)}
+                            disabled={!canManageStock}
+                          >
+                            Movimentar
+                          </button>
+                          <button
+                            type="button"
+                            className="ghost danger"
+                            onClick={() => handleDeleteProduct(product.id)}
+                            disabled={product.quantity > 0 || product.reserved > 0 || !canManageStock}
+                          >
+                            Remover
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="stock-detail-grid">
+                      <div>
+                        <span>Valor unitário</span>
+                        <strong>{formatCurrency(product.price)}</strong>
+                      </div>
+                      {isAdmin && (
+                        <div>
+                          <span>Custo fábrica</span>
+                          <strong>
+                            {product.factoryCost !== undefined ? formatCurrency(product.factoryCost) : '—'}
+                          </strong>
+                        </div>
+                      )}
+                      <div>
+                        <span>Estoque estimado</span>
+                        <strong>{formatCurrency(product.price * product.quantity)}</strong>
+                      </div>
+                      <div>
+                        <span>Status</span>
+                        <strong>{hasHistory ? 'Com movimentações recentes' : 'Sem movimentos'}</strong>
+                      </div>
+                      <div>
+                        <span>Categoria</span>
+                        <strong>{product.categoryName ?? 'Sem categoria'}</strong>
+                      </div>
+                      <div>
+                        <span>Marca / fábrica</span>
+                        <strong>{product.brand || '—'}</strong>
+                      </div>
+                      <div>
+                        <span>Fornecedor</span>
+                        <strong>{product.supplierName ?? '—'}</strong>
+                      </div>
+                      <div>
+                        <span>Medidas</span>
+                        <strong>{product.dimensions || '—'}</strong>
+                      </div>
+                      <div>
+                        <span>Garantia</span>
+                        <strong>{product.warrantyMonths ? `${product.warrantyMonths} meses` : '—'}</strong>
+                      </div>
+                      {Object.entries(product.attributes).map(([key, value]) => (
+                        <div key={key}>
+                          <span>{key}</span>
+                          <strong>{value}</strong>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="stock-detail-meter">
+                      <span>Reservado</span>
+                      <div className="meter">
+                        <span style={{ width: `${reservedPercent}%` }} />
+                      </div>
+                      <small>{reservedPercent}% reservado</small>
+                    </div>
+                  </>
+                )
+              })()}
+            </div>
+          )}
+       </section>
+
+        <section className="panel stock-movement" ref={inventoryPanelRef}>
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Estoque</p>
+              <h2>Movimentar inventário</h2>
+            </div>
+            <button
+              type="button"
+              className={`primary ${inventoryPanelOpen ? 'subtle' : ''}`}
+              onClick={() => canManageStock && setInventoryPanelOpen((prev) => !prev)}
+              disabled={!canManageStock}
+              title={canManageStock ? 'Abrir formulário' : 'Somente administradores podem movimentar estoque'}
+            >
+              {inventoryPanelOpen ? 'Fechar formulário' : 'Registrar movimento'}
+            </button>
+          </div>
+          <p className="hero-sub">Selecione o tipo de movimento, o produto e confirme a quantidade.</p>
+          <div className={`inventory-form-shell ${inventoryPanelOpen ? 'open' : ''}`}>
+            {!canManageStock ? (
+              <p className="empty-state">Somente administradores podem registrar entradas ou saídas.</p>
+            ) : inventoryPanelOpen ? (
+              <form className="stock-unified-card" onSubmit={handleInventoryMovement}>
+                <div className="inventory-columns">
+                  <div className="inventory-main">
+                    <div className="inventory-form-head">
+                      <p className="form-title">Tipo de movimento</p>
+                      <div className="type-switch">
+                        {(['entrada', 'saida'] as StockMovement['type'][]).map((type) => (
+                          <button
+                            key={type}
+                            type="button"
+                            className={inventoryForm.type === type ? 'active' : ''}
+                            onClick={() =>
+                              setInventoryForm((prev) => ({
+                                ...prev,
+                                type,
+                                isNewProduct: type === 'entrada' ? prev.isNewProduct : false,
+                              }))
+                            }
+                          >
+                            {type === 'entrada' ? 'Entrada' : 'Saída'}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className={`new-product-toggle ${inventoryForm.type !== 'entrada' ? 'disabled' : ''}`}>
+                      <label>
+                        <input
+                          type="checkbox"
+                          checked={inventoryForm.isNewProduct}
+                          disabled={inventoryForm.type !== 'entrada'}
+                          onChange={(event) =>
+                            setInventoryForm((prev) => ({
+                              ...prev,
+                              isNewProduct: event.target.checked && prev.type === 'entrada',
+                            }))
+                          }
+                        />
+                        Cadastrar novo produto nesta entrada
+                      </label>
+                      <span>
+                        {inventoryForm.type === 'entrada'
+                          ? 'Informe os dados e a foto para incluir no catálogo.'
+                          : 'Disponível apenas para movimentos de entrada.'}
+                      </span>
+                    </div>
+                    <div className="inventory-grid">
+                      {inventoryForm.isNewProduct ? (
+                        <>
+                          <label>
+                            Nome do produto
+                            <input
+                              value={inventoryForm.newProductName}
+                              onChange={(event) =>
+                                setInventoryForm((prev) => ({ ...prev, newProductName: event.target.value }))
+                              }
+                              placeholder="Ex: Colchão Wave Supreme"
+                            />
+                          </label>
+                          <label>
+                            SKU
+                            <input
+                              value={inventoryForm.newProductSku}
+                              onChange={(event) =>
+                                setInventoryForm((prev) => ({ ...prev, newProductSku: event.target.value }))
+                              }
+                              placeholder="SKU interno"
+                            />
+                          </label>
+                          <label>
+                            Preço base (R$)
+                            <input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              value={inventoryForm.newProductPrice}
+                              onChange={(event) =>
+                                setInventoryForm((prev) => ({ ...prev, newProductPrice: event.target.value }))
+                              }
+                              placeholder="8900"
+                            />
+                          </label>
+                          <label>
+                            Custo fábrica (R$)
+                            <input
+                              type="number"
+                              min={0}
+                              step="0.01"
+                              value={inventoryForm.newProductFactoryCost}
+                              onChange={(event) =>
+                                setInventoryForm((prev) => ({ ...prev, newProductFactoryCost: event.target.value }))
+                              }
+                              placeholder="4500"
+                            />
+                          </label>
+                          <label>
+                            Categoria
+                            <select
+                              value={inventoryForm.newProductCategoryId}
+                              onChange={(event) =>
+                                setInventoryForm((prev) => ({ ...prev, newProductCategoryId: event.target.value }))
+                              }
+                            >
+                              <option value="">Sem categoria</option>
+                              {productCategories.map((category) => (
+                                <option key={category.id} value={category.id}>
+                                  {category.name}
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                          <label>
+                            Marca / fábrica
+                            <input
+                              value={inventoryForm.newProductBrand}
+                              onChange={(event) =>
+                                setInventoryForm((prev) => ({ ...prev, newProductBrand: event.target.value }))
+                              }
+                              placeholder="Ortobom"
+                            />
+                          </label>
+                        </>
+                      ) : (
+                      <label>
+                        Produto
+                        <select
+                          value={inventoryForm.productId}
+                          onChange={(event) =>
+                            setInventoryForm((prev) => ({ ...prev, productId: event.target.value }))
+                          }
+                        >
+                          {!stockItems.length && <option value="">Nenhum produto cadastrado</option>}
+                          {stockItems.map((item) => (
+                            <option key={item.id} value={item.id}>
+                              {item.name}
+                            </option>
+                          ))}
+                          </select>
+                        </label>
+                      )}
+                      <label>
+                        Quantidade
+                        <input
+                          type="number"
+                          min={1}
+                          value={inventoryForm.amount}
+                          onChange={(event) =>
+                            setInventoryForm((prev) => ({ ...prev, amount: Number(event.target.value) }))
+                          }
+                        />
+                      </label>
+                    </div>
+                    {inventoryForm.isNewProduct && (
+                      <div className="inventory-grid">
+                        <label className="file-field">
+                          Foto do produto
+                          <input type="file" accept="image/*" onChange={handleProductImageUpload} />
+                        </label>
+                        {inventoryForm.newProductImage && (
+                          <div className="inventory-image-preview">
+                            <img src={inventoryForm.newProductImage} alt="Prévia do produto" />
+                            <button
+                              type="button"
+                              className="ghost"
+                              onClick={() => setInventoryForm((prev) => ({ ...prev, newProductImage: '' }))}
+                            >
+                              Remover foto
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    <label>
+                      Observação
+                      <input
+                        value={inventoryForm.note}
+                        onChange={(event) => setInventoryForm((prev) => ({ ...prev, note: event.target.value }))}
+                        placeholder="Fornecedor, NF ou motivo"
+                      />
+                    </label>
+                  </div>
+                  <aside className="inventory-preview">
+                    {inventoryForm.isNewProduct ? (
+                      <div className="preview-card">
+                        <p className="preview-label">Novo produto</p>
+                        <h4>Cadastre e já dê entrada</h4>
+                        <p>Preencha os campos ao lado e inclua uma foto para estrear o item no catálogo.</p>
+                      </div>
+                    ) : selectedInventoryProduct ? (
+                      <div className="preview-card">
+                        <img src={selectedInventoryProduct.imageUrl} alt={selectedInventoryProduct.name} />
+                        <h4>{selectedInventoryProduct.name}</h4>
+                        <p className="preview-sku">{selectedInventoryProduct.sku}</p>
+                        <div className="preview-metrics">
+                          <div>
+                            <span>Disponível</span>
+                            <strong>{selectedInventoryProduct.quantity}</strong>
+                          </div>
+                          <div>
+                            <span>Reservado</span>
+                            <strong>{selectedInventoryProduct.reserved}</strong>
+                          </div>
+                          <div>
+                            <span>Valor</span>
+                            <strong>{formatCurrency(selectedInventoryProduct.price)}</strong>
+                          </div>
+                          {isAdmin && (
+                            <div>
+                              <span>Custo fábrica</span>
+                              <strong>
+                                {selectedInventoryProduct.factoryCost !== undefined
+                                  ? formatCurrency(selectedInventoryProduct.factoryCost)
+                                  : '—'}
+                              </strong>
+                            </div>
+                          )}
+                        </div>
+                        <p className="preview-note">
+                          {selectedInventoryProduct.quantity > 0
+                            ? 'Produto em linha. Registre saídas ou novas entradas.'
+                            : 'Sem unidades disponíveis. Reponha o estoque.'}
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="preview-card">
+                        <h4>Sem produtos cadastrados</h4>
+                        <p>Cadastre um novo item para começar a controlar o inventário.</p>
+                      </div>
+                    )}
+                  </aside>
+                </div>
+                {inventorySubmitError && <p className="login-error">{inventorySubmitError}</p>}
+                <div className="inventory-actions">
+                  <button
+                    type="button"
+                    className="ghost"
+                    onClick={() => setInventoryPanelOpen(false)}
+                    disabled={inventorySubmitLoading}
+                  >
+                    Cancelar
+                  </button>
+                  <button
+                    className="primary"
+                    type="submit"
+                    disabled={
+                      inventorySubmitLoading ||
+                      (!inventoryForm.isNewProduct && !inventoryForm.productId) ||
+                      (!inventoryForm.isNewProduct && stockItems.length === 0)
+                    }
+                  >
+                    {inventorySubmitLoading
+                      ? 'Registrando...'
+                      : inventoryForm.type === 'entrada'
+                        ? 'Confirmar entrada'
+                        : 'Confirmar saída'}
                   </button>
-                  {expanded && (
-                    <div className="client-details">
-                      <div className="client-details-grid">
-                        <div className="client-field">
-                          <span className="field-label">Contato</span>
-                          <p>{client.phone || 'Sem contato informado'}</p>
-                          <p>{client.cpf || 'CPF não informado'}</p>
-                        </div>
-                        <div className="client-field">
-                          <span className="field-label">Endereço</span>
-                          <p>
-                            {client.addressStreet || 'Rua não informada'}, {client.addressNumber || 's/n'}
-                          </p>
-                          <p>
-                            {client.addressNeighborhood || 'Bairro'} · {client.addressCity || 'Cidade'}
-                          </p>
-                          {client.addressNote && <p className="field-note">{client.addressNote}</p>}
-                        </div>
-                      </div>
-                      {canEditClients ? (
-                        <div className="client-actions">
-                          <button type="button" className="ghost" onClick={() => openEditClientModal(client)}>
-                            Editar
-                          </button>
-                          <button type="button" className="ghost danger" onClick={() => handleDeleteClient(client.id)}>
-                            Excluir
-                          </button>
-                        </div>
-                      ) : (
-                        <p className="field-note">Somente administradores podem editar ou excluir clientes.</p>
-                      )}
-                    </div>
-                  )}
                 </div>
-              )
-            })}
-            {filteredClients.length === 0 && <p className="empty-state">Nenhum cliente encontrado.</p>}
-          </div>
-        </section>
-      </div>
-    );
-  };
-
-  const renderReceiptSections = (sale: Sale) => {
-    const receiptClient = clients.find((clientItem) => clientItem.id === sale.clientId)
-    const saleItemsSnapshot = sale.items.map((item) => {
-      const product = stockItems.find((stock) => stock.id === item.productId)
-      const productName =
-        product?.name ?? item.customName ?? item.productName ?? (item.productId ? 'Produto removido' : 'Item personalizado')
-      const sku = product?.sku ?? item.customSku ?? item.productId ?? '—'
-      return {
-        ...item,
-        productName,
-        sku,
-      }
-    })
-    const grossSubtotal = sale.items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0)
-    const paymentsTotal = sale.payments.reduce((sum, payment) => sum + payment.amount, 0)
-
-    return ['1ª via • Loja', '2ª via • Cliente'].map((copyLabel, copyIndex) => (
-      <section className="receipt-copy" data-copy={copyLabel} key={copyLabel}>
-        <header className="receipt-copy-head">
-          <div className="receipt-company">
-            <p className="receipt-brand">SONHAR CONFORTO</p>
-            <p>CRM do Sono · CNPJ 07.860.624/0001-28</p>
-            <p>R. Heitor Alves Guimarães, 819 - Centro, Araucária - PR, 83702-130</p>
-            <p>(41) 99899-0952 · contato@sonharconforto.com</p>
-          </div>
-          <div className="receipt-head-meta">
-            <p>
-              Pedido: <strong>{sale.id}</strong>
-            </p>
-            <p>Data: {new Date(sale.createdAt).toLocaleDateString('pt-BR')}</p>
-            <p>
-              Entrega prevista:{' '}
-              {sale.deliveryDate ? new Date(sale.deliveryDate).toLocaleDateString('pt-BR') : '-'}
-            </p>
-            <span className="receipt-copy-label">{copyLabel}</span>
-          </div>
-        </header>
-        <div className="receipt-block receipt-client">
-          <div>
-            <span className="field-label">Cliente</span>
-            <p>{receiptClient?.name ?? receiptSale?.clientName ?? 'Cliente removido'}</p>
-            <p>{receiptClient?.cpf ? formatCpf(receiptClient.cpf) : 'CPF não informado'}</p>
-            <p>{receiptClient?.phone ? formatPhone(receiptClient.phone) : 'Telefone não informado'}</p>
-          </div>
-          <div>
-            <span className="field-label">Endereço</span>
-            <p>
-              {receiptClient?.addressStreet ?? 'Rua não informada'}, {receiptClient?.addressNumber ?? 's/n'}
-            </p>
-            <p>
-              {receiptClient?.addressNeighborhood ?? 'Bairro'} · {receiptClient?.addressCity ?? 'Cidade'}
-            </p>
-            {receiptClient?.addressNote && <p className="field-note">{receiptClient.addressNote}</p>}
-          </div>
-        </div>
-        <table className="receipt-table">
-          <thead>
-            <tr>
-              <th style={{ width: '140px' }}>Código</th>
-              <th>Descrição do produto</th>
-              <th style={{ width: '60px' }}>Qtd</th>
-              <th style={{ width: '120px' }}>Unitário</th>
-              <th style={{ width: '120px' }}>Desconto</th>
-              <th style={{ width: '140px' }}>Total</th>
-            </tr>
-          </thead>
-          <tbody>
-            {saleItemsSnapshot.map((item, index) => (
-              <tr key={`${item.productId}-${index}`}>
-                <td>{item.sku}</td>
-                <td>{item.productName}</td>
-                <td>{item.quantity}</td>
-                <td>{formatCurrency(item.unitPrice)}</td>
-                <td>-{item.discount ? formatCurrency(item.discount) : 'R$ 0,00'}</td>
-                <td>{formatCurrency(item.quantity * (item.unitPrice - item.discount))}</td>
-              </tr>
-            ))}
-          </tbody>
-          <tfoot>
-            <tr>
-              <td colSpan={4}></td>
-              <td>Subtotal</td>
-              <td>{formatCurrency(grossSubtotal)}</td>
-            </tr>
-            <tr>
-              <td colSpan={4}></td>
-              <td>Descontos</td>
-              <td>-{formatCurrency(sale.discount)}</td>
-            </tr>
-            <tr>
-              <td colSpan={4}></td>
-              <td>Total pago</td>
-              <td>{formatCurrency(sale.value)}</td>
-            </tr>
-          </tfoot>
-        </table>
-        <div className="receipt-block">
-          <div>
-            <span className="field-label">Pagamentos</span>
-            {sale.payments.map((payment) => (
-              <p key={payment.id}>
-                {formatPaymentLabel(payment)} — {formatCurrency(payment.amount)}
-              </p>
-            ))}
-            <p className="field-note">Recebido: {formatCurrency(paymentsTotal)}</p>
-          </div>
-          {sale.note && (
-            <div>
-              <span className="field-label">Observações</span>
-              <p>{sale.note}</p>
-            </div>
-          )}
-        </div>
-        <div className="receipt-footer">
-          <div>
-            <p className="field-label">Assinatura da loja</p>
-            <div className="receipt-signature" />
-          </div>
-          <div>
-            <p className="field-label">Assinatura do cliente</p>
-            <div className="receipt-signature" />
-          </div>
-        </div>
-        <div className="receipt-terms">
-          <p className="field-label">Termos</p>
-          <ul>
-            {RECEIPT_TERMS.map((term) => (
-              <li key={term}>{term}</li>
-            ))}
-          </ul>
-        </div>
-        {copyIndex === 0 && <div className="receipt-divider" />}
-      </section>
-    ))
-  }
-
-  const renderSleepLab = () => {
-    const lastReceiptSale = lastReceiptId ? sales.find((sale) => sale.id === lastReceiptId) : null
-    const normalizedSaleSearch = saleSearch.trim().toLowerCase()
-    const saleMatchesSearch = (sale: Sale) => {
-      if (!normalizedSaleSearch) return true
-      const client = clients.find((clientItem) => clientItem.id === sale.clientId)
-      const productNames = sale.items
-        .map((item) => stockItems.find((stock) => stock.id === item.productId)?.name ?? item.productName ?? '')
-        .join(' ')
-        .toLowerCase()
-      const blob = `${sale.id} ${client?.name ?? sale.clientName ?? ''} ${sale.note} ${productNames}`.toLowerCase()
-      return blob.includes(normalizedSaleSearch)
-    }
-    const saleMatchesFilter = (sale: Sale) => saleFilter === 'all' || sale.status === saleFilter
-    const saleMatchesDate = (sale: Sale) => {
-      const createdDate = sale.createdAt.slice(0, 10)
-      if (saleDateStart && createdDate < saleDateStart) return false
-      if (saleDateEnd && createdDate > saleDateEnd) return false
-      return true
-    }
-    const saleMatchesPayment = (sale: Sale) =>
-      salePaymentFilter === 'all' ? true : sale.payments.some((payment) => payment.method === salePaymentFilter)
-    const saleMinValueNumber = saleMinValue ? Number(saleMinValue) : null
-    const saleMatchesValue = (sale: Sale) =>
-      saleMinValueNumber === null || Number.isNaN(saleMinValueNumber) ? true : sale.value >= saleMinValueNumber
-    const visibleSales = sales.filter(
-      (sale) =>
-        saleMatchesSearch(sale) &&
-        saleMatchesFilter(sale) &&
-        saleMatchesDate(sale) &&
-        saleMatchesPayment(sale) &&
-        saleMatchesValue(sale),
-    )
-    return (
-      <div className="page-stack">
-        {lastReceiptSale && (
-          <div className="panel receipt-toast">
-            <div>
-              <p className="eyebrow">Nota pronta</p>
-              <h3>Venda #{lastReceiptSale.id} registrada</h3>
-              <p className="hero-sub">Clique em visualizar nota para gerar o PDF desta venda.</p>
-            </div>
-            <div className="receipt-toast-actions">
-              <button className="ghost" type="button" onClick={() => setLastReceiptId(null)}>
-                Dispensar
-              </button>
+              </form>
+            ) : (
               <button
-                className="primary"
+                className="ghost full-width"
                 type="button"
-                onClick={() => {
-                  openReceiptModal(lastReceiptSale)
-                  setLastReceiptId(null)
-                }}
+                onClick={() => canManageStock && setInventoryPanelOpen(true)}
+                disabled={!canManageStock}
               >
-                Visualizar nota
+                Abrir formulário de movimento
               </button>
-            </div>
+            )}
           </div>
+        </section>
+
+        {isAdmin && reorderDraft && (
+          <section className="panel">
+            <div className="section-head">
+              <div>
+                <p className="eyebrow">Reposição</p>
+                <h2>Lista de compra sugerida</h2>
+              </div>
+              <div className="section-actions">
+                {purchaseOrderError && <span className="chip alert">{purchaseOrderError}</span>}
+                <button className="ghost" type="button" onClick={() => setReorderDraft(null)}>
+                  Descartar lista
+                </button>
+              </div>
+            </div>
+            <div className="finance-table">
+              {reorderDraftSuppliers.map((supplierId) => {
+                const group = reorderSuggestions.filter(
+                  (suggestion) => suggestion.supplierId === supplierId && suggestion.productId in reorderDraft,
+                )
+                const groupTotal = group.reduce(
+                  (sum, suggestion) => sum + (reorderDraft[suggestion.productId] ?? 0) * suggestion.unitCost,
+                  0,
+                )
+                return (
+                  <div className="finance-row" key={supplierId ?? 'sem-fornecedor'}>
+                    <div>
+                      <p className="sale-id">{group[0]?.supplierName ?? 'Sem fornecedor'}</p>
+                      <p className="hero-sub">
+                        {supplierId ? `Prazo de ${group[0]?.leadTimeDays} dias` : 'Escolha a fábrica no pedido de compra'}
+                      </p>
+                    </div>
+                    <div>
+                      <span>Total estimado</span>
+                      <strong>{formatCurrency(groupTotal)}</strong>
+                    </div>
+                    <div className="finance-payments">
+                      <span>Ação</span>
+                      <button
+                        className="primary"
+                        type="button"
+                        disabled={purchaseOrderSaving}
+                        onClick={() => handleCreateDraftPurchaseOrder(supplierId)}
+                      >
+                        {supplierId ? 'Criar pedido de compra' : 'Levar para o pedido'}
+                      </button>
+                    </div>
+                    <div className="filter-row">
+                      {group.map((suggestion) => (
+                        <label key={suggestion.productId}>
+                          {suggestion.name} ({suggestion.available} disp.)
+                          <input
+                            type="text"
+                            inputMode="numeric"
+                            pattern="[0-9]*"
+                            value={String(reorderDraft[suggestion.productId] ?? '')}
+                            onChange={(event) =>
+                              setReorderDraft((prev) =>
+                                prev
+                                  ? { ...prev, [suggestion.productId]: Number(formatDigits(event.target.value) || 0) }
+                                  : prev,
+                              )
+                            }
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </section>
         )}
-        <section className="panel">
-          <div className="section-head">
-            <div>
-              <p className="eyebrow">Sleep Lab</p>
-              <h2>Vendas recentes</h2>
+
+        {isAdmin && (
+          <section className="panel">
+            <div className="section-head">
+              <div>
+                <p className="eyebrow">Compras</p>
+                <h2>Pedidos de compra às fábricas</h2>
+              </div>
+              <div className="section-actions">
+                {purchaseOrderError && <span className="chip alert">{purchaseOrderError}</span>}
+                <div className="filter-pills">
+                  {(
+                    [
+                      { id: 'abertos', label: 'Em aberto' },
+                      { id: 'todos', label: 'Todos' },
+                    ] as const
+                  ).map((filter) => (
+                    <button
+                      type="button"
+                      key={filter.id}
+                      className={purchaseOrderFilter === filter.id ? 'active' : ''}
+                      onClick={() => setPurchaseOrderFilter(filter.id)}
+                    >
+                      {filter.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
             </div>
-            <div className="quick-actions">
+            <form className="filter-row finance" onSubmit={handleCreatePurchaseOrder}>
+              <label>
+                Fábrica / fornecedor
+                <select
+                  value={purchaseOrderForm.supplierId}
+                  onChange={(event) => setPurchaseOrderForm((prev) => ({ ...prev, supplierId: event.target.value }))}
+                >
+                  <option value="">Outro (digitar)</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                      {supplier.leadTimeDays != null ? ` · ${supplier.leadTimeDays} dias` : ''}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {!purchaseOrderForm.supplierId && (
+                <label>
+                  Nome do fornecedor
+                  <input
+                    value={purchaseOrderForm.supplierName}
+                    onChange={(event) => setPurchaseOrderForm((prev) => ({ ...prev, supplierName: event.target.value }))}
+                    placeholder="Ex: Ortobom"
+                  />
+                </label>
+              )}
+              <label>
+                Previsão de chegada
+                <input
+                  type="date"
+                  value={purchaseOrderForm.expectedAt}
+                  onChange={(event) => setPurchaseOrderForm((prev) => ({ ...prev, expectedAt: event.target.value }))}
+                />
+              </label>
+              <label>
+                Observação
+                <input
+                  value={purchaseOrderForm.note}
+                  onChange={(event) => setPurchaseOrderForm((prev) => ({ ...prev, note: event.target.value }))}
+                  placeholder="Condição, frete, contato"
+                />
+              </label>
+              {purchaseOrderForm.items.map((item, index) => (
+                <div className="filter-row finance" key={index}>
+                  <label>
+                    Produto
+                    <select
+                      value={item.productId}
+                      onChange={(event) => {
+                        const product = stockItems.find((stock) => stock.id === event.target.value)
+                        updatePurchaseOrderItemRow(index, {
+                          productId: event.target.value,
+                          unitCost: product?.factoryCost ?? item.unitCost,
+                        })
+                      }}
+                    >
+                      <option value="">Selecione</option>
+                      {stockItems.map((stock) => (
+                        <option key={stock.id} value={stock.id}>
+                          {stock.name} ({stock.sku})
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label>
+                    Quantidade
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      pattern="[0-9]*"
+                      value={item.quantity > 0 ? String(item.quantity) : ''}
+                      onChange={(event) => {
+                        const digits = formatDigits(event.target.value)
+                        updatePurchaseOrderItemRow(index, { quantity: digits ? Number(digits) : 0 })
+                      }}
+                      placeholder="0"
+                    />
+                  </label>
+                  <label>
+                    Custo combinado (R$)
+                    <NumericFormat
+                      value={item.unitCost === 0 ? '' : item.unitCost}
+                      thousandSeparator="."
+                      decimalSeparator=","
+                      decimalScale={2}
+                      fixedDecimalScale
+                      allowNegative={false}
+                      inputMode="decimal"
+                      placeholder="0,00"
+                      onValueChange={({ floatValue }) => updatePurchaseOrderItemRow(index, { unitCost: floatValue ?? 0 })}
+                    />
+                  </label>
+                  {purchaseOrderForm.items.length > 1 && (
+                    <button
+                      className="ghost"
+                      type="button"
+                      onClick={() =>
+                        setPurchaseOrderForm((prev) => ({ ...prev, items: prev.items.filter((_, idx) => idx !== index) }))
+                      }
+                    >
+                      Remover
+                    </button>
+                  )}
+                </div>
+              ))}
               <button
                 className="ghost"
                 type="button"
-                onClick={() => openSaleModal()}
-                disabled={!canRegisterSales}
+                onClick={() =>
+                  setPurchaseOrderForm((prev) => ({
+                    ...prev,
+                    items: [...prev.items, { productId: '', quantity: 1, unitCost: 0 }],
+                  }))
+                }
               >
-                Registrar venda
+                Adicionar item
               </button>
-            </div>
-          </div>
-          <div className="sales-search">
-            <input
-              placeholder="Buscar por cliente, venda (#VEN) ou produto"
-              value={saleSearch}
-              onChange={(event) => setSaleSearch(event.target.value)}
-            />
-            <span className="chip ghost">{visibleSales.length} encontrados</span>
-          </div>
-          <div className="filter-pills">
-            {(
-              [
-                { id: 'all', label: 'Todas' },
-                { id: 'pendente', label: 'Pendentes' },
-                { id: 'entregue', label: 'Entregues' },
-                { id: 'cancelada', label: 'Canceladas' },
-              ] as const
-            ).map((filter) => (
-              <button
-                type="button"
-                key={filter.id}
-                className={saleFilter === filter.id ? 'active' : ''}
-                onClick={() => setSaleFilter(filter.id)}
-              >
-                {filter.label}
+              <button className="primary" type="submit" disabled={purchaseOrderSaving}>
+                {purchaseOrderSaving ? 'Salvando...' : 'Criar pedido de compra'}
               </button>
-            ))}
-          </div>
-          <div className="filter-row">
-            <label>
-              Desde
-              <input type="date" value={saleDateStart} onChange={(event) => setSaleDateStart(event.target.value)} />
-            </label>
-            <label>
-              Até
-              <input type="date" value={saleDateEnd} onChange={(event) => setSaleDateEnd(event.target.value)} />
-            </label>
-            <label>
-              Pagamento
-              <select value={salePaymentFilter} onChange={(event) => setSalePaymentFilter(event.target.value as typeof salePaymentFilter)}>
-                <option value="all">Todos</option>
-                {paymentMethods.map((method) => (
-                  <option key={method} value={method}>
-                    {method}
-                  </option>
-                ))}
-              </select>
-            </label>
-            <label>
-              Valor mínimo (R$)
-              <input
-                type="number"
-                min={0}
-                step="0.01"
-                value={saleMinValue}
-                onChange={(event) => setSaleMinValue(event.target.value)}
-              />
-            </label>
-          </div>
-          <div className="sales-list">
-            {salesLoading && <p className="empty-state">Carregando vendas...</p>}
-            {!salesLoading && salesError && <p className="empty-state">{salesError}</p>}
-            {!salesLoading && !salesError && visibleSales.length === 0 && (
-              <p className="empty-state">Nenhuma venda encontrada com os filtros atuais.</p>
-            )}
-            {!salesLoading &&
-              !salesError &&
-              visibleSales.map((sale) => {
-                const client = clients.find((clientItem) => clientItem.id === sale.clientId)
-                const totalUnits = sale.items.reduce((sum, item) => sum + item.quantity, 0)
-                const awaitingApproval = sale.requiresApproval
-                const statusLabel = awaitingApproval
-                  ? 'Aguardando aprovação'
-                  : sale.status === 'pendente'
-                    ? 'Aguardando entrega'
-                    : sale.status === 'entregue'
-                      ? 'Entregue'
-                      : 'Cancelado'
-                const statusTone = awaitingApproval
-                  ? 'warning'
-                  : sale.status === 'entregue'
-                    ? 'success'
-                    : sale.status === 'cancelada'
-                      ? 'danger'
-                      : 'warning'
-                const canManageThisSale = isAdmin && sale.status !== 'cancelada'
-                const weeklyPayment = sale.payments.find((payment) => payment.method === 'Semanal na loja' && payment.weeklyPlan)
-                const weeklyPlan = weeklyPayment?.weeklyPlan
-                const weeklyPaid = weeklyPlan
-                  ? weeklyPlan.payments.reduce((sum, payment) => sum + (payment.paidAmount ?? 0), 0)
-                  : 0
-                const weeklyTotal = weeklyPlan ? weeklyPlan.weeks * weeklyPlan.weeklyAmount : 0
-                const weeklyRemaining = Math.max(0, weeklyTotal - weeklyPaid)
+            </form>
+            <div className="finance-table">
+              {purchaseOrders.map((order) => {
+                const ordered = order.items.reduce((sum, item) => sum + item.quantity, 0)
+                const received = order.items.reduce((sum, item) => sum + item.receivedQuantity, 0)
+                const isOpen = order.status === 'aberto' || order.status === 'parcialmente_recebido'
+                const isExpanded = expandedPurchaseOrderId === order.id
                 return (
-                  <div className={`sale-card ${sale.status}`} key={sale.id}>
+                  <div className="finance-row" key={order.id}>
                     <div>
-                      <div className="sale-card-headline">
-                        <p className="sale-id">
-                          #{sale.id} · {client?.name ?? sale.clientName ?? 'Cliente removido'}
-                        </p>
-                        <span className={`chip ${statusTone}`}>{statusLabel}</span>
-                      </div>
-                      <p className="sale-meta">
-                        {totalUnits} itens · {formatCurrency(sale.value)}
+                      <p className="sale-id">
+                        OC-{order.number} · {order.supplierName}
                       </p>
-                      {sale.deliveryDate && (
-                        <p className="sale-meta mini">
-                          Entrega prevista {new Date(sale.deliveryDate).toLocaleDateString('pt-BR')}
+                      <p className="hero-sub">
+                        {order.items.map((item) => `${item.quantity}x ${item.productName}`).join(' · ')}
+                      </p>
+                      {order.sales.length > 0 && (
+                        <p className="hero-sub">
+                          Aguardando: {order.sales.map((sale) => `#${sale.publicId} (${sale.clientName})`).join(', ')}
                         </p>
                       )}
-                      <div className="sale-items-list">
-                        {sale.items.map((item, idx) => {
-                          const productInfo = stockItems.find((stock) => stock.id === item.productId)
-                          return (
-                            <span key={`${item.productId}-${idx}`}>
-                              {item.quantity}x {productInfo?.name ?? item.customName ?? item.productName ?? 'Item personalizado'} —{' '}
-                              {formatCurrency(Math.max(0, item.unitPrice - item.discount))}
-                              {item.discount > 0 && ` (desconto de ${formatCurrency(item.discount)}/u)`}
-                            </span>
-                          )
-                        })}
-                      </div>
-                      <div className="sale-payments-list">
-                        {sale.payments.map((payment) => (
-                          <span key={payment.id}>
-                            {formatPaymentLabel(payment)} — {formatCurrency(payment.amount)}
-                          </span>
-                        ))}
-                      </div>
-                      {weeklyPlan && (
-                        <div className="sale-note">
-                          <strong>Semanal na loja:</strong> {weeklyPlan.weeks}x de {formatCurrency(weeklyPlan.weeklyAmount)} · Recebido{' '}
-                          {formatCurrency(weeklyPaid)} · Faltam {formatCurrency(weeklyRemaining)}
+                    </div>
+                    <div>
+                      <span>Previsão</span>
+                      <strong>
+                        {order.expectedAt ? new Date(`${order.expectedAt}T12:00:00`).toLocaleDateString('pt-BR') : '—'}
+                      </strong>
+                    </div>
+                    <div>
+                      <span>Recebido</span>
+                      <strong>
+                        {received} de {ordered}
+                      </strong>
+                    </div>
+                    <div>
+                      <span>Valor</span>
+                      <strong>
+                        {formatCurrency(order.items.reduce((sum, item) => sum + item.quantity * item.unitCost, 0))}
+                      </strong>
+                    </div>
+                    <div>
+                      <span>Status</span>
+                      <strong>{purchaseOrderStatusLabels[order.status]}</strong>
+                    </div>
+                    <div className="finance-payments">
+                      <span>Ações</span>
+                      <div className="calendar-nav">
+                        <button className="ghost" type="button" onClick={() => handleExpandPurchaseOrder(order)}>
+                          {isExpanded ? 'Fechar' : isOpen ? 'Receber' : 'Detalhes'}
+                        </button>
+                        {isOpen && (
                           <button
-                            type="button"
                             className="ghost"
-                            onClick={() => setWeeklyPlanModal({ saleId: sale.id, paymentId: weeklyPayment!.id })}
+                            type="button"
+                            disabled={purchaseOrderSaving}
+                            onClick={() => handleCancelPurchaseOrder(order)}
                           >
-                            Controlar semanas
+                            Cancelar
                           </button>
-                        </div>
-                      )}
-                      {sale.discount > 0 && (
-                        <span className="chip ghost">Desconto aplicado · {formatCurrency(sale.discount)}</span>
-                      )}
-                      {sale.note && <p className="sale-note">Observação: {sale.note}</p>}
-                      {awaitingApproval && (
-                        <p className="sale-note warn">Itens personalizados aguardando aprovação do administrador.</p>
-                      )}
-                      <p className="sale-note">
-                        Criado em {new Date(sale.createdAt).toLocaleDateString('pt-BR')} · {statusLabel.toLowerCase()}
-                      </p>
+                        )}
+                      </div>
                     </div>
-                    <div className="sale-card-actions">
-                      <button type="button" className="ghost" onClick={() => openReceiptModal(sale)}>
-                        Visualizar nota
-                      </button>
-                      {canManageThisSale && (
-                        <button type="button" className="ghost" onClick={() => openSaleModal(sale)}>
-                          Editar pedido
-                        </button>
-                      )}
-                      {isAdmin && sale.status === 'pendente' && (
-                        <button type="button" className="ghost danger" onClick={() => handleCancelSale(sale)}>
-                          Cancelar pedido
-                        </button>
-                      )}
-                      {awaitingApproval && isAdmin && (
-                        <button type="button" className="primary" onClick={() => handleApproveSale(sale)}>
-                          Aprovar itens
-                        </button>
-                      )}
-                      {sale.status === 'pendente' ? (
+                    {isExpanded && (
+                      <div className="finance-table">
+                        {isOpen &&
+                          order.items.map((item) => (
+                            <div className="finance-row" key={item.id}>
+                              <div>
+                                <p className="sale-id">{item.productName}</p>
+                                <p className="hero-sub">
+                                  SKU {item.sku} · custo combinado {formatCurrency(item.unitCost)}
+                                </p>
+                              </div>
+                              <div>
+                                <span>Pendente</span>
+                                <strong>{item.quantity - item.receivedQuantity}</strong>
+                              </div>
+                              <label>
+                                Recebendo agora
+                                <input
+                                  type="text"
+                                  inputMode="numeric"
+                                  pattern="[0-9]*"
+                                  value={receiveQuantities[item.id] ? String(receiveQuantities[item.id]) : ''}
+                                  onChange={(event) => {
+                                    const digits = formatDigits(event.target.value)
+                                    setReceiveQuantities((prev) => ({
+                                      ...prev,
+                                      [item.id]: Math.min(
+                                        item.quantity - item.receivedQuantity,
+                                        digits ? Number(digits) : 0,
+                                      ),
+                                    }))
+                                  }}
+                                  placeholder="0"
+                                />
+                              </label>
+                            </div>
+                          ))}
+                        {isOpen && (
+                          <button
+                            className="primary"
+                            type="button"
+                            disabled={purchaseOrderSaving}
+                            onClick={() => handleReceivePurchaseOrder(order)}
+                          >
+                            {purchaseOrderSaving ? 'Registrando...' : 'Confirmar recebimento'}
+                          </button>
+                        )}
+                        <p className="hero-sub">Vendas pendentes aguardando estes produtos</p>
+                        {waitingSales.map((sale) => (
+                          <div className="finance-row" key={sale.saleId}>
+                            <div>
+                              <p className="sale-id">
+                                #{sale.publicId} · {sale.clientName}
+                              </p>
+                              <p className="hero-sub">
+                                {sale.items
+                                  .map(
+                                    (item) =>
+                                      `${item.pending}x ${
+                                        order.items.find((orderItem) => orderItem.productId === item.productId)
+                                          ?.productName ?? 'Produto'
+                                      }`,
+                                  )
+                                  .join(' · ')}
+                              </p>
+                            </div>
+                            <div>
+                              <span>Entrega prevista</span>
+                              <strong>
+                                {sale.deliveryDate ? new Date(sale.deliveryDate).toLocaleDateString('pt-BR') : '—'}
+                              </strong>
+                            </div>
+                            <button
+                              className="ghost"
+                              type="button"
+                              disabled={purchaseOrderSaving}
+                              onClick={() => handleTogglePurchaseOrderSale(order, sale)}
+                            >
+                              {sale.linked ? 'Desvincular' : 'Vincular ao pedido'}
+                            </button>
+                          </div>
+                        ))}
+                        {!waitingSales.length && <p className="empty-state">Nenhuma venda pendente com estes produtos.</p>}
+                      </div>
+                    )}
+                  </div>
+                )
+              })}
+              {!purchaseOrders.length && <p className="empty-state">Nenhum pedido de compra encontrado.</p>}
+            </div>
+          </section>
+        )}
+
+        {isAdmin && (
+          <section className="panel">
+            <div className="section-head">
+              <div>
+                <p className="eyebrow">Catálogo</p>
+                <h2>Categorias de produto</h2>
+              </div>
+              <div className="section-actions">
+                {productCategoryError && <span className="chip alert">{productCategoryError}</span>}
+                <span className="chip ghost">{productCategories.length} categorias</span>
+              </div>
+            </div>
+            <form className="filter-row finance" onSubmit={handleCreateProductCategory}>
+              <label>
+                Nova categoria
+                <input
+                  value={productCategoryName}
+                  onChange={(event) => setProductCategoryName(event.target.value)}
+                  placeholder="Ex: Colchões, Travesseiros, Bases box"
+                />
+              </label>
+              <button className="primary" type="submit">
+                Adicionar categoria
+              </button>
+            </form>
+            <div className="filter-pills">
+              {productCategories.map((category) => (
+                <button
+                  key={category.id}
+                  type="button"
+                  title="Excluir categoria"
+                  onClick={() => handleDeleteProductCategory(category)}
+                >
+                  {category.name} ({stockItems.filter((item) => item.categoryId === category.id).length}) ×
+                </button>
+              ))}
+              {!productCategories.length && <span className="muted">Nenhuma categoria cadastrada.</span>}
+            </div>
+          </section>
+        )}
+
+        {isAdmin && (
+          <section className="panel">
+            <div className="section-head">
+              <div>
+                <p className="eyebrow">Produtos com variações</p>
+                <h2>Tamanhos, alturas e densidades</h2>
+              </div>
+              <div className="section-actions">
+                {productFamilyError && <span className="chip alert">{productFamilyError}</span>}
+                <span className="chip ghost">{productFamilies.length} produtos</span>
+              </div>
+            </div>
+            <p className="hero-sub">
+              Cada variação é um SKU com estoque próprio. Na venda, o produto aparece uma vez e o tamanho é escolhido em
+              seguida.
+            </p>
+            <form className="filter-row finance" onSubmit={handleCreateProductFamily}>
+              <label>
+                Novo produto
+                <input
+                  value={productFamilyName}
+                  onChange={(event) => setProductFamilyName(event.target.value)}
+                  placeholder="Ex: Colchão Ortobom Physical"
+                />
+              </label>
+              <button className="primary" type="submit" disabled={productFamilySaving}>
+                Adicionar produto
+              </button>
+            </form>
+            <form className="filter-row finance" onSubmit={handleSaveVariant}>
+              <label>
+                Produto
+                <select
+                  value={variantForm.familyId}
+                  onChange={(event) => setVariantForm((prev) => ({ ...prev, familyId: event.target.value }))}
+                >
+                  <option value="">Selecione</option>
+                  {productFamilies.map((family) => (
+                    <option key={family.id} value={family.id}>
+                      {family.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                SKU
+                <select
+                  value={variantForm.productId}
+                  onChange={(event) => setVariantForm((prev) => ({ ...prev, productId: event.target.value }))}
+                >
+                  <option value="">Criar novo SKU</option>
+                  {stockItems
+                    .filter((stock) => !stock.familyId)
+                    .map((stock) => (
+                      <option key={stock.id} value={stock.id}>
+                        Vincular {stock.name} ({stock.sku})
+                      </option>
+                    ))}
+                </select>
+              </label>
+              <label>
+                Tamanho
+                <input
+                  value={variantForm.size}
+                  onChange={(event) => setVariantForm((prev) => ({ ...prev, size: event.target.value }))}
+                  placeholder="Ex: Casal 138x188"
+                />
+              </label>
+              <label>
+                Altura
+                <input
+                  value={variantForm.height}
+                  onChange={(event) => setVariantForm((prev) => ({ ...prev, height: event.target.value }))}
+                  placeholder="Ex: 30 cm"
+                />
+              </label>
+              <label>
+                Densidade
+                <input
+                  value={variantForm.firmness}
+                  onChange={(event) => setVariantForm((prev) => ({ ...prev, firmness: event.target.value }))}
+                  placeholder="Ex: D33, Firme"
+                />
+              </label>
+              {!variantForm.productId && (
+                <>
+                  <label>
+                    Código (opcional)
+                    <input
+                      value={variantForm.sku}
+                      onChange={(event) => setVariantForm((prev) => ({ ...prev, sku: event.target.value }))}
+                      placeholder="Gerado se vazio"
+                    />
+                  </label>
+                  <label>
+                    Quantidade inicial
+                    <input
+                      type="text"
+                      inputMode="numeric"
+                      pattern="[0-9]*"
+                      value={variantForm.quantity > 0 ? String(variantForm.quantity) : ''}
+                      onChange={(event) => {
+                        const digits = formatDigits(event.target.value)
+                        setVariantForm((prev) => ({ ...prev, quantity: digits ? Number(digits) : 0 }))
+                      }}
+                      placeholder="0"
+                    />
+                  </label>
+                </>
+              )}
+              <label>
+                Preço (R$)
+                <NumericFormat
+                  value={variantForm.price === 0 ? '' : variantForm.price}
+                  thousandSeparator="."
+                  decimalSeparator=","
+                  decimalScale={2}
+                  fixedDecimalScale
+                  allowNegative={false}
+                  inputMode="decimal"
+                  placeholder={variantForm.productId ? 'Manter atual' : '0,00'}
+                  onValueChange={({ floatValue }) => setVariantForm((prev) => ({ ...prev, price: floatValue ?? 0 }))}
+                />
+              </label>
+              <label>
+                Custo fábrica (R$)
+                <NumericFormat
+                  value={variantForm.factoryCost === 0 ? '' : variantForm.factoryCost}
+                  thousandSeparator="."
+                  decimalSeparator=","
+                  decimalScale={2}
+                  fixedDecimalScale
+                  allowNegative={false}
+                  inputMode="decimal"
+                  placeholder={variantForm.productId ? 'Manter atual' : '0,00'}
+                  onValueChange={({ floatValue }) =>
+                    setVariantForm((prev) => ({ ...prev, factoryCost: floatValue ?? 0 }))
+                  }
+                />
+              </label>
+              <button className="primary" type="submit" disabled={productFamilySaving}>
+                {productFamilySaving ? 'Salvando...' : variantForm.productId ? 'Vincular variação' : 'Criar variação'}
+              </button>
+            </form>
+            <div className="finance-table">
+              {productFamilies.map((family) => (
+                <div className="finance-row" key={family.id}>
+                  <div>
+                    <p className="sale-id">{family.name}</p>
+                    <p className="hero-sub">
+                      {family.variants.length
+                        ? family.variants
+                            .map((variant) => `${getVariantLabel(variant)} (${variant.quantity} em estoque)`)
+                            .join(' · ')
+                        : 'Nenhuma variação cadastrada.'}
+                    </p>
+                  </div>
+                  <div>
+                    <span>Estoque total</span>
+                    <strong>{family.variants.reduce((sum, variant) => sum + variant.quantity, 0)}</strong>
+                  </div>
+                  <div>
+                    <span>Preços</span>
+                    <strong>
+                      {family.variants.length
+                        ? `${formatCurrency(Math.min(...family.variants.map((variant) => variant.price)))} a ${formatCurrency(
+                            Math.max(...family.variants.map((variant) => variant.price)),
+                          )}`
+                        : '—'}
+                    </strong>
+                  </div>
+                  <div className="finance-payments">
+                    <span>Ações</span>
+                    <div className="calendar-nav">
+                      {family.variants.map((variant) => (
                         <button
+                          key={variant.id}
+                          className="ghost"
                           type="button"
-                          className="primary subtle"
-                          onClick={() =>
-                            setConfirmDeliveryState({
-                              sale,
-                            })
-                          }
-                          disabled={awaitingApproval}
+                          title={`Desvincular ${variant.sku}`}
+                          disabled={productFamilySaving}
+                          onClick={() => handleUnlinkVariant(family, variant)}
                         >
-                          Confirmar entrega
+                          {getVariantLabel(variant)} ×
                         </button>
-                      ) : (
-                        <span className={`chip ${sale.status === 'entregue' ? 'success' : 'danger'}`}>
-                          {sale.status === 'entregue' ? 'Entregue' : 'Cancelado'}
-                        </span>
-                      )}
+                      ))}
+                      <button
+                        className="ghost"
+                        type="button"
+                        disabled={productFamilySaving || family.variants.length > 0}
+                        onClick={() => handleDeleteProductFamily(family)}
+                      >
+                        Excluir
+                      </button>
                     </div>
                   </div>
-                )
-              })}
-          </div>
-        </section>
-
-      </div>
-    )
-  }
-
-  const renderDeliveries = () => {
-    const deliveryMatchesFilter = (sale: Sale) =>
-      sale.status !== 'cancelada' && (deliveryFilter === 'all' || sale.status === deliveryFilter)
-    const deliveriesByDate = sales
-      .filter((sale) => sale.deliveryDate)
-      .filter((sale) => deliveryMatchesFilter(sale))
-      .sort((a, b) => a.deliveryDate.localeCompare(b.deliveryDate))
-      .reduce<Record<string, Sale[]>>((acc, sale) => {
-        if (!sale.deliveryDate) return acc
-        acc[sale.deliveryDate] = acc[sale.deliveryDate] ? [...acc[sale.deliveryDate], sale] : [sale]
-        return acc
-      }, {})
+                </div>
+              ))}
+              {!productFamilies.length && <p className="empty-state">Nenhum produto com variações cadastrado.</p>}
+            </div>
+          </section>
+        )}
 
-    return (
-      <div className="page-stack">
         <section className="panel">
           <div className="section-head">
             <div>
-              <p className="eyebrow">Entregas</p>
-              <h2>Agenda completa</h2>
-            </div>
-            <div className="calendar-nav">
-              <button className="ghost" type="button" onClick={() => setDeliveryMonthOffset((prev) => Math.max(0, prev - 1))} disabled={deliveryMonthOffset === 0}>
-                Mês anterior
-              </button>
-              <button className="ghost" type="button" onClick={() => setDeliveryMonthOffset((prev) => prev + 1)}>
-                Próximo mês
-              </button>
+              <p className="eyebrow">Estoque</p>
+              <h2>Histórico de movimentos</h2>
             </div>
+            <span className="chip ghost">{filteredMovements.length} registros</span>
           </div>
-          <div className="filter-pills">
-            {(
-              [
-                { id: 'all', label: 'Todas' },
-                { id: 'pendente', label: 'Pendentes' },
-                { id: 'entregue', label: 'Entregues' },
-              ] as const
-            ).map((filter) => (
-              <button
-                type="button"
-                key={filter.id}
-                className={deliveryFilter === filter.id ? 'active' : ''}
-                onClick={() => setDeliveryFilter(filter.id)}
-              >
-                {filter.label}
-              </button>
-            ))}
+          <div className="filter-row">
+            <label>
+              Tipo
+              <select value={movementTypeFilter} onChange={(event) => setMovementTypeFilter(event.target.value as typeof movementTypeFilter)}>
+                <option value="all">Todos</option>
+                <option value="entrada">Entradas</option>
+                <option value="saida">Saídas</option>
+              </select>
+            </label>
+            <label>
+              Desde
+              <input
+                type="date"
+                value={movementDateStart}
+                onChange={(event) => setMovementDateStart(event.target.value)}
+              />
+            </label>
+            <label>
+              Até
+              <input
+                type="date"
+                value={movementDateEnd}
+                onChange={(event) => setMovementDateEnd(event.target.value)}
+              />
+            </label>
           </div>
-          {salesLoading && <p className="empty-state">Carregando vendas...</p>}
-          {!salesLoading && salesError && <p className="empty-state">{salesError}</p>}
-          <div className="calendar-grid">
-            {calendarRange.map((date) => {
-              const deliveries = deliveriesByDate[date] ?? []
+          <div className="sales-list">
+            {stockMovementsLoading && <p className="empty-state">Carregando movimentos...</p>}
+            {!stockMovementsLoading && stockMovementsError && <p className="empty-state">{stockMovementsError}</p>}
+            {!stockMovementsLoading && !stockMovementsError && filteredMovements.length === 0 && (
+              <p className="empty-state">Nenhum movimento registrado.</p>
+            )}
+            {!stockMovementsLoading &&
+              !stockMovementsError &&
+              filteredMovements.map((movement) => {
+              const product = stockItems.find((item) => item.id === movement.productId)
               return (
-                <div className="calendar-day" key={date}>
-                  <p className="day-label">
-                    {new Date(date).toLocaleDateString('pt-BR', { weekday: 'long', day: '2-digit', month: 'long' })}
-                  </p>
-                  <div className="day-deliveries">
-                    {deliveries.length === 0 && <p className="empty-state mini">Sem entregas.</p>}
-                    {deliveries.map((sale) => {
-                      const client = clients.find((clientItem) => clientItem.id === sale.clientId)
-                      return (
-                        <div className={`calendar-card ${sale.status}`} key={sale.id}>
-                          <div>
-                            <strong>{client?.name ?? sale.clientName ?? 'Cliente removido'}</strong>
-                            <p className="sale-meta mini">
-                              {sale.items
-                                .map(
-                                  (saleItem) =>
-                                    stockItems.find((stock) => stock.id === saleItem.productId)?.name ??
-                                    saleItem.customName ??
-                                    saleItem.productName ??
-                                    '',
-                                )
-                                .filter(Boolean)
-                                .join(', ')}
-                            </p>
-                          </div>
-                          {sale.status === 'pendente' ? (
-                            <button
-                              type="button"
-                              className="primary subtle"
-                              onClick={() =>
-                                setConfirmDeliveryState({
-                                  sale,
-                                  redirect: 'sleepLab',
-                                })
-                              }
-                            >
-                              Confirmar
-                            </button>
-                          ) : (
-                            <span className={`chip ${sale.status === 'entregue' ? 'success' : 'danger'}`}>
-                              {sale.status === 'entregue' ? 'Entregue' : 'Cancelado'}
-                            </span>
-                          )}
-                        </div>
-                      )
-                    })}
+                <div className={`movement-card ${movement.type}`} key={movement.id}>
+                  <div>
+                    <p className="sale-id">
+                      {movement.type === 'entrada' ? 'Entrada' : 'Saída'} · {product?.name ?? 'Produto removido'}
+                    </p>
+                    <p className="sale-meta">
+                      {movement.amount} unidades · {new Date(movement.createdAt).toLocaleString('pt-BR')}
+                    </p>
+                    {movement.note && <p className="sale-note">{movement.note}</p>}
                   </div>
                 </div>
               )
@@ -3776,168 +8264,367 @@ const focusInventoryPanel = (productId?: string) => {
           </div>
         </section>
       </div>
+    );
+  };
+
+  const renderFinance = () => {
+    const financeMin = financeMinValue ? Number(financeMinValue) : null
+    const financeMax = financeMaxValue ? Number(financeMaxValue) : null
+    const codeStart = parseSaleCode(financeCodeStart)
+    const codeEnd = parseSaleCode(financeCodeEnd)
+    const startBoundary = financeDateStart ? new Date(getLocalStartOfDayIso(financeDateStart)).getTime() : null
+    const endBoundary = financeDateEnd ? new Date(getLocalEndOfDayIso(financeDateEnd)).getTime() : null
+    const financeSales = (financeHistorySales ?? sales).filter((sale) => {
+      if (sale.status === 'cancelada') return false
+      const saleTimestamp = new Date(sale.createdAt).getTime()
+      if (startBoundary && saleTimestamp < startBoundary) return false
+      if (endBoundary && saleTimestamp > endBoundary) return false
+      if ((codeStart !== null || codeEnd !== null) && !isPublicSaleCode(sale.id)) return false
+      const saleCode = parseSaleCode(sale.id)
+      if (codeStart !== null && (saleCode === null || saleCode < codeStart)) return false
+      if (codeEnd !== null && (saleCode === null || saleCode > codeEnd)) return false
+      if (financeClientFilter !== 'all' && sale.clientId !== financeClientFilter) return false
+      if (financeMin !== null && sale.value < financeMin) return false
+      if (financeMax !== null && sale.value > financeMax) return false
+      return true
+    })
+    const paymentFilteredSales =
+      financePaymentFilter === 'all'
+        ? financeSales
+        : financeSales.filter((sale) => sale.payments.some((payment) => payment.method === financePaymentFilter))
+    // Período, pagamento e forma de reconhecimento são aplicados pela API; os demais filtros só existem na tela.
+    const hasLocalFinanceFilters = Boolean(
+      financeClientFilter !== 'all' || financeMinValue || financeMaxValue || financeCodeStart || financeCodeEnd,
     )
-  }
-
-  const renderStock = () => {
-    const stockMinValueNumber = stockMinValue ? Number(stockMinValue) : null
-    const stockMaxValueNumber = stockMaxValue ? Number(stockMaxValue) : null
-    const filteredStock = stockItems
-      .filter((item) => {
-        const term = stockSearch.toLowerCase().trim()
-        if (!term) return true
-        return item.name.toLowerCase().includes(term) || item.sku.toLowerCase().includes(term)
-      })
-      .filter((item) => {
-        if (stockFilter === 'low') return item.quantity <= 3
-        if (stockFilter === 'reserved') return item.reserved > 0
-        return true
+    const useComputedSummary = hasLocalFinanceFilters
+    const recognizedSales = paymentFilteredSales.filter((sale) => !sale.requiresApproval)
+    const computedPendingApproval = paymentFilteredSales.filter((sale) => sale.requiresApproval)
+    const computedRevenue = recognizedSales.reduce((sum, sale) => {
+      const methodTotal =
+        financePaymentFilter === 'all'
+          ? sale.payments.reduce((sub, payment) => sub + payment.amount, 0)
+          : sale.payments
+              .filter((payment) => payment.method === financePaymentFilter)
+              .reduce((sub, payment) => sub + payment.amount, 0)
+      return sum + methodTotal
+    }, 0)
+    const computedDiscount = recognizedSales.reduce((sum, sale) => sum + sale.discount, 0)
+    const totalOrders = recognizedSales.length
+    const averageTicket = totalOrders ? computedRevenue / totalOrders : 0
+    const computedPaymentsBreakdown = recognizedSales.reduce<Record<string, number>>((acc, sale) => {
+      sale.payments.forEach((payment) => {
+        acc[payment.method] = (acc[payment.method] ?? 0) + payment.amount
       })
-      .filter((item) => {
-        if (stockMinValueNumber !== null && !Number.isNaN(stockMinValueNumber) && item.price < stockMinValueNumber) {
-          return false
+      return acc
+    }, {})
+    const summaryPaymentBreakdown = !useComputedSummary && financeSummary
+      ? Object.entries(financeSummary.paymentsByMethod).reduce<Record<string, number>>((acc, [method, value]) => {
+          const label = paymentMethodLabelFromKey(method)
+          acc[label] = (acc[label] ?? 0) + value
+          return acc
+        }, {})
+      : computedPaymentsBreakdown
+    const extraPaymentEntries = Object.entries(summaryPaymentBreakdown).filter(
+      ([label]) => !paymentMethods.includes(label as PaymentMethod),
+    )
+    const summaryRevenue = !useComputedSummary && financeSummary ? financeSummary.totalRevenue : computedRevenue
+    const summaryPendingApproval = !useComputedSummary && financeSummary
+      ? financeSummary.pendingApproval
+      : {
+          count: computedPendingApproval.length,
+          value: computedPendingApproval.reduce((sum, sale) => sum + sale.value, 0),
         }
-        if (stockMaxValueNumber !== null && !Number.isNaN(stockMaxValueNumber) && item.price > stockMaxValueNumber) {
-          return false
+    const summaryDiscount = !useComputedSummary && financeSummary ? financeSummary.discountTotal : computedDiscount
+    const summaryDelivered = !useComputedSummary && financeSummary
+      ? financeSummary.delivered
+      : paymentFilteredSales.filter((sale) => sale.status === 'entregue').length
+    const summaryPending = !useComputedSummary && financeSummary
+      ? financeSummary.pending
+      : paymentFilteredSales.filter((sale) => isAwaitingDelivery(sale)).length
+    const computedExpenseTotals = financeExpenses.reduce<Record<string, number>>((acc, expense) => {
+      acc[expense.method] = (acc[expense.method] ?? 0) + expense.amount
+      return acc
+    }, {})
+    const summaryExpensesAmount =
+      !useComputedSummary && financeSummary
+        ? financeSummary.expensesTotal
+        : financeExpenses.reduce((sum, expense) => sum + expense.amount, 0)
+    const summaryExpenseBreakdown = !useComputedSummary && financeSummary
+      ? Object.entries(financeSummary.expensesByMethod).reduce<Record<string, number>>((acc, [method, value]) => {
+          const label = paymentMethodLabelFromKey(method)
+          acc[label] = (acc[label] ?? 0) + value
+          return acc
+        }, {})
+      : computedExpenseTotals
+    const summaryExpenseCategories = !useComputedSummary && financeSummary
+      ? financeSummary.expensesByCategory
+      : financeExpenses.reduce<Record<string, number>>((acc, expense) => {
+          const label = expense.categoryName || 'Sem categoria'
+          acc[label] = (acc[label] ?? 0) + expense.amount
+          return acc
+        }, {})
+    const summaryCardFees = !useComputedSummary && financeSummary ? financeSummary.cardFees : null
+    const summaryNetRevenue = !useComputedSummary && financeSummary
+      ? financeSummary.netRevenue
+      : summaryRevenue - summaryExpensesAmount
+    const weeklySales = paymentFilteredSales
+      .map((sale) => {
+        const weeklyPayment = sale.payments.find(
+          (payment) => payment.method === 'Semanal na loja' && payment.weeklyPlan,
+        )
+        if (!weeklyPayment?.weeklyPlan) return null
+        const totalExpected = weeklyPayment.weeklyPlan.weeks * weeklyPayment.weeklyPlan.weeklyAmount
+        const totalPaid = weeklyPayment.weeklyPlan.payments.reduce((sum, item) => sum + (item.paidAmount ?? 0), 0)
+        const pending = Math.max(0, totalExpected - totalPaid)
+        return {
+          sale,
+          weeklyPayment,
+          totalExpected,
+          totalPaid,
+          pending,
         }
-        return true
-      })
-    const totalAvailable = stockItems.reduce((sum, item) => sum + item.quantity, 0)
-    const totalReserved = stockItems.reduce((sum, item) => sum + item.reserved, 0)
-    const totalStockValue = stockItems.reduce((sum, item) => sum + item.price * item.quantity, 0)
-    const lowStock = stockItems.filter((item) => item.quantity <= 3).length
-    const selectedInventoryProduct = stockItems.find((item) => item.id === inventoryForm.productId)
-    const normalizedExplore = stockExploreTerm.trim().toLowerCase()
-    const stockSearchResults = normalizedExplore
-      ? [
-          ...stockItems
-            .filter((item) => `${item.name} ${item.sku}`.toLowerCase().includes(normalizedExplore))
-            .map((item) => ({
-              id: `prod-${item.id}`,
-              type: 'Produto',
-              title: item.name,
-              subtitle: `SKU ${item.sku} · ${item.quantity} disponíveis`,
-              action: () => focusInventoryPanel(item.id),
-            })),
-          ...stockMovements
-            .filter((movement) => {
-              const product = stockItems.find((item) => item.id === movement.productId)
-              const blob = `${product?.name ?? ''} ${movement.note}`.toLowerCase()
-              return blob.includes(normalizedExplore)
-            })
-            .map((movement) => {
-              const product = stockItems.find((item) => item.id === movement.productId)
-              return {
-                id: movement.id,
-                type: movement.type === 'entrada' ? 'Entrada' : 'Saída',
-                title: product?.name ?? 'Produto removido',
-                subtitle: `${movement.amount} unidades · ${new Date(movement.createdAt).toLocaleDateString('pt-BR')}`,
-                action: () => setStockExploreTerm(''),
-              }
-            }),
-        ]
-      : []
-
-    const filteredMovements = stockMovements
-      .filter((movement) => (movementTypeFilter === 'all' ? true : movement.type === movementTypeFilter))
-      .filter((movement) => {
-        const movementDate = movement.createdAt.slice(0, 10)
-        if (movementDateStart && movementDate < movementDateStart) return false
-        if (movementDateEnd && movementDate > movementDateEnd) return false
-        return true
       })
+      .filter(Boolean) as {
+        sale: Sale
+        weeklyPayment: SalePayment
+        totalExpected: number
+        totalPaid: number
+        pending: number
+      }[]
+    const weeklyTotalPaid = weeklySales.reduce((sum, item) => sum + item.totalPaid, 0)
+    const weeklyTotalExpected = weeklySales.reduce((sum, item) => sum + item.totalExpected, 0)
+    const weeklyTotalPending = Math.max(0, weeklyTotalExpected - weeklyTotalPaid)
+    const salesByClient = paymentFilteredSales.reduce<Record<string, number>>((acc, sale) => {
+      acc[sale.clientId] = (acc[sale.clientId] ?? 0) + sale.value
+      return acc
+    }, {})
+    const topClients = Object.entries(salesByClient)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 3)
+    const financeClientOptions = [{ id: 'all', name: 'Todos os clientes' }, ...clients.map((client) => ({ id: client.id, name: client.name }))] as const
 
     return (
-      <div className="page-stack stock-page">
-        <section className="panel stock-explorer">
+      <div className="page-stack">
+        <section className="panel">
           <div className="section-head">
             <div>
-              <p className="eyebrow">Estoque</p>
-              <h2>Pesquisar no estoque</h2>
+              <p className="eyebrow">Financeiro</p>
+              <h2>Visão de faturamento e vendas</h2>
+            </div>
+            <div className="section-actions">
+              {financeSummaryLoading && <span className="chip ghost">Atualizando…</span>}
+              {financeSummaryError && <span className="chip alert">{financeSummaryError}</span>}
+              <span className="chip ghost">
+                {useComputedSummary ? revenueRecognitionLabels.criacao : revenueRecognitionLabels[financeRecognitionMode]}
+              </span>
+              {!financeDateStart && <span className="chip ghost">Lista dos últimos {SALES_WINDOW_MONTHS} meses</span>}
+              <span className="chip ghost">{paymentFilteredSales.length} resultados</span>
             </div>
           </div>
-          <div className="stock-explorer-search">
-            <input
-              placeholder="Buscar por produto, SKU ou movimento"
-              value={stockExploreTerm}
-              onChange={(event) => setStockExploreTerm(event.target.value)}
-            />
-          </div>
-          {stockExploreTerm.trim() ? (
-            <div className="stock-explorer-results">
-              {stockSearchResults.length === 0 && <p className="empty-state">Nada encontrado com esse termo.</p>}
-              {stockSearchResults.map((result) => (
-                <button type="button" key={result.id} onClick={result.action}>
-                  <span className="result-type">{result.type}</span>
-                  <div>
-                    <p className="result-title">{result.title}</p>
-                    <p className="result-description">{result.subtitle}</p>
+          <div className="finance-metrics">
+            <div className="metric-card">
+              <p>Faturamento filtrado</p>
+              <h3>{formatCurrency(summaryRevenue)}</h3>
+              <span>Descontos aplicados: {formatCurrency(summaryDiscount)}</span>
+            </div>
+            <div className="metric-card">
+              <p>Aguardando aprovação</p>
+              <h3>{formatCurrency(summaryPendingApproval.value)}</h3>
+              <span>{summaryPendingApproval.count} pedidos fora do faturamento</span>
+            </div>
+            <div className="metric-card">
+              <p>Ticket médio</p>
+              <h3>{averageTicket ? formatCurrency(averageTicket) : 'R$ 0,00'}</h3>
+              <span>{totalOrders} pedidos no período</span>
+            </div>
+            <div className="metric-card">
+              <p>Formas de pagamento</p>
+              <div className="metric-bar">
+                {paymentMethods.map((method) => {
+                  const value = summaryPaymentBreakdown[method] ?? 0
+                  if (!value) return null
+                  const percent = summaryRevenue ? Math.round((value / summaryRevenue) * 100) : 0
+                  return (
+                    <div key={method}>
+                      <strong>{method}</strong>
+                      <span>{formatCurrency(value)} · {percent}%</span>
+                    </div>
+                  )
+                })}
+                {extraPaymentEntries.map(([label, value]) => {
+                  const percent = summaryRevenue ? Math.round((value / summaryRevenue) * 100) : 0
+                  return (
+                    <div key={label}>
+                      <strong>{label}</strong>
+                      <span>{formatCurrency(value)} · {percent}%</span>
+                    </div>
+                  )
+                })}
+                {summaryRevenue === 0 && <span className="muted">Sem pagamentos registrados</span>}
+              </div>
+            </div>
+            <div className="metric-card">
+              <p>Status das vendas</p>
+              <div className="metric-bar">
+                <div>
+                  <span>Entregues</span>
+                  <strong>{summaryDelivered}</strong>
+                </div>
+                <div>
+                  <span>Pendentes</span>
+                  <strong>{summaryPending}</strong>
+                </div>
+              </div>
+            </div>
+            <div className="metric-card">
+              <p>Saídas registradas</p>
+              <h3>{formatCurrency(summaryExpensesAmount)}</h3>
+              <div className="metric-bar">
+                {Object.keys(summaryExpenseBreakdown).length === 0 && (
+                  <span className="muted">Sem saídas no filtro atual.</span>
+                )}
+                {Object.entries(summaryExpenseBreakdown).map(([label, value]) => (
+                  <div key={label}>
+                    <strong>{label}</strong>
+                    <span>{formatCurrency(value)}</span>
                   </div>
-                </button>
-              ))}
+                ))}
+              </div>
             </div>
-          ) : (
-            <p className="field-note">Pesquise rapidamente por produtos, SKUs e movimentações recentes.</p>
-          )}
-        </section>
-
-        <section className="panel stock-hero">
-          <div className="stock-hero-top">
-            <div>
-              <p className="eyebrow">Estoque</p>
-              <h2>Visão geral</h2>
-              <p className="hero-sub">Capacidade, valor e status dos produtos da loja.</p>
+            <div className="metric-card">
+              <p>Saídas por categoria</p>
+              <div className="metric-bar">
+                {Object.keys(summaryExpenseCategories).length === 0 && (
+                  <span className="muted">Sem saídas no filtro atual.</span>
+                )}
+                {Object.entries(summaryExpenseCategories)
+                  .sort((a, b) => b[1] - a[1])
+                  .map(([label, value]) => (
+                    <div key={label}>
+                      <strong>{label}</strong>
+                      <span>{formatCurrency(value)}</span>
+                    </div>
+                  ))}
+              </div>
             </div>
-            <div className="stock-head-actions">
-              <button
-                type="button"
-                className="ghost"
-                onClick={() => focusInventoryPanel()}
-                disabled={!canManageStock}
-                title={canManageStock ? 'Registrar entrada/saída' : 'Disponível apenas para administradores'}
-              >
-                Registrar movimento
-              </button>
-              <button type="button" className="ghost" onClick={openCreateClientModal}>
-                Cadastrar cliente
-              </button>
-              <span className="chip ghost">{stockItems.length} SKUs</span>
+            <div className="metric-card">
+              <p>Taxas de cartão</p>
+              <h3 className="danger">{summaryCardFees === null ? '—' : formatCurrency(summaryCardFees)}</h3>
+              <span>
+                {summaryCardFees === null
+                  ? 'Limpe os filtros para ver bruto e líquido.'
+                  : `Bruto ${formatCurrency(summaryRevenue)} · Líquido ${formatCurrency(summaryRevenue - summaryCardFees)}`}
+              </span>
             </div>
-          </div>
-          <div className="stock-highlight-grid">
-            <div className="stock-highlight-card">
-              <p>Itens disponíveis</p>
-              <strong>{totalAvailable}</strong>
-              <span>{totalReserved} reservados</span>
+            <div className="metric-card">
+              <p>Resultado líquido</p>
+              <h3>{formatCurrency(summaryNetRevenue)}</h3>
+              <span>
+                {summaryCardFees === null
+                  ? 'Entradas - saídas considerando o filtro atual.'
+                  : 'Entradas - taxas de cartão - saídas considerando o filtro atual.'}
+              </span>
             </div>
-            <div className="stock-highlight-card">
-              <p>Valor em estoque</p>
-              <strong>{formatCurrency(totalStockValue)}</strong>
-              <span>{lowStock} itens com atenção</span>
+            <div className="metric-card">
+              <p>Pagamentos semanais</p>
+              <h3>{formatCurrency(weeklyTotalPaid)}</h3>
+              <span>Previsto: {formatCurrency(weeklyTotalExpected)} · Faltam {formatCurrency(weeklyTotalPending)}</span>
             </div>
-            <div className="stock-highlight-card">
-              <p>Capacidade</p>
-              <strong>{totalAvailable + totalReserved} unidades</strong>
-              <span>{stockMovements.length} movimentos registrados</span>
+            <div className="metric-card">
+              <p>Top clientes</p>
+              {topClients.length ? (
+                <ul className="metric-list">
+                  {topClients.map(([clientId, value]) => {
+                    const client = clients.find((item) => item.id === clientId)
+                    const fallbackSale = sales.find((sale) => sale.clientId === clientId)
+                    return (
+                      <li key={clientId}>
+                        <strong>{client?.name ?? fallbackSale?.clientName ?? 'Cliente removido'}</strong>
+                        <span>{formatCurrency(value)}</span>
+                      </li>
+                    )
+                  })}
+                </ul>
+              ) : (
+                <span className="muted">Nenhum cliente no filtro atual.</span>
+              )}
             </div>
           </div>
-          <div className="stock-search-row">
-            <input
-              placeholder="Buscar produto ou SKU"
-              value={stockSearch}
-              onChange={(event) => setStockSearch(event.target.value)}
-            />
-            <span className="chip ghost">{filteredStock.length} encontrados</span>
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Filtros</p>
+              <h2>Refine análises</h2>
+            </div>
           </div>
-          <div className="filter-row">
+          <div className="filter-row finance">
+            <label>
+              Desde
+              <input type="date" value={financeDateStart} onChange={(event) => setFinanceDateStart(event.target.value)} />
+            </label>
+            <label>
+              Até
+              <input type="date" value={financeDateEnd} onChange={(event) => setFinanceDateEnd(event.target.value)} />
+            </label>
+            <label>
+              Reconhecer receita por
+              <select
+                value={financeRecognitionMode}
+                onChange={(event) => setFinanceRecognitionMode(event.target.value as RevenueRecognitionMode)}
+              >
+                {(Object.keys(revenueRecognitionLabels) as RevenueRecognitionMode[]).map((mode) => (
+                  <option key={mode} value={mode}>
+                    {revenueRecognitionLabels[mode]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Código inicial
+              <input
+                value={financeCodeStart}
+                onChange={(event) => setFinanceCodeStart(event.target.value)}
+                placeholder="0001"
+              />
+            </label>
+            <label>
+              Código final
+              <input
+                value={financeCodeEnd}
+                onChange={(event) => setFinanceCodeEnd(event.target.value)}
+                placeholder="0020"
+              />
+            </label>
+            <label>
+              Cliente
+              <select value={financeClientFilter} onChange={(event) => setFinanceClientFilter(event.target.value)}>
+                {financeClientOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Pagamento
+              <select value={financePaymentFilter} onChange={(event) => setFinancePaymentFilter(event.target.value as typeof financePaymentFilter)}>
+                <option value="all">Todos</option>
+                {paymentMethods.map((method) => (
+                  <option key={method} value={method}>
+                    {method}
+                  </option>
+                ))}
+              </select>
+            </label>
             <label>
               Valor mínimo (R$)
               <input
                 type="number"
                 min={0}
-                step="0.01"
-                value={stockMinValue}
-                onChange={(event) => setStockMinValue(event.target.value)}
+                value={financeMinValue}
+                onChange={(event) => setFinanceMinValue(event.target.value)}
               />
             </label>
             <label>
@@ -3945,967 +8632,1884 @@ const focusInventoryPanel = (productId?: string) => {
               <input
                 type="number"
                 min={0}
-                step="0.01"
-                value={stockMaxValue}
-                onChange={(event) => setStockMaxValue(event.target.value)}
+                value={financeMaxValue}
+                onChange={(event) => setFinanceMaxValue(event.target.value)}
               />
             </label>
           </div>
-          <div className="filter-pills">
-            {(
-              [
-                { id: 'all', label: 'Todos' },
-                { id: 'low', label: 'Baixo estoque' },
-                { id: 'reserved', label: 'Com reserva' },
-              ] as const
-            ).map((filter) => (
-              <button
-                type="button"
-                key={filter.id}
-                className={stockFilter === filter.id ? 'active' : ''}
-                onClick={() => setStockFilter(filter.id)}
-              >
-                {filter.label}
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Margem bruta</p>
+              <h2>Lucro sobre o custo de fábrica</h2>
+            </div>
+            <div className="section-actions">
+              {marginLoading && <span className="chip ghost">Calculando…</span>}
+              {marginError && <span className="chip alert">{marginError}</span>}
+              {marginReport && (
+                <span className="chip ghost">
+                  {new Date(marginReport.start).toLocaleDateString('pt-BR')} a{' '}
+                  {new Date(marginReport.end).toLocaleDateString('pt-BR')}
+                </span>
+              )}
+            </div>
+          </div>
+          {marginReport && (
+            <>
+              <div className="finance-metrics">
+                <div className="metric-card">
+                  <p>Receita líquida</p>
+                  <h3>{formatCurrency(marginReport.revenue)}</h3>
+                  <span>{marginReport.sales.length} pedidos aprovados</span>
+                </div>
+                <div className="metric-card">
+                  <p>Custo de fábrica</p>
+                  <h3 className="danger">{formatCurrency(marginReport.cost)}</h3>
+                  <span>
+                    {marginReport.missingCostItems
+                      ? `${marginReport.missingCostItems} itens sem custo cadastrado`
+                      : 'Todos os itens com custo'}
+                  </span>
+                </div>
+                <div className="metric-card">
+                  <p>Margem bruta</p>
+                  <h3>{formatCurrency(marginReport.margin)}</h3>
+                  <span>{marginReport.marginPercent.toFixed(1).replace('.', ',')}% da receita</span>
+                </div>
+              </div>
+              <div className="finance-metrics">
+                <div className="metric-card">
+                  <p>Maiores margens</p>
+                  <div className="metric-bar">
+                    {!marginReport.products.length && <span className="muted">Sem vendas no período.</span>}
+                    {marginReport.products.slice(0, 5).map((product) => (
+                      <div key={product.productId ?? product.name}>
+                        <strong>{product.name}</strong>
+                        <span>
+                          {formatCurrency(product.margin)} · {product.marginPercent.toFixed(1).replace('.', ',')}%
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="metric-card">
+                  <p>Menores margens</p>
+                  <div className="metric-bar">
+                    {!marginReport.products.length && <span className="muted">Sem vendas no período.</span>}
+                    {marginReport.products
+                      .slice(-5)
+                      .reverse()
+                      .map((product) => (
+                        <div key={product.productId ?? product.name}>
+                          <strong>{product.name}</strong>
+                          <span className={product.margin < 0 ? 'danger' : undefined}>
+                            {formatCurrency(product.margin)} · {product.marginPercent.toFixed(1).replace('.', ',')}%
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+                <div className="metric-card">
+                  <p>Por vendedor</p>
+                  <div className="metric-bar">
+                    {!marginReport.sellers.length && <span className="muted">Sem vendas no período.</span>}
+                    {marginReport.sellers.map((seller) => (
+                      <div key={seller.userId ?? seller.name}>
+                        <strong>{seller.name}</strong>
+                        <span>
+                          {formatCurrency(seller.margin)} · {seller.marginPercent.toFixed(1).replace('.', ',')}%
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="finance-metrics">
+                <div className="metric-card">
+                  <p>Por categoria</p>
+                  <div className="metric-bar">
+                    {!marginReport.categories.length && <span className="muted">Sem vendas no período.</span>}
+                    {marginReport.categories.map((category) => (
+                      <div key={category.categoryId ?? category.name}>
+                        <strong>
+                          {category.name} · {category.quantity} un.
+                        </strong>
+                        <span>
+                          {formatCurrency(category.revenue)} vendidos · margem {formatCurrency(category.margin)} (
+                          {category.marginPercent.toFixed(1).replace('.', ',')}%)
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="metric-card">
+                  <p>Por marca / fábrica</p>
+                  <div className="metric-bar">
+                    {!marginReport.brands.length && <span className="muted">Sem vendas no período.</span>}
+                    {marginReport.brands.map((brand) => (
+                      <div key={brand.name}>
+                        <strong>
+                          {brand.name} · {brand.quantity} un.
+                        </strong>
+                        <span>
+                          {formatCurrency(brand.revenue)} vendidos · margem {formatCurrency(brand.margin)} (
+                          {brand.marginPercent.toFixed(1).replace('.', ',')}%)
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <div className="finance-table">
+                {marginReport.months.map((entry) => {
+                  const [year, month] = entry.month.split('-').map(Number)
+                  return (
+                    <div className="finance-row" key={entry.month}>
+                      <div>
+                        <p className="sale-id">
+                          {new Date(year, month - 1).toLocaleDateString('pt-BR', { month: 'long', year: 'numeric' })}
+                        </p>
+                      </div>
+                      <div>
+                        <span>Receita</span>
+                        <strong>{formatCurrency(entry.revenue)}</strong>
+                      </div>
+                      <div>
+                        <span>Custo</span>
+                        <strong className="danger">{formatCurrency(entry.cost)}</strong>
+                      </div>
+                      <div>
+                        <span>Margem</span>
+                        <strong>
+                          {formatCurrency(entry.margin)} · {entry.marginPercent.toFixed(1).replace('.', ',')}%
+                        </strong>
+                      </div>
+                    </div>
+                  )
+                })}
+              </div>
+              <div className="finance-table">
+                {marginReport.sales.map((sale) => (
+                  <div className="finance-row" key={sale.saleId}>
+                    <div>
+                      <p className="sale-id">{sale.publicId}</p>
+                      <p className="hero-sub">
+                        {sale.sellerName} · {new Date(sale.createdAt).toLocaleDateString('pt-BR')}
+                      </p>
+                    </div>
+                    <div>
+                      <span>Receita</span>
+                      <strong>{formatCurrency(sale.revenue)}</strong>
+                    </div>
+                    <div>
+                      <span>Custo</span>
+                      <strong className="danger">{formatCurrency(sale.cost)}</strong>
+                    </div>
+                    <div>
+                      <span>Margem</span>
+                      <strong className={sale.margin < 0 ? 'danger' : undefined}>
+                        {formatCurrency(sale.margin)} · {sale.marginPercent.toFixed(1).replace('.', ',')}%
+                      </strong>
+                    </div>
+                  </div>
+                ))}
+                {!marginReport.sales.length && !marginLoading && (
+                  <p className="empty-state">Nenhum pedido aprovado no período.</p>
+                )}
+              </div>
+            </>
+          )}
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Demonstrativo de resultado</p>
+              <h2>
+                DRE de{' '}
+                {new Date(statementMonth.year, statementMonth.month - 1).toLocaleDateString('pt-BR', {
+                  month: 'long',
+                  year: 'numeric',
+                })}
+              </h2>
+            </div>
+            <div className="section-actions">
+              {statementLoading && <span className="chip ghost">Calculando…</span>}
+              {statementError && <span className="chip alert">{statementError}</span>}
+              <div className="calendar-nav">
+                <button className="ghost" type="button" onClick={() => shiftStatementMonth(-1)}>
+                  Mês anterior
+                </button>
+                <button className="ghost" type="button" onClick={() => shiftStatementMonth(1)}>
+                  Próximo mês
+                </button>
+              </div>
+              <button className="ghost" type="button" disabled={!statement} onClick={handleDownloadStatementCsv}>
+                Baixar CSV
               </button>
-            ))}
+              <button className="primary" type="button" disabled={!statement} onClick={() => setStatementModalOpen(true)}>
+                Gerar PDF
+              </button>
+            </div>
           </div>
-          <div className="stock-grid">
-            {stockLoading && <p className="empty-state">Carregando produtos...</p>}
-            {!stockLoading && stockError && <p className="empty-state">{stockError}</p>}
-            {!stockLoading && !stockError && filteredStock.length === 0 && (
-              <p className="empty-state">Nenhum produto encontrado.</p>
-            )}
-            {!stockLoading &&
-              !stockError &&
-              filteredStock.map((item) => {
-                const isExpanded = expandedStockId === item.id
-                return (
-                  <div className={`stock-card ${isExpanded ? 'expanded' : ''}`} key={item.id}>
-                    <button type="button" className="stock-card-summary" onClick={() => toggleStockCard(item.id)}>
-                      <div>
-                        <p>{item.name}</p>
-                        <span>{item.sku}</span>
-                      </div>
-                      <div className="summary-badges">
-                        <span className="chip ghost">Disp. {item.quantity}</span>
-                        <span className="chip ghost">Res. {item.reserved}</span>
-                        <span className="chip highlight">{formatCurrency(item.price)}</span>
-                      </div>
-                    </button>
+          {statement && (
+            <div className="finance-table">
+              {statement.lines.map((line) => (
+                <div className="finance-row" key={line.key}>
+                  <div>
+                    <p className={line.kind === 'resultado' ? 'sale-id' : undefined}>{line.label}</p>
                   </div>
-                )
-              })}
+                  <div>
+                    <span>Mês</span>
+                    <strong className={line.kind === 'resultado' && line.current < 0 ? 'danger' : undefined}>
+                      {formatCurrency(line.current)}
+                    </strong>
+                  </div>
+                  <div>
+                    <span>Mês anterior</span>
+                    <strong>{formatCurrency(line.previous)}</strong>
+                  </div>
+                  <div>
+                    <span>Variação</span>
+                    <strong>
+                      {formatCurrency(line.change)}
+                      {line.changePercent !== null && ` · ${line.changePercent.toFixed(1).replace('.', ',')}%`}
+                    </strong>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Fluxo de caixa</p>
+              <h2>Projeção dos próximos 90 dias</h2>
+            </div>
+            <div className="section-actions">
+              {cashFlowLoading && <span className="chip ghost">Atualizando…</span>}
+              {cashFlowError && <span className="chip alert">{cashFlowError}</span>}
+              <div className="filter-pills">
+                {(
+                  [
+                    { id: 'dia', label: 'Por dia' },
+                    { id: 'semana', label: 'Por semana' },
+                  ] as const
+                ).map((option) => (
+                  <button
+                    key={option.id}
+                    type="button"
+                    className={cashFlowGranularity === option.id ? 'active' : ''}
+                    onClick={() => setCashFlowGranularity(option.id)}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
-          {expandedStockId && (
-            <div className="stock-detail-panel">
+          <form
+            className="filter-row finance"
+            onSubmit={(event) => {
+              event.preventDefault()
+              setCashFlowAppliedBalance(cashFlowOpeningBalance)
+            }}
+          >
+            <label>
+              Saldo atual (R$)
+              <NumericFormat
+                value={cashFlowOpeningBalance === 0 ? '' : cashFlowOpeningBalance}
+                thousandSeparator="."
+                decimalSeparator=","
+                decimalScale={2}
+                fixedDecimalScale
+                inputMode="decimal"
+                placeholder="0,00"
+                onValueChange={({ floatValue }) => setCashFlowOpeningBalance(floatValue ?? 0)}
+              />
+            </label>
+            <button className="ghost" type="submit">
+              Projetar
+            </button>
+          </form>
+          {cashFlow?.firstNegative && (
+            <p className="login-error">
+              Saldo projetado fica negativo a partir de {new Date(cashFlow.firstNegative).toLocaleDateString('pt-BR')}{' '}
+              (mínimo de {formatCurrency(cashFlow.minBalance)}).
+            </p>
+          )}
+          {cashFlow && (
+            <>
+              <div className="finance-metrics">
+                <div className="metric-card">
+                  <p>Entradas previstas</p>
+                  <h3>{formatCurrency(cashFlow.totals.settlements + cashFlow.totals.receivables)}</h3>
+                  <span>
+                    Cartões {formatCurrency(cashFlow.totals.settlements)} · A receber{' '}
+                    {formatCurrency(cashFlow.totals.receivables)}
+                  </span>
+                </div>
+                <div className="metric-card">
+                  <p>Saídas agendadas</p>
+                  <h3 className="danger">{formatCurrency(cashFlow.totals.expenses)}</h3>
+                  <span>Recebíveis vencidos fora da projeção: {formatCurrency(cashFlow.overdueReceivables)}</span>
+                </div>
+                <div className="metric-card">
+                  <p>Saldo ao fim do período</p>
+                  <h3 className={cashFlow.closingBalance < 0 ? 'danger' : ''}>{formatCurrency(cashFlow.closingBalance)}</h3>
+                  <span>Menor saldo: {formatCurrency(cashFlow.minBalance)}</span>
+                </div>
+              </div>
               {(() => {
-                const product =
-                  stockItems.find((item) => item.id === expandedStockId) ?? stockItems[0]
-                if (!product) return null
-                const totalUnits = product.quantity + product.reserved
-                const reservedPercent = totalUnits ? Math.round((product.reserved / totalUnits) * 100) : 0
-                const hasHistory = stockMovements.some((movement) => movement.productId === product.id)
+                const balances = cashFlow.periods.map((period) => period.balance)
+                const maxValue = Math.max(0, ...balances)
+                const minValue = Math.min(0, ...balances)
+                const range = maxValue - minValue || 1
+                const toY = (value: number) => ((maxValue - value) / range) * 100
+                const barWidth = 100 / Math.max(1, cashFlow.periods.length)
                 return (
-                  <>
-                    <div className="stock-detail-head">
-                      <div className="stock-detail-thumb">
-                        <img src={product.imageUrl || customItemPlaceholder} alt={product.name} />
-                        {isAdmin && (
-                          <button type="button" className="ghost tiny" onClick={() => openEditProductModal(product)}>
-                            Editar produto
-                          </button>
-                        )}
-                      </div>
-                      <div className="stock-detail-meta">
-                        <h4>{product.name}</h4>
-                        <p>SKU {product.sku}</p>
-                        <div className="stock-detail-tags">
-                          <span className="chip ghost">Disponível {product.quantity}</span>
-                          <span className="chip ghost">Reservado {product.reserved}</span>
-                          <span className="chip highlight">{formatCurrency(product.price)}</span>
-                        </div>
-                        <div className="stock-detail-actions">
-                          <button
-                            type="button"
-                            className="ghost"
-                            onClick={() => focusInventoryPanel(product.id)}
-                            disabled={!canManageStock}
-                          >
-                            Movimentar
-                          </button>
-                          <button
-                            type="button"
-                            className="ghost danger"
-                            onClick={() => handleDeleteProduct(product.id)}
-                            disabled={product.quantity > 0 || product.reserved > 0 || !canManageStock}
-                          >
-                            Remover
-                          </button>
-                        </div>
+                  <svg className="cash-flow-chart" viewBox="0 0 100 100" preserveAspectRatio="none" role="img">
+                    {cashFlow.periods.map((period, index) => (
+                      <rect
+                        key={period.start}
+                        className={period.balance < 0 ? 'negative' : ''}
+                        x={index * barWidth + barWidth * 0.15}
+                        width={barWidth * 0.7}
+                        y={toY(Math.max(period.balance, 0))}
+                        height={Math.max(0.5, Math.abs(toY(period.balance) - toY(0)))}
+                      >
+                        <title>
+                          {new Date(period.start).toLocaleDateString('pt-BR')}: saldo {formatCurrency(period.balance)} (
+                          {period.net >= 0 ? '+' : ''}
+                          {formatCurrency(period.net)})
+                        </title>
+                      </rect>
+                    ))}
+                    <line x1={0} x2={100} y1={toY(0)} y2={toY(0)} />
+                  </svg>
+                )
+              })()}
+              <div className="finance-table">
+                {cashFlow.periods
+                  .filter((period) => period.settlements || period.receivables || period.expenses)
+                  .map((period) => (
+                    <div className="finance-row" key={period.start}>
+                      <div>
+                        <p className="sale-id">
+                          {new Date(period.start).toLocaleDateString('pt-BR')}
+                          {cashFlow.granularity === 'semana' &&
+                            ` a ${new Date(new Date(period.end).getTime() - 1).toLocaleDateString('pt-BR')}`}
+                        </p>
                       </div>
-                    </div>
-                    <div className="stock-detail-grid">
                       <div>
-                        <span>Valor unitário</span>
-                        <strong>{formatCurrency(product.price)}</strong>
+                        <span>Entradas</span>
+                        <strong>{formatCurrency(period.settlements + period.receivables)}</strong>
                       </div>
-                      {isAdmin && (
-                        <div>
-                          <span>Custo fábrica</span>
-                          <strong>
-                            {product.factoryCost !== undefined ? formatCurrency(product.factoryCost) : '—'}
-                          </strong>
-                        </div>
-                      )}
                       <div>
-                        <span>Estoque estimado</span>
-                        <strong>{formatCurrency(product.price * product.quantity)}</strong>
+                        <span>Saídas</span>
+                        <strong className="danger">{formatCurrency(period.expenses)}</strong>
                       </div>
                       <div>
-                        <span>Status</span>
-                        <strong>{hasHistory ? 'Com movimentações recentes' : 'Sem movimentos'}</strong>
+                        <span>Saldo</span>
+                        <strong className={period.balance < 0 ? 'danger' : ''}>{formatCurrency(period.balance)}</strong>
                       </div>
                     </div>
-                    <div className="stock-detail-meter">
-                      <span>Reservado</span>
-                      <div className="meter">
-                        <span style={{ width: `${reservedPercent}%` }} />
-                      </div>
-                      <small>{reservedPercent}% reservado</small>
+                  ))}
+              </div>
+            </>
+          )}
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Contas a receber</p>
+              <h2>Saldos em aberto e atrasos</h2>
+            </div>
+            <div className="section-actions">
+              {financeReceivablesLoading && <span className="chip ghost">Atualizando…</span>}
+              {financeReceivablesError && <span className="chip alert">{financeReceivablesError}</span>}
+              <span className="chip ghost">{financeReceivables?.sales.length ?? 0} pedidos</span>
+            </div>
+          </div>
+          <div className="finance-metrics">
+            <div className="metric-card">
+              <p>Total a receber</p>
+              <h3>{formatCurrency(financeReceivables?.totalOpen ?? 0)}</h3>
+              <span>A vencer: {formatCurrency(financeReceivables?.notDue ?? 0)}</span>
+            </div>
+            <div className="metric-card">
+              <p>Vencido</p>
+              <h3>{formatCurrency(financeReceivables?.totalOverdue ?? 0)}</h3>
+              <div className="metric-bar">
+                {(['0-7', '8-30', '30+'] as const).map((bucket) => (
+                  <div key={bucket}>
+                    <span>{bucket === '30+' ? 'Mais de 30 dias' : `${bucket} dias`}</span>
+                    <strong>{formatCurrency(financeReceivables?.buckets[bucket] ?? 0)}</strong>
+                  </div>
+                ))}
+              </div>
+            </div>
+            <div className="metric-card">
+              <p>Maiores saldos por cliente</p>
+              <div className="metric-bar">
+                {(financeReceivables?.clients ?? []).slice(0, 3).map((client) => (
+                  <div key={client.clientId}>
+                    <span>{client.clientName || 'Cliente removido'}</span>
+                    <strong>{formatCurrency(client.open)}</strong>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="finance-table">
+            {!financeReceivablesLoading && (financeReceivables?.sales.length ?? 0) === 0 && (
+              <p className="empty-state">Nenhum valor em aberto.</p>
+            )}
+            {(financeReceivables?.sales ?? []).map((sale) =>
+              sale.payments.map((payment) => {
+                const overdueDues = payment.dues.filter((due) => due.overdue)
+                return (
+                  <div className="finance-row" key={payment.paymentId}>
+                    <div>
+                      <p className="sale-id">#{sale.publicId}</p>
+                      <p className="hero-sub">{sale.clientName || 'Cliente removido'}</p>
                     </div>
-                  </>
+                    <div>
+                      <span>{payment.method}</span>
+                      <strong>{formatCurrency(payment.open)}</strong>
+                    </div>
+                    <div>
+                      <span>Situação</span>
+                      {overdueDues.length > 0 ? (
+                        <strong className="danger">
+                          {payment.method === 'Semanal na loja'
+                            ? `${overdueDues.length} semana(s) em atraso`
+                            : 'Em atraso'}{' '}
+                          · {Math.max(...overdueDues.map((due) => due.daysOverdue))} dias
+                        </strong>
+                      ) : (
+                        <strong>
+                          {payment.nextDueDate
+                            ? `Vence em ${new Date(payment.nextDueDate).toLocaleDateString('pt-BR')}`
+                            : 'Em dia'}
+                        </strong>
+                      )}
+                    </div>
+                    <div className="finance-payments">
+                      <span>Ações</span>
+                      <button
+                        className="ghost"
+                        type="button"
+                        onClick={() => {
+                          setReceivableReceiptError(null)
+                          setReceivableReceipt({
+                            sale,
+                            payment,
+                            amount: overdueDues.reduce((sum, due) => sum + due.open, 0) || payment.dues[0]?.open || 0,
+                          })
+                        }}
+                      >
+                        Registrar recebimento
+                      </button>
+                    </div>
+                  </div>
                 )
-              })()}
+              }),
+            )}
+          </div>
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Pagamentos semanais</p>
+              <h2>Controle de parcelas em aberto</h2>
             </div>
-          )}
-       </section>
+            <span className="chip ghost">{weeklySales.length} planos</span>
+          </div>
+          <div className="finance-table">
+            {weeklySales.length === 0 && (
+              <p className="empty-state">Nenhuma venda com pagamento semanal no filtro atual.</p>
+            )}
+            {weeklySales.map((item) => {
+              const client = clients.find((clientItem) => clientItem.id === item.sale.clientId)
+              return (
+                <div className="finance-row" key={item.sale.id}>
+                  <div>
+                    <p className="sale-id">#{item.sale.id}</p>
+                    <p className="hero-sub">{client?.name ?? item.sale.clientName ?? 'Cliente removido'}</p>
+                  </div>
+                  <div>
+                    <span>Plano</span>
+                    <strong>{item.weeklyPayment.weeklyPlan?.weeks}x de {formatCurrency(item.weeklyPayment.weeklyPlan?.weeklyAmount ?? 0)}</strong>
+                  </div>
+                  <div>
+                    <span>Recebido</span>
+                    <strong>{formatCurrency(item.totalPaid)}</strong>
+                  </div>
+                  <div>
+                    <span>Faltam</span>
+                    <strong>{formatCurrency(item.pending)}</strong>
+                  </div>
+                  <div className="finance-payments">
+                    <span>Ações</span>
+                    <button
+                      className="ghost"
+                      type="button"
+                      onClick={() => setWeeklyPlanModal({ saleId: item.sale.id, paymentId: item.weeklyPayment.id })}
+                    >
+                      Controlar semanas
+                    </button>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Repasses de cartão</p>
+              <h2>Previsão de entrada na conta</h2>
+            </div>
+            <div className="section-actions">
+              {settlementsError && <span className="chip alert">{settlementsError}</span>}
+              <div className="filter-pills">
+                {[30, 60, 90].map((days) => (
+                  <button
+                    key={days}
+                    type="button"
+                    className={settlementHorizon === days ? 'active' : ''}
+                    onClick={() => setSettlementHorizon(days)}
+                  >
+                    {days} dias
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          <div className="finance-metrics">
+            <div className="metric-card">
+              <p>Bruto a receber</p>
+              <h3>{formatCurrency(settlementForecast?.totalGross ?? 0)}</h3>
+              <span>{settlementForecast?.payments.length ?? 0} pagamentos em cartão</span>
+            </div>
+            <div className="metric-card">
+              <p>Líquido previsto</p>
+              <h3>{formatCurrency(settlementForecast?.totalNet ?? 0)}</h3>
+              <span>
+                Taxas: {formatCurrency((settlementForecast?.totalGross ?? 0) - (settlementForecast?.totalNet ?? 0))}
+              </span>
+            </div>
+          </div>
+          <div className="finance-table">
+            {(settlementForecast?.days ?? []).map((day) => (
+              <div className="finance-row" key={day.date}>
+                <div>
+                  <p className="sale-id">{new Date(`${day.date}T00:00:00`).toLocaleDateString('pt-BR')}</p>
+                  <p className="hero-sub">{day.count} repasse(s)</p>
+                </div>
+                <div>
+                  <span>Bruto</span>
+                  <strong>{formatCurrency(day.gross)}</strong>
+                </div>
+                <div>
+                  <span>Líquido</span>
+                  <strong>{formatCurrency(day.net)}</strong>
+                </div>
+              </div>
+            ))}
+            {settlementForecast && !settlementForecast.days.length && (
+              <p className="empty-state">Nenhum repasse de cartão previsto no período.</p>
+            )}
+          </div>
+        </section>
 
-        <section className="panel stock-movement" ref={inventoryPanelRef}>
+        <section className="panel">
           <div className="section-head">
             <div>
-              <p className="eyebrow">Estoque</p>
-              <h2>Movimentar inventário</h2>
+              <p className="eyebrow">Taxas de cartão</p>
+              <h2>Tabela da adquirente</h2>
+            </div>
+            <div className="section-actions">
+              {cardFeesError && <span className="chip alert">{cardFeesError}</span>}
             </div>
-            <button
-              type="button"
-              className={`primary ${inventoryPanelOpen ? 'subtle' : ''}`}
-              onClick={() => canManageStock && setInventoryPanelOpen((prev) => !prev)}
-              disabled={!canManageStock}
-              title={canManageStock ? 'Abrir formulário' : 'Somente administradores podem movimentar estoque'}
-            >
-              {inventoryPanelOpen ? 'Fechar formulário' : 'Registrar movimento'}
-            </button>
           </div>
-          <p className="hero-sub">Selecione o tipo de movimento, o produto e confirme a quantidade.</p>
-          <div className={`inventory-form-shell ${inventoryPanelOpen ? 'open' : ''}`}>
-            {!canManageStock ? (
-              <p className="empty-state">Somente administradores podem registrar entradas ou saídas.</p>
-            ) : inventoryPanelOpen ? (
-              <form className="stock-unified-card" onSubmit={handleInventoryMovement}>
-                <div className="inventory-columns">
-                  <div className="inventory-main">
-                    <div className="inventory-form-head">
-                      <p className="form-title">Tipo de movimento</p>
-                      <div className="type-switch">
-                        {(['entrada', 'saida'] as StockMovement['type'][]).map((type) => (
-                          <button
-                            key={type}
-                            type="button"
-                            className={inventoryForm.type === type ? 'active' : ''}
-                            onClick={() =>
-                              setInventoryForm((prev) => ({
-                                ...prev,
-                                type,
-                                isNewProduct: type === 'entrada' ? prev.isNewProduct : false,
-                              }))
-                            }
-                          >
-                            {type === 'entrada' ? 'Entrada' : 'Saída'}
-                          </button>
-                        ))}
-                      </div>
-                    </div>
-                    <div className={`new-product-toggle ${inventoryForm.type !== 'entrada' ? 'disabled' : ''}`}>
-                      <label>
-                        <input
-                          type="checkbox"
-                          checked={inventoryForm.isNewProduct}
-                          disabled={inventoryForm.type !== 'entrada'}
-                          onChange={(event) =>
-                            setInventoryForm((prev) => ({
-                              ...prev,
-                              isNewProduct: event.target.checked && prev.type === 'entrada',
-                            }))
-                          }
-                        />
-                        Cadastrar novo produto nesta entrada
-                      </label>
-                      <span>
-                        {inventoryForm.type === 'entrada'
-                          ? 'Informe os dados e a foto para incluir no catálogo.'
-                          : 'Disponível apenas para movimentos de entrada.'}
-                      </span>
-                    </div>
-                    <div className="inventory-grid">
-                      {inventoryForm.isNewProduct ? (
-                        <>
-                          <label>
-                            Nome do produto
-                            <input
-                              value={inventoryForm.newProductName}
-                              onChange={(event) =>
-                                setInventoryForm((prev) => ({ ...prev, newProductName: event.target.value }))
-                              }
-                              placeholder="Ex: Colchão Wave Supreme"
-                            />
-                          </label>
-                          <label>
-                            SKU
-                            <input
-                              value={inventoryForm.newProductSku}
-                              onChange={(event) =>
-                                setInventoryForm((prev) => ({ ...prev, newProductSku: event.target.value }))
-                              }
-                              placeholder="SKU interno"
-                            />
-                          </label>
-                          <label>
-                            Preço base (R$)
-                            <input
-                              type="number"
-                              min={0}
-                              step="0.01"
-                              value={inventoryForm.newProductPrice}
-                              onChange={(event) =>
-                                setInventoryForm((prev) => ({ ...prev, newProductPrice: event.target.value }))
-                              }
-                              placeholder="8900"
-                            />
-                          </label>
-                          <label>
-                            Custo fábrica (R$)
-                            <input
-                              type="number"
-                              min={0}
-                              step="0.01"
-                              value={inventoryForm.newProductFactoryCost}
-                              onChange={(event) =>
-                                setInventoryForm((prev) => ({ ...prev, newProductFactoryCost: event.target.value }))
-                              }
-                              placeholder="4500"
-                            />
-                          </label>
-                        </>
-                      ) : (
-                      <label>
-                        Produto
-                        <select
-                          value={inventoryForm.productId}
-                          onChange={(event) =>
-                            setInventoryForm((prev) => ({ ...prev, productId: event.target.value }))
-                          }
-                        >
-                          {!stockItems.length && <option value="">Nenhum produto cadastrado</option>}
-                          {stockItems.map((item) => (
-                            <option key={item.id} value={item.id}>
-                              {item.name}
-                            </option>
-                          ))}
-                          </select>
-                        </label>
-                      )}
-                      <label>
-                        Quantidade
-                        <input
-                          type="number"
-                          min={1}
-                          value={inventoryForm.amount}
-                          onChange={(event) =>
-                            setInventoryForm((prev) => ({ ...prev, amount: Number(event.target.value) }))
-                          }
-                        />
-                      </label>
-                    </div>
-                    {inventoryForm.isNewProduct && (
-                      <div className="inventory-grid">
-                        <label className="file-field">
-                          Foto do produto
-                          <input type="file" accept="image/*" onChange={handleProductImageUpload} />
-                        </label>
-                        {inventoryForm.newProductImage && (
-                          <div className="inventory-image-preview">
-                            <img src={inventoryForm.newProductImage} alt="Prévia do produto" />
-                            <button
-                              type="button"
-                              className="ghost"
-                              onClick={() => setInventoryForm((prev) => ({ ...prev, newProductImage: '' }))}
-                            >
-                              Remover foto
-                            </button>
-                          </div>
-                        )}
-                      </div>
-                    )}
-                    <label>
-                      Observação
-                      <input
-                        value={inventoryForm.note}
-                        onChange={(event) => setInventoryForm((prev) => ({ ...prev, note: event.target.value }))}
-                        placeholder="Fornecedor, NF ou motivo"
-                      />
-                    </label>
-                  </div>
-                  <aside className="inventory-preview">
-                    {inventoryForm.isNewProduct ? (
-                      <div className="preview-card">
-                        <p className="preview-label">Novo produto</p>
-                        <h4>Cadastre e já dê entrada</h4>
-                        <p>Preencha os campos ao lado e inclua uma foto para estrear o item no catálogo.</p>
-                      </div>
-                    ) : selectedInventoryProduct ? (
-                      <div className="preview-card">
-                        <img src={selectedInventoryProduct.imageUrl} alt={selectedInventoryProduct.name} />
-                        <h4>{selectedInventoryProduct.name}</h4>
-                        <p className="preview-sku">{selectedInventoryProduct.sku}</p>
-                        <div className="preview-metrics">
-                          <div>
-                            <span>Disponível</span>
-                            <strong>{selectedInventoryProduct.quantity}</strong>
-                          </div>
-                          <div>
-                            <span>Reservado</span>
-                            <strong>{selectedInventoryProduct.reserved}</strong>
-                          </div>
-                          <div>
-                            <span>Valor</span>
-                            <strong>{formatCurrency(selectedInventoryProduct.price)}</strong>
-                          </div>
-                          {isAdmin && (
-                            <div>
-                              <span>Custo fábrica</span>
-                              <strong>
-                                {selectedInventoryProduct.factoryCost !== undefined
-                                  ? formatCurrency(selectedInventoryProduct.factoryCost)
-                                  : '—'}
-                              </strong>
-                            </div>
-                          )}
-                        </div>
-                        <p className="preview-note">
-                          {selectedInventoryProduct.quantity > 0
-                            ? 'Produto em linha. Registre saídas ou novas entradas.'
-                            : 'Sem unidades disponíveis. Reponha o estoque.'}
-                        </p>
-                      </div>
-                    ) : (
-                      <div className="preview-card">
-                        <h4>Sem produtos cadastrados</h4>
-                        <p>Cadastre um novo item para começar a controlar o inventário.</p>
-                      </div>
-                    )}
-                  </aside>
+          <p className="hero-sub">
+            Parcelamentos sem faixa própria usam a maior faixa cadastrada abaixo deles. Salvar uma faixa existente
+            substitui a taxa.
+          </p>
+          <form className="filter-row finance" onSubmit={handleSaveCardFee}>
+            <label>
+              Forma
+              <select
+                value={cardFeeForm.method}
+                onChange={(event) => {
+                  const method = event.target.value as PaymentMethod
+                  setCardFeeForm((prev) => ({
+                    ...prev,
+                    method,
+                    installments: method === 'Cartão de débito' ? '1' : prev.installments,
+                    settlementDays: method === 'Cartão de débito' ? '1' : '30',
+                  }))
+                }}
+              >
+                <option value="Cartão de crédito">Cartão de crédito</option>
+                <option value="Cartão de débito">Cartão de débito</option>
+              </select>
+            </label>
+            <label>
+              Parcelas
+              <input
+                type="number"
+                min={1}
+                max={24}
+                value={cardFeeForm.installments}
+                disabled={cardFeeForm.method === 'Cartão de débito'}
+                onChange={(event) => setCardFeeForm((prev) => ({ ...prev, installments: event.target.value }))}
+              />
+            </label>
+            <label>
+              Taxa (%)
+              <input
+                type="number"
+                min={0}
+                max={100}
+                step="0.01"
+                value={cardFeeForm.feePercent}
+                onChange={(event) => setCardFeeForm((prev) => ({ ...prev, feePercent: event.target.value }))}
+                placeholder="3,49"
+              />
+            </label>
+            <label>
+              Repasse (dias)
+              <input
+                type="number"
+                min={0}
+                value={cardFeeForm.settlementDays}
+                onChange={(event) => setCardFeeForm((prev) => ({ ...prev, settlementDays: event.target.value }))}
+              />
+            </label>
+            <button className="primary" type="submit" disabled={cardFeeSaving || cardFeeForm.feePercent === ''}>
+              {cardFeeSaving ? 'Salvando...' : 'Salvar taxa'}
+            </button>
+          </form>
+          <div className="finance-table">
+            {cardFees.map((fee) => (
+              <div className="finance-row" key={fee.id}>
+                <div>
+                  <p className="sale-id">{fee.method}</p>
+                  <p className="hero-sub">{fee.method === 'Cartão de débito' ? 'À vista' : `${fee.installments}x`}</p>
                 </div>
-                {inventorySubmitError && <p className="login-error">{inventorySubmitError}</p>}
-                <div className="inventory-actions">
-                  <button
-                    type="button"
-                    className="ghost"
-                    onClick={() => setInventoryPanelOpen(false)}
-                    disabled={inventorySubmitLoading}
-                  >
-                    Cancelar
+                <div>
+                  <span>Taxa</span>
+                  <strong>{fee.feePercent.toFixed(2).replace('.', ',')}%</strong>
+                </div>
+                <div>
+                  <span>Repasse</span>
+                  <strong>D+{fee.settlementDays}</strong>
+                </div>
+                <div className="finance-payments">
+                  <span>Ações</span>
+                  <button className="ghost" type="button" onClick={() => handleDeleteCardFee(fee.id)}>
+                    Remover
                   </button>
-                  <button
-                    className="primary"
-                    type="submit"
-                    disabled={
-                      inventorySubmitLoading ||
-                      (!inventoryForm.isNewProduct && !inventoryForm.productId) ||
-                      (!inventoryForm.isNewProduct && stockItems.length === 0)
+                </div>
+              </div>
+            ))}
+            {!cardFees.length && <p className="empty-state">Nenhuma taxa cadastrada. Os pagamentos entram pelo valor bruto.</p>}
+          </div>
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Caixa</p>
+              <h2>
+                {cashSession
+                  ? `Aberto em ${new Date(cashSession.openedAt).toLocaleString('pt-BR')} por ${cashSession.openedByName}`
+                  : 'Caixa fechado'}
+              </h2>
+            </div>
+            <div className="section-actions">
+              {cashSessionLoading && <span className="chip ghost">Carregando…</span>}
+              {cashSessionError && <span className="chip alert">{cashSessionError}</span>}
+              {cashSession && (
+                <button className="ghost" type="button" onClick={() => setCashReport(cashSession)}>
+                  Relatório parcial
+                </button>
+              )}
+            </div>
+          </div>
+          {!cashSession && (
+            <form className="filter-row finance" onSubmit={handleOpenCashSession}>
+              <label>
+                Troco inicial (R$)
+                <NumericFormat
+                  value={cashOpeningAmount === 0 ? '' : cashOpeningAmount}
+                  thousandSeparator="."
+                  decimalSeparator=","
+                  decimalScale={2}
+                  fixedDecimalScale
+                  allowNegative={false}
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  onValueChange={({ floatValue }) => setCashOpeningAmount(floatValue ?? 0)}
+                />
+              </label>
+              <button className="primary" type="submit" disabled={cashSessionSaving}>
+                {cashSessionSaving ? 'Abrindo...' : 'Abrir caixa'}
+              </button>
+            </form>
+          )}
+          {cashSession?.details && (
+            <>
+              <div className="finance-metrics">
+                <div className="metric-card">
+                  <p>Troco inicial</p>
+                  <h3>{formatCurrency(cashSession.details.totals.opening)}</h3>
+                </div>
+                <div className="metric-card">
+                  <p>Vendas em dinheiro</p>
+                  <h3>{formatCurrency(cashSession.details.totals.sales)}</h3>
+                  <span>{cashSession.details.payments.length} pagamentos</span>
+                </div>
+                <div className="metric-card">
+                  <p>Saídas e sangrias</p>
+                  <h3 className="danger">
+                    {formatCurrency(cashSession.details.totals.expenses + cashSession.details.totals.withdrawals)}
+                  </h3>
+                  <span>Suprimentos: {formatCurrency(cashSession.details.totals.deposits)}</span>
+                </div>
+                <div className="metric-card">
+                  <p>Esperado na gaveta</p>
+                  <h3>{formatCurrency(cashSession.details.totals.expected)}</h3>
+                </div>
+              </div>
+              <form className="filter-row finance" onSubmit={handleAddCashMovement}>
+                <label>
+                  Movimentação
+                  <select
+                    value={cashMovementForm.type}
+                    onChange={(event) =>
+                      setCashMovementForm((prev) => ({ ...prev, type: event.target.value as CashMovementType }))
                     }
                   >
-                    {inventorySubmitLoading
-                      ? 'Registrando...'
-                      : inventoryForm.type === 'entrada'
-                        ? 'Confirmar entrada'
-                        : 'Confirmar saída'}
-                  </button>
-                </div>
+                    <option value="sangria">Sangria (retirada)</option>
+                    <option value="suprimento">Suprimento (reforço)</option>
+                  </select>
+                </label>
+                <label>
+                  Valor (R$)
+                  <NumericFormat
+                    value={cashMovementForm.amount === 0 ? '' : cashMovementForm.amount}
+                    thousandSeparator="."
+                    decimalSeparator=","
+                    decimalScale={2}
+                    fixedDecimalScale
+                    allowNegative={false}
+                    inputMode="decimal"
+                    placeholder="0,00"
+                    onValueChange={({ floatValue }) =>
+                      setCashMovementForm((prev) => ({ ...prev, amount: floatValue ?? 0 }))
+                    }
+                  />
+                </label>
+                <label className="note-field">
+                  Motivo
+                  <input
+                    value={cashMovementForm.reason}
+                    onChange={(event) => setCashMovementForm((prev) => ({ ...prev, reason: event.target.value }))}
+                    placeholder="Ex: depósito no banco, troco extra"
+                  />
+                </label>
+                <button className="ghost" type="submit" disabled={cashSessionSaving}>
+                  Registrar movimentação
+                </button>
               </form>
-            ) : (
+              <form className="filter-row finance" onSubmit={handleCloseCashSession}>
+                <label>
+                  Valor contado (R$)
+                  <NumericFormat
+                    value={cashCountedAmount === 0 ? '' : cashCountedAmount}
+                    thousandSeparator="."
+                    decimalSeparator=","
+                    decimalScale={2}
+                    fixedDecimalScale
+                    allowNegative={false}
+                    inputMode="decimal"
+                    placeholder="0,00"
+                    onValueChange={({ floatValue }) => setCashCountedAmount(floatValue ?? 0)}
+                  />
+                </label>
+                <p className="field-note">
+                  Diferença: {formatCurrency(cashCountedAmount - cashSession.details.totals.expected)}
+                </p>
+                <button className="primary" type="submit" disabled={cashSessionSaving}>
+                  {cashSessionSaving ? 'Fechando...' : 'Fechar caixa'}
+                </button>
+              </form>
+            </>
+          )}
+          <div className="finance-table">
+            {cashSessions
+              .filter((session) => session.status === 'fechado')
+              .map((session) => (
+                <div className="finance-row" key={session.id}>
+                  <div>
+                    <p className="sale-id">{new Date(session.openedAt).toLocaleDateString('pt-BR')}</p>
+                    <p className="hero-sub">
+                      {session.openedByName}
+                      {session.closedByName && ` · fechado por ${session.closedByName}`}
+                    </p>
+                  </div>
+                  <div>
+                    <span>Esperado</span>
+                    <strong>{formatCurrency(session.expectedAmount ?? 0)}</strong>
+                  </div>
+                  <div>
+                    <span>Contado</span>
+                    <strong>{formatCurrency(session.countedAmount ?? 0)}</strong>
+                  </div>
+                  <div>
+                    <span>Diferença</span>
+                    <strong className={(session.difference ?? 0) < 0 ? 'danger' : ''}>
+                      {formatCurrency(session.difference ?? 0)}
+                    </strong>
+                  </div>
+                  <div className="finance-payments">
+                    <span>Ações</span>
+                    <button className="ghost" type="button" onClick={() => openCashReport(session.id)}>
+                      Ver relatório
+                    </button>
+                  </div>
+                </div>
+              ))}
+            {!cashSessions.some((session) => session.status === 'fechado') && !cashSessionLoading && (
+              <p className="empty-state">Nenhum caixa fechado ainda.</p>
+            )}
+          </div>
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Saídas financeiras</p>
+              <h2>Controle despesas e custos</h2>
+            </div>
+            <div className="section-actions">
+              {financeExpensesLoading && <span className="chip ghost">Carregando…</span>}
+              {financeExpensesError && <span className="chip alert">{financeExpensesError}</span>}
+              <span className="chip ghost">{financeExpenses.length} registros</span>
+            </div>
+          </div>
+          <form className="filter-row finance expense-form" onSubmit={handleCreateExpense}>
+            <label>
+              Descrição
+              <input
+                value={expenseForm.description}
+                onChange={(event) => setExpenseForm((prev) => ({ ...prev, description: event.target.value }))}
+                placeholder="Ex: Frete transportadora"
+              />
+            </label>
+            <label>
+              Valor (R$)
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={expenseForm.amount}
+                onChange={(event) => setExpenseForm((prev) => ({ ...prev, amount: event.target.value }))}
+                placeholder="350"
+              />
+            </label>
+            <label>
+              Data
+              <input
+                type="date"
+                value={expenseForm.date}
+                onChange={(event) => setExpenseForm((prev) => ({ ...prev, date: event.target.value }))}
+              />
+            </label>
+            <label>
+              Pagamento
+              <select
+                value={expenseForm.method}
+                onChange={(event) => setExpenseForm((prev) => ({ ...prev, method: event.target.value as PaymentMethod }))}
+              >
+                {expenseMethods.map((method) => (
+                  <option key={method} value={method}>
+                    {method}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Categoria
+              <select
+                value={expenseForm.categoryId}
+                onChange={(event) => setExpenseForm((prev) => ({ ...prev, categoryId: event.target.value }))}
+              >
+                <option value="">Sem categoria</option>
+                {expenseCategories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="note-field">
+              Observação
+              <input
+                value={expenseForm.note}
+                onChange={(event) => setExpenseForm((prev) => ({ ...prev, note: event.target.value }))}
+                placeholder="NF, responsável, centro de custo..."
+              />
+            </label>
+            <button className="primary" type="submit" disabled={expenseSubmitLoading}>
+              {expenseSubmitLoading ? 'Registrando...' : editingExpenseId ? 'Salvar alterações' : 'Registrar saída'}
+            </button>
+            {editingExpenseId && (
+              <button className="ghost" type="button" onClick={handleCancelExpenseEdit}>
+                Cancelar edição
+              </button>
+            )}
+          </form>
+          {expenseSubmitError && <p className="login-error">{expenseSubmitError}</p>}
+          <div className="finance-table">
+            {financeExpenses.map((expense) => (
+              <div className="finance-row expense" key={expense.id}>
+                <div>
+                  <p className="sale-id">{expense.description}</p>
+                  <p className="hero-sub">
+                    {expense.recurrenceId ? 'Despesa recorrente' : expense.createdBy || 'Registro manual'}
+                  </p>
+                </div>
+                <div>
+                  <span>Valor</span>
+                  <strong className="danger">{formatCurrency(expense.amount)}</strong>
+                </div>
+                <div>
+                  <span>Data</span>
+                  <strong>{new Date(expense.date).toLocaleDateString('pt-BR')}</strong>
+                </div>
+                <div>
+                  <span>Pagamento</span>
+                  <strong>{expense.method}</strong>
+                </div>
+                <div>
+                  <span>Categoria</span>
+                  <strong>{expense.categoryName || 'Sem categoria'}</strong>
+                </div>
+                <div className="finance-payments">
+                  <span>Observações</span>
+                  <p>{expense.note || '—'}</p>
+                  <div className="calendar-nav">
+                    <button className="ghost" type="button" onClick={() => handleEditExpense(expense)}>
+                      Editar
+                    </button>
+                    <button className="ghost" type="button" onClick={() => handleDeleteExpense(expense)}>
+                      Excluir
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+            {!financeExpenses.length && !financeExpensesLoading && (
+              <p className="empty-state">Nenhuma saída cadastrada com o filtro atual.</p>
+            )}
+          </div>
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Categorias e despesas recorrentes</p>
+              <h2>Organize e automatize as saídas</h2>
+            </div>
+            <div className="section-actions">
+              {expenseSetupError && <span className="chip alert">{expenseSetupError}</span>}
+              <span className="chip ghost">{expenseRecurrences.filter((recurrence) => recurrence.active).length} ativas</span>
+            </div>
+          </div>
+          <form className="filter-row finance" onSubmit={handleCreateExpenseCategory}>
+            <label>
+              Nova categoria
+              <input
+                value={expenseCategoryName}
+                onChange={(event) => setExpenseCategoryName(event.target.value)}
+                placeholder="Ex: Aluguel, Salários, Frete"
+              />
+            </label>
+            <button className="primary" type="submit" disabled={expenseSetupSaving}>
+              Adicionar categoria
+            </button>
+          </form>
+          <div className="filter-pills">
+            {expenseCategories.map((category) => (
               <button
-                className="ghost full-width"
+                key={category.id}
                 type="button"
-                onClick={() => canManageStock && setInventoryPanelOpen(true)}
-                disabled={!canManageStock}
+                title="Excluir categoria"
+                onClick={() => handleDeleteExpenseCategory(category)}
+              >
+                {category.name} ×
+              </button>
+            ))}
+            {!expenseCategories.length && <span className="muted">Nenhuma categoria cadastrada.</span>}
+          </div>
+          <p className="hero-sub">
+            Os modelos recorrentes lançam a saída automaticamente em cada vencimento, mensal ou semanal, e entram na
+            projeção de caixa.
+          </p>
+          <form className="filter-row finance" onSubmit={handleCreateExpenseRecurrence}>
+            <label>
+              Descrição
+              <input
+                value={expenseRecurrenceForm.description}
+                onChange={(event) =>
+                  setExpenseRecurrenceForm((prev) => ({ ...prev, description: event.target.value }))
+                }
+                placeholder="Ex: Aluguel da loja"
+              />
+            </label>
+            <label>
+              Valor (R$)
+              <NumericFormat
+                value={expenseRecurrenceForm.amount === 0 ? '' : expenseRecurrenceForm.amount}
+                thousandSeparator="."
+                decimalSeparator=","
+                decimalScale={2}
+                fixedDecimalScale
+                allowNegative={false}
+                inputMode="decimal"
+                placeholder="0,00"
+                onValueChange={({ floatValue }) =>
+                  setExpenseRecurrenceForm((prev) => ({ ...prev, amount: floatValue ?? 0 }))
+                }
+              />
+            </label>
+            <label>
+              Pagamento
+              <select
+                value={expenseRecurrenceForm.method}
+                onChange={(event) =>
+                  setExpenseRecurrenceForm((prev) => ({ ...prev, method: event.target.value as PaymentMethod }))
+                }
+              >
+                {expenseMethods.map((method) => (
+                  <option key={method} value={method}>
+                    {method}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Categoria
+              <select
+                value={expenseRecurrenceForm.categoryId}
+                onChange={(event) => setExpenseRecurrenceForm((prev) => ({ ...prev, categoryId: event.target.value }))}
               >
-                Abrir formulário de movimento
-              </button>
-            )}
-          </div>
-        </section>
-
-        <section className="panel">
-          <div className="section-head">
-            <div>
-              <p className="eyebrow">Estoque</p>
-              <h2>Histórico de movimentos</h2>
-            </div>
-            <span className="chip ghost">{filteredMovements.length} registros</span>
-          </div>
-          <div className="filter-row">
+                <option value="">Sem categoria</option>
+                {expenseCategories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            </label>
             <label>
-              Tipo
-              <select value={movementTypeFilter} onChange={(event) => setMovementTypeFilter(event.target.value as typeof movementTypeFilter)}>
-                <option value="all">Todos</option>
-                <option value="entrada">Entradas</option>
-                <option value="saida">Saídas</option>
+              Frequência
+              <select
+                value={expenseRecurrenceForm.frequency}
+                onChange={(event) =>
+                  setExpenseRecurrenceForm((prev) => ({ ...prev, frequency: event.target.value as ExpenseFrequency }))
+                }
+              >
+                <option value="mensal">Mensal</option>
+                <option value="semanal">Semanal</option>
               </select>
             </label>
             <label>
-              Desde
+              Primeiro vencimento
               <input
                 type="date"
-                value={movementDateStart}
-                onChange={(event) => setMovementDateStart(event.target.value)}
+                value={expenseRecurrenceForm.startDate}
+                onChange={(event) => setExpenseRecurrenceForm((prev) => ({ ...prev, startDate: event.target.value }))}
               />
             </label>
             <label>
-              Até
+              Até (opcional)
               <input
                 type="date"
-                value={movementDateEnd}
-                onChange={(event) => setMovementDateEnd(event.target.value)}
+                value={expenseRecurrenceForm.endDate}
+                onChange={(event) => setExpenseRecurrenceForm((prev) => ({ ...prev, endDate: event.target.value }))}
+              />
+            </label>
+            <button className="primary" type="submit" disabled={expenseSetupSaving}>
+              {expenseSetupSaving ? 'Salvando...' : 'Criar recorrência'}
+            </button>
+          </form>
+          <div className="finance-table">
+            {expenseRecurrences.map((recurrence) => (
+              <div className="finance-row" key={recurrence.id}>
+                <div>
+                  <p className="sale-id">{recurrence.description}</p>
+                  <p className="hero-sub">
+                    {recurrence.frequency === 'mensal' ? 'Mensal' : 'Semanal'} ·{' '}
+                    {expenseCategories.find((category) => category.id === recurrence.categoryId)?.name ?? 'Sem categoria'}
+                  </p>
+                </div>
+                <div>
+                  <span>Valor</span>
+                  <strong className="danger">{formatCurrency(recurrence.amount)}</strong>
+                </div>
+                <div>
+                  <span>Próximo lançamento</span>
+                  <strong>
+                    {recurrence.endDate && recurrence.nextDate > recurrence.endDate
+                      ? 'Encerrada'
+                      : new Date(`${recurrence.nextDate}T12:00:00`).toLocaleDateString('pt-BR')}
+                  </strong>
+                </div>
+                <div>
+                  <span>Status</span>
+                  <strong>{recurrence.active ? 'Ativa' : 'Pausada'}</strong>
+                </div>
+                <div className="finance-payments">
+                  <span>Ações</span>
+                  <div className="calendar-nav">
+                    <button
+                      className="ghost"
+                      type="button"
+                      disabled={expenseSetupSaving}
+                      onClick={() => handleToggleExpenseRecurrence(recurrence)}
+                    >
+                      {recurrence.active ? 'Pausar' : 'Retomar'}
+                    </button>
+                    <button
+                      className="ghost"
+                      type="button"
+                      disabled={expenseSetupSaving}
+                      onClick={() => handleDeleteExpenseRecurrence(recurrence)}
+                    >
+                      Excluir
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+            {!expenseRecurrences.length && <p className="empty-state">Nenhuma despesa recorrente cadastrada.</p>}
+          </div>
+        </section>
+
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Planejamento anual</p>
+              <h2>Metas de {goalPlanYear}</h2>
+            </div>
+            <div className="section-actions">
+              {goalPlanError && <span className="chip alert">{goalPlanError}</span>}
+              {goalPlanNotice && <span className="chip ghost">{goalPlanNotice}</span>}
+              <div className="calendar-nav">
+                <button className="ghost" type="button" onClick={() => setGoalPlanYear((prev) => prev - 1)}>
+                  Ano anterior
+                </button>
+                <button className="ghost" type="button" onClick={() => setGoalPlanYear((prev) => prev + 1)}>
+                  Próximo ano
+                </button>
+              </div>
+            </div>
+          </div>
+          <p className="hero-sub">
+            Informe a meta do ano e os pesos de cada mês (ex.: 1,5 em novembro para a Black Friday). Os valores por mês
+            podem ser ajustados antes de salvar.
+          </p>
+          <div className="filter-row finance">
+            <label>
+              <span>Meta anual (R$)</span>
+              <NumericFormat
+                value={goalPlanTotal === 0 ? '' : goalPlanTotal}
+                thousandSeparator="."
+                decimalSeparator=","
+                decimalScale={2}
+                fixedDecimalScale
+                allowNegative={false}
+                inputMode="decimal"
+                placeholder="0,00"
+                onValueChange={({ floatValue }) => setGoalPlanTotal(floatValue ?? 0)}
               />
             </label>
+            <button className="ghost" type="button" onClick={handleDistributeGoalPlan}>
+              Distribuir pelos pesos
+            </button>
+            <button className="primary" type="button" onClick={handleSaveGoalPlan} disabled={goalPlanSaving || goalPlan.length !== 12}>
+              {goalPlanSaving ? 'Salvando...' : 'Salvar metas do ano'}
+            </button>
           </div>
-          <div className="sales-list">
-            {stockMovementsLoading && <p className="empty-state">Carregando movimentos...</p>}
-            {!stockMovementsLoading && stockMovementsError && <p className="empty-state">{stockMovementsError}</p>}
-            {!stockMovementsLoading && !stockMovementsError && filteredMovements.length === 0 && (
-              <p className="empty-state">Nenhum movimento registrado.</p>
-            )}
-            {!stockMovementsLoading &&
-              !stockMovementsError &&
-              filteredMovements.map((movement) => {
-              const product = stockItems.find((item) => item.id === movement.productId)
+          <div className="finance-table">
+            {goalPlan.map((entry, index) => {
+              const monthLabel = new Date(goalPlanYear, entry.month - 1).toLocaleDateString('pt-BR', { month: 'long' })
               return (
-                <div className={`movement-card ${movement.type}`} key={movement.id}>
+                <div className="finance-row" key={entry.month}>
                   <div>
-                    <p className="sale-id">
-                      {movement.type === 'entrada' ? 'Entrada' : 'Saída'} · {product?.name ?? 'Produto removido'}
-                    </p>
-                    <p className="sale-meta">
-                      {movement.amount} unidades · {new Date(movement.createdAt).toLocaleString('pt-BR')}
+                    <p className="sale-id">{monthLabel.charAt(0).toUpperCase() + monthLabel.slice(1)}</p>
+                    <p className="muted">
+                      Realizado: {formatCurrency(entry.achieved)}
+                      {entry.target > 0 && ` (${Math.round((entry.achieved / entry.target) * 100)}%)`}
                     </p>
-                    {movement.note && <p className="sale-note">{movement.note}</p>}
                   </div>
+                  <label>
+                    <span>Peso</span>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.1"
+                      value={goalPlanWeights[index] ?? 1}
+                      onChange={(event) =>
+                        setGoalPlanWeights((prev) =>
+                          prev.map((weight, weightIndex) => (weightIndex === index ? Number(event.target.value) : weight)),
+                        )
+                      }
+                    />
+                  </label>
+                  <label>
+                    <span>Meta (R$)</span>
+                    <NumericFormat
+                      value={entry.target === 0 ? '' : entry.target}
+                      thousandSeparator="."
+                      decimalSeparator=","
+                      decimalScale={2}
+                      fixedDecimalScale
+                      allowNegative={false}
+                      inputMode="decimal"
+                      placeholder="0,00"
+                      onValueChange={({ floatValue }) =>
+                        setGoalPlan((prev) =>
+                          prev.map((item) => (item.month === entry.month ? { ...item, target: floatValue ?? 0 } : item)),
+                        )
+                      }
+                    />
+                  </label>
                 </div>
               )
             })}
           </div>
         </section>
-      </div>
-    );
-  };
 
-  const renderFinance = () => {
-    const financeMin = financeMinValue ? Number(financeMinValue) : null
-    const financeMax = financeMaxValue ? Number(financeMaxValue) : null
-    const codeStart = parseSaleCode(financeCodeStart)
-    const codeEnd = parseSaleCode(financeCodeEnd)
-    const startBoundary = financeDateStart ? new Date(getLocalStartOfDayIso(financeDateStart)).getTime() : null
-    const endBoundary = financeDateEnd ? new Date(getLocalEndOfDayIso(financeDateEnd)).getTime() : null
-    const financeSales = sales.filter((sale) => {
-      if (sale.status === 'cancelada') return false
-      const saleTimestamp = new Date(sale.createdAt).getTime()
-      if (startBoundary && saleTimestamp < startBoundary) return false
-      if (endBoundary && saleTimestamp > endBoundary) return false
-      if ((codeStart !== null || codeEnd !== null) && !isPublicSaleCode(sale.id)) return false
-      const saleCode = parseSaleCode(sale.id)
-      if (codeStart !== null && (saleCode === null || saleCode < codeStart)) return false
-      if (codeEnd !== null && (saleCode === null || saleCode > codeEnd)) return false
-      if (financeClientFilter !== 'all' && sale.clientId !== financeClientFilter) return false
-      if (financeMin !== null && sale.value < financeMin) return false
-      if (financeMax !== null && sale.value > financeMax) return false
-      return true
-    })
-    const paymentFilteredSales =
-      financePaymentFilter === 'all'
-        ? financeSales
-        : financeSales.filter((sale) => sale.payments.some((payment) => payment.method === financePaymentFilter))
-    const hasCustomPaymentMethods = paymentFilteredSales.some((sale) =>
-      sale.payments.some((payment) => requiresPaymentOverride(payment.method)),
-    )
-    const hasActiveFinanceFilters = Boolean(
-      financeDateStart ||
-        financeDateEnd ||
-        financeClientFilter !== 'all' ||
-        financeMinValue ||
-        financeMaxValue ||
-        financePaymentFilter !== 'all' ||
-        financeCodeStart ||
-        financeCodeEnd ||
-        hasCustomPaymentMethods,
-    )
-    const useComputedSummary = hasActiveFinanceFilters
-    const computedRevenue = paymentFilteredSales.reduce((sum, sale) => {
-      const methodTotal =
-        financePaymentFilter === 'all'
-          ? sale.payments.reduce((sub, payment) => sub + payment.amount, 0)
-          : sale.payments
-              .filter((payment) => payment.method === financePaymentFilter)
-              .reduce((sub, payment) => sub + payment.amount, 0)
-      return sum + methodTotal
-    }, 0)
-    const computedDiscount = paymentFilteredSales.reduce((sum, sale) => sum + sale.discount, 0)
-    const totalOrders = paymentFilteredSales.length
-    const averageTicket = totalOrders ? computedRevenue / totalOrders : 0
-    const computedPaymentsBreakdown = paymentFilteredSales.reduce<Record<string, number>>((acc, sale) => {
-      sale.payments.forEach((payment) => {
-        acc[payment.method] = (acc[payment.method] ?? 0) + payment.amount
-      })
-      return acc
-    }, {})
-    const summaryPaymentBreakdown = !useComputedSummary && financeSummary
-      ? Object.entries(financeSummary.paymentsByMethod).reduce<Record<string, number>>((acc, [method, value]) => {
-          const label = paymentMethodLabelFromKey(method)
-          acc[label] = (acc[label] ?? 0) + value
-          return acc
-        }, {})
-      : computedPaymentsBreakdown
-    const extraPaymentEntries = Object.entries(summaryPaymentBreakdown).filter(
-      ([label]) => !paymentMethods.includes(label as PaymentMethod),
-    )
-    const summaryRevenue = !useComputedSummary && financeSummary ? financeSummary.totalRevenue : computedRevenue
-    const summaryDiscount = !useComputedSummary && financeSummary ? financeSummary.discountTotal : computedDiscount
-    const summaryDelivered = !useComputedSummary && financeSummary
-      ? financeSummary.delivered
-      : paymentFilteredSales.filter((sale) => sale.status === 'entregue').length
-    const summaryPending = !useComputedSummary && financeSummary
-      ? financeSummary.pending
-      : paymentFilteredSales.filter((sale) => sale.status === 'pendente').length
-    const computedExpenseTotals = financeExpenses.reduce<Record<string, number>>((acc, expense) => {
-      acc[expense.method] = (acc[expense.method] ?? 0) + expense.amount
-      return acc
-    }, {})
-    const summaryExpensesAmount =
-      !useComputedSummary && financeSummary
-        ? financeSummary.expensesTotal
-        : financeExpenses.reduce((sum, expense) => sum + expense.amount, 0)
-    const summaryExpenseBreakdown = !useComputedSummary && financeSummary
-      ? Object.entries(financeSummary.expensesByMethod).reduce<Record<string, number>>((acc, [method, value]) => {
-          const label = paymentMethodLabelFromKey(method)
-          acc[label] = (acc[label] ?? 0) + value
-          return acc
-        }, {})
-      : computedExpenseTotals
-    const summaryNetRevenue = !useComputedSummary && financeSummary
-      ? financeSummary.netRevenue
-      : summaryRevenue - summaryExpensesAmount
-    const weeklySales = paymentFilteredSales
-      .map((sale) => {
-        const weeklyPayment = sale.payments.find(
-          (payment) => payment.method === 'Semanal na loja' && payment.weeklyPlan,
-        )
-        if (!weeklyPayment?.weeklyPlan) return null
-        const totalExpected = weeklyPayment.weeklyPlan.weeks * weeklyPayment.weeklyPlan.weeklyAmount
-        const totalPaid = weeklyPayment.weeklyPlan.payments.reduce((sum, item) => sum + (item.paidAmount ?? 0), 0)
-        const pending = Math.max(0, totalExpected - totalPaid)
-        return {
-          sale,
-          weeklyPayment,
-          totalExpected,
-          totalPaid,
-          pending,
-        }
-      })
-      .filter(Boolean) as {
-        sale: Sale
-        weeklyPayment: SalePayment
-        totalExpected: number
-        totalPaid: number
-        pending: number
-      }[]
-    const weeklyTotalPaid = weeklySales.reduce((sum, item) => sum + item.totalPaid, 0)
-    const weeklyTotalExpected = weeklySales.reduce((sum, item) => sum + item.totalExpected, 0)
-    const weeklyTotalPending = Math.max(0, weeklyTotalExpected - weeklyTotalPaid)
-    const salesByClient = paymentFilteredSales.reduce<Record<string, number>>((acc, sale) => {
-      acc[sale.clientId] = (acc[sale.clientId] ?? 0) + sale.value
-      return acc
-    }, {})
-    const topClients = Object.entries(salesByClient)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 3)
-    const financeClientOptions = [{ id: 'all', name: 'Todos os clientes' }, ...clients.map((client) => ({ id: client.id, name: client.name }))] as const
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Política de descontos</p>
+              <h2>Limites por perfil</h2>
+            </div>
+            <div className="section-actions">
+              {discountPoliciesError && <span className="chip alert">{discountPoliciesError}</span>}
+            </div>
+          </div>
+          <p className="hero-sub">
+            Vendas acima do desconto máximo ou abaixo do custo de fábrica mais a margem mínima vão para aprovação.
+          </p>
+          <div className="finance-table">
+            {discountPolicies.map((policy) => (
+              <form
+                className="finance-row"
+                key={policy.role}
+                onSubmit={(event) => {
+                  event.preventDefault()
+                  handleSaveDiscountPolicy(policy)
+                }}
+              >
+                <div>
+                  <p className="sale-id">{policy.role === 'admin' ? 'Administrador' : 'Vendedor'}</p>
+                </div>
+                <label>
+                  <span>Desconto máximo (%)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.5"
+                    value={policy.maxDiscountPercent}
+                    onChange={(event) =>
+                      setDiscountPolicies((prev) =>
+                        prev.map((item) =>
+                          item.role === policy.role ? { ...item, maxDiscountPercent: Number(event.target.value) } : item,
+                        ),
+                      )
+                    }
+                  />
+                </label>
+                <label>
+                  <span>Margem mínima sobre o custo (%)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.5"
+                    value={policy.minMarginPercent}
+                    onChange={(event) =>
+                      setDiscountPolicies((prev) =>
+                        prev.map((item) =>
+                          item.role === policy.role ? { ...item, minMarginPercent: Number(event.target.value) } : item,
+                        ),
+                      )
+                    }
+                  />
+                </label>
+                <button className="ghost" type="submit" disabled={discountPolicySaving === policy.role}>
+                  {discountPolicySaving === policy.role ? 'Salvando...' : 'Salvar'}
+                </button>
+              </form>
+            ))}
+          </div>
+        </section>
 
-    return (
-      <div className="page-stack">
         <section className="panel">
           <div className="section-head">
             <div>
-              <p className="eyebrow">Financeiro</p>
-              <h2>Visão de faturamento e vendas</h2>
-            </div>
-            <div className="section-actions">
-              {financeSummaryLoading && <span className="chip ghost">Atualizando…</span>}
-              {financeSummaryError && <span className="chip alert">{financeSummaryError}</span>}
-              <span className="chip ghost">{paymentFilteredSales.length} resultados</span>
+              <p className="eyebrow">Pedidos filtrados</p>
+              <h2>Detalhes financeiros</h2>
             </div>
           </div>
-          <div className="finance-metrics">
-            <div className="metric-card">
-              <p>Faturamento filtrado</p>
-              <h3>{formatCurrency(summaryRevenue)}</h3>
-              <span>Descontos aplicados: {formatCurrency(summaryDiscount)}</span>
-            </div>
-            <div className="metric-card">
-              <p>Ticket médio</p>
-              <h3>{averageTicket ? formatCurrency(averageTicket) : 'R$ 0,00'}</h3>
-              <span>{totalOrders} pedidos no período</span>
-            </div>
-            <div className="metric-card">
-              <p>Formas de pagamento</p>
-              <div className="metric-bar">
-                {paymentMethods.map((method) => {
-                  const value = summaryPaymentBreakdown[method] ?? 0
-                  if (!value) return null
-                  const percent = summaryRevenue ? Math.round((value / summaryRevenue) * 100) : 0
-                  return (
-                    <div key={method}>
-                      <strong>{method}</strong>
-                      <span>{formatCurrency(value)} · {percent}%</span>
-                    </div>
-                  )
-                })}
-                {extraPaymentEntries.map(([label, value]) => {
-                  const percent = summaryRevenue ? Math.round((value / summaryRevenue) * 100) : 0
-                  return (
-                    <div key={label}>
-                      <strong>{label}</strong>
-                      <span>{formatCurrency(value)} · {percent}%</span>
-                    </div>
-                  )
-                })}
-                {summaryRevenue === 0 && <span className="muted">Sem pagamentos registrados</span>}
-              </div>
-            </div>
-            <div className="metric-card">
-              <p>Status das vendas</p>
-              <div className="metric-bar">
-                <div>
-                  <span>Entregues</span>
-                  <strong>{summaryDelivered}</strong>
-                </div>
-                <div>
-                  <span>Pendentes</span>
-                  <strong>{summaryPending}</strong>
-                </div>
-              </div>
-            </div>
-            <div className="metric-card">
-              <p>Saídas registradas</p>
-              <h3>{formatCurrency(summaryExpensesAmount)}</h3>
-              <div className="metric-bar">
-                {Object.keys(summaryExpenseBreakdown).length === 0 && (
-                  <span className="muted">Sem saídas no filtro atual.</span>
-                )}
-                {Object.entries(summaryExpenseBreakdown).map(([label, value]) => (
-                  <div key={label}>
-                    <strong>{label}</strong>
-                    <span>{formatCurrency(value)}</span>
+          <div className="finance-table">
+            {paymentFilteredSales.map((sale) => {
+              const client = clients.find((clientItem) => clientItem.id === sale.clientId)
+              const paymentSummary = sale.payments.map((payment) => `${formatPaymentLabel(payment)} · ${formatCurrency(payment.amount)}`).join(' | ')
+              return (
+                <div className="finance-row" key={sale.id}>
+                  <div>
+                    <p className="sale-id">#{sale.id}</p>
+                    <p className="hero-sub">{client?.name ?? sale.clientName ?? 'Cliente removido'}</p>
                   </div>
-                ))}
-              </div>
-            </div>
-            <div className="metric-card">
-              <p>Resultado líquido</p>
-              <h3>{formatCurrency(summaryNetRevenue)}</h3>
-              <span>Entradas - saídas considerando o filtro atual.</span>
-            </div>
-            <div className="metric-card">
-              <p>Pagamentos semanais</p>
-              <h3>{formatCurrency(weeklyTotalPaid)}</h3>
-              <span>Previsto: {formatCurrency(weeklyTotalExpected)} · Faltam {formatCurrency(weeklyTotalPending)}</span>
-            </div>
-            <div className="metric-card">
-              <p>Top clientes</p>
-              {topClients.length ? (
-                <ul className="metric-list">
-                  {topClients.map(([clientId, value]) => {
-                    const client = clients.find((item) => item.id === clientId)
-                    const fallbackSale = sales.find((sale) => sale.clientId === clientId)
-                    return (
-                      <li key={clientId}>
-                        <strong>{client?.name ?? fallbackSale?.clientName ?? 'Cliente removido'}</strong>
-                        <span>{formatCurrency(value)}</span>
-                      </li>
-                    )
-                  })}
-                </ul>
-              ) : (
-                <span className="muted">Nenhum cliente no filtro atual.</span>
-              )}
-            </div>
+                  <div>
+                    <span>Faturado</span>
+                    <strong>{formatCurrency(sale.value)}</strong>
+                  </div>
+                  <div>
+                    <span>Desconto</span>
+                    <strong>{formatCurrency(sale.discount)}</strong>
+                  </div>
+                  <div>
+                    <span>Data</span>
+                    <strong>{new Date(sale.createdAt).toLocaleDateString('pt-BR')}</strong>
+                  </div>
+                  <div className="finance-payments">
+                    <span>Pagamentos</span>
+                    <p>{paymentSummary}</p>
+                  </div>
+                </div>
+              )
+            })}
+            {paymentFilteredSales.length === 0 && <p className="empty-state">Nenhum pedido com os filtros selecionados.</p>}
           </div>
         </section>
+      </div>
+    )
+  }
 
+  const renderSuppliers = () => {
+    const detail = supplierDetail && supplierDetail.id === selectedSupplierId ? supplierDetail : null
+    return (
+      <div className="page-stack">
         <section className="panel">
           <div className="section-head">
             <div>
-              <p className="eyebrow">Filtros</p>
-              <h2>Refine análises</h2>
+              <p className="eyebrow">Fornecedores</p>
+              <h2>{editingSupplierId ? 'Editar fornecedor' : 'Fábricas e fornecedores'}</h2>
+            </div>
+            <div className="section-actions">
+              {supplierError && <span className="chip alert">{supplierError}</span>}
+              <span className="chip ghost">{suppliers.length} cadastrados</span>
             </div>
           </div>
-          <div className="filter-row finance">
+          <form className="filter-row finance" onSubmit={handleSaveSupplier}>
             <label>
-              Desde
-              <input type="date" value={financeDateStart} onChange={(event) => setFinanceDateStart(event.target.value)} />
+              Nome
+              <input
+                value={supplierForm.name}
+                onChange={(event) => setSupplierForm((prev) => ({ ...prev, name: event.target.value }))}
+                placeholder="Ex: Ortobom"
+              />
             </label>
             <label>
-              Até
-              <input type="date" value={financeDateEnd} onChange={(event) => setFinanceDateEnd(event.target.value)} />
+              Contato
+              <input
+                value={supplierForm.contactName}
+                onChange={(event) => setSupplierForm((prev) => ({ ...prev, contactName: event.target.value }))}
+                placeholder="Representante"
+              />
             </label>
             <label>
-              Código inicial
+              Telefone
               <input
-                value={financeCodeStart}
-                onChange={(event) => setFinanceCodeStart(event.target.value)}
-                placeholder="0001"
+                value={supplierForm.phone}
+                onChange={(event) => setSupplierForm((prev) => ({ ...prev, phone: event.target.value }))}
+                placeholder="(00) 00000-0000"
               />
             </label>
             <label>
-              Código final
+              E-mail
               <input
-                value={financeCodeEnd}
-                onChange={(event) => setFinanceCodeEnd(event.target.value)}
-                placeholder="0020"
+                type="email"
+                value={supplierForm.email}
+                onChange={(event) => setSupplierForm((prev) => ({ ...prev, email: event.target.value }))}
               />
             </label>
             <label>
-              Cliente
-              <select value={financeClientFilter} onChange={(event) => setFinanceClientFilter(event.target.value)}>
-                {financeClientOptions.map((option) => (
-                  <option key={option.id} value={option.id}>
-                    {option.name}
-                  </option>
-                ))}
-              </select>
+              Prazo de entrega (dias)
+              <input
+                type="text"
+                inputMode="numeric"
+                pattern="[0-9]*"
+                value={supplierForm.leadTimeDays}
+                onChange={(event) =>
+                  setSupplierForm((prev) => ({ ...prev, leadTimeDays: formatDigits(event.target.value) }))
+                }
+                placeholder="Ex: 15"
+              />
             </label>
             <label>
-              Pagamento
-              <select value={financePaymentFilter} onChange={(event) => setFinancePaymentFilter(event.target.value as typeof financePaymentFilter)}>
-                <option value="all">Todos</option>
-                {paymentMethods.map((method) => (
-                  <option key={method} value={method}>
-                    {method}
-                  </option>
-                ))}
-              </select>
+              Condição de pagamento
+              <input
+                value={supplierForm.paymentTerms}
+                onChange={(event) => setSupplierForm((prev) => ({ ...prev, paymentTerms: event.target.value }))}
+                placeholder="Ex: 30/60/90 dias"
+              />
+            </label>
+            <label>
+              Observação
+              <input
+                value={supplierForm.note}
+                onChange={(event) => setSupplierForm((prev) => ({ ...prev, note: event.target.value }))}
+              />
             </label>
+            {editingSupplierId && (
+              <button
+                className="ghost"
+                type="button"
+                onClick={() => {
+                  setEditingSupplierId(null)
+                  setSupplierForm(emptySupplierForm)
+                }}
+              >
+                Cancelar edição
+              </button>
+            )}
+            <button className="primary" type="submit" disabled={supplierSaving}>
+              {supplierSaving ? 'Salvando...' : editingSupplierId ? 'Salvar alterações' : 'Cadastrar fornecedor'}
+            </button>
+          </form>
+          <div className="finance-table">
+            {suppliers.map((supplier) => (
+              <div className="finance-row" key={supplier.id}>
+                <div>
+                  <p className="sale-id">{supplier.name}</p>
+                  <p className="hero-sub">
+                    {[supplier.contactName, supplier.phone, supplier.email].filter(Boolean).join(' · ') || 'Sem contato'}
+                  </p>
+                </div>
+                <div>
+                  <span>Prazo</span>
+                  <strong>{supplier.leadTimeDays != null ? `${supplier.leadTimeDays} dias` : '—'}</strong>
+                </div>
+                <div>
+                  <span>Pagamento</span>
+                  <strong>{supplier.paymentTerms || '—'}</strong>
+                </div>
+                <div className="finance-payments">
+                  <span>Ações</span>
+                  <div className="calendar-nav">
+                    <button
+                      className="ghost"
+                      type="button"
+                      onClick={() => setSelectedSupplierId(selectedSupplierId === supplier.id ? null : supplier.id)}
+                    >
+                      {selectedSupplierId === supplier.id ? 'Fechar' : 'Detalhes'}
+                    </button>
+                    <button className="ghost" type="button" onClick={() => handleEditSupplier(supplier)}>
+                      Editar
+                    </button>
+                    <button className="ghost" type="button" onClick={() => handleDeleteSupplier(supplier)}>
+                      Excluir
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+            {!suppliers.length && <p className="empty-state">Nenhum fornecedor cadastrado.</p>}
+          </div>
+        </section>
+
+        {selectedSupplierId && (
+          <section className="panel">
+            <div className="section-head">
+              <div>
+                <p className="eyebrow">Fornecedor</p>
+                <h2>{detail?.name ?? 'Carregando...'}</h2>
+              </div>
+              {detail?.note && <span className="chip ghost">{detail.note}</span>}
+            </div>
+            {detail && (
+              <>
+                <div className="finance-metrics">
+                  <div className="metric-card">
+                    <p>Produtos</p>
+                    <h3>{detail.products.length}</h3>
+                    <span>{detail.products.reduce((sum, product) => sum + product.quantity, 0)} unidades em estoque</span>
+                  </div>
+                  <div className="metric-card">
+                    <p>Assistências abertas</p>
+                    <h3>{detail.openAssistances.length}</h3>
+                    <span>em análise de garantia</span>
+                  </div>
+                  <div className="metric-card">
+                    <p>Compras</p>
+                    <h3>
+                      {formatCurrency(
+                        detail.purchaseOrders
+                          .filter((order) => order.status !== 'cancelado')
+                          .reduce(
+                            (sum, order) =>
+                              sum + order.items.reduce((total, item) => total + item.quantity * item.unitCost, 0),
+                            0,
+                          ),
+                      )}
+                    </h3>
+                    <span>{detail.purchaseOrders.length} pedidos de compra</span>
+                  </div>
+                </div>
+                <div className="finance-metrics">
+                  <div className="metric-card">
+                    <p>Produtos do fornecedor</p>
+                    <div className="metric-bar">
+                      {!detail.products.length && <span className="muted">Nenhum produto vinculado.</span>}
+                      {detail.products.map((product) => (
+                        <div key={product.id}>
+                          <strong>{product.name}</strong>
+                          <span>
+                            SKU {product.sku} · {product.quantity} disp. · custo{' '}
+                            {product.factoryCost !== undefined ? formatCurrency(product.factoryCost) : '—'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="metric-card">
+                    <p>Assistências em aberto</p>
+                    <div className="metric-bar">
+                      {!detail.openAssistances.length && <span className="muted">Nenhuma assistência aberta.</span>}
+                      {detail.openAssistances.map((assistance) => (
+                        <div key={assistance.id}>
+                          <strong>
+                            #{assistance.code} · {assistance.productName || 'Item personalizado'}
+                          </strong>
+                          <span>
+                            Venda {assistance.saleCode} · aberta em{' '}
+                            {new Date(assistance.createdAt).toLocaleDateString('pt-BR')}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+                <div className="finance-table">
+                  {detail.purchaseOrders.map((order) => (
+                    <div className="finance-row" key={order.id}>
+                      <div>
+                        <p className="sale-id">OC-{order.number}</p>
+                        <p className="hero-sub">
+                          {order.items.map((item) => `${item.quantity}x ${item.productName}`).join(' · ')}
+                        </p>
+                      </div>
+                      <div>
+                        <span>Data</span>
+                        <strong>{new Date(order.createdAt).toLocaleDateString('pt-BR')}</strong>
+                      </div>
+                      <div>
+                        <span>Valor</span>
+                        <strong>
+                          {formatCurrency(order.items.reduce((sum, item) => sum + item.quantity * item.unitCost, 0))}
+                        </strong>
+                      </div>
+                      <div>
+                        <span>Status</span>
+                        <strong>{purchaseOrderStatusLabels[order.status]}</strong>
+                      </div>
+                    </div>
+                  ))}
+                  {!detail.purchaseOrders.length && <p className="empty-state">Nenhuma compra registrada.</p>}
+                </div>
+              </>
+            )}
+          </section>
+        )}
+      </div>
+    )
+  }
+
+  const renderCommissions = () => {
+    const sellerUsers = users.filter((user) => user.active)
+    const describeRule = (rule: CommissionRule) => {
+      if (rule.type === 'produto') {
+        return stockItems.find((item) => item.id === rule.productId)?.name ?? 'Produto removido'
+      }
+      const sellerName = rule.userId
+        ? users.find((user) => user.id === rule.userId)?.name ?? 'Usuário removido'
+        : 'Todos os vendedores'
+      return rule.type === 'faixa' ? `${sellerName} · a partir de ${formatCurrency(rule.minVolume ?? 0)}/mês` : sellerName
+    }
+
+    return (
+      <div className="page-stack">
+        <section className="panel">
+          <div className="section-head">
+            <div>
+              <p className="eyebrow">Comissões</p>
+              <h2>Apuração por vendedor</h2>
+            </div>
+            <div className="section-actions">
+              {commissionLoading && <span className="chip ghost">Calculando…</span>}
+              {commissionError && <span className="chip alert">{commissionError}</span>}
+              <button
+                type="button"
+                className="primary"
+                onClick={handleCloseCommissionPeriod}
+                disabled={commissionSaving || commissionLoading || !commissionReport}
+              >
+                Fechar período
+              </button>
+            </div>
+          </div>
+          <div className="filter-row finance">
             <label>
-              Valor mínimo (R$)
+              Início
               <input
-                type="number"
-                min={0}
-                value={financeMinValue}
-                onChange={(event) => setFinanceMinValue(event.target.value)}
+                type="date"
+                value={commissionRange.start}
+                onChange={(event) => setCommissionRange((prev) => ({ ...prev, start: event.target.value }))}
               />
             </label>
             <label>
-              Valor máximo (R$)
+              Fim
               <input
-                type="number"
-                min={0}
-                value={financeMaxValue}
-                onChange={(event) => setFinanceMaxValue(event.target.value)}
+                type="date"
+                value={commissionRange.end}
+                onChange={(event) => setCommissionRange((prev) => ({ ...prev, end: event.target.value }))}
               />
             </label>
           </div>
-        </section>
-
-        <section className="panel">
-          <div className="section-head">
-            <div>
-              <p className="eyebrow">Pagamentos semanais</p>
-              <h2>Controle de parcelas em aberto</h2>
+          <div className="finance-metrics">
+            <div className="metric-card">
+              <p>Total a pagar</p>
+              <h3>{formatCurrency(commissionReport?.total ?? 0)}</h3>
+              <span>Vendas entregues, líquidas de descontos e devoluções</span>
+            </div>
+            <div className="metric-card">
+              <p>Volume comissionado</p>
+              <h3>
+                {formatCurrency(commissionReport?.sellers.reduce((sum, seller) => sum + seller.volume, 0) ?? 0)}
+              </h3>
+              <span>{commissionReport?.sellers.length ?? 0} vendedores no período</span>
             </div>
-            <span className="chip ghost">{weeklySales.length} planos</span>
           </div>
           <div className="finance-table">
-            {weeklySales.length === 0 && (
-              <p className="empty-state">Nenhuma venda com pagamento semanal no filtro atual.</p>
-            )}
-            {weeklySales.map((item) => {
-              const client = clients.find((clientItem) => clientItem.id === item.sale.clientId)
+            {commissionReport?.sellers.map((seller) => {
+              const expanded = expandedCommissionSeller === seller.userId
               return (
-                <div className="finance-row" key={item.sale.id}>
-                  <div>
-                    <p className="sale-id">#{item.sale.id}</p>
-                    <p className="hero-sub">{client?.name ?? item.sale.clientName ?? 'Cliente removido'}</p>
-                  </div>
-                  <div>
-                    <span>Plano</span>
-                    <strong>{item.weeklyPayment.weeklyPlan?.weeks}x de {formatCurrency(item.weeklyPayment.weeklyPlan?.weeklyAmount ?? 0)}</strong>
-                  </div>
-                  <div>
-                    <span>Recebido</span>
-                    <strong>{formatCurrency(item.totalPaid)}</strong>
-                  </div>
-                  <div>
-                    <span>Faltam</span>
-                    <strong>{formatCurrency(item.pending)}</strong>
-                  </div>
-                  <div className="finance-payments">
-                    <span>Ações</span>
+                <div key={seller.userId}>
+                  <div className="finance-row">
+                    <div>
+                      <p className="sale-id">{seller.name}</p>
+                      <p className="hero-sub">{seller.sales.length} vendas entregues</p>
+                    </div>
+                    <div>
+                      <span>Volume líquido</span>
+                      <strong>{formatCurrency(seller.volume)}</strong>
+                    </div>
+                    <div>
+                      <span>Comissão</span>
+                      <strong>{formatCurrency(seller.commission)}</strong>
+                    </div>
                     <button
-                      className="ghost"
                       type="button"
-                      onClick={() => setWeeklyPlanModal({ saleId: item.sale.id, paymentId: item.weeklyPayment.id })}
+                      className="ghost"
+                      onClick={() => setExpandedCommissionSeller(expanded ? null : seller.userId)}
                     >
-                      Controlar semanas
+                      {expanded ? 'Ocultar vendas' : 'Ver vendas'}
                     </button>
                   </div>
+                  {expanded && (
+                    <div className="commission-lines">
+                      {seller.sales.map((sale) => (
+                        <div key={sale.saleId}>
+                          <p>
+                            <strong>#{sale.publicId}</strong> · entregue em{' '}
+                            {new Date(sale.deliveredAt).toLocaleDateString('pt-BR')} · {formatCurrency(sale.net)} →{' '}
+                            <strong>{formatCurrency(sale.commission)}</strong>
+                          </p>
+                          <ul>
+                            {sale.lines.map((line, index) => (
+                              <li key={`${sale.saleId}-${index}`}>
+                                {line.name}: {formatCurrency(line.net)} × {line.percent}%
+                                {line.rule ? ` (${COMMISSION_RULE_LABELS[line.rule].toLowerCase()})` : ' (sem regra)'} ={' '}
+                                {formatCurrency(line.commission)}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )
             })}
+            {!commissionLoading && !commissionReport?.sellers.length && (
+              <p className="empty-state">Nenhuma venda entregue no período.</p>
+            )}
           </div>
         </section>
 
         <section className="panel">
           <div className="section-head">
             <div>
-              <p className="eyebrow">Saídas financeiras</p>
-              <h2>Controle despesas e custos</h2>
-            </div>
-            <div className="section-actions">
-              {financeExpensesLoading && <span className="chip ghost">Carregando…</span>}
-              {financeExpensesError && <span className="chip alert">{financeExpensesError}</span>}
-              <span className="chip ghost">{financeExpenses.length} registros</span>
+              <p className="eyebrow">Regras</p>
+              <h2>Percentuais de comissão</h2>
             </div>
+            <span className="chip ghost">{commissionRules.length} regras</span>
           </div>
-          <form className="filter-row finance expense-form" onSubmit={handleCreateExpense}>
-            <label>
-              Descrição
-              <input
-                value={expenseForm.description}
-                onChange={(event) => setExpenseForm((prev) => ({ ...prev, description: event.target.value }))}
-                placeholder="Ex: Frete transportadora"
-              />
-            </label>
-            <label>
-              Valor (R$)
-              <input
-                type="number"
-                min={0}
-                step="0.01"
-                value={expenseForm.amount}
-                onChange={(event) => setExpenseForm((prev) => ({ ...prev, amount: event.target.value }))}
-                placeholder="350"
-              />
-            </label>
-            <label>
-              Data
-              <input
-                type="date"
-                value={expenseForm.date}
-                onChange={(event) => setExpenseForm((prev) => ({ ...prev, date: event.target.value }))}
-              />
-            </label>
+          <p className="hero-sub">
+            Cada item usa a regra do produto; sem ela, a do vendedor; sem ela, a maior faixa de volume mensal atingida.
+          </p>
+          <form className="filter-row finance" onSubmit={handleCreateCommissionRule}>
             <label>
-              Pagamento
+              Tipo
               <select
-                value={expenseForm.method}
-                onChange={(event) => setExpenseForm((prev) => ({ ...prev, method: event.target.value as PaymentMethod }))}
+                value={commissionRuleForm.type}
+                onChange={(event) =>
+                  setCommissionRuleForm((prev) => ({ ...prev, type: event.target.value as CommissionRuleType }))
+                }
               >
-                {paymentMethods.map((method) => (
-                  <option key={method} value={method}>
-                    {method}
+                {(Object.keys(COMMISSION_RULE_LABELS) as CommissionRuleType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {COMMISSION_RULE_LABELS[type]}
                   </option>
                 ))}
               </select>
             </label>
-            <label className="note-field">
-              Observação
+            {commissionRuleForm.type === 'produto' ? (
+              <label>
+                Produto
+                <select
+                  value={commissionRuleForm.productId}
+                  onChange={(event) => setCommissionRuleForm((prev) => ({ ...prev, productId: event.target.value }))}
+                >
+                  <option value="">Selecione</option>
+                  {stockItems.map((item) => (
+                    <option key={item.id} value={item.id}>
+                      {item.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ) : (
+              <label>
+                Vendedor
+                <select
+                  value={commissionRuleForm.userId}
+                  onChange={(event) => setCommissionRuleForm((prev) => ({ ...prev, userId: event.target.value }))}
+                >
+                  <option value="">{commissionRuleForm.type === 'faixa' ? 'Todos os vendedores' : 'Selecione'}</option>
+                  {sellerUsers.map((user) => (
+                    <option key={user.id} value={user.id}>
+                      {user.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            {commissionRuleForm.type === 'faixa' && (
+              <label>
+                Volume mínimo no mês (R$)
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={commissionRuleForm.minVolume}
+                  onChange={(event) => setCommissionRuleForm((prev) => ({ ...prev, minVolume: event.target.value }))}
+                />
+              </label>
+            )}
+            <label>
+              Comissão (%)
               <input
-                value={expenseForm.note}
-                onChange={(event) => setExpenseForm((prev) => ({ ...prev, note: event.target.value }))}
-                placeholder="NF, responsável, centro de custo..."
+                type="number"
+                min={0}
+                max={100}
+                step="0.1"
+                value={commissionRuleForm.percent}
+                onChange={(event) => setCommissionRuleForm((prev) => ({ ...prev, percent: event.target.value }))}
               />
             </label>
-            <button className="primary" type="submit" disabled={expenseSubmitLoading}>
-              {expenseSubmitLoading ? 'Registrando...' : 'Registrar saída'}
+            <button className="primary" type="submit" disabled={commissionSaving}>
+              Adicionar regra
             </button>
           </form>
-          {expenseSubmitError && <p className="login-error">{expenseSubmitError}</p>}
           <div className="finance-table">
-            {financeExpenses.map((expense) => (
-              <div className="finance-row expense" key={expense.id}>
+            {commissionRules.map((rule) => (
+              <div className="finance-row" key={rule.id}>
                 <div>
-                  <p className="sale-id">{expense.description}</p>
-                  <p className="hero-sub">{expense.createdBy || 'Registro manual'}</p>
-                </div>
-                <div>
-                  <span>Valor</span>
-                  <strong className="danger">{formatCurrency(expense.amount)}</strong>
-                </div>
-                <div>
-                  <span>Data</span>
-                  <strong>{new Date(expense.date).toLocaleDateString('pt-BR')}</strong>
+                  <span>{COMMISSION_RULE_LABELS[rule.type]}</span>
+                  <strong>{describeRule(rule)}</strong>
                 </div>
                 <div>
-                  <span>Pagamento</span>
-                  <strong>{expense.method}</strong>
-                </div>
-                <div className="finance-payments">
-                  <span>Observações</span>
-                  <p>{expense.note || '—'}</p>
+                  <span>Comissão</span>
+                  <strong>{rule.percent}%</strong>
                 </div>
+                <button type="button" className="ghost danger" onClick={() => handleDeleteCommissionRule(rule.id)}>
+                  Remover
+                </button>
               </div>
             ))}
-            {!financeExpenses.length && !financeExpensesLoading && (
-              <p className="empty-state">Nenhuma saída cadastrada com o filtro atual.</p>
-            )}
+            {!commissionRules.length && <p className="empty-state">Nenhuma regra cadastrada.</p>}
           </div>
         </section>
 
         <section className="panel">
           <div className="section-head">
             <div>
-              <p className="eyebrow">Pedidos filtrados</p>
-              <h2>Detalhes financeiros</h2>
+              <p className="eyebrow">Histórico</p>
+              <h2>Períodos fechados</h2>
             </div>
           </div>
           <div className="finance-table">
-            {paymentFilteredSales.map((sale) => {
-              const client = clients.find((clientItem) => clientItem.id === sale.clientId)
-              const paymentSummary = sale.payments.map((payment) => `${formatPaymentLabel(payment)} · ${formatCurrency(payment.amount)}`).join(' | ')
-              return (
-                <div className="finance-row" key={sale.id}>
-                  <div>
-                    <p className="sale-id">#{sale.id}</p>
-                    <p className="hero-sub">{client?.name ?? sale.clientName ?? 'Cliente removido'}</p>
-                  </div>
-                  <div>
-                    <span>Faturado</span>
-                    <strong>{formatCurrency(sale.value)}</strong>
-                  </div>
-                  <div>
-                    <span>Desconto</span>
-                    <strong>{formatCurrency(sale.discount)}</strong>
-                  </div>
-                  <div>
-                    <span>Data</span>
-                    <strong>{new Date(sale.createdAt).toLocaleDateString('pt-BR')}</strong>
-                  </div>
-                  <div className="finance-payments">
-                    <span>Pagamentos</span>
-                    <p>{paymentSummary}</p>
-                  </div>
+            {commissionPeriods.map((period) => (
+              <div className="finance-row" key={period.id}>
+                <div>
+                  <p className="sale-id">
+                    {new Date(period.start).toLocaleDateString('pt-BR')} a {new Date(period.end).toLocaleDateString('pt-BR')}
+                  </p>
+                  <p className="hero-sub">
+                    Fechado em {new Date(period.closedAt).toLocaleDateString('pt-BR')} por {period.closedByName}
+                  </p>
                 </div>
-              )
-            })}
-            {paymentFilteredSales.length === 0 && <p className="empty-state">Nenhum pedido com os filtros selecionados.</p>}
+                <div>
+                  <span>Total</span>
+                  <strong>{formatCurrency(period.total)}</strong>
+                </div>
+                <div className="finance-payments">
+                  <span>Vendedores</span>
+                  <p>{period.sellers.map((seller) => `${seller.name} · ${formatCurrency(seller.commission)}`).join(' | ') || '—'}</p>
+                </div>
+              </div>
+            ))}
+            {!commissionPeriods.length && <p className="empty-state">Nenhum período fechado ainda.</p>}
           </div>
         </section>
       </div>
@@ -5097,6 +10701,21 @@ const focusInventoryPanel = (productId?: string) => {
                   disabled={!canManageAssistances}
                 />
               </label>
+              <label>
+                Fábrica / fornecedor
+                <select
+                  value={assistanceForm.supplierId}
+                  onChange={(event) => setAssistanceForm((prev) => ({ ...prev, supplierId: event.target.value }))}
+                  disabled={!canManageAssistances}
+                >
+                  <option value="">Fornecedor do produto</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
               <label>
                 Fotos do defeito
                 <input
@@ -5226,6 +10845,12 @@ const focusInventoryPanel = (productId?: string) => {
                       <span>Responsável</span>
                       <strong>{assistance.owner}</strong>
                     </div>
+                    {assistance.supplierName && (
+                      <div>
+                        <span>Fornecedor</span>
+                        <strong>{assistance.supplierName}</strong>
+                      </div>
+                    )}
                   </footer>
                   <div className="assistance-card-actions">
                     <button type="button" className="ghost" onClick={() => setAssistanceModal(assistance)}>
@@ -5267,8 +10892,12 @@ const focusInventoryPanel = (productId?: string) => {
         return renderDeliveries()
       case 'assistencias':
         return renderAssistances()
+      case 'fornecedores':
+        return isAdmin ? renderSuppliers() : renderDashboard()
       case 'financeiro':
         return isAdmin ? renderFinance() : renderDashboard()
+      case 'comissoes':
+        return isAdmin ? renderCommissions() : renderDashboard()
       default:
         return renderDashboard()
     }
@@ -5305,7 +10934,7 @@ const focusInventoryPanel = (productId?: string) => {
     return renderLogin()
   }
 
-  const visibleNavItems = navItems.filter((item) => item.id !== 'financeiro' || isAdmin)
+  const visibleNavItems = navItems.filter((item) => !ADMIN_ONLY_PAGES.includes(item.id) || isAdmin)
 
   return (
     <>
@@ -5581,29 +11210,50 @@ const focusInventoryPanel = (productId?: string) => {
                   const availableQuantity = product ? product.quantity + reservedAmount : null
                   const query = (item.searchName ?? '').toLowerCase()
                   const filteredProducts = query
-                    ? stockItems.filter((stock) => `${stock.name} ${stock.sku}`.toLowerCase().includes(query))
+                    ? stockItems.filter((stock) =>
+                        `${stock.name} ${stock.familyName ?? ''} ${stock.sku}`.toLowerCase().includes(query),
+                      )
                     : stockItems
-                  const suggestions = filteredProducts.slice(0, 6)
+                  // Variações do mesmo produto aparecem uma vez na busca; o tamanho é escolhido depois.
+                  const suggestions = filteredProducts
+                    .filter(
+                      (stock, position, list) =>
+                        !stock.familyId || list.findIndex((other) => other.familyId === stock.familyId) === position,
+                    )
+                    .slice(0, 6)
+                  const familyVariants = product?.familyId
+                    ? stockItems.filter((stock) => stock.familyId === product.familyId)
+                    : []
                   const selectStock = (stock: StockItem) => {
                     updateSaleItemRow(index, {
                       productId: stock.id,
                       unitPrice: stock.price,
                       discount: 0,
-                      searchName: stock.name,
+                      searchName: stock.familyName ?? stock.name,
                       customName: '',
                       isCustom: false,
                     })
                     setActiveProductSearch(null)
                   }
+                  const getSuggestionStock = (stock: StockItem) =>
+                    stock.familyId
+                      ? stockItems.find(
+                          (variant) =>
+                            variant.familyId === stock.familyId && variant.quantity + reservedByEditingSale(variant.id) > 0,
+                        ) ?? stock
+                      : stock
+                  const getSuggestionAvailable = (stock: StockItem) =>
+                    stock.familyId
+                      ? stockItems
+                          .filter((variant) => variant.familyId === stock.familyId)
+                          .reduce((sum, variant) => sum + variant.quantity + reservedByEditingSale(variant.id), 0)
+                      : stock.quantity + reservedByEditingSale(stock.id)
                   const handleProductSearchKeyDown = (event: ReactKeyboardEvent<HTMLInputElement>) => {
                     if (event.key !== 'Enter') return
-                    const firstAvailable = suggestions.find((stock) => {
-                      const suggestionReserved = reservedByEditingSale(stock.id)
-                      return stock.quantity + suggestionReserved > 0
-                    })
+                    const firstAvailable = suggestions.find((stock) => getSuggestionAvailable(stock) > 0)
                     if (!firstAvailable) return
                     event.preventDefault()
-                    selectStock(firstAvailable)
+                    selectStock(getSuggestionStock(firstAvailable))
                   }
                   const handleCustomNameChange = (value: string) => {
                     updateSaleItemRow(index, {
@@ -5653,19 +11303,23 @@ const focusInventoryPanel = (productId?: string) => {
                                 <div className="search-dropdown">
                                   {suggestions.length ? (
                                     suggestions.map((stock) => {
-                                      const suggestionReserved = reservedByEditingSale(stock.id)
-                                      const suggestionAvailable = stock.quantity + suggestionReserved
+                                      const suggestionAvailable = getSuggestionAvailable(stock)
                                       return (
                                         <button
                                           type="button"
                                           key={stock.id}
                                           disabled={suggestionAvailable <= 0}
                                           onMouseDown={(event) => event.preventDefault()}
-                                          onClick={() => selectStock(stock)}
+                                          onClick={() => selectStock(getSuggestionStock(stock))}
                                         >
-                                          <strong>{stock.name}</strong>
+                                          <strong>{stock.familyName ?? stock.name}</strong>
                                           <span>
-                                            {suggestionAvailable} em estoque · SKU {stock.sku}
+                                            {stock.familyId
+                                              ? `${suggestionAvailable} em estoque · ${
+                                                  stockItems.filter((variant) => variant.familyId === stock.familyId)
+                                                    .length
+                                                } variações`
+                                              : `${suggestionAvailable} em estoque · SKU ${stock.sku}`}
                                           </span>
                                         </button>
                                       )
@@ -5680,6 +11334,35 @@ const focusInventoryPanel = (productId?: string) => {
                         </div>
                       </div>
                       <div className="sale-item-fields">
+                        {familyVariants.length > 1 && (
+                          <label>
+                            Tamanho
+                            <select
+                              value={item.productId}
+                              onChange={(event) => {
+                                const variant = familyVariants.find((stock) => stock.id === event.target.value)
+                                if (!variant) return
+                                updateSaleItemRow(index, {
+                                  productId: variant.id,
+                                  unitPrice: variant.price,
+                                  discount: 0,
+                                  searchName: variant.familyName ?? variant.name,
+                                  isCustom: false,
+                                })
+                              }}
+                            >
+                              {familyVariants.map((variant) => (
+                                <option
+                                  key={variant.id}
+                                  value={variant.id}
+                                  disabled={variant.quantity + reservedByEditingSale(variant.id) <= 0 && variant.id !== item.productId}
+                                >
+                                  {getVariantLabel(variant)} · {variant.quantity + reservedByEditingSale(variant.id)} em estoque
+                                </option>
+                              ))}
+                            </select>
+                          </label>
+                        )}
                         <label>
                           Quantidade
                           <input
@@ -5932,6 +11615,26 @@ const focusInventoryPanel = (productId?: string) => {
                   Cancelar
                 </button>
                 {saleModalError && <p className="login-error">{saleModalError}</p>}
+                {!editingSale && (
+                  <>
+                    <label className="quote-validity">
+                      Orçamento válido até
+                      <input
+                        type="date"
+                        value={quoteValidUntil}
+                        onChange={(event) => setQuoteValidUntil(event.target.value)}
+                      />
+                    </label>
+                    <button
+                      type="button"
+                      className="ghost"
+                      onClick={() => submitSaleForm('quote')}
+                      disabled={saleModalLoading || !clients.length || !saleForm.items.length || !paymentBalanced}
+                    >
+                      Salvar como orçamento
+                    </button>
+                  </>
+                )}
                 <button
                   className="primary"
                   type="submit"
@@ -6154,7 +11857,99 @@ const focusInventoryPanel = (productId?: string) => {
                   onChange={(event) => setEditProductForm((prev) => ({ ...prev, factoryCost: event.target.value }))}
                 />
               </label>
+              <label>
+                Categoria
+                <select
+                  value={editProductForm.categoryId}
+                  onChange={(event) => setEditProductForm((prev) => ({ ...prev, categoryId: event.target.value }))}
+                >
+                  <option value="">Sem categoria</option>
+                  {productCategories.map((category) => (
+                    <option key={category.id} value={category.id}>
+                      {category.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Fornecedor
+                <select
+                  value={editProductForm.supplierId}
+                  onChange={(event) => setEditProductForm((prev) => ({ ...prev, supplierId: event.target.value }))}
+                >
+                  <option value="">Sem fornecedor</option>
+                  {suppliers.map((supplier) => (
+                    <option key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Marca / fábrica
+                <input
+                  value={editProductForm.brand}
+                  onChange={(event) => setEditProductForm((prev) => ({ ...prev, brand: event.target.value }))}
+                  placeholder="Ex: Ortobom"
+                />
+              </label>
+              <label>
+                Medidas
+                <input
+                  value={editProductForm.dimensions}
+                  onChange={(event) => setEditProductForm((prev) => ({ ...prev, dimensions: event.target.value }))}
+                  placeholder="Ex: 138 x 188 x 30 cm"
+                />
+              </label>
+              <label>
+                Garantia (meses)
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  value={editProductForm.warrantyMonths}
+                  onChange={(event) =>
+                    setEditProductForm((prev) => ({ ...prev, warrantyMonths: formatDigits(event.target.value) }))
+                  }
+                  placeholder="Ex: 12"
+                />
+              </label>
+              <label>
+                Ponto de reposição
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  value={editProductForm.reorderPoint}
+                  onChange={(event) =>
+                    setEditProductForm((prev) => ({ ...prev, reorderPoint: formatDigits(event.target.value) }))
+                  }
+                  placeholder="Pelo giro de vendas"
+                />
+              </label>
+              <label>
+                Nível alvo
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  value={editProductForm.targetLevel}
+                  onChange={(event) =>
+                    setEditProductForm((prev) => ({ ...prev, targetLevel: formatDigits(event.target.value) }))
+                  }
+                  placeholder="Pelo giro de vendas"
+                />
+              </label>
             </div>
+            <label>
+              Atributos (um por linha, no formato Nome: valor)
+              <textarea
+                rows={3}
+                value={editProductForm.attributes}
+                onChange={(event) => setEditProductForm((prev) => ({ ...prev, attributes: event.target.value }))}
+                placeholder={'Tecido: Malha\nMolas: Ensacadas'}
+              />
+            </label>
             <label className="file-field">
               Foto do produto
               <input type="file" accept="image/*" onChange={handleEditProductImageUpload} />
@@ -6185,7 +11980,7 @@ const focusInventoryPanel = (productId?: string) => {
 
       {weeklyPlanModal &&
         (() => {
-          const sale = sales.find((item) => item.id === weeklyPlanModal.saleId)
+          const sale = findSale(weeklyPlanModal.saleId)
           const client = sale ? clients.find((clientItem) => clientItem.id === sale.clientId) : null
           const payment = sale?.payments.find((item) => item.id === weeklyPlanModal.paymentId)
           const weeklyPlan = payment?.weeklyPlan
@@ -6347,6 +12142,453 @@ const focusInventoryPanel = (productId?: string) => {
           )
         })()}
 
+      {returnForm &&
+        (() => {
+          const { sale } = returnForm
+          const returnableItems = sale.items.filter((item) => item.id && getReturnableQuantity(item) > 0)
+          // Mesmo rateio do servidor: cada unidade leva a sua parte do desconto do item e do desconto do pedido.
+          const itemsTotal = sale.items.reduce((sum, item) => sum + item.quantity * item.unitPrice - item.discount, 0)
+          const orderShare = itemsTotal > 0 ? Math.min(sale.discount, itemsTotal) / itemsTotal : 0
+          const returnedValue = returnableItems.reduce(
+            (sum, item) => {
+              const quantity = returnForm.quantities[item.id!] ?? 0
+              return sum + quantity * (item.unitPrice - item.discount / item.quantity) * (1 - orderShare)
+            },
+            0,
+          )
+          const replacementValue =
+            returnForm.type === 'troca' ? returnForm.replacementQuantity * returnForm.replacementUnitPrice : 0
+          const difference = replacementValue - returnedValue
+          return (
+            <div className="modal-backdrop" onClick={() => setReturnForm(null)}>
+              <div className="modal" onClick={(event) => event.stopPropagation()}>
+                <div className="section-head">
+                  <div>
+                    <p className="eyebrow">Pós-venda</p>
+                    <h2>Troca ou devolução · #{sale.id}</h2>
+                  </div>
+                  <button className="text-button" onClick={() => setReturnForm(null)}>
+                    Fechar
+                  </button>
+                </div>
+                <div className="modal-body">
+                  <div className="filter-pills">
+                    {(
+                      [
+                        { id: 'devolucao', label: 'Devolução' },
+                        { id: 'troca', label: 'Troca' },
+                      ] as const
+                    ).map((option) => (
+                      <button
+                        type="button"
+                        key={option.id}
+                        className={returnForm.type === option.id ? 'active' : ''}
+                        onClick={() => setReturnForm((prev) => (prev ? { ...prev, type: option.id } : prev))}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="delivery-items">
+                    {returnableItems.map((item) => {
+                      const returnable = getReturnableQuantity(item)
+                      const label =
+                        stockItems.find((stock) => stock.id === item.productId)?.name ??
+                        item.customName ??
+                        item.productName ??
+                        'Item personalizado'
+                      return (
+                        <label key={item.id}>
+                          {label} · até {returnable}
+                          <input
+                            type="number"
+                            min={0}
+                            max={returnable}
+                            value={returnForm.quantities[item.id!] ?? 0}
+                            onChange={(event) => {
+                              const value = Math.min(returnable, Math.max(0, Math.floor(Number(event.target.value) || 0)))
+                              setReturnForm((prev) =>
+                                prev ? { ...prev, quantities: { ...prev.quantities, [item.id!]: value } } : prev,
+                              )
+                            }}
+                          />
+                        </label>
+                      )
+                    })}
+                    {returnForm.type === 'troca' && (
+                      <>
+                        <label>
+                          Produto entregue
+                          <select
+                            value={returnForm.replacementProductId}
+                            onChange={(event) => {
+                              const product = stockItems.find((stock) => stock.id === event.target.value)
+                              setReturnForm((prev) =>
+                                prev
+                                  ? {
+                                      ...prev,
+                                      replacementProductId: event.target.value,
+                                      replacementUnitPrice: product?.price ?? prev.replacementUnitPrice,
+                                    }
+                                  : prev,
+                              )
+                            }}
+                          >
+                            <option value="">Selecione</option>
+                            {stockItems.map((stock) => (
+                              <option key={stock.id} value={stock.id} disabled={stock.quantity <= 0}>
+                                {stock.name} · {stock.quantity} em estoque
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                        <label>
+                          Quantidade
+                          <input
+                            type="number"
+                            min={1}
+                            value={returnForm.replacementQuantity}
+                            onChange={(event) =>
+                              setReturnForm((prev) =>
+                                prev
+                                  ? { ...prev, replacementQuantity: Math.max(1, Math.floor(Number(event.target.value) || 1)) }
+                                  : prev,
+                              )
+                            }
+                          />
+                        </label>
+                        <label>
+                          Valor unitário
+                          <NumericFormat
+                            value={returnForm.replacementUnitPrice}
+                            thousandSeparator="."
+                            decimalSeparator=","
+                            prefix="R$ "
+                            decimalScale={2}
+                            fixedDecimalScale
+                            allowNegative={false}
+                            onValueChange={(values) =>
+                              setReturnForm((prev) =>
+                                prev ? { ...prev, replacementUnitPrice: values.floatValue ?? 0 } : prev,
+                              )
+                            }
+                          />
+                        </label>
+                      </>
+                    )}
+                    {Math.abs(difference) > 0.009 && (
+                      <label>
+                        {difference > 0 ? 'Cliente paga' : 'Reembolso'} de {formatCurrency(Math.abs(difference))} via
+                        <select
+                          value={returnForm.method}
+                          onChange={(event) =>
+                            setReturnForm((prev) =>
+                              prev ? { ...prev, method: event.target.value as PaymentMethod } : prev,
+                            )
+                          }
+                        >
+                          {(['PIX', 'Cartão de crédito', 'Cartão de débito', 'Dinheiro'] as const).map((method) => (
+                            <option key={method} value={method}>
+                              {method}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    )}
+                    <label>
+                      Motivo
+                      <input
+                        value={returnForm.reason}
+                        placeholder="Ex.: troca de tamanho"
+                        onChange={(event) =>
+                          setReturnForm((prev) => (prev ? { ...prev, reason: event.target.value } : prev))
+                        }
+                      />
+                    </label>
+                  </div>
+                  <p className="field-note">
+                    Os itens devolvidos voltam para o estoque. O produto da troca sai do estoque na confirmação.
+                  </p>
+                  {returnSubmitError && <p className="login-error">{returnSubmitError}</p>}
+                </div>
+                <div className="modal-actions">
+                  <button className="ghost" type="button" onClick={() => setReturnForm(null)}>
+                    Cancelar
+                  </button>
+                  <button className="primary" type="button" onClick={handleRegisterReturn} disabled={returnSubmitLoading}>
+                    {returnSubmitLoading ? 'Registrando...' : 'Registrar'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )
+        })()}
+
+      {statementModalOpen && statement && (
+        <div className="modal-backdrop" onClick={() => setStatementModalOpen(false)}>
+          <div className="modal receipt-modal" onClick={(event) => event.stopPropagation()}>
+            <div className="receipt-modal-head">
+              <div>
+                <p className="eyebrow">Demonstrativo de resultado</p>
+                <h2>
+                  DRE {String(statement.month).padStart(2, '0')}/{statement.year}
+                </h2>
+              </div>
+              <div className="receipt-head-actions">
+                <button type="button" className="ghost" onClick={() => setStatementModalOpen(false)}>
+                  Fechar
+                </button>
+                <button type="button" className="primary" onClick={handleDownloadStatementPdf}>
+                  Salvar / Imprimir PDF
+                </button>
+              </div>
+            </div>
+            <div className="receipt-body">
+              <div className="receipt-paper" ref={statementRef}>
+                <section className="receipt-copy">
+                  <header className="receipt-copy-head">
+                    <div className="receipt-company">
+                      <p className="receipt-brand">SONHAR CONFORTO</p>
+                      <p>Demonstrativo de resultado do exercício</p>
+                    </div>
+                    <div className="receipt-head-meta">
+                      <p>
+                        Competência:{' '}
+                        {new Date(statement.year, statement.month - 1).toLocaleDateString('pt-BR', {
+                          month: 'long',
+                          year: 'numeric',
+                        })}
+                      </p>
+                      <p>Margem bruta: {statement.grossMarginPercent.toFixed(1).replace('.', ',')}%</p>
+                      <p>Emitido em {new Date().toLocaleDateString('pt-BR')}</p>
+                    </div>
+                  </header>
+                  <table className="receipt-table">
+                    <thead>
+                      <tr>
+                        <th>Conta</th>
+                        <th style={{ width: '120px' }}>
+                          {String(statement.month).padStart(2, '0')}/{statement.year}
+                        </th>
+                        <th style={{ width: '120px' }}>
+                          {String(statement.previousMonth).padStart(2, '0')}/{statement.previousYear}
+                        </th>
+                        <th style={{ width: '120px' }}>Variação</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {statement.lines.map((line) => (
+                        <tr key={line.key}>
+                          <td>{line.kind === 'resultado' ? <strong>{line.label}</strong> : line.label}</td>
+                          <td>{formatCurrency(line.current)}</td>
+                          <td>{formatCurrency(line.previous)}</td>
+                          <td>
+                            {line.changePercent === null ? '—' : `${line.changePercent.toFixed(1).replace('.', ',')}%`}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </section>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {cashReport?.details && (
+        <div className="modal-backdrop" onClick={() => setCashReport(null)}>
+          <div className="modal receipt-modal" onClick={(event) => event.stopPropagation()}>
+            <div className="receipt-modal-head">
+              <div>
+                <p className="eyebrow">Caixa</p>
+                <h2>
+                  {cashReport.status === 'fechado' ? 'Fechamento de caixa' : 'Relatório parcial do caixa'}
+                </h2>
+              </div>
+              <div className="receipt-head-actions">
+                <button type="button" className="ghost" onClick={() => setCashReport(null)}>
+                  Fechar
+                </button>
+                <button type="button" className="primary" onClick={handleDownloadCashReport}>
+                  Salvar / Imprimir PDF
+                </button>
+              </div>
+            </div>
+            <div className="receipt-body">
+              <div className="receipt-paper" ref={cashReportRef}>
+                <section className="receipt-copy">
+                  <header className="receipt-copy-head">
+                    <div className="receipt-company">
+                      <p className="receipt-brand">SONHAR CONFORTO</p>
+                      <p>Relatório de caixa</p>
+                    </div>
+                    <div className="receipt-head-meta">
+                      <p>Abertura: {new Date(cashReport.openedAt).toLocaleString('pt-BR')}</p>
+                      <p>Responsável: {cashReport.openedByName}</p>
+                      <p>
+                        Fechamento:{' '}
+                        {cashReport.closedAt ? new Date(cashReport.closedAt).toLocaleString('pt-BR') : 'Em aberto'}
+                      </p>
+                      {cashReport.closedByName && <p>Fechado por: {cashReport.closedByName}</p>}
+                    </div>
+                  </header>
+                  <table className="receipt-table">
+                    <thead>
+                      <tr>
+                        <th style={{ width: '160px' }}>Data</th>
+                        <th>Lançamento</th>
+                        <th style={{ width: '140px' }}>Valor</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {cashReport.details.payments.map((payment) => (
+                        <tr key={payment.id}>
+                          <td>{new Date(payment.createdAt).toLocaleString('pt-BR')}</td>
+                          <td>
+                            Venda #{payment.publicId} · {payment.clientName}
+                          </td>
+                          <td>{formatCurrency(payment.amount)}</td>
+                        </tr>
+                      ))}
+                      {cashReport.details.movements.map((movement) => (
+                        <tr key={movement.id}>
+                          <td>{new Date(movement.createdAt).toLocaleString('pt-BR')}</td>
+                          <td>
+                            {movement.type === 'sangria' ? 'Sangria' : 'Suprimento'} · {movement.reason}
+                          </td>
+                          <td>
+                            {movement.type === 'sangria' ? '-' : ''}
+                            {formatCurrency(movement.amount)}
+                          </td>
+                        </tr>
+                      ))}
+                      {cashReport.details.expenses.map((expense) => (
+                        <tr key={expense.id}>
+                          <td>{new Date(expense.date).toLocaleDateString('pt-BR')}</td>
+                          <td>Saída · {expense.description}</td>
+                          <td>-{formatCurrency(expense.amount)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr>
+                        <td></td>
+                        <td>Troco inicial</td>
+                        <td>{formatCurrency(cashReport.details.totals.opening)}</td>
+                      </tr>
+                      <tr>
+                        <td></td>
+                        <td>Vendas em dinheiro</td>
+                        <td>{formatCurrency(cashReport.details.totals.sales)}</td>
+                      </tr>
+                      <tr>
+                        <td></td>
+                        <td>Suprimentos</td>
+                        <td>{formatCurrency(cashReport.details.totals.deposits)}</td>
+                      </tr>
+                      <tr>
+                        <td></td>
+                        <td>Saídas</td>
+                        <td>-{formatCurrency(cashReport.details.totals.expenses)}</td>
+                      </tr>
+                      <tr>
+                        <td></td>
+                        <td>Sangrias</td>
+                        <td>-{formatCurrency(cashReport.details.totals.withdrawals)}</td>
+                      </tr>
+                      <tr>
+                        <td></td>
+                        <td>Esperado</td>
+                        <td>{formatCurrency(cashReport.details.totals.expected)}</td>
+                      </tr>
+                      {cashReport.countedAmount !== null && (
+                        <>
+                          <tr>
+                            <td></td>
+                            <td>Contado</td>
+                            <td>{formatCurrency(cashReport.countedAmount)}</td>
+                          </tr>
+                          <tr>
+                            <td></td>
+                            <td>Diferença</td>
+                            <td>{formatCurrency(cashReport.difference ?? 0)}</td>
+                          </tr>
+                        </>
+                      )}
+                    </tfoot>
+                  </table>
+                  {cashReport.note && (
+                    <div className="receipt-block">
+                      <div>
+                        <span className="field-label">Observações</span>
+                        <p>{cashReport.note}</p>
+                      </div>
+                    </div>
+                  )}
+                </section>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {receivableReceipt && (
+        <div className="modal-backdrop" onClick={() => setReceivableReceipt(null)}>
+          <div className="modal" onClick={(event) => event.stopPropagation()}>
+            <div className="section-head">
+              <div>
+                <p className="eyebrow">Contas a receber</p>
+                <h2>Registrar recebimento</h2>
+              </div>
+              <button className="text-button" onClick={() => setReceivableReceipt(null)}>
+                Fechar
+              </button>
+            </div>
+            <div className="modal-body">
+              <p>
+                Pedido <strong>#{receivableReceipt.sale.publicId}</strong> ·{' '}
+                {receivableReceipt.sale.clientName || 'Cliente removido'} · {receivableReceipt.payment.method}
+              </p>
+              <p className="field-note">Em aberto: {formatCurrency(receivableReceipt.payment.open)}</p>
+              <label>
+                Valor recebido
+                <NumericFormat
+                  value={receivableReceipt.amount === 0 ? '' : receivableReceipt.amount}
+                  thousandSeparator="."
+                  decimalSeparator=","
+                  decimalScale={2}
+                  fixedDecimalScale
+                  allowNegative={false}
+                  inputMode="decimal"
+                  placeholder="0,00"
+                  onValueChange={({ floatValue }) =>
+                    setReceivableReceipt((prev) => (prev ? { ...prev, amount: floatValue ?? 0 } : prev))
+                  }
+                />
+              </label>
+              {receivableReceipt.payment.method === 'Semanal na loja' && (
+                <p className="field-note">O valor quita as semanas mais antigas em aberto.</p>
+              )}
+              {receivableReceiptError && <p className="login-error">{receivableReceiptError}</p>}
+            </div>
+            <div className="modal-actions">
+              <button className="ghost" type="button" onClick={() => setReceivableReceipt(null)}>
+                Cancelar
+              </button>
+              <button
+                className="primary"
+                type="button"
+                onClick={handleRegisterReceivable}
+                disabled={receivableReceiptLoading}
+              >
+                {receivableReceiptLoading ? 'Registrando...' : 'Registrar recebimento'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {confirmDeliveryState && (
         <div className="modal-backdrop" onClick={() => setConfirmDeliveryState(null)}>
           <div className="modal" onClick={(event) => event.stopPropagation()}>
@@ -6370,8 +12612,48 @@ const focusInventoryPanel = (productId?: string) => {
                 </>
                 ?
               </p>
+              <div className="delivery-items">
+                {confirmDeliveryState.sale.items
+                  .filter((item) => item.id && getRemainingQuantity(item) > 0)
+                  .map((item) => {
+                    const remaining = getRemainingQuantity(item)
+                    const label =
+                      stockItems.find((stock) => stock.id === item.productId)?.name ??
+                      item.customName ??
+                      item.productName ??
+                      'Item personalizado'
+                    return (
+                      <label key={item.id}>
+                        {label} · faltam {remaining}
+                        <input
+                          type="number"
+                          min={0}
+                          max={remaining}
+                          value={confirmDeliveryState.quantities[item.id!] ?? 0}
+                          onChange={(event) => {
+                            const value = Math.min(remaining, Math.max(0, Math.floor(Number(event.target.value) || 0)))
+                            setConfirmDeliveryState((prev) =>
+                              prev ? { ...prev, quantities: { ...prev.quantities, [item.id!]: value } } : prev,
+                            )
+                          }}
+                        />
+                      </label>
+                    )
+                  })}
+                <label>
+                  Data da entrega
+                  <input
+                    type="date"
+                    value={confirmDeliveryState.deliveredAt}
+                    onChange={(event) =>
+                      setConfirmDeliveryState((prev) => (prev ? { ...prev, deliveredAt: event.target.value } : prev))
+                    }
+                  />
+                </label>
+              </div>
               <p className="field-note">
-                Essa ação não pode ser desfeita e libera o estoque reservado desse pedido.
+                Essa ação não pode ser desfeita e libera o estoque reservado dos itens entregues. Itens não entregues
+                continuam reservados até a próxima entrega.
               </p>
             </div>
             <div className="modal-actions">
@@ -6382,7 +12664,11 @@ const focusInventoryPanel = (productId?: string) => {
                 className="primary"
                 type="button"
                 onClick={() => {
-                  handleMarkDelivered(confirmDeliveryState.sale.id)
+                  handleMarkDelivered(
+                    confirmDeliveryState.sale.id,
+                    confirmDeliveryState.quantities,
+                    confirmDeliveryState.deliveredAt,
+                  )
                   if (confirmDeliveryState.redirect) {
                     setActivePage(confirmDeliveryState.redirect)
                   }
@@ -6442,13 +12728,16 @@ const focusInventoryPanel = (productId?: string) => {
           onClick={() => {
             setReceiptModalOpen(false)
             setReceiptSale(null)
+            setReceiptQuote(null)
           }}
         >
           <div className="modal receipt-modal" onClick={(event) => event.stopPropagation()}>
             <div className="receipt-modal-head">
               <div>
-                <p className="eyebrow">Recibo</p>
-                <h2>Pedido #{receiptSale.id} registrado</h2>
+                <p className="eyebrow">{receiptQuote ? 'Orçamento' : 'Recibo'}</p>
+                <h2>
+                  {receiptQuote ? `Orçamento #${receiptSale.id}` : `Pedido #${receiptSale.id} registrado`}
+                </h2>
               </div>
               <div className="receipt-head-actions">
                 <button
@@ -6457,6 +12746,7 @@ const focusInventoryPanel = (productId?: string) => {
                   onClick={() => {
                     setReceiptModalOpen(false)
                     setReceiptSale(null)
+                    setReceiptQuote(null)
                   }}
                 >
                   Fechar
@@ -6468,8 +12758,32 @@ const focusInventoryPanel = (productId?: string) => {
             </div>
             <div className="receipt-body">
               <div className="receipt-paper" ref={receiptContentRef}>
-                {renderReceiptSections(receiptSale)}
+                {renderReceiptSections(receiptSale, receiptQuote)}
               </div>
+              {!receiptQuote && (
+                <div className="sale-timeline">
+                  <p className="field-label">Histórico do pedido</p>
+                  {saleEventsLoading && <p className="empty-state mini">Carregando histórico...</p>}
+                  {!saleEventsLoading && saleEventsError && <p className="empty-state mini">{saleEventsError}</p>}
+                  {!saleEventsLoading && !saleEventsError && saleEvents.length === 0 && (
+                    <p className="empty-state mini">Nenhum evento registrado.</p>
+                  )}
+                  <ol>
+                    {saleEvents.map((event) => {
+                      const description = describeSaleEvent(event)
+                      return (
+                        <li key={event.id} className={`sale-timeline-item ${event.type}`}>
+                          <strong>{SALE_EVENT_LABELS[event.type] ?? event.type}</strong>
+                          <span>
+                            {new Date(event.createdAt).toLocaleString('pt-BR')} · {event.userName}
+                          </span>
+                          {description && <p>{description}</p>}
+                        </li>
+                      )
+                    })}
+                  </ol>
+                </div>
+              )}
             </div>
           </div>
         </div>